@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import Sidebar from './components/Sidebar';
 import MenuBar from './components/MenuBar';
 import Lexicon from './components/Lexicon';
@@ -15,11 +15,18 @@ import ProjectWizard from './components/ProjectWizard';
 import ConstraintsModal from './components/ConstraintsModal';
 import AboutModal from './components/AboutModal';
 import SettingsModal from './components/SettingsModal';
-import { ViewState, LexiconEntry, SoundChangeRule, ProjectData, AppSettings, MorphologyState, PhonologyConfig, ProjectConstraints, LogEntry, ScriptConfig } from './types';
+import ProjectManager from './components/ProjectManager';
+import HistoryModal from './components/HistoryModal';
+import { ViewState, LexiconEntry, SoundChangeRule, ProjectData, AppSettings, MorphologyState, PhonologyConfig, ProjectConstraints, LogEntry, ScriptConfig, LanguageData, GlossedExample, NotebookDocument } from './types';
+import { createLanguage, mergeDaughterEntries } from './services/languageService';
+import { collectUnusedRecordings, createProject, deleteProject, duplicateProject, getActiveProjectId, listProjects, loadProject, migrateLegacyAutosave, projectRecordingIds, renameProject, saveProject, setActiveProjectId } from './services/projectStoreService';
+import { CURRENT_VERSION, formatSchemaErrors, parseProject } from './services/schemaService';
+import { emptyHistory, jumpToHistory, ProjectHistory, recordState, redoHistory, undoHistory } from './services/historyService';
 import { LanguageProvider, useTranslation, i18n } from './i18n';
 import { PanelLeftOpen, LayoutDashboard, Activity, BookA, Languages, GitBranch, Terminal, FileJson, Feather, BookOpen } from 'lucide-react';
 
-const STORAGE_KEY = 'conlang_studio_autosave';
+// Edits are written once typing pauses for this long
+const AUTOSAVE_DELAY = 500;
 
 const INITIAL_CONSTRAINTS_TEMPLATE: ProjectConstraints = {
   allowDuplicates: true,
@@ -75,9 +82,15 @@ const AppContent: React.FC = () => {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isConstraintsOpen, setIsConstraintsOpen] = useState(false);
   const [isAboutOpen, setIsAboutOpen] = useState(false);
+  const [isProjectsOpen, setIsProjectsOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [history, setHistory] = useState<ProjectHistory>(emptyHistory);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'error'>('saved');
+  const pendingSave = useRef<(() => Promise<void>) | null>(null);
+  const saveTimer = useRef<number | undefined>(undefined);
   const [isLoaded, setIsLoaded] = useState(false);
   const [isMobile, setIsMobile] = useState(window.innerWidth < 1024);
-  const [projectSessionId, setProjectSessionId] = useState<number>(Date.now());
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isScriptMode, setIsScriptMode] = useState(false);
   const [projectName, setProjectName] = useState(t('defaults.project_name'));
@@ -100,13 +113,20 @@ const AppContent: React.FC = () => {
   const [lexicon, setLexicon] = useState<LexiconEntry[]>([]);
   const [grammar, setGrammar] = useState(t('defaults.grammar'));
   const [morphology, setMorphology] = useState<MorphologyState>({ dimensions: [], paradigms: [] });
-  const [phonology, setPhonology] = useState<PhonologyConfig>({ name: t('defaults.phonology_name'), description: '', consonants: [], vowels: [], syllableStructure: '', bannedCombinations: [] });
+  const emptyPhonology = (): PhonologyConfig => ({ name: t('defaults.phonology_name'), description: '', consonants: [], vowels: [], syllableStructure: '', bannedCombinations: [] });
+  const [phonology, setPhonology] = useState<PhonologyConfig>(emptyPhonology);
   const [rules, setRules] = useState<SoundChangeRule[]>([]);
+  const [glossedExamples, setGlossedExamples] = useState<GlossedExample[]>([]);
+  const [notebookDocuments, setNotebookDocuments] = useState<NotebookDocument[]>([]);
   const [constraints, setConstraints] = useState<ProjectConstraints>(INITIAL_CONSTRAINTS_TEMPLATE);
   const [scriptConfig, setScriptConfig] = useState<ScriptConfig>(INITIAL_SCRIPT_CONFIG);
+  // The active language lives in the states above; `languages` holds the whole family
+  const [languages, setLanguages] = useState<LanguageData[]>(() => [createLanguage(t('defaults.project_name'))]);
+  const [activeLanguageId, setActiveLanguageId] = useState<string>(() => languages[0].id);
 
   const [genWordState, setGenWordState] = useState({
-    generated: [], constraints: '', vibe: '', count: 10
+    generated: [], constraints: '', vibe: '', count: 10,
+    engine: 'local', seed: '', weights: '', minSyllables: 1, maxSyllables: 3
   });
 
   // Re-calibración: Zoom Global solo mediante Alt + Rueda del ratón
@@ -145,47 +165,200 @@ const AppContent: React.FC = () => {
     root.style.setProperty('--accent', themeData.accent);
   }, [settings.theme, settings.customTheme]);
 
+  const applyLanguage = (language: Pick<LanguageData, 'lexicon' | 'morphology' | 'phonology' | 'scriptConfig'>) => {
+    // Sections the incoming language leaves out must not keep the previous language's values
+    setLexicon(language.lexicon || []);
+    setMorphology(language.morphology || { dimensions: [], paradigms: [] });
+    setPhonology(language.phonology || emptyPhonology());
+    setScriptConfig(language.scriptConfig || INITIAL_SCRIPT_CONFIG);
+  };
+
   const loadProjectData = (data: ProjectData) => {
-    setProjectSessionId(Date.now());
     if (data.name) setProjectName(data.name);
-    setProjectAuthor(data.author || "Unknown");
+    setProjectAuthor(data.author ?? "Unknown");
     setProjectDescription(data.description || "");
-    if (data.lexicon) setLexicon(data.lexicon);
-    if (data.grammar) setGrammar(data.grammar);
-    if (data.morphology) setMorphology(data.morphology);
-    if (data.phonology) setPhonology(data.phonology);
-    if (data.evolutionRules) setRules(data.evolutionRules);
-    if (data.scriptConfig) {
-      setScriptConfig(data.scriptConfig);
-    } else {
-      setScriptConfig(INITIAL_SCRIPT_CONFIG);
+    setGrammar(data.grammar ?? t('defaults.grammar'));
+    setRules(data.evolutionRules || []);
+    setGlossedExamples(data.glossedExamples || []);
+    setNotebookDocuments(data.notebookDocuments || []);
+    setConstraints({ ...INITIAL_CONSTRAINTS_TEMPLATE, ...(data.constraints || {}) });
+    // Single-language files become a family with one root language
+    const family = data.languages && data.languages.length > 0
+      ? data.languages
+      : [createLanguage(data.name || t('defaults.project_name'), undefined, { lexicon: data.lexicon || [], phonology: data.phonology, morphology: data.morphology || { dimensions: [], paradigms: [] }, scriptConfig: data.scriptConfig })];
+    const active = family.find(l => l.id === data.activeLanguageId) || family[0];
+    setLanguages(family);
+    setActiveLanguageId(active.id);
+    applyLanguage(active);
+  };
+
+  const snapshotActiveLanguage = (): LanguageData => {
+    const meta = languages.find(l => l.id === activeLanguageId) || createLanguage(projectName);
+    return { ...meta, lexicon, morphology, phonology, scriptConfig };
+  };
+
+  const syncedLanguages = useMemo(
+    () => languages.map(l => l.id === activeLanguageId ? { ...l, lexicon, morphology, phonology, scriptConfig } : l),
+    [languages, activeLanguageId, lexicon, morphology, phonology, scriptConfig]
+  );
+
+  const switchLanguage = (id: string) => {
+    if (id === activeLanguageId) return;
+    const target = languages.find(l => l.id === id);
+    if (!target) return;
+    setLanguages(syncedLanguages);
+    setActiveLanguageId(id);
+    applyLanguage(target);
+  };
+
+  // --- Project store ---
+  const flushSave = async () => {
+    window.clearTimeout(saveTimer.current);
+    const save = pendingSave.current;
+    pendingSave.current = null;
+    if (!save) return;
+    setSaveStatus('saving');
+    try { await save(); setSaveStatus('saved'); } catch (e) { console.error("Auto-save failed", e); setSaveStatus('error'); }
+  };
+
+  const activateProject = (id: string, data: ProjectData) => {
+    loadProjectData(data);
+    setHistory(emptyHistory());
+    setProjectId(id);
+    setActiveProjectId(id);
+  };
+
+  const openProject = async (id: string) => {
+    await flushSave();
+    const data = await loadProject(id);
+    if (!data) return;
+    activateProject(id, data);
+    setIsScriptMode(false);
+    setCurrentView('DASHBOARD');
+    setIsProjectsOpen(false);
+  };
+
+  const startNewProject = async (meta: { name: string; author: string; description: string, constraints?: Partial<ProjectConstraints> }) => {
+    await flushSave();
+    const root = createLanguage(meta.name);
+    const fresh: ProjectData = {
+      version: CURRENT_VERSION, name: meta.name, author: meta.author, description: meta.description,
+      lexicon: [], grammar: t('defaults.grammar'), morphology: { dimensions: [], paradigms: [] }, phonology: emptyPhonology(), evolutionRules: [],
+      constraints: { ...INITIAL_CONSTRAINTS_TEMPLATE, ...(meta.constraints || {}) }, scriptConfig: INITIAL_SCRIPT_CONFIG,
+      languages: [{ ...root, phonology: emptyPhonology() }], activeLanguageId: root.id, glossedExamples: [], notebookDocuments: [], lastModified: Date.now()
+    };
+    activateProject(await createProject(fresh), fresh);
+    setIsScriptMode(false);
+    setCurrentView('DASHBOARD');
+  };
+
+  const importProjectFile = (file: File) => {
+    const r = new FileReader();
+    r.onload = (e) => {
+      let raw: unknown;
+      try { raw = JSON.parse(e.target?.result as string); } catch (err: any) { alert(`${t('schema.invalid_file')} ${file.name}\n${err.message}`); return; }
+      const { data, errors } = parseProject(raw);
+      if (!data) { alert(`${t('schema.invalid_file')} ${file.name}\n\n${formatSchemaErrors(errors)}`); return; }
+      createProject({ ...data, name: data.name || file.name.replace(/\.json$/i, '') }).then(openProject).catch(err => alert(`${t('schema.invalid_file')} ${file.name}\n${err.message}`));
+    };
+    r.readAsText(file);
+  };
+
+  const handleDuplicateProject = async (id: string, name: string) => {
+    await flushSave();
+    await duplicateProject(id, name);
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+    await flushSave();
+    await renameProject(id, name);
+    if (id === projectId) setProjectName(name);
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    if (id === projectId) {
+      window.clearTimeout(saveTimer.current);
+      pendingSave.current = null;
     }
-    if (data.constraints) setConstraints({ ...INITIAL_CONSTRAINTS_TEMPLATE, ...data.constraints });
+    // Audio the open project's undo steps still refer to stays
+    const inUse = id === projectId ? [] : [...history.past, ...history.future, ...(history.present ? [history.present] : [])].flatMap(h => projectRecordingIds(h.data));
+    await deleteProject(id, inUse);
+    if (id !== projectId) return;
+    const next = (await listProjects())[0];
+    if (next) await openProject(next.id);
+    else await startNewProject({ name: t('defaults.project_name'), author: t('defaults.author'), description: '' });
   };
 
   useEffect(() => {
-    const savedData = localStorage.getItem(STORAGE_KEY);
-    if (savedData) {
-      try { loadProjectData(JSON.parse(savedData)); } catch (e) { console.error("Hydration failed", e); }
-    }
-    setIsLoaded(true);
+    const hydrate = async () => {
+      try {
+        // A broken autosave must not keep the app from opening a project
+        const migrated = await migrateLegacyAutosave().catch(err => {
+          alert(`${t('schema.legacy_failed')}\n\n${err.message}`);
+          return null;
+        });
+        const projects = await listProjects();
+        const id = [migrated, getActiveProjectId(), projects[0]?.id].find(c => c && projects.some(p => p.id === c));
+        const data = id ? await loadProject(id) : null;
+        if (id && data) activateProject(id, data);
+        else {
+          const initial = getFullProjectData();
+          activateProject(await createProject(initial), initial);
+        }
+        // Before any recording is made, so new audio cannot look unused
+        await collectUnusedRecordings().catch(e => console.error("Recording cleanup failed", e));
+      } catch (e) { console.error("Hydration failed", e); setSaveStatus('error'); }
+      setIsLoaded(true);
+    };
+    hydrate();
+    const flushOnUnload = () => { flushSave(); };
+    window.addEventListener('beforeunload', flushOnUnload);
+    return () => window.removeEventListener('beforeunload', flushOnUnload);
   }, []);
 
   useEffect(() => {
-    if (!isLoaded) return;
-    const projectData: ProjectData = { version: "1.0.0", name: projectName, author: projectAuthor, description: projectDescription, lexicon, grammar, morphology, phonology, evolutionRules: rules, constraints, scriptConfig, lastModified: Date.now() };
-    try { localStorage.setItem(STORAGE_KEY, JSON.stringify(projectData)); } catch (e) { console.error("Auto-save failed", e); }
-  }, [projectName, projectAuthor, projectDescription, lexicon, grammar, morphology, phonology, rules, constraints, scriptConfig, isLoaded]);
+    if (!isLoaded || !projectId) return;
+    const data = getFullProjectData();
+    const id = projectId;
+    pendingSave.current = () => saveProject(id, data);
+    window.clearTimeout(saveTimer.current);
+    saveTimer.current = window.setTimeout(flushSave, AUTOSAVE_DELAY);
+    setHistory(h => recordState(h, data));
+  }, [projectName, projectAuthor, projectDescription, lexicon, grammar, morphology, phonology, rules, glossedExamples, notebookDocuments, constraints, scriptConfig, syncedLanguages, activeLanguageId, isLoaded, projectId]);
+
+  // --- History ---
+  const applyHistory = (next: ProjectHistory) => {
+    if (next === history || !next.present) return;
+    setHistory(next);
+    loadProjectData(next.present.data);
+  };
+  const undo = () => applyHistory(undoHistory(history));
+  const redo = () => applyHistory(redoHistory(history));
+
+  // Text fields keep their own undo; views with local undo (the glyph canvas) handle the keys first
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.defaultPrevented) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+      else if (key === 'y' || (key === 'z' && e.shiftKey)) { e.preventDefault(); redo(); }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const checkOutSnapshot = async (data: ProjectData, snapshotName: string) => {
+    await flushSave();
+    const id = await createProject({ ...data, name: `${data.name} (${snapshotName})` });
+    setIsHistoryOpen(false);
+    await openProject(id);
+  };
 
   const handleWizardSubmit = (data: { name: string; author: string; description: string, constraints?: Partial<ProjectConstraints> }) => {
-    if (wizardMode === 'create' && (typeof window !== 'undefined' && confirm(t('wizard.overwrite_confirm')))) {
-      setIsLoaded(false); localStorage.removeItem(STORAGE_KEY); setProjectSessionId(Date.now());
-      setLexicon([]); setGrammar(t('defaults.grammar')); setMorphology({ dimensions: [], paradigms: [] });
-      setPhonology({ name: t('defaults.phonology_name'), description: '', consonants: [], vowels: [], syllableStructure: '', bannedCombinations: [] });
-      setRules([]); setScriptConfig(INITIAL_SCRIPT_CONFIG); setIsScriptMode(false);
-      setConstraints({ ...INITIAL_CONSTRAINTS_TEMPLATE, ...(data.constraints || {}) });
-      setProjectName(data.name); setProjectAuthor(data.author); setProjectDescription(data.description);
-      setCurrentView('DASHBOARD'); setTimeout(() => { setIsLoaded(true); }, 50);
+    if (wizardMode === 'create') {
+      startNewProject(data).catch(e => { console.error("Project creation failed", e); setSaveStatus('error'); });
     } else if (wizardMode === 'edit') {
       setProjectName(data.name); setProjectAuthor(data.author); setProjectDescription(data.description);
       if (data.constraints) setConstraints(prev => ({ ...prev, ...data.constraints }));
@@ -193,21 +366,43 @@ const AppContent: React.FC = () => {
     setIsWizardOpen(false);
   };
 
-  const getFullProjectData = (): ProjectData => ({ version: "1.0.0", name: projectName, author: projectAuthor, description: projectDescription, lexicon, grammar, morphology, phonology, evolutionRules: rules, constraints, scriptConfig, lastModified: Date.now() });
+  const getFullProjectData = (): ProjectData => ({ version: CURRENT_VERSION, name: projectName, author: projectAuthor, description: projectDescription, lexicon, grammar, morphology, phonology, evolutionRules: rules, constraints, scriptConfig, languages: syncedLanguages, activeLanguageId, glossedExamples, notebookDocuments, lastModified: Date.now() });
+
+  const downloadProject = (data: ProjectData) => {
+    if (typeof window === 'undefined') return;
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+    a.download = `${data.name.toLowerCase().replace(/\s/g, '-')}.json`;
+    a.click();
+  };
+
+  // The rules that produced a daughter are recorded on its branch
+  const handleCommitDaughter = (target: string | null, name: string, daughterEntries: LexiconEntry[]) => {
+    const branchRules = rules.map(r => ({ ...r }));
+    if (target) {
+      setLanguages(prev => prev.map(l => l.id === target ? { ...l, lexicon: mergeDaughterEntries(l.lexicon, daughterEntries), evolutionRules: branchRules } : l));
+    } else {
+      setLanguages(prev => [...prev, createLanguage(name, snapshotActiveLanguage(), { lexicon: daughterEntries, evolutionRules: branchRules })]);
+    }
+  };
+
+  const handleRenameLanguage = (id: string, name: string) => {
+    setLanguages(prev => prev.map(l => l.id === id ? { ...l, name } : l));
+  };
 
   const renderView = () => {
     const commonProps = { scriptConfig, isScriptMode };
     switch (currentView) {
-      case 'DASHBOARD': return <Dashboard entries={lexicon} projectName={projectName} author={projectAuthor} description={projectDescription} setView={setCurrentView} {...commonProps} />;
-      case 'PHONOLOGY': return <PhonologyEditor data={phonology} setData={setPhonology} enableAI={settings.enableAI} />;
-      case 'LEXICON': return <Lexicon entries={lexicon} setEntries={setLexicon} constraints={constraints} enableAI={settings.enableAI} phonology={phonology} genWordState={genWordState} setGenWordState={setGenWordState} jumpToTerm={jumpToTerm} setJumpToTerm={setJumpToTerm} draftEntry={draftEntry} setDraftEntry={setDraftEntry} {...commonProps} />;
-      case 'GRAMMAR': return <GrammarEditor grammar={grammar} setGrammar={setGrammar} morphology={morphology} setMorphology={setMorphology} showLineNumbers={settings.showLineNumbers} {...commonProps} />;
-      case 'GENEVOLVE': return <GenEvolve entries={lexicon} onUpdateEntries={setLexicon} rules={rules} setRules={setRules} {...commonProps} />;
-      case 'CONSOLE': return <ConsoleConfig constraints={constraints} setConstraints={setConstraints} settings={settings} setSettings={setSettings} entries={lexicon} setEntries={setLexicon} history={consoleHistory} setHistory={setConsoleHistory} setProjectName={setProjectName} setProjectDescription={setProjectDescription} setProjectAuthor={setProjectAuthor} setIsSidebarOpen={setIsSidebarOpen} setView={setCurrentView} setJumpToTerm={setJumpToTerm} setDraftEntry={setDraftEntry} author={projectAuthor} {...commonProps} />;
+      case 'DASHBOARD': return <Dashboard entries={lexicon} projectName={projectName} author={projectAuthor} description={projectDescription} setView={setCurrentView} languages={syncedLanguages} activeLanguageId={activeLanguageId} onSwitchLanguage={switchLanguage} onRenameLanguage={handleRenameLanguage} onOpenProjects={() => setIsProjectsOpen(true)} documents={notebookDocuments} glossedExamples={glossedExamples} morphology={morphology} phonology={phonology} bannedSequences={constraints.bannedSequences} {...commonProps} />;
+      case 'PHONOLOGY': return <PhonologyEditor data={phonology} setData={setPhonology} enableAI={settings.enableAI} speech={settings.speech} />;
+      case 'LEXICON': return <Lexicon entries={lexicon} setEntries={setLexicon} constraints={constraints} enableAI={settings.enableAI} phonology={phonology} genWordState={genWordState} setGenWordState={setGenWordState} jumpToTerm={jumpToTerm} setJumpToTerm={setJumpToTerm} draftEntry={draftEntry} setDraftEntry={setDraftEntry} speech={settings.speech} {...commonProps} />;
+      case 'GRAMMAR': return <GrammarEditor grammar={grammar} setGrammar={setGrammar} morphology={morphology} setMorphology={setMorphology} showLineNumbers={settings.showLineNumbers} entries={lexicon} phonology={phonology} bannedSequences={constraints.bannedSequences} enableAI={settings.enableAI} {...commonProps} />;
+      case 'GENEVOLVE': return <GenEvolve entries={lexicon} onUpdateEntries={setLexicon} daughters={syncedLanguages.filter(l => l.parentId === activeLanguageId)} onCommitDaughter={handleCommitDaughter} rules={rules} setRules={setRules} phonology={phonology} {...commonProps} />;
+      case 'CONSOLE': return <ConsoleConfig constraints={constraints} setConstraints={setConstraints} settings={settings} setSettings={setSettings} entries={lexicon} setEntries={setLexicon} history={consoleHistory} setHistory={setConsoleHistory} setProjectName={setProjectName} setProjectDescription={setProjectDescription} setProjectAuthor={setProjectAuthor} setIsSidebarOpen={setIsSidebarOpen} setView={setCurrentView} setJumpToTerm={setJumpToTerm} setDraftEntry={setDraftEntry} author={projectAuthor} phonology={phonology} {...commonProps} />;
       case 'SCRIPT': return <ScriptEditor scriptConfig={scriptConfig} setScriptConfig={setScriptConfig} constraints={constraints} />;
-      case 'NOTEBOOK': return <Notebook {...commonProps} />;
+      case 'NOTEBOOK': return <Notebook documents={notebookDocuments} setDocuments={setNotebookDocuments} examples={glossedExamples} setExamples={setGlossedExamples} entries={lexicon} morphology={morphology} phonology={phonology} bannedSequences={constraints.bannedSequences} setView={setCurrentView} setDraftEntry={setDraftEntry} {...commonProps} />;
       case 'SOURCE': return <SourceView data={getFullProjectData()} onApply={(data) => { loadProjectData(data); alert('Project state synced.'); }} />;
-      default: return <Dashboard entries={lexicon} projectName={projectName} author={projectAuthor} description={projectDescription} setView={setCurrentView} {...commonProps} />;
+      default: return <Dashboard entries={lexicon} projectName={projectName} author={projectAuthor} description={projectDescription} setView={setCurrentView} languages={syncedLanguages} activeLanguageId={activeLanguageId} onSwitchLanguage={switchLanguage} onRenameLanguage={handleRenameLanguage} onOpenProjects={() => setIsProjectsOpen(true)} documents={notebookDocuments} glossedExamples={glossedExamples} morphology={morphology} phonology={phonology} bannedSequences={constraints.bannedSequences} {...commonProps} />;
     }
   };
 
@@ -215,12 +410,12 @@ const AppContent: React.FC = () => {
 
   return (
     <div className="flex flex-col h-screen w-screen bg-[var(--bg-main)] text-[var(--text-1)] font-sans overflow-hidden transition-colors duration-200">
-      <MenuBar onNewProject={() => { setWizardMode('create'); setIsWizardOpen(true); }} onSaveProject={() => { if (typeof window !== 'undefined') { const a = document.createElement('a'); a.href = URL.createObjectURL(new Blob([JSON.stringify(getFullProjectData(), null, 2)], { type: 'application/json' })); a.download = `${projectName.toLowerCase().replace(/\s/g, '-')}.json`; a.click(); } }} onOpenProject={(file) => { const r = new FileReader(); r.onload = (e) => loadProjectData(JSON.parse(e.target?.result as string)); r.readAsText(file); }} onOpenSettings={() => setIsSettingsOpen(true)} onOpenConstraints={() => setIsConstraintsOpen(true)} onZoomIn={() => setZoomLevel(p => Math.min(p + 10, 150))} onZoomOut={() => setZoomLevel(p => Math.max(p - 10, 50))} onToggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)} settings={settings} isScriptMode={isScriptMode} onToggleScriptMode={() => setIsScriptMode(!isScriptMode)} onOpenAbout={() => setIsAboutOpen(true)} />
+      <MenuBar onNewProject={() => { setWizardMode('create'); setIsWizardOpen(true); }} onSaveProject={() => downloadProject(getFullProjectData())} onOpenProject={importProjectFile} onOpenProjects={() => setIsProjectsOpen(true)} onUndo={undo} onRedo={redo} canUndo={history.past.length > 0} canRedo={history.future.length > 0} onOpenHistory={() => setIsHistoryOpen(true)} onOpenSettings={() => setIsSettingsOpen(true)} onOpenConstraints={() => setIsConstraintsOpen(true)} onZoomIn={() => setZoomLevel(p => Math.min(p + 10, 150))} onZoomOut={() => setZoomLevel(p => Math.max(p - 10, 50))} onToggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)} settings={settings} isScriptMode={isScriptMode} onToggleScriptMode={() => setIsScriptMode(!isScriptMode)} onOpenAbout={() => setIsAboutOpen(true)} />
       <div className="flex flex-1 overflow-hidden relative">
         {isMobile && isSidebarOpen && <div className="absolute inset-0 bg-black/50 z-30 backdrop-blur-sm" onClick={() => setIsSidebarOpen(false)} />}
         {isSidebarOpen ? (
           <div className={`flex-shrink-0 bg-[var(--bg-panel)] w-64 border-e border-neutral-700 transition-all h-full ${isMobile ? 'absolute z-40 shadow-2xl' : 'relative'}`}>
-            <Sidebar currentView={currentView} setView={setCurrentView} onOpenProjectSettings={() => { setWizardMode('edit'); setIsWizardOpen(true); }} onToggleSidebar={() => setIsSidebarOpen(false)} />
+            <Sidebar currentView={currentView} setView={setCurrentView} languages={syncedLanguages} activeLanguageId={activeLanguageId} onSwitchLanguage={switchLanguage} onOpenProjectSettings={() => { setWizardMode('edit'); setIsWizardOpen(true); }} onToggleSidebar={() => setIsSidebarOpen(false)} />
           </div>
         ) : (
           <div className="flex-shrink-0 bg-[var(--bg-panel)] w-12 border-e border-neutral-700 flex flex-col items-center py-2 gap-1.5 z-20 overflow-y-auto no-scrollbar">
@@ -232,7 +427,9 @@ const AppContent: React.FC = () => {
         <main className="flex-1 overflow-auto bg-[var(--bg-main)] relative w-full" style={{ zoom: zoomLevel / 100 }}>{renderView()}</main>
       </div>
       <footer className="h-6 bg-[var(--bg-panel)] border-t border-neutral-700 flex items-center px-4 text-xs text-[var(--text-2)] gap-4 shrink-0 z-50 relative">
-        <span className="flex items-center gap-1 text-emerald-500 font-bold"><span className="w-2 h-2 rounded-full bg-emerald-500"></span>Auto-Saved</span>
+        {saveStatus === 'error'
+          ? <span className="flex items-center gap-1 text-red-400 font-bold"><span className="w-2 h-2 rounded-full bg-red-400"></span>{t('projects.save_failed')}</span>
+          : <span className="flex items-center gap-1 text-emerald-500 font-bold"><span className={`w-2 h-2 rounded-full bg-emerald-500 ${saveStatus === 'saving' ? 'animate-pulse' : ''}`}></span>Auto-Saved</span>}
         <span className="text-neutral-400">{projectName}</span>
         <span className="text-neutral-500/80 font-mono text-[11px]">v1.0.0</span>
         <span className="ml-auto">Ln 1, Col 1</span>
@@ -243,6 +440,8 @@ const AppContent: React.FC = () => {
       <ConstraintsModal isOpen={isConstraintsOpen} onClose={() => setIsConstraintsOpen(false)} constraints={constraints} onUpdateConstraints={setConstraints} {...{ scriptConfig, isScriptMode }} />
       <ProjectWizard isOpen={isWizardOpen} mode={wizardMode} initialData={{ name: wizardMode === 'create' ? '' : projectName, author: wizardMode === 'create' ? '' : projectAuthor, description: wizardMode === 'create' ? '' : projectDescription }} onClose={() => setIsWizardOpen(false)} onSubmit={handleWizardSubmit} />
       <AboutModal isOpen={isAboutOpen} onClose={() => setIsAboutOpen(false)} />
+      <ProjectManager isOpen={isProjectsOpen} onClose={() => setIsProjectsOpen(false)} activeProjectId={projectId} onOpen={(id) => { openProject(id).catch(e => console.error("Open failed", e)); }} onNew={() => { setIsProjectsOpen(false); setWizardMode('create'); setIsWizardOpen(true); }} onDuplicate={handleDuplicateProject} onRename={handleRenameProject} onDelete={handleDeleteProject} />
+      <HistoryModal isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} history={history} onJump={(index) => applyHistory(jumpToHistory(history, index))} projectId={projectId} getCurrentData={getFullProjectData} onRestore={(data) => { loadProjectData(data); setIsHistoryOpen(false); }} onCheckOut={checkOutSnapshot} />
     </div>
   );
 };
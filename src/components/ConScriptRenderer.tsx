@@ -1,6 +1,8 @@
 
 import React from 'react';
-import { ScriptConfig } from '../types';
+import { ScriptConfig, ScriptGlyph } from '../types';
+import { markOffset, shapeText } from '../services/scriptShapingService';
+import { CANVAS_TO_EM, getScriptMetrics, glyphLayout, kerningValue } from '../services/scriptMetricsService';
 
 interface ConScriptRendererProps {
     text: string;
@@ -9,16 +11,43 @@ interface ConScriptRendererProps {
     scale?: number;
 }
 
+export const renderStrokes = (glyph: ScriptGlyph) => glyph.strokes?.map((s, si) => (
+    s.visible && (
+        s.type === 'image' ? (
+            <image 
+                key={si} 
+                href={s.imageUrl} 
+                x={s.x} 
+                y={s.y} 
+                width={s.width} 
+                height={s.height} 
+                opacity={s.opacity || 1} 
+            />
+        ) : s.fill ? (
+            <path key={si} d={s.d} fill={s.color || 'currentColor'} fillRule={s.fill} />
+        ) : (
+            <path 
+                key={si}
+                d={s.d}
+                stroke={s.color || 'currentColor'} 
+                strokeWidth={`${s.strokeWidth || 15}px`}
+                strokeLinecap={s.cap || 'round'}
+                strokeLinejoin="round"
+            />
+        )
+    )
+));
+
 export const ConScriptText: React.FC<ConScriptRendererProps> = ({ text, scriptConfig, className, scale = 1 }) => {
     if (!scriptConfig) return <span className={className}>{text}</span>;
 
-    const chars = text.split('');
+    const clusters = shapeText(text, scriptConfig);
     const CANVAS_SIZE = 400; 
 
     const isVertical = scriptConfig.direction === 'ttb';
     const cssDirection = isVertical ? undefined : (scriptConfig.direction as 'ltr' | 'rtl');
     const writingMode = isVertical ? 'vertical-rl' : undefined;
-    const isProportional = scriptConfig.spacingMode === 'proportional';
+    const { baseline } = getScriptMetrics(scriptConfig);
 
     return (
         <span 
@@ -30,58 +59,38 @@ export const ConScriptText: React.FC<ConScriptRendererProps> = ({ text, scriptCo
             }}
             title={text}
         >
-            {chars.map((char, idx) => {
-                const glyph = scriptConfig.glyphs.find(g => g.char === char || g.pua === char);
+            {clusters.map((cluster, idx) => {
+                const glyph = cluster.glyph;
                 
-                if (char === ' ') return <span key={idx} className="inline-block w-[0.25em] h-[1em]"></span>;
+                if (cluster.isSpace) return <span key={idx} className="inline-block w-[0.25em] h-[1em]"></span>;
 
                 if (glyph) {
-                    // Cálculo de ancho dinámico para espaciado proporcional
-                    const glyphWidth = isProportional && glyph.viewWidth 
-                        ? (glyph.viewWidth / CANVAS_SIZE) 
-                        : 0.75; // Por defecto o mono
+                    // Avance y sangrías del glifo; el viewBox tiene la misma proporción que la caja
+                    const { advance, offsetX } = glyphLayout(glyph, scriptConfig);
+                    const width = Math.max(advance, 1);
+                    const nextGlyph = clusters[idx + 1]?.glyph;
+                    const kern = nextGlyph ? kerningValue(scriptConfig, glyph.char, nextGlyph.char) : 0;
 
                     return (
                         <svg 
                             key={idx}
-                            viewBox={`0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}`}
+                            viewBox={`${-offsetX} 0 ${width} ${CANVAS_SIZE}`}
                             className="inline-block overflow-visible"
                             style={{ 
-                                height: '0.75em', 
-                                width: `${glyphWidth}em`, 
+                                height: `${CANVAS_SIZE * CANVAS_TO_EM}em`, 
+                                width: `${width * CANVAS_TO_EM}em`, 
                                 fill: 'none', 
-                                verticalAlign: '-0.12em' 
+                                verticalAlign: `${-(CANVAS_SIZE - baseline) * CANVAS_TO_EM}em`,
+                                marginInlineEnd: kern ? `${kern * CANVAS_TO_EM}em` : undefined
                             }}
                             preserveAspectRatio="xMinYMid meet"
                             aria-hidden="true"
                         >
-                            {glyph.strokes?.map((s, si) => (
-                                s.visible && (
-                                    s.type === 'image' ? (
-                                        <image 
-                                            key={si} 
-                                            href={s.imageUrl} 
-                                            x={s.x} 
-                                            y={s.y} 
-                                            width={s.width} 
-                                            height={s.height} 
-                                            opacity={s.opacity || 1} 
-                                        />
-                                    ) : (
-                                        <path 
-                                            key={si}
-                                            d={s.d}
-                                            stroke={s.color || 'currentColor'} 
-                                            strokeWidth={`${s.strokeWidth || 15}px`}
-                                            strokeLinecap={s.cap || 'round'}
-                                            strokeLinejoin="round"
-                                        />
-                                    )
-                                )
-                            ))}
-                            {glyph.imageUrl && !glyph.strokes?.some(s => s.type === 'image') && (
-                                <image href={glyph.imageUrl} x="0" y="0" width={CANVAS_SIZE} height={CANVAS_SIZE} preserveAspectRatio="xMidYMid meet" opacity="0.8" />
-                            )}
+                            {renderStrokes(glyph)}
+                            {cluster.marks.map((mark, mi) => {
+                                const offset = markOffset(glyph, mark);
+                                return <g key={`mark-${mi}`} transform={`translate(${offset.x} ${offset.y})`}>{renderStrokes(mark)}</g>;
+                            })}
                         </svg>
                     );
                 }
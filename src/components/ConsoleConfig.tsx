@@ -1,8 +1,9 @@
 import { Terminal, ArrowRight, Zap, ShieldAlert, CheckCircle2, AlertTriangle } from 'lucide-react';
 import React, { useState, useEffect, useRef } from 'react';
-import { ProjectConstraints, AppSettings, LexiconEntry, LogEntry, ViewState, POS_SUGGESTIONS, ScriptConfig } from '../types';
+import { ProjectConstraints, AppSettings, LexiconEntry, LogEntry, ViewState, POS_SUGGESTIONS, ScriptConfig, PhonologyConfig } from '../types';
 import { useTranslation } from '../i18n';
 import { isApiKeySet, processCommandAI, repairLexicon } from '../services/geminiService';
+import { compileOrthography, findIpaMismatches } from '../services/orthographyService';
 
 const calculateSimilarity = (s1: string, s2: string): number => {
     const longer = s1.length > s2.length ? s1 : s2;
@@ -161,6 +162,7 @@ interface ConsoleConfigProps {
     scriptConfig?: ScriptConfig;
     isScriptMode?: boolean;
     author?: string;
+    phonology?: PhonologyConfig;
 }
 
 const TERMINAL_HEADER = `
@@ -174,7 +176,7 @@ const TERMINAL_HEADER = `
 
 const ConsoleConfig: React.FC<ConsoleConfigProps> = ({
     constraints, setConstraints, settings, setSettings, entries, setEntries, history, setHistory,
-    setProjectName, setProjectDescription, setProjectAuthor, setIsSidebarOpen, setView, setJumpToTerm, setDraftEntry, scriptConfig, isScriptMode = false, author = 'user'
+    setProjectName, setProjectDescription, setProjectAuthor, setIsSidebarOpen, setView, setJumpToTerm, setDraftEntry, scriptConfig, isScriptMode = false, author = 'user', phonology
 }) => {
     const { t } = useTranslation();
     const [input, setInput] = useState('');
@@ -247,9 +249,31 @@ const ConsoleConfig: React.FC<ConsoleConfigProps> = ({
                         ));
                     } else throw new Error(result.message || 'Fallo en la pipeline de IA.');
                     break;
+                case 'DERIVE-IPA': {
+                    const orthography = compileOrthography(phonology?.orthography);
+                    if (orthography.rules.length === 0) throw new Error(t('console.no_orthography'));
+                    const mismatches = findIpaMismatches(entries, orthography);
+                    if (mismatches.length === 0) {
+                        addLog('success', t('console.ipa_consistent'));
+                        break;
+                    }
+                    addLog('info', `${mismatches.length} ${t('console.ipa_mismatches')}`, (
+                        <RepairReviewTable repairs={mismatches.map(m => ({ id: m.entry.id, word: m.entry.word, ipa: m.derived }))} originalEntries={entries} t={t}
+                            onCommit={(derivedList) => {
+                                setEntries(prev => prev.map(entry => {
+                                    const rep = derivedList.find(r => r.id === entry.id);
+                                    return rep ? { ...entry, word: rep.word, ipa: rep.ipa } : entry;
+                                }));
+                            }}
+                            onCancel={() => addLog('info', t('console.ipa_cancelled'))}
+                        />
+                    ));
+                    break;
+                }
                 case 'HELP':
                     addLog('output', t('console.available_commands') || 'AVAILABLE COMMANDS:');
                     addLog('output', 'FIX-NON-CANON - ' + (t('console.help_fix') || 'Repairs words that violate the project rules.'));
+                    addLog('output', 'DERIVE-IPA - ' + t('console.help_derive_ipa'));
                     addLog('output', 'CLEAR - ' + (t('console.help_clear') || 'Clears the terminal history.'));
                     addLog('output', 'ABOUT - ' + (t('console.help_about') || 'Shows information about the application.'));
                     break;
@@ -1,7 +1,9 @@
-import React from 'react';
-import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
-import { BookA, Languages, ArrowRight, FileText, Feather } from 'lucide-react';
-import { LexiconEntry, ViewState, ScriptConfig } from '../types';
+import React, { useMemo } from 'react';
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, BarChart, Bar, XAxis, YAxis } from 'recharts';
+import { BookA, Languages, ArrowRight, FileText, Feather, Network, GitBranch, Edit, BarChart3, Library } from 'lucide-react';
+import { LexiconEntry, ViewState, ScriptConfig, LanguageData, NotebookDocument, GlossedExample, MorphologyState, PhonologyConfig } from '../types';
+import { buildLanguageTree, LanguageTreeNode } from '../services/languageService';
+import { analyzeCorpus, collectCorpusTexts, FrequencyItem } from '../services/corpusService';
 import { useTranslation } from '../i18n';
 import { ConScriptText } from './ConScriptRenderer';
 
@@ -13,9 +15,21 @@ interface DashboardProps {
   setView?: (view: ViewState) => void;
   scriptConfig?: ScriptConfig;
   isScriptMode?: boolean; // NEW PROP
+  languages?: LanguageData[];
+  activeLanguageId?: string;
+  onSwitchLanguage?: (id: string) => void;
+  onRenameLanguage?: (id: string, name: string) => void;
+  onOpenProjects?: () => void;
+  documents?: NotebookDocument[];
+  glossedExamples?: GlossedExample[];
+  morphology?: MorphologyState;
+  phonology?: PhonologyConfig;
+  bannedSequences?: string[];
 }
 
 const COLORS = ['#007acc', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#6366f1'];
+const TOP_ITEMS = 15;
+const TOOLTIP_STYLE = { backgroundColor: 'var(--bg-panel)', borderColor: 'var(--border-dim)', color: 'var(--text-1)', borderRadius: '8px' };
 
 const Dashboard: React.FC<DashboardProps> = ({ 
   entries, 
@@ -24,7 +38,17 @@ const Dashboard: React.FC<DashboardProps> = ({
   description,
   setView,
   scriptConfig,
-  isScriptMode = false
+  isScriptMode = false,
+  languages = [],
+  activeLanguageId,
+  onSwitchLanguage,
+  onRenameLanguage,
+  onOpenProjects,
+  documents = [],
+  glossedExamples = [],
+  morphology,
+  phonology,
+  bannedSequences
 }) => {
   const { t } = useTranslation();
   
@@ -50,17 +74,99 @@ const Dashboard: React.FC<DashboardProps> = ({
   
   const hasScript = scriptConfig && scriptConfig.glyphs.length > 0;
 
+  const corpus = useMemo(() => {
+    const texts = collectCorpusTexts(documents, glossedExamples);
+    if (texts.length === 0) return null;
+    const morph = morphology || { dimensions: [], paradigms: [] };
+    return analyzeCorpus(texts, entries, morph, phonology, { boundaryRules: morph.boundaryRules, phonology, bannedSequences });
+  }, [documents, glossedExamples, entries, morphology, phonology, bannedSequences]);
+  const familyTree = buildLanguageTree(languages);
+
+  const renameLanguage = (language: LanguageData) => {
+    const name = prompt(t('dashboard.rename_language'), language.name);
+    if (name && name.trim()) onRenameLanguage?.(language.id, name.trim());
+  };
+
+  const renderFrequencyChart = (title: string, data: FrequencyItem[], color: string) => (
+    <div className="h-[260px] flex flex-col">
+      <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{title}</h4>
+      {data.length > 0 ? (
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data.slice(0, TOP_ITEMS)} layout="vertical" margin={{ left: 8, right: 8 }}>
+            <XAxis type="number" allowDecimals={false} stroke="#64748b" fontSize={10} />
+            <YAxis type="category" dataKey="label" stroke="#94a3b8" fontSize={11} width={60} interval={0} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} itemStyle={{ color: 'var(--text-2)' }} cursor={{ fill: 'rgba(148, 163, 184, 0.1)' }} />
+            <Bar dataKey="count" fill={color} radius={[0, 3, 3, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      ) : (
+        <div className="flex-1 flex items-center justify-center text-slate-600 text-sm">{t('dashboard.no_data')}</div>
+      )}
+    </div>
+  );
+
+  const renderLanguageNode = (node: LanguageTreeNode): React.ReactNode => {
+    const { language } = node;
+    const isActive = language.id === activeLanguageId;
+    return (
+      <li key={language.id}>
+        <div className={`flex items-center gap-3 px-3 py-2 rounded-md border group ${isActive ? 'bg-blue-900/20 border-blue-700/50' : 'border-transparent hover:bg-slate-700/50'}`}>
+          {node.depth > 0 && <GitBranch size={14} className="text-slate-600 shrink-0" />}
+          <button onClick={() => onSwitchLanguage?.(language.id)} className={`font-bold text-left ${isActive ? 'text-blue-300' : 'text-slate-200 hover:text-white'}`}>
+            {language.name}
+          </button>
+          <span className="text-[10px] font-mono text-slate-500">{language.lexicon.length} {t('lexicon.entries_count')}</span>
+          {language.parentId && (
+            <span className="text-[10px] font-mono text-amber-500/70">{language.evolutionRules.length} {t('dashboard.branch_rules')}</span>
+          )}
+          {isActive && (
+            <span className="text-[10px] uppercase font-bold bg-blue-950/50 text-blue-400 px-1.5 py-0.5 rounded border border-blue-900">{t('dashboard.active_language')}</span>
+          )}
+          {onRenameLanguage && (
+            <button onClick={() => renameLanguage(language)} className="ml-auto text-slate-600 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity" title={t('lexicon.edit')}>
+              <Edit size={12} />
+            </button>
+          )}
+        </div>
+        {node.children.length > 0 && (
+          <ul className="ms-5 mt-1 space-y-1 border-s border-slate-700 ps-2">
+            {node.children.map(renderLanguageNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
   return (
     <div className="p-8 max-w-7xl mx-auto space-y-8 h-full overflow-y-auto">
       <div className="flex justify-between items-start border-b border-slate-700 pb-6">
         <div>
-            <h2 className="text-3xl font-bold text-slate-100 tracking-tight">{projectName}</h2>
+            <h2 className="text-3xl font-bold text-slate-100 tracking-tight flex items-center gap-3">
+              {projectName}
+              {onOpenProjects && (
+                <button onClick={onOpenProjects} className="text-xs font-medium flex items-center gap-1.5 text-slate-400 hover:text-blue-300 border border-slate-700 hover:border-blue-500 rounded px-2 py-1 transition-colors" title={t('projects.title')}>
+                  <Library size={14} /> {t('projects.switch')}
+                </button>
+              )}
+            </h2>
             <p className="text-slate-400 text-sm mt-1">{t('dashboard.by')} <span className="text-blue-400 font-medium">{author}</span></p>
             {description && <p className="text-slate-500 text-sm mt-2 max-w-2xl">{description}</p>}
         </div>
-        <div className="text-right bg-slate-800 p-4 rounded-lg border border-slate-700 min-w-[150px]">
-             <div className="text-3xl font-bold text-slate-50 text-center">{totalWords}</div>
-             <div className="text-[10px] text-slate-500 uppercase tracking-wider font-bold text-center mt-1">{t('dashboard.lexiconsize')}</div>
+        <div className="flex gap-3">
+          {corpus && [
+            { value: corpus.tokens, label: t('dashboard.corpus_tokens') },
+            { value: corpus.types, label: t('dashboard.corpus_types') },
+            { value: `${Math.round(corpus.coverage * 100)}%`, label: t('dashboard.corpus_coverage') }
+          ].map(card => (
+            <div key={card.label} className="text-right bg-slate-800 p-4 rounded-lg border border-slate-700 min-w-[110px]">
+              <div className="text-3xl font-bold text-slate-300 text-center">{card.value}</div>
+              <div className="text-[10px] text-slate-500 uppercase tracking-wider font-bold text-center mt-1">{card.label}</div>
+            </div>
+          ))}
+          <div className="text-right bg-slate-800 p-4 rounded-lg border border-slate-700 min-w-[150px]">
+               <div className="text-3xl font-bold text-slate-50 text-center">{totalWords}</div>
+               <div className="text-[10px] text-slate-500 uppercase tracking-wider font-bold text-center mt-1">{t('dashboard.lexiconsize')}</div>
+          </div>
         </div>
       </div>
 
@@ -95,6 +201,60 @@ const Dashboard: React.FC<DashboardProps> = ({
         </button>
       </div>
 
+      {/* Language Family Tree */}
+      {familyTree.length > 0 && (
+        <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-md">
+          <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2 mb-4">
+            <Network size={16} />
+            {t('dashboard.family_tree')}
+          </h3>
+          <ul className="space-y-1">
+            {familyTree.map(renderLanguageNode)}
+          </ul>
+        </div>
+      )}
+
+      {/* Corpus Analysis */}
+      <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-md">
+        <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2 mb-4">
+          <BarChart3 size={16} />
+          {t('dashboard.corpus')}
+          {corpus && <span className="text-[10px] font-mono normal-case text-slate-500">{corpus.texts} {t('dashboard.corpus_texts')}</span>}
+        </h3>
+        {corpus ? (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {renderFrequencyChart(t('dashboard.corpus_top_words'), corpus.entryFrequency.map(f => ({ label: f.entry.word, count: f.count })), COLORS[0])}
+              {renderFrequencyChart(t('dashboard.corpus_phonemes'), corpus.phonemes, COLORS[1])}
+              {renderFrequencyChart(t('dashboard.corpus_bigrams'), corpus.bigrams, COLORS[2])}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{t('dashboard.corpus_oov')} ({corpus.outOfVocabulary.length})</h4>
+                <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto custom-scrollbar">
+                  {corpus.outOfVocabulary.map(item => (
+                    <span key={item.label} className="px-2 py-0.5 text-xs font-mono rounded bg-red-900/20 text-red-300 border border-red-900/40">{item.label} <span className="text-red-500/60">×{item.count}</span></span>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{t('dashboard.corpus_unused')} ({corpus.unusedEntries.length})</h4>
+                <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto custom-scrollbar">
+                  {corpus.unusedEntries.map(entry => (
+                    <span key={entry.id} className="px-2 py-0.5 text-xs font-mono rounded bg-slate-900 text-slate-400 border border-slate-700">{entry.word}</span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-6 text-slate-500 text-sm">
+            {t('dashboard.corpus_empty')}
+            <button onClick={() => setView?.('NOTEBOOK')} className="block mx-auto text-blue-500 hover:text-blue-400 text-sm mt-2 font-medium">{t('dashboard.corpus_open_notebook')}</button>
+          </div>
+        )}
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         
         {/* Recent Activity - RESTRICTED HEIGHT */}
@@ -165,7 +325,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                         ))}
                     </Pie>
                     <Tooltip 
-                        contentStyle={{ backgroundColor: 'var(--bg-panel)', borderColor: 'var(--border-dim)', color: 'var(--text-1)', borderRadius: '8px' }} 
+                        contentStyle={TOOLTIP_STYLE} 
                         itemStyle={{ color: 'var(--text-2)' }}
                     />
                     </PieChart>
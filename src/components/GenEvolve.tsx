@@ -1,23 +1,30 @@
 import React, { useState } from 'react';
-import { GitBranch, ArrowRight, PlayCircle, Save, Feather } from 'lucide-react';
-import { LexiconEntry, SoundChangeRule, ScriptConfig } from '../types';
-import { evolveWords } from '../services/geminiService';
+import { GitBranch, ArrowRight, PlayCircle, Save, Feather, AlertTriangle } from 'lucide-react';
+import { LexiconEntry, SoundChangeRule, ScriptConfig, LanguageData, PhonologyConfig } from '../types';
+import { evolveWords, commitEvolution, EvolvedEntry, EvolutionCommitMode, SoundChangeError } from '../services/soundChangeService';
 import { useTranslation } from '../i18n';
 import { ConScriptText } from './ConScriptRenderer';
 
 interface GenEvolveProps {
   entries: LexiconEntry[];
   onUpdateEntries: (newEntries: LexiconEntry[]) => void;
+  daughters: LanguageData[];
+  onCommitDaughter: (targetLanguageId: string | null, name: string, daughterEntries: LexiconEntry[]) => void;
   rules: SoundChangeRule[];
   setRules: React.Dispatch<React.SetStateAction<SoundChangeRule[]>>;
   scriptConfig?: ScriptConfig; // NEW
   isScriptMode?: boolean; // NEW
+  phonology?: PhonologyConfig; // Inventory for [+feature] classes in rules
 }
 
-const GenEvolve: React.FC<GenEvolveProps> = ({ entries, onUpdateEntries, rules, setRules, scriptConfig, isScriptMode = false }) => {
+const GenEvolve: React.FC<GenEvolveProps> = ({ entries, onUpdateEntries, daughters, onCommitDaughter, rules, setRules, scriptConfig, isScriptMode = false, phonology }) => {
   const { t } = useTranslation();
-  const [preview, setPreview] = useState<LexiconEntry[]>([]);
-  const [loading, setLoading] = useState(false);
+  const [preview, setPreview] = useState<EvolvedEntry[]>([]);
+  const [ruleErrors, setRuleErrors] = useState<SoundChangeError[]>([]);
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(new Set());
+  const [commitMode, setCommitMode] = useState<EvolutionCommitMode>('replace');
+  const [targetLanguageId, setTargetLanguageId] = useState<string | null>(null);
+  const [daughterName, setDaughterName] = useState('');
 
   const addRule = () => {
     setRules([...rules, { id: Date.now().toString(), rule: '', description: '' }]);
@@ -31,18 +38,57 @@ const GenEvolve: React.FC<GenEvolveProps> = ({ entries, onUpdateEntries, rules,
     setRules(prev => prev.filter(r => r.id !== id));
   };
 
-  const runSimulation = async () => {
-    setLoading(true);
-    // Only send a subset to avoid token limits in this demo
-    const sampleSize = entries.slice(0, 20); 
-    const results = await evolveWords(sampleSize, rules);
+  const runSimulation = () => {
+    const { results, errors } = evolveWords(entries, rules, phonology);
     setPreview(results);
-    setLoading(false);
+    setRuleErrors(errors);
+    // Pre-accept everything a rule actually touched
+    setAcceptedIds(new Set(results.filter(r => r.trace.length > 0).map(r => r.source.id)));
+  };
+
+  const toggleAccepted = (id: string) => {
+    const next = new Set(acceptedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setAcceptedIds(next);
+  };
+
+  const setAllAccepted = (accepted: boolean) => {
+    setAcceptedIds(accepted ? new Set(preview.map(r => r.source.id)) : new Set());
+  };
+
+  const sameRules = (a: SoundChangeRule[], b: SoundChangeRule[]) =>
+      a.length === b.length && a.every((r, i) => r.rule === b[i].rule && r.description === b[i].description);
+
+  // Existing daughters are listed as extra targets; picking one offers to load the rules of its branch
+  const selectTarget = (value: string) => {
+      if (value === 'replace' || value === 'daughter') {
+          setCommitMode(value);
+          setTargetLanguageId(null);
+          return;
+      }
+      const daughter = daughters.find(d => d.id === value);
+      if (!daughter) return;
+      const loadRules = daughter.evolutionRules.length > 0 && !sameRules(rules, daughter.evolutionRules);
+      // Committing to a branch saves the editor's rules as its rules, so declining keeps the previous target
+      if (loadRules && rules.some(r => r.rule.trim()) && !confirm(t('genevolve.load_branch_rules'))) return;
+      setCommitMode('daughter');
+      setTargetLanguageId(daughter.id);
+      if (loadRules) setRules(daughter.evolutionRules.map(r => ({ ...r })));
   };
 
   const applyChanges = () => {
-      // In a real app, this would merge the preview into the main state
-      alert(t('genevolve.commit_alert'));
+      if (acceptedIds.size === 0) return;
+      const committed = commitEvolution(preview, acceptedIds, commitMode);
+      if (commitMode === 'replace') {
+          const byId = new Map(committed.map(e => [e.id, e]));
+          onUpdateEntries(entries.map(e => byId.get(e.id) || e));
+      } else {
+          onCommitDaughter(targetLanguageId, daughterName.trim() || t('genevolve.daughter_default'), committed);
+      }
+      alert(commitMode === 'replace' ? t('genevolve.commit_alert') : t('genevolve.daughter_alert'));
+      setPreview([]);
+      setAcceptedIds(new Set());
   };
 
   return (
@@ -58,10 +104,10 @@ const GenEvolve: React.FC<GenEvolveProps> = ({ entries, onUpdateEntries, rules,
              </div>
              <button
                 onClick={runSimulation}
-                disabled={loading}
+                disabled={entries.length === 0}
                 className="bg-amber-600 hover:bg-amber-700 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2 disabled:opacity-50"
              >
-                {loading ? <span className="animate-spin">⟳</span> : <PlayCircle />}
+                <PlayCircle />
                 {t('genevolve.run')}
              </button>
         </div>
@@ -75,8 +121,10 @@ const GenEvolve: React.FC<GenEvolveProps> = ({ entries, onUpdateEntries, rules,
                 </div>
                 
                 <div className="space-y-4">
-                    {rules.map((rule, index) => (
-                        <div key={rule.id} className="bg-slate-950 p-4 rounded-lg border border-slate-800 relative group">
+                    {rules.map((rule, index) => {
+                        const error = ruleErrors.find(e => e.ruleId === rule.id);
+                        return (
+                        <div key={rule.id} className={`bg-slate-950 p-4 rounded-lg border ${error ? 'border-red-900/50' : 'border-slate-800'} relative group`}>
                             <div className="absolute -left-2 -top-2 w-6 h-6 bg-slate-700 rounded-full flex items-center justify-center text-xs font-bold text-white border border-slate-900">
                                 {index + 1}
                             </div>
@@ -84,7 +132,7 @@ const GenEvolve: React.FC<GenEvolveProps> = ({ entries, onUpdateEntries, rules,
                                 <input 
                                     value={rule.rule}
                                     onChange={(e) => updateRule(rule.id, 'rule', e.target.value)}
-                                    placeholder="Rule (e.g. k > ʃ / _i)"
+                                    placeholder="Rule (e.g. k > ʃ / _i or V=aeiou)"
                                     className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-amber-200 font-mono text-sm"
                                 />
                                 <input 
@@ -93,10 +141,16 @@ const GenEvolve: React.FC<GenEvolveProps> = ({ entries, onUpdateEntries, rules,
                                     placeholder="Description"
                                     className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-400 text-xs"
                                 />
+                                {error && (
+                                    <div className="text-[10px] text-red-400 flex items-center gap-1">
+                                        <AlertTriangle size={10} /> {error.message}
+                                    </div>
+                                )}
                             </div>
                             <button onClick={() => removeRule(rule.id)} className="absolute top-2 right-2 text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity">×</button>
                         </div>
-                    ))}
+                        );
+                    })}
                 </div>
             </div>
 
@@ -108,9 +162,31 @@ const GenEvolve: React.FC<GenEvolveProps> = ({ entries, onUpdateEntries, rules,
                         {isScriptMode && <Feather size={14} className="text-purple-400" />}
                     </h3>
                      {preview.length > 0 && (
-                        <button onClick={applyChanges} className="text-sm bg-slate-800 hover:bg-green-600 text-white px-3 py-1 rounded flex items-center gap-2 transition-colors">
-                            <Save size={14} /> {t('genevolve.commit')}
-                        </button>
+                        <div className="flex items-center gap-2">
+                            <span className="text-xs text-slate-500 font-mono">{acceptedIds.size}/{preview.length}</span>
+                            <button onClick={() => setAllAccepted(true)} className="text-xs text-slate-400 hover:text-white">{t('genevolve.accept_all')}</button>
+                            <button onClick={() => setAllAccepted(false)} className="text-xs text-slate-400 hover:text-white">{t('genevolve.reject_all')}</button>
+                            <select
+                                value={targetLanguageId || commitMode}
+                                onChange={(e) => selectTarget(e.target.value)}
+                                className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 outline-none"
+                            >
+                                <option value="replace">{t('genevolve.mode_replace')}</option>
+                                <option value="daughter">{t('genevolve.mode_daughter')}</option>
+                                {daughters.map(d => <option key={d.id} value={d.id}>→ {d.name}</option>)}
+                            </select>
+                            {commitMode === 'daughter' && !targetLanguageId && (
+                                <input
+                                    value={daughterName}
+                                    onChange={(e) => setDaughterName(e.target.value)}
+                                    placeholder={t('genevolve.daughter_default')}
+                                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 w-40 outline-none"
+                                />
+                            )}
+                            <button onClick={applyChanges} disabled={acceptedIds.size === 0} className="text-sm bg-slate-800 hover:bg-green-600 text-white px-3 py-1 rounded flex items-center gap-2 transition-colors disabled:opacity-50">
+                                <Save size={14} /> {t('genevolve.commit')}
+                            </button>
+                        </div>
                     )}
                 </div>
 
@@ -121,11 +197,12 @@ const GenEvolve: React.FC<GenEvolveProps> = ({ entries, onUpdateEntries, rules,
                     </div>
                 ) : (
                     <div className="grid gap-4">
-                        {preview.map((entry, idx) => (
-                            <div key={idx} className="bg-slate-900 border border-slate-800 rounded-lg p-4 flex items-center gap-4">
+                        {preview.map(({ source, entry, trace }) => (
+                            <div key={source.id} className={`bg-slate-900 border border-slate-800 rounded-lg p-4 flex items-center gap-4 transition-opacity ${acceptedIds.has(source.id) ? '' : 'opacity-40'}`}>
+                                <input type="checkbox" checked={acceptedIds.has(source.id)} onChange={() => toggleAccepted(source.id)} className="rounded bg-black border-slate-700 text-amber-600" />
                                 <div className="w-1/3 text-right">
-                                    <div className="text-slate-500 line-through text-sm">{entries.find(e => e.id === entry.id)?.word || entry.word}</div>
-                                    <div className="text-slate-600 font-mono text-xs">/{entries.find(e => e.id === entry.id)?.ipa || entry.ipa}/</div>
+                                    <div className={`text-sm ${trace.length > 0 ? 'text-slate-500 line-through' : 'text-slate-400'}`}>{source.word}</div>
+                                    <div className="text-slate-600 font-mono text-xs">/{source.ipa}/</div>
                                 </div>
                                 <div className="text-slate-600"><ArrowRight size={20} /></div>
                                 <div className="flex-1">
@@ -133,7 +210,18 @@ const GenEvolve: React.FC<GenEvolveProps> = ({ entries, onUpdateEntries, rules,
                                         <ConScriptText text={entry.word} scriptConfig={scriptConfig} />
                                     </div>
                                     <div className="text-amber-400/70 font-mono text-sm">/{entry.ipa}/</div>
-                                    <div className="text-xs text-slate-500 mt-1 italic">{entry.etymology}</div>
+                                    {trace.length > 0 ? (
+                                        <ol className="mt-2 space-y-0.5">
+                                            {trace.map((step, i) => (
+                                                <li key={i} className="text-[11px] font-mono text-slate-500 flex gap-2">
+                                                    <span className="text-slate-400">{step.before} → {step.after}</span>
+                                                    <span className="text-amber-600/70">{step.rule}</span>
+                                                </li>
+                                            ))}
+                                        </ol>
+                                    ) : (
+                                        <div className="text-xs text-slate-600 mt-1 italic">{t('genevolve.unchanged')}</div>
+                                    )}
                                 </div>
                             </div>
                         ))}
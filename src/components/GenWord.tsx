@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { Wand2, Download, Copy, RefreshCw, Trash, ShieldAlert } from 'lucide-react';
+import { Wand2, Download, Copy, RefreshCw, Trash, ShieldAlert, Dices } from 'lucide-react';
 import { generateWords } from '../services/geminiService';
-import { LexiconEntry, PartOfSpeech, ProjectConstraints, ScriptConfig } from '../types';
+import { generateWordsLocally, parseWeights } from '../services/wordGeneratorService';
+import { LexiconEntry, PartOfSpeech, PhonologyConfig, ProjectConstraints, ScriptConfig } from '../types';
 import { useTranslation } from '../i18n';
 import { ConScriptText } from './ConScriptRenderer';
 
@@ -10,23 +11,37 @@ interface GenWordState {
   constraints: string;
   vibe: string;
   count: number;
+  engine?: 'local' | 'ai';
+  seed?: string;
+  weights?: string; // "a=3, t=0.5"
+  minSyllables?: number;
+  maxSyllables?: number;
 }
 
+const AI_MAX_COUNT = 15;
+const LOCAL_MAX_COUNT = 200;
+
 interface GenWordProps {
   onAddWords: (words: LexiconEntry[]) => void;
   onEditEntry?: (entry: Partial<LexiconEntry>) => void; // NEW Callback
   initialState: GenWordState;
   saveState: (state: GenWordState) => void;
   projectConstraints: ProjectConstraints;
+  phonology: PhonologyConfig;
+  existingWords?: string[];
+  enableAI?: boolean;
   scriptConfig?: ScriptConfig; // NEW
   isScriptMode?: boolean; // NEW
 }
 
-const GenWord: React.FC<GenWordProps> = ({ onAddWords, onEditEntry, initialState, saveState, projectConstraints, scriptConfig, isScriptMode = false }) => {
+const GenWord: React.FC<GenWordProps> = ({ onAddWords, onEditEntry, initialState, saveState, projectConstraints, phonology, existingWords = [], enableAI = false, scriptConfig, isScriptMode = false }) => {
   const { t } = useTranslation();
 
   // Use state lifted from parent
   const { generated, constraints, vibe, count } = initialState;
+  const { seed = '', weights = '', minSyllables = 1, maxSyllables = 3 } = initialState;
+  const engine = enableAI ? (initialState.engine || 'local') : 'local';
+  const maxCount = engine === 'ai' ? AI_MAX_COUNT : LOCAL_MAX_COUNT;
 
   const [loading, setLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('');
@@ -57,8 +72,22 @@ const GenWord: React.FC<GenWordProps> = ({ onAddWords, onEditEntry, initialState
   };
 
   const handleGenerate = async () => {
-    setLoading(true);
     setErrorMessage(null); // Clear previous errors
+    if (engine === 'local') {
+      const result = generateWordsLocally(phonology, projectConstraints, {
+        count: Math.min(count, maxCount),
+        seed: seed.trim() || undefined,
+        weights: parseWeights(weights),
+        minSyllables,
+        maxSyllables,
+        exclude: [...existingWords, ...generated.map(g => g.word)]
+      });
+      updateState({ generated: [...generated, ...result.words] });
+      if (result.error) setErrorMessage(result.error);
+      return;
+    }
+
+    setLoading(true);
     try {
       const results = await generateWords(count, constraints, vibe, projectConstraints);
       // RTE-PERSISTENCE: Merge new results with existing ones
@@ -115,35 +144,115 @@ const GenWord: React.FC<GenWordProps> = ({ onAddWords, onEditEntry, initialState
             <h3 className="text-lg font-semibold text-slate-200 mb-4 border-b border-slate-800 pb-2">{t('genword.config')}</h3>
 
             <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-slate-400 mb-1">{t('genword.constraints')}</label>
-                <textarea
-                  value={constraints}
-                  onChange={(e) => updateState({ constraints: e.target.value })}
-                  className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-2 focus:ring-purple-500 outline-none h-24 resize-none placeholder-slate-600"
-                  placeholder={t('genword.constraints_ph')}
-                />
-              </div>
+              {enableAI && (
+                <div className="flex bg-slate-950 p-1 rounded-lg border border-slate-800">
+                  {(['local', 'ai'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => updateState({ engine: mode, count: Math.min(count, mode === 'ai' ? AI_MAX_COUNT : LOCAL_MAX_COUNT) })}
+                      className={`flex-1 px-3 py-1.5 rounded-md text-xs font-bold transition-all ${engine === mode ? 'bg-purple-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                    >
+                      {t(`genword.engine_${mode}`)}
+                    </button>
+                  ))}
+                </div>
+              )}
 
-              <div>
-                <label className="block text-sm font-medium text-slate-400 mb-1">{t('genword.vibe')}</label>
-                <input
-                  type="text"
-                  value={vibe}
-                  onChange={(e) => updateState({ vibe: e.target.value })}
-                  className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-2 focus:ring-purple-500 outline-none placeholder-slate-600"
-                  placeholder={t('genword.vibe_ph')}
-                />
-              </div>
+              {engine === 'local' ? (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">{t('genword.structure')}</label>
+                    <div className="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-sm font-mono text-purple-300">{phonology.syllableStructure || '(C)V(C)'}</div>
+                    <p className="text-[10px] text-slate-600 mt-1">{t('genword.structure_hint')} · {phonology.consonants.length}C / {phonology.vowels.length}V</p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">{t('genword.syllables')}</label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min="1"
+                        max="8"
+                        value={minSyllables}
+                        onChange={(e) => updateState({ minSyllables: Math.max(1, Number(e.target.value)), maxSyllables: Math.max(maxSyllables, Number(e.target.value)) })}
+                        className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-2 focus:ring-purple-500 outline-none"
+                      />
+                      <span className="text-slate-600">–</span>
+                      <input
+                        type="number"
+                        min={minSyllables}
+                        max="8"
+                        value={maxSyllables}
+                        onChange={(e) => updateState({ maxSyllables: Math.max(minSyllables, Number(e.target.value)) })}
+                        className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-2 focus:ring-purple-500 outline-none"
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">{t('genword.weights')}</label>
+                    <input
+                      type="text"
+                      value={weights}
+                      onChange={(e) => updateState({ weights: e.target.value })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-sm font-mono text-slate-200 focus:ring-2 focus:ring-purple-500 outline-none placeholder-slate-600"
+                      placeholder={t('genword.weights_ph')}
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">{t('genword.seed')}</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={seed}
+                        onChange={(e) => updateState({ seed: e.target.value })}
+                        className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-sm font-mono text-slate-200 focus:ring-2 focus:ring-purple-500 outline-none placeholder-slate-600"
+                        placeholder={t('genword.seed_ph')}
+                      />
+                      <button
+                        onClick={() => updateState({ seed: Math.random().toString(36).slice(2, 8) })}
+                        className="px-3 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white rounded-lg transition-colors"
+                        title={t('genword.seed')}
+                      >
+                        <Dices size={16} />
+                      </button>
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">{t('genword.constraints')}</label>
+                    <textarea
+                      value={constraints}
+                      onChange={(e) => updateState({ constraints: e.target.value })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-2 focus:ring-purple-500 outline-none h-24 resize-none placeholder-slate-600"
+                      placeholder={t('genword.constraints_ph')}
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">{t('genword.vibe')}</label>
+                    <input
+                      type="text"
+                      value={vibe}
+                      onChange={(e) => updateState({ vibe: e.target.value })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-2 focus:ring-purple-500 outline-none placeholder-slate-600"
+                      placeholder={t('genword.vibe_ph')}
+                    />
+                  </div>
+                </>
+              )}
 
               <div>
-                <label className="block text-sm font-medium text-slate-400 mb-1">{t('genword.count')} (Max 15)</label>
+                <label className="block text-sm font-medium text-slate-400 mb-1">{t('genword.count')} (Max {maxCount})</label>
                 <input
                   type="number"
                   min="1"
-                  max="15"
+                  max={maxCount}
                   value={count}
-                  onChange={(e) => updateState({ count: Math.min(15, Math.max(1, Number(e.target.value))) })}
+                  onChange={(e) => updateState({ count: Math.min(maxCount, Math.max(1, Number(e.target.value))) })}
                   className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-2 focus:ring-purple-500 outline-none"
                 />
               </div>
@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { X, Upload, AlertTriangle, Search } from 'lucide-react';
+import { ScriptConfig } from '../types';
+import { renderStrokes } from './ConScriptRenderer';
+import { applyImport, defaultImportAction, ImportAction, ImportedGlyph } from '../services/glyphImportService';
+
+interface GlyphImportModalProps {
+  glyphs: ImportedGlyph[];
+  scriptConfig: ScriptConfig;
+  onApply: (config: ScriptConfig) => void;
+  onClose: () => void;
+}
+
+const CANVAS_SIZE = 400;
+const MAX_ROWS = 300; // Large fonts map thousands of characters; the filter narrows them down
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  add: 'Add',
+  replace: 'Replace',
+  merge: 'Add as layers',
+  skip: 'Skip'
+};
+
+const GlyphPreview: React.FC<{ strokes: ImportedGlyph['layers'] }> = ({ strokes }) => (
+  <svg viewBox={`0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}`} className="w-10 h-10 bg-black rounded border border-neutral-800 shrink-0" fill="none">
+    {renderStrokes({ char: '', pua: '', strokes })}
+  </svg>
+);
+
+const GlyphImportModal: React.FC<GlyphImportModalProps> = ({ glyphs, scriptConfig, onApply, onClose }) => {
+  const [actions, setActions] = useState<Record<string, ImportAction>>(() =>
+    Object.fromEntries(glyphs.map(g => [g.char, defaultImportAction(g, scriptConfig)]))
+  );
+  const [filter, setFilter] = useState('');
+
+  const existing = useMemo(() => new Map(scriptConfig.glyphs.map(g => [g.char, g])), [scriptConfig.glyphs]);
+  const collisions = glyphs.filter(g => existing.has(g.char));
+  const shown = glyphs.filter(g => !filter || g.char.includes(filter) || g.source.toLowerCase().includes(filter.toLowerCase()));
+  const selected = glyphs.filter(g => actions[g.char] !== 'skip').length;
+
+  const setAll = (targets: ImportedGlyph[], action: ImportAction) =>
+    setActions(prev => ({ ...prev, ...Object.fromEntries(targets.map(g => [g.char, action])) }));
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-neutral-900 border border-neutral-700 w-full max-w-2xl rounded-xl shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200 flex flex-col max-h-[85vh]">
+        <div className="flex justify-between items-center p-5 border-b border-neutral-800 bg-neutral-950">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2"><Upload className="text-purple-500" size={22} /> Review Import</h2>
+            <p className="text-slate-400 text-sm mt-1">
+              {glyphs.length} glyphs from {Array.from(new Set(glyphs.map(g => g.source))).length} file(s) · {collisions.length} already drawn
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors p-1 hover:bg-neutral-800 rounded"><X size={20} /></button>
+        </div>
+
+        <div className="p-3 border-b border-neutral-800 flex flex-wrap items-center gap-2 text-[10px] font-bold uppercase">
+          <div className="flex items-center gap-2 bg-neutral-950 border border-neutral-800 rounded px-2 py-1 flex-1 min-w-[140px]">
+            <Search size={12} className="text-neutral-600" />
+            <input value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="Filter characters..." className="bg-transparent outline-none text-xs text-slate-200 normal-case font-normal w-full" />
+          </div>
+          <button onClick={() => setAll(glyphs.filter(g => !existing.has(g.char)), 'add')} className="px-2 py-1 rounded bg-neutral-800 text-slate-300 hover:text-white">New: add</button>
+          <button onClick={() => setAll(glyphs.filter(g => !existing.has(g.char)), 'skip')} className="px-2 py-1 rounded bg-neutral-800 text-slate-300 hover:text-white">New: skip</button>
+          {collisions.length > 0 && (['replace', 'merge', 'skip'] as ImportAction[]).map(action => (
+            <button key={action} onClick={() => setAll(collisions, action)} className="px-2 py-1 rounded bg-amber-900/30 text-amber-300 hover:text-white">Drawn: {ACTION_LABELS[action]}</button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-1">
+          {shown.slice(0, MAX_ROWS).map(g => {
+            const current = existing.get(g.char);
+            return (
+              <div key={g.char} className={`flex items-center gap-3 p-2 rounded border ${current ? 'border-amber-900/50 bg-amber-950/10' : 'border-neutral-800 bg-neutral-950/40'}`}>
+                <span className="w-16 font-mono text-sm text-white truncate" title={g.char}>{g.char}</span>
+                <GlyphPreview strokes={g.layers} />
+                {current ? (
+                  <span className="flex items-center gap-2 text-[10px] text-amber-400">
+                    <AlertTriangle size={12} /> replaces <GlyphPreview strokes={current.strokes} />
+                  </span>
+                ) : (
+                  <span className="text-[10px] text-neutral-600">new</span>
+                )}
+                <span className="flex-1 text-[10px] text-neutral-600 truncate" title={g.source}>{g.source}</span>
+                <select
+                  value={actions[g.char]}
+                  onChange={(e) => setActions(prev => ({ ...prev, [g.char]: e.target.value as ImportAction }))}
+                  className="bg-neutral-900 border border-neutral-800 rounded px-1 py-1 text-[10px] text-neutral-300 outline-none"
+                >
+                  {(current ? ['replace', 'merge', 'skip'] : ['add', 'skip']).map(action => (
+                    <option key={action} value={action}>{ACTION_LABELS[action as ImportAction]}</option>
+                  ))}
+                </select>
+              </div>
+            );
+          })}
+          {shown.length > MAX_ROWS && (
+            <p className="text-center text-[10px] text-neutral-500 py-2">{shown.length - MAX_ROWS} more not shown. Use the filter to review them; they follow the bulk choices above.</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-neutral-800 flex justify-end gap-2 bg-neutral-950">
+          <button onClick={onClose} className="px-4 py-2 text-xs font-bold uppercase rounded text-slate-400 hover:text-white">Cancel</button>
+          <button
+            onClick={() => onApply(applyImport(scriptConfig, glyphs, actions))}
+            disabled={selected === 0}
+            className="px-4 py-2 text-xs font-bold uppercase rounded bg-purple-600 text-white hover:bg-purple-500 disabled:opacity-30"
+          >
+            Import {selected} glyph{selected === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlyphImportModal;
@@ -1,9 +1,10 @@
-import React, { useState } from 'react';
-import { Languages, Play, CheckCircle, Table, Code, Bug, Lightbulb, Box, Link } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Languages, Play, CheckCircle, Table, Code, Bug, Lightbulb, Box, Link, AlertTriangle, GitBranch, Sparkles } from 'lucide-react';
 import { analyzeSyntax } from '../services/geminiService';
 import MorphologyEditor from './MorphologyEditor';
 import CodeEditor from './CodeEditor'; 
-import { MorphologyState, ScriptConfig } from '../types';
+import { MorphologyState, ScriptConfig, LexiconEntry, PhonologyConfig, POS_SUGGESTIONS } from '../types';
+import { collectPosNames, formatBrackets, parseGrammar, parseSentence, ParseTree, SentenceParse } from '../services/grammarService';
 import { useTranslation } from '../i18n';
 
 interface GrammarEditorProps {
@@ -14,16 +15,30 @@ interface GrammarEditorProps {
   showLineNumbers?: boolean; // NEW PROP
   scriptConfig?: ScriptConfig; // NEW
   isScriptMode?: boolean; // NEW
+  entries?: LexiconEntry[];
+  phonology?: PhonologyConfig;
+  bannedSequences?: string[];
+  enableAI?: boolean;
 }
 
-const GrammarEditor: React.FC<GrammarEditorProps> = ({ grammar, setGrammar, morphology, setMorphology, showLineNumbers, scriptConfig, isScriptMode }) => {
+const GrammarEditor: React.FC<GrammarEditorProps> = ({ grammar, setGrammar, morphology, setMorphology, showLineNumbers, scriptConfig, isScriptMode, entries = [], phonology, bannedSequences, enableAI = false }) => {
   const { t } = useTranslation();
   const [activeTab, setActiveTab] = useState<'SYNTAX' | 'MORPHOLOGY'>('SYNTAX');
   const [testSentence, setTestSentence] = useState('the cat saw the dog');
   const [output, setOutput] = useState('');
   const [loading, setLoading] = useState(false);
 
+  // The grammar is re-parsed on every edit; identifiers that are not rules must be parts of speech
+  const parsedGrammar = useMemo(() => parseGrammar(grammar, collectPosNames(entries, POS_SUGGESTIONS)), [grammar, entries]);
+  const [parseResult, setParseResult] = useState<SentenceParse | null>(null);
+
+  const handleParse = () => {
+      setOutput('');
+      setParseResult(parseSentence(testSentence, parsedGrammar, entries));
+  };
+
   const handleAnalyze = async () => {
+      setParseResult(null);
       setLoading(true);
       // Pass morphology to the analysis service so AI can use the rules defined in the other tab
       const result = await analyzeSyntax(testSentence, grammar, morphology);
@@ -31,6 +46,49 @@ const GrammarEditor: React.FC<GrammarEditorProps> = ({ grammar, setGrammar, morp
       setLoading(false);
   }
 
+  const renderTree = (node: ParseTree, key: React.Key): React.ReactNode => (
+      <li key={key}>
+          {node.word !== undefined ? (
+              <span><span className="text-blue-400">{node.symbol}</span> <span className="text-emerald-400 font-bold">{node.word}</span></span>
+          ) : (
+              <>
+                  <span className="text-amber-400 font-bold">{node.symbol}</span>
+                  <ul className="pl-4 border-l border-slate-800 ml-1">{node.children.map((child, i) => renderTree(child, i))}</ul>
+              </>
+          )}
+      </li>
+  );
+
+  const renderParseResult = (result: SentenceParse) => {
+      if (result.error) {
+          return (
+              <div className="space-y-2 text-xs">
+                  <div className="text-red-400 flex items-start gap-2"><AlertTriangle size={14} className="shrink-0 mt-0.5" /> {result.error.message}</div>
+                  {result.unknownWords.length > 0 && (
+                      <div className="text-amber-400">{t('grammar.unknown_words')}: {result.unknownWords.join(', ')}</div>
+                  )}
+              </div>
+          );
+      }
+      return (
+          <div className="space-y-4">
+              <div className={`text-xs font-bold flex items-center gap-2 ${result.trees.length > 1 ? 'text-amber-400' : 'text-emerald-400'}`}>
+                  <GitBranch size={14} />
+                  {result.trees.length > 1
+                      ? `${t('grammar.ambiguous')}: ${result.trees.length}${result.truncated ? '+' : ''} ${t('grammar.readings')}`
+                      : t('grammar.parsed')}
+              </div>
+              {result.trees.map((tree, i) => (
+                  <div key={i} className="bg-slate-900 border border-slate-800 rounded p-3">
+                      {result.trees.length > 1 && <div className="text-[10px] text-slate-500 uppercase mb-2">#{i + 1}</div>}
+                      <ul className="font-mono text-xs space-y-0.5">{renderTree(tree, 'root')}</ul>
+                      <div className="mt-2 pt-2 border-t border-slate-800 text-[10px] font-mono text-slate-500 break-all">{formatBrackets(tree)}</div>
+                  </div>
+              ))}
+          </div>
+      );
+  };
+
   // Calculate stats for the context panel
   const totalParadigms = morphology.paradigms.length;
   const totalRules = morphology.paradigms.reduce((acc, p) => acc + p.rules.length, 0);
@@ -79,7 +137,11 @@ const GrammarEditor: React.FC<GrammarEditorProps> = ({ grammar, setGrammar, morp
                         <div className="flex items-center gap-2">
                              <span className="text-xs font-mono text-slate-400 bg-slate-900 px-2 py-0.5 rounded border border-slate-800">grammar.bnfc</span>
                         </div>
-                        <span className="text-xs text-emerald-500 flex items-center gap-1"><CheckCircle size={10} /> {t('grammar.saved')}</span>
+                        {parsedGrammar.errors.length > 0 ? (
+                            <span className="text-xs text-red-400 flex items-center gap-1"><AlertTriangle size={10} /> {parsedGrammar.errors.length} {t('grammar.errors')}</span>
+                        ) : (
+                            <span className="text-xs text-emerald-500 flex items-center gap-1"><CheckCircle size={10} /> {parsedGrammar.ruleNames.length} {t('grammar.rules_ok')}</span>
+                        )}
                     </div>
                     
                     {/* PROFESSIONAL EDITOR IMPLEMENTATION */}
@@ -91,6 +153,15 @@ const GrammarEditor: React.FC<GrammarEditorProps> = ({ grammar, setGrammar, morp
                             placeholder={t('grammar.bnf_placeholder')}
                          />
                     </div>
+                    {parsedGrammar.errors.length > 0 && (
+                        <div className="max-h-32 overflow-y-auto border-t border-slate-800 bg-red-950/10 px-4 py-2 space-y-1">
+                            {parsedGrammar.errors.map((err, i) => (
+                                <div key={i} className="text-xs font-mono text-red-300">
+                                    <span className="text-red-500">{t('grammar.line')} {err.line}:{err.column}</span> {err.message}
+                                </div>
+                            ))}
+                        </div>
+                    )}
                 </div>
 
                 {/* Test Console */}
@@ -133,12 +204,23 @@ const GrammarEditor: React.FC<GrammarEditorProps> = ({ grammar, setGrammar, morp
                                 placeholder={t('grammar.type_sentence')}
                             />
                             <button 
-                                onClick={handleAnalyze}
+                                onClick={handleParse}
                                 disabled={loading}
+                                title={t('grammar.parse')}
                                 className="bg-emerald-600 hover:bg-emerald-700 text-white p-2 rounded transition-colors disabled:opacity-50 shadow-lg shadow-emerald-900/20"
                             >
                                 <Play size={18} fill="currentColor" />
                             </button>
+                            {enableAI && (
+                                <button
+                                    onClick={handleAnalyze}
+                                    disabled={loading}
+                                    title={t('grammar.ask_ai')}
+                                    className="bg-purple-600 hover:bg-purple-700 text-white p-2 rounded transition-colors disabled:opacity-50"
+                                >
+                                    <Sparkles size={18} />
+                                </button>
+                            )}
                         </div>
                     </div>
 
@@ -154,6 +236,8 @@ const GrammarEditor: React.FC<GrammarEditorProps> = ({ grammar, setGrammar, morp
                                     <div className="h-4 bg-slate-800 rounded w-1/2"></div>
                                     <div className="h-4 bg-slate-800 rounded w-full"></div>
                                 </div>
+                            ) : parseResult ? (
+                                renderParseResult(parseResult)
                             ) : output ? (
                                 <pre className="text-slate-300 font-mono text-xs whitespace-pre-wrap leading-relaxed">{output}</pre>
                             ) : (
@@ -175,6 +259,9 @@ const GrammarEditor: React.FC<GrammarEditorProps> = ({ grammar, setGrammar, morp
                     setData={setMorphology} 
                     scriptConfig={scriptConfig} 
                     isScriptMode={isScriptMode}
+                    entries={entries}
+                    phonology={phonology}
+                    bannedSequences={bannedSequences}
                 />
             </div>
         )}
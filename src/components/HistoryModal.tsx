@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { X, History, Camera, GitCompare, RotateCcw, FolderOpen, Trash2 } from 'lucide-react';
+import { ProjectData } from '../types';
+import { useTranslation } from '../i18n';
+import { compareProjects, ProjectHistory, SectionDiff } from '../services/historyService';
+import { createSnapshot, deleteSnapshot, listSnapshots, loadSnapshot, SnapshotSummary } from '../services/snapshotService';
+
+interface HistoryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    history: ProjectHistory;
+    onJump: (index: number) => void;
+    projectId: string | null;
+    getCurrentData: () => ProjectData;
+    onRestore: (data: ProjectData) => void;
+    onCheckOut: (data: ProjectData, snapshotName: string) => Promise<void>;
+}
+
+const DIFF_ITEM_LIMIT = 20;
+
+const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, history, onJump, projectId, getCurrentData, onRestore, onCheckOut }) => {
+    const { t } = useTranslation();
+    const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+    const [snapshotName, setSnapshotName] = useState('');
+    const [comparison, setComparison] = useState<{ snapshot: SnapshotSummary; diffs: SectionDiff[] } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = () => {
+        if (!projectId) return;
+        listSnapshots(projectId)
+            .then(list => { setSnapshots(list); setError(null); })
+            .catch(() => setError(t('projects.unavailable')));
+    };
+
+    useEffect(() => { if (isOpen) { refresh(); setComparison(null); } }, [isOpen, projectId]);
+
+    if (!isOpen) return null;
+
+    const steps = history.present ? [...history.past, history.present, ...history.future] : [];
+    const currentIndex = history.past.length;
+    const stepLabel = (label: string) => label ? label.split(', ').map(s => t(`history.section.${s}`)).join(', ') : t('history.opened');
+
+    const withSnapshot = (snapshot: SnapshotSummary, action: (data: ProjectData) => void | Promise<void>) => {
+        if (!projectId) return;
+        loadSnapshot(projectId, snapshot.id)
+            .then(data => data ? action(data) : setError(t('projects.failed')))
+            .catch(() => setError(t('projects.failed')));
+    };
+
+    const takeSnapshot = () => {
+        if (!projectId) return;
+        const name = snapshotName.trim() || new Date().toLocaleString();
+        createSnapshot(projectId, name, getCurrentData())
+            .then(() => { setSnapshotName(''); refresh(); })
+            .catch(() => setError(t('projects.failed')));
+    };
+
+    const compare = (snapshot: SnapshotSummary) =>
+        withSnapshot(snapshot, data => setComparison({ snapshot, diffs: compareProjects(data, getCurrentData()) }));
+
+    const restore = (snapshot: SnapshotSummary) => {
+        if (confirm(`${t('history.restore_confirm')} "${snapshot.name}"`)) withSnapshot(snapshot, onRestore);
+    };
+
+    const remove = (snapshot: SnapshotSummary) => {
+        if (!projectId || !confirm(`${t('history.delete_confirm')} "${snapshot.name}"`)) return;
+        deleteSnapshot(projectId, snapshot.id)
+            .then(() => { if (comparison?.snapshot.id === snapshot.id) setComparison(null); refresh(); })
+            .catch(() => setError(t('projects.failed')));
+    };
+
+    const renderItems = (items: string[], sign: string, color: string) => (
+        <>
+            {items.slice(0, DIFF_ITEM_LIMIT).map((item, i) => <div key={sign + i} className={`${color} truncate`}>{sign} {item}</div>)}
+            {items.length > DIFF_ITEM_LIMIT && <div className="text-neutral-600">{sign} {items.length - DIFF_ITEM_LIMIT} {t('history.more')}</div>}
+        </>
+    );
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+            <div className="bg-neutral-900 border border-neutral-700 w-full max-w-4xl rounded-lg shadow-2xl overflow-hidden flex flex-col max-h-[85vh] animate-in fade-in zoom-in duration-200">
+                <div className="flex justify-between items-center p-4 border-b border-neutral-800 bg-neutral-950">
+                    <h2 className="text-lg font-bold text-white flex items-center gap-2"><History size={18} className="text-blue-400" /> {t('history.title')}</h2>
+                    <button onClick={onClose} className="text-neutral-500 hover:text-white"><X size={20} /></button>
+                </div>
+
+                <div className="flex flex-1 min-h-0 divide-x divide-neutral-800">
+                    <div className="w-72 shrink-0 flex flex-col min-h-0">
+                        <div className="px-4 pt-4 pb-2">
+                            <h3 className="text-xs font-bold uppercase text-neutral-500">{t('history.steps')}</h3>
+                            <p className="text-[11px] text-neutral-600 mt-1">{t('history.steps_hint')}</p>
+                        </div>
+                        <div className="overflow-y-auto px-2 pb-4 space-y-0.5">
+                            {steps.map((step, index) => ({ step, index })).reverse().map(({ step, index }) => (
+                                <button
+                                    key={index}
+                                    onClick={() => onJump(index)}
+                                    disabled={index === currentIndex}
+                                    className={`w-full text-left px-2 py-1.5 rounded text-xs flex items-center justify-between gap-2 ${index === currentIndex ? 'bg-blue-900/30 text-blue-300' : index > currentIndex ? 'text-neutral-600 hover:bg-neutral-800' : 'text-neutral-300 hover:bg-neutral-800'}`}
+                                >
+                                    <span className="truncate">{stepLabel(step.label)}</span>
+                                    <span className="font-mono text-[10px] text-neutral-500 shrink-0">{index === currentIndex ? t('history.current') : new Date(step.time).toLocaleTimeString()}</span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex-1 flex flex-col min-h-0 p-4 gap-3">
+                        <h3 className="text-xs font-bold uppercase text-neutral-500">{t('history.snapshots')}</h3>
+                        <div className="flex gap-2">
+                            <input
+                                value={snapshotName}
+                                onChange={(e) => setSnapshotName(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') takeSnapshot(); }}
+                                placeholder={t('history.snapshot_name')}
+                                className="flex-1 bg-neutral-950 border border-neutral-700 rounded px-3 py-1.5 text-sm text-neutral-200 focus:border-blue-500 outline-none"
+                            />
+                            <button onClick={takeSnapshot} disabled={!projectId} className="flex items-center gap-1.5 text-xs font-medium bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white px-3 py-1.5 rounded transition-colors">
+                                <Camera size={14} /> {t('history.take_snapshot')}
+                            </button>
+                        </div>
+                        {error && <p className="text-sm text-red-400">{error}</p>}
+
+                        <div className="overflow-y-auto space-y-2 max-h-64">
+                            {snapshots.map(snapshot => (
+                                <div key={snapshot.id} className={`flex items-center gap-3 p-2.5 rounded-lg border group ${comparison?.snapshot.id === snapshot.id ? 'bg-blue-900/20 border-blue-700/50' : 'bg-neutral-950 border-neutral-800'}`}>
+                                    <div className="flex-1 min-w-0">
+                                        <div className="font-bold text-sm text-neutral-100 truncate">{snapshot.name}</div>
+                                        <div className="text-xs text-neutral-500 font-mono">{new Date(snapshot.createdAt).toLocaleString()} · {snapshot.wordCount} {t('lexicon.entries_count')}</div>
+                                    </div>
+                                    <div className="flex items-center gap-1 opacity-60 group-hover:opacity-100 transition-opacity">
+                                        <button onClick={() => compare(snapshot)} className="p-1.5 text-neutral-400 hover:text-blue-400" title={t('history.compare')}><GitCompare size={16} /></button>
+                                        <button onClick={() => restore(snapshot)} className="p-1.5 text-neutral-400 hover:text-amber-400" title={t('history.restore')}><RotateCcw size={16} /></button>
+                                        <button onClick={() => withSnapshot(snapshot, data => onCheckOut(data, snapshot.name))} className="p-1.5 text-neutral-400 hover:text-white" title={t('history.checkout_hint')}><FolderOpen size={16} /></button>
+                                        <button onClick={() => remove(snapshot)} className="p-1.5 text-neutral-400 hover:text-red-400" title={t('projects.delete')}><Trash2 size={16} /></button>
+                                    </div>
+                                </div>
+                            ))}
+                            {snapshots.length === 0 && !error && <p className="text-sm text-neutral-500 text-center py-4">{t('history.no_snapshots')}</p>}
+                        </div>
+
+                        {comparison && (
+                            <div className="flex-1 min-h-0 overflow-y-auto border-t border-neutral-800 pt-3">
+                                <h3 className="text-xs font-bold uppercase text-neutral-500 mb-2">{t('history.diff_title')} "{comparison.snapshot.name}"</h3>
+                                {comparison.diffs.length === 0 && <p className="text-sm text-neutral-500">{t('history.no_changes')}</p>}
+                                <div className="space-y-3">
+                                    {comparison.diffs.map((diff, i) => (
+                                        <div key={i}>
+                                            <div className="text-xs font-bold text-neutral-300 mb-1">{t(`history.section.${diff.section}`)}{diff.language ? ` · ${diff.language}` : ''}</div>
+                                            <div className="font-mono text-xs space-y-0.5 ps-2">
+                                                {renderItems(diff.added, '+', 'text-emerald-400')}
+                                                {renderItems(diff.removed, '−', 'text-red-400')}
+                                                {renderItems(diff.changed, '~', 'text-amber-400')}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default HistoryModal;
@@ -1,12 +1,18 @@
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
-import { Plus, Search, Trash2, BookA, GitFork, ArrowRight, Link, Filter, X, SlidersHorizontal, ShieldAlert, AlertTriangle, HelpCircle, AlertOctagon, Edit, Ban, Eye, EyeOff, Copy, Check, Feather, Type, Mic, Pin, PinOff } from 'lucide-react';
-import { LexiconEntry, POS_SUGGESTIONS, ProjectConstraints, PhonologyConfig, ScriptConfig } from '../types';
+import { Plus, Search, Trash2, BookA, GitFork, ArrowRight, Link, Filter, X, SlidersHorizontal, ShieldAlert, AlertTriangle, HelpCircle, AlertOctagon, Edit, Ban, Eye, EyeOff, Copy, Check, Feather, Type, Mic, Pin, PinOff, Volume2, Play, Square, Upload, Download, AudioWaveform } from 'lucide-react';
+import { LexiconEntry, POS_SUGGESTIONS, ProjectConstraints, PhonologyConfig, ScriptConfig, SpeechSettings, EntryRecording } from '../types';
 import Combobox from './Combobox';
 import GenWord from './GenWord';
 import { ConScriptText } from './ConScriptRenderer';
 import { useTranslation, useTranslation as useTransHook } from '../i18n';
 import { searchLexicon, SearchResult } from '../services/searchService';
 import { isApiKeySet } from '../services/geminiService';
+import { compileOrthography, isIpaConsistent, transcribe } from '../services/orthographyService';
+import { checkInventory, checkSyllables, formatSyllabifiedIPA, segmentIPA } from '../services/syllableService';
+import { toPuaText } from '../services/scriptShapingService';
+import { speakIPA } from '../services/speechService';
+import { containsBannedSequence, matchesEdge } from '../services/wordGeneratorService';
+import { ActiveRecorder, deleteRecording, exportRecordingBundle, importRecordingBundle, isRecordingSupported, playRecording, saveRecording, startRecording } from '../services/recordingService';
 
 interface LexiconProps {
     entries: LexiconEntry[];
@@ -22,21 +28,31 @@ interface LexiconProps {
     setDraftEntry?: (entry: Partial<LexiconEntry> | null) => void;
     scriptConfig?: ScriptConfig;
     isScriptMode?: boolean;
+    speech?: SpeechSettings;
 }
 
 type ConflictViewMode = 'PINNED' | 'HIDDEN' | 'ONLY';
 
+// Peak envelope of a recording, drawn as mirrored bars
+const Waveform: React.FC<{ peaks: number[], className?: string }> = ({ peaks, className }) => (
+    <svg viewBox={`0 0 ${peaks.length * 2} 20`} preserveAspectRatio="none" className={className}>
+        {peaks.map((p, i) => <rect key={i} x={i * 2} y={10 - Math.max(0.5, p * 9)} width={1.4} height={Math.max(1, p * 18)} fill="currentColor" />)}
+    </svg>
+);
+
 // IPA KEYBOARD DATA
 const IPA_SYMBOLS = {
     'Vowels': ['i', 'y', 'ɨ', 'ʉ', 'ɯ', 'u', 'ɪ', 'ʏ', 'ʊ', 'e', 'ø', 'ɘ', 'ɵ', 'ɤ', 'o', 'ə', 'ɛ', 'œ', 'ɜ', 'ɞ', 'ʌ', 'ɔ', 'æ', 'ɐ', 'a', 'ɶ', 'ɑ', 'ɒ'],
     'Consonants': ['p', 'b', 't', 'd', 'ʈ', 'ɖ', 'c', 'ɟ', 'k', 'g', 'q', 'ɢ', 'ʔ', 'm', 'n', 'ɳ', 'ɲ', 'ŋ', 'ɴ', 'ʙ', 'r', 'ʀ', 'ɾ', 'ɽ', 'ɸ', 'β', 'f', 'v', 'θ', 'ð', 's', 'z', 'ʃ', 'ʒ', 'ʂ', 'ʐ', 'ç', 'ʝ', 'x', 'ɣ', 'χ', 'ʁ', 'ħ', 'ʕ', 'h', 'ɦ', 'ɬ', 'ɮ', 'ʋ', 'ɹ', 'j', 'ɰ', 'l', 'ɭ', 'ʎ', 'ʟ'],
-    'Diacritics': ['ˈ', 'ˌ', 'ː', 'ˑ', 'ʰ', 'ʲ', 'ʷ', 'ˤ', '̃', '̚', '̪', '̥', '̬']
+    'Non-pulmonic': ['ʘ', 'ǀ', 'ǃ', 'ǂ', 'ǁ', 'ɓ', 'ɗ', 'ʄ', 'ɠ', 'ʛ', 'ʼ', 'ɕ', 'ʑ', 'ʍ', 'w', 'ɥ'],
+    'Diacritics': ['ˈ', 'ˌ', 'ː', 'ˑ', 'ʰ', 'ʲ', 'ʷ', 'ˤ', '̃', '̚', '̪', '̥', '̬', '͡', '̯', '̩'],
+    'Tones': ['˥', '˦', '˧', '˨', '˩', '̋', '́', '̄', '̀', '̏', '̂', '̌']
 };
 
 const Lexicon: React.FC<LexiconProps> = ({
     entries, setEntries, constraints, enableAI, phonology,
     genWordState, setGenWordState, jumpToTerm, setJumpToTerm,
-    draftEntry, setDraftEntry, scriptConfig, isScriptMode = false
+    draftEntry, setDraftEntry, scriptConfig, isScriptMode = false, speech
 }) => {
     const { t, direction } = useTransHook();
     const [activeTab, setActiveTab] = useState<'BROWSE' | 'GENERATE'>('BROWSE');
@@ -61,6 +77,7 @@ const Lexicon: React.FC<LexiconProps> = ({
     const [newEtymology, setNewEtymology] = useState('');
     const [newDerivedFrom, setNewDerivedFrom] = useState<string>('');
     const [validationErrors, setValidationErrors] = useState<string[]>([]);
+    const [ipaEdited, setIpaEdited] = useState(false); // Stops the orthography from overwriting hand-typed IPA
 
     // IPA KEYBOARD STATE
     const [showIPAKeyboard, setShowIPAKeyboard] = useState(false);
@@ -68,6 +85,28 @@ const Lexicon: React.FC<LexiconProps> = ({
 
     // Smart Copy Feedback State
     const [copiedId, setCopiedId] = useState<string | null>(null);
+    const [audioIssue, setAudioIssue] = useState<{ id: string, message: string } | null>(null);
+    const [showWaveforms, setShowWaveforms] = useState(true);
+
+    // Pronunciation recording in the entry form
+    const [newRecording, setNewRecording] = useState<EntryRecording | undefined>(undefined);
+    const [recorder, setRecorder] = useState<ActiveRecorder | null>(null);
+    const [recordingError, setRecordingError] = useState<string | null>(null);
+
+    const playEntry = (entry: LexiconEntry) => {
+        setAudioIssue(null);
+        speakIPA(entry.ipa, phonology, speech)
+            .then(unknown => { if (unknown.length > 0) setAudioIssue({ id: entry.id, message: `${t('speech.unknown')}: ${unknown.join(' ')}` }); })
+            .catch(() => setAudioIssue({ id: entry.id, message: t('speech.unavailable') }));
+    };
+
+    const playEntryRecording = (entry: LexiconEntry) => {
+        if (!entry.recording) return;
+        setAudioIssue(null);
+        playRecording(entry.recording)
+            .then(found => { if (!found) setAudioIssue({ id: entry.id, message: t('recording.missing') }); })
+            .catch(() => setAudioIssue({ id: entry.id, message: t('recording.play_failed') }));
+    };
 
     useEffect(() => {
         if (jumpToTerm) {
@@ -81,6 +120,7 @@ const Lexicon: React.FC<LexiconProps> = ({
             setEditingEntryId(null);
             setNewWord(draftEntry.word || '');
             setNewIPA(draftEntry.ipa || '');
+            setIpaEdited(!!draftEntry.ipa);
             setNewPOS(draftEntry.pos || 'Noun');
             setNewDefinition(draftEntry.definition || '');
             setNewEtymology(draftEntry.etymology || '');
@@ -92,34 +132,39 @@ const Lexicon: React.FC<LexiconProps> = ({
 
     const getPosLabel = (posKey: string) => t(`pos.${posKey}` as any) || posKey;
 
-    const isConsonant = (char: string) => {
-        if (phonology.consonants.length === 0) return !'aeiouàáèéìíòóùú'.includes(char.toLowerCase());
-        return phonology.consonants.some(c => c.symbol === char) || !'aeiouàáèéìíòóùú'.includes(char.toLowerCase());
+    // ORTHOGRAPHY (spelling → IPA)
+    const orthography = useMemo(() => compileOrthography(phonology.orthography), [phonology.orthography]);
+    const hasOrthography = orthography.rules.length > 0;
+    // Syllable breaks and stress only once the language defines a structure or a stress rule
+    const hasSyllabification = !!(phonology.syllableStructure?.trim() || phonology.stress);
+    const displayIPA = (ipa: string) => hasSyllabification && ipa ? formatSyllabifiedIPA(ipa, phonology) : ipa;
+    const deriveIPA = (word: string) => displayIPA(transcribe(word, orthography).ipa);
+
+    const handleWordChange = (word: string) => {
+        setNewWord(word);
+        if (hasOrthography && !ipaEdited) setNewIPA(deriveIPA(word));
     };
 
-    const isVowel = (char: string) => {
-        if (phonology.vowels.length === 0) return 'aeiouàáèéìíòóùú'.includes(char.toLowerCase());
-        return phonology.vowels.some(v => v.symbol === char) || 'aeiouàáèéìíòóùú'.includes(char.toLowerCase());
+    const handleIPAChange = (ipa: string) => {
+        setNewIPA(ipa);
+        setIpaEdited(ipa !== ''); // Clearing the field hands it back to the orthography
     };
 
-    const getCVPattern = (word: string) => {
-        return word.split('').map(char => {
-            if (phonology.vowels.some(v => v.symbol === char)) return 'V';
-            if (phonology.consonants.some(c => c.symbol === char)) return 'C';
-            if ('aeiouàáèéìíòóùú'.includes(char.toLowerCase())) return 'V';
-            return 'C';
-        }).join('');
+    // Segments by phoneme (digraphs via the orthography or the inventory), not by character
+    const getSegments = (word: string) => {
+        const sounds = hasOrthography ? transcribe(word, orthography).ipa : word.toLowerCase().normalize('NFD');
+        return segmentIPA(sounds, phonology);
     };
 
-    const checkConformance = useCallback((word: string, pos: string): string[] => {
+    const checkConformance = useCallback((word: string, pos: string, ipa?: string): string[] => {
         const errors: string[] = [];
         const wRaw = word.trim();
         if (!wRaw) return [];
-        const wCheck = constraints.caseSensitive ? wRaw : wRaw.toLowerCase();
+        const segments = getSegments(wRaw);
+        const symbols = segments.map(seg => seg.symbol);
 
         constraints.bannedSequences.forEach(seq => {
-            const sCheck = constraints.caseSensitive ? seq : seq.toLowerCase();
-            if (wCheck.includes(sCheck)) errors.push(t('val.banned_seq') + `: "${seq}"`);
+            if (containsBannedSequence(seq, symbols, wRaw, phonology, constraints.caseSensitive)) errors.push(t('val.banned_seq') + `: "${seq}"`);
         });
 
         if (constraints.allowedGraphemes) {
@@ -133,11 +178,8 @@ const Lexicon: React.FC<LexiconProps> = ({
         if (constraints.mustStartWith?.length > 0) {
             const rules = constraints.mustStartWith.filter(r => !r.conditionPos || r.conditionPos === pos);
             if (rules.length > 0) {
-                const starts = rules.some(r => {
-                    if (r.target === 'C') return isConsonant(wRaw.charAt(0));
-                    if (r.target === 'V') return isVowel(wRaw.charAt(0));
-                    return wRaw.startsWith(r.target);
-                });
+                const first = segments[0];
+                const starts = rules.some(r => matchesEdge(r, first?.symbol ?? '', wRaw.startsWith(r.target), phonology, first?.isVowel));
                 if (!starts) errors.push(t('val.must_start'));
             }
         }
@@ -145,27 +187,28 @@ const Lexicon: React.FC<LexiconProps> = ({
         if (constraints.mustEndWith?.length > 0) {
             const rules = constraints.mustEndWith.filter(r => !r.conditionPos || r.conditionPos === pos);
             if (rules.length > 0) {
-                const ends = rules.some(r => {
-                    if (r.target === 'C') return isConsonant(wRaw.charAt(wRaw.length - 1));
-                    if (r.target === 'V') return isVowel(wRaw.charAt(wRaw.length - 1));
-                    return wRaw.endsWith(r.target);
-                });
+                const last = segments[segments.length - 1];
+                const ends = rules.some(r => matchesEdge(r, last?.symbol ?? '', wRaw.endsWith(r.target), phonology, last?.isVowel));
                 if (!ends) errors.push(t('val.must_end'));
             }
         }
 
         if (constraints.phonotacticStructure) {
-            const pattern = getCVPattern(wRaw);
+            const pattern = segments.map(seg => seg.isVowel ? 'V' : 'C').join('');
             try {
                 const structRegex = new RegExp(constraints.phonotacticStructure);
                 if (!structRegex.test(pattern)) errors.push(t('val.structure_fail') + ` (${pattern})`);
             } catch (e) { }
         }
+
+        const sounds = ipa?.trim() || (hasOrthography ? transcribe(wRaw, orthography).ipa : '');
+        if (sounds) checkSyllables(sounds, phonology).forEach(issue => errors.push(t('val.syllable') + `: ${issue}`));
+        if (sounds) checkInventory(sounds, phonology).forEach(issue => errors.push(t('val.inventory') + `: ${issue}`));
         return errors;
-    }, [constraints, phonology, t]);
+    }, [constraints, phonology, orthography, t]);
 
     useEffect(() => {
-        const errors = checkConformance(newWord, newPOS);
+        const errors = checkConformance(newWord, newPOS, newIPA);
         if (!constraints.allowDuplicates && newWord.trim()) {
             const wCheck = constraints.caseSensitive ? newWord.trim() : newWord.trim().toLowerCase();
             const isDuplicate = entries.some(e => {
@@ -175,7 +218,7 @@ const Lexicon: React.FC<LexiconProps> = ({
             if (isDuplicate) errors.push(t('val.duplicate') + ` "${newWord}"`);
         }
         setValidationErrors(errors);
-    }, [newWord, newPOS, constraints, entries, editingEntryId, checkConformance]);
+    }, [newWord, newPOS, newIPA, constraints, entries, editingEntryId, checkConformance]);
 
     useEffect(() => {
         const timer = setTimeout(() => setDebouncedSearchTerm(searchTerm), 300);
@@ -195,7 +238,7 @@ const Lexicon: React.FC<LexiconProps> = ({
         }
     }, [debouncedSearchTerm, posFilter, searchFields, entries]);
 
-    const totalConflictCount = useMemo(() => entries.filter(e => checkConformance(e.word, e.pos).length > 0).length, [entries, checkConformance]);
+    const totalConflictCount = useMemo(() => entries.filter(e => checkConformance(e.word, e.pos, e.ipa).length > 0).length, [entries, checkConformance]);
 
     const groupedEntries = useMemo(() => {
         if (debouncedSearchTerm || posFilter !== 'ALL') return {};
@@ -228,7 +271,7 @@ const Lexicon: React.FC<LexiconProps> = ({
         const conflictKey = t('lexicon.conflicts_group');
 
         sorted.forEach(entry => {
-            const errors = checkConformance(entry.word, entry.pos);
+            const errors = checkConformance(entry.word, entry.pos, entry.ipa);
             const isConflict = errors.length > 0;
             if (conflictMode === 'HIDDEN' && isConflict) return;
             if (conflictMode === 'ONLY' && !isConflict) return;
@@ -275,10 +318,12 @@ const Lexicon: React.FC<LexiconProps> = ({
         setEditingEntryId(entry.id);
         setNewWord(entry.word);
         setNewIPA(entry.ipa);
+        setIpaEdited(!!entry.ipa && !(hasOrthography && isIpaConsistent(entry.ipa, deriveIPA(entry.word))));
         setNewPOS(entry.pos);
         setNewDefinition(entry.definition);
         setNewEtymology(entry.etymology || '');
         setNewDerivedFrom(entry.derivedFrom || '');
+        setNewRecording(entry.recording);
         setIsModalOpen(true);
     };
 
@@ -287,9 +332,11 @@ const Lexicon: React.FC<LexiconProps> = ({
         const entryData: LexiconEntry = {
             id: editingEntryId || Date.now().toString(),
             word: newWord, ipa: newIPA, pos: newPOS, definition: newDefinition,
-            etymology: newEtymology, derivedFrom: newDerivedFrom || undefined
+            etymology: newEtymology, derivedFrom: newDerivedFrom || undefined, recording: newRecording
         };
         setEntries(prev => editingEntryId ? prev.map(e => e.id === editingEntryId ? entryData : e) : [...prev, entryData]);
+        recorder?.cancel();
+        setRecorder(null);
         setIsModalOpen(false);
         resetForm();
     };
@@ -298,10 +345,12 @@ const Lexicon: React.FC<LexiconProps> = ({
         setEditingEntryId(null);
         setNewWord(draft.word || '');
         setNewIPA(draft.ipa || '');
+        setIpaEdited(!!draft.ipa);
         setNewPOS(draft.pos || 'Noun');
         setNewDefinition(draft.definition || '');
         setNewEtymology('');
         setNewDerivedFrom('');
+        setNewRecording(undefined);
         setIsModalOpen(true);
         setActiveTab('BROWSE');
     };
@@ -313,7 +362,73 @@ const Lexicon: React.FC<LexiconProps> = ({
 
     const resetForm = () => {
         setNewWord(''); setNewIPA(''); setNewPOS('Noun'); setNewDefinition('');
-        setNewEtymology(''); setNewDerivedFrom(''); setValidationErrors([]);
+        setNewEtymology(''); setNewDerivedFrom(''); setValidationErrors([]); setIpaEdited(false);
+        setNewRecording(undefined); setRecordingError(null);
+    };
+
+    // A capture that was never saved with its entry is dropped from the database
+    const discardUnsavedRecording = () => {
+        const original = editingEntryId ? entries.find(e => e.id === editingEntryId)?.recording : undefined;
+        if (newRecording && newRecording.id !== original?.id) deleteRecording(newRecording.id).catch(() => { });
+    };
+
+    const closeModal = () => {
+        recorder?.cancel();
+        setRecorder(null);
+        discardUnsavedRecording();
+        setIsModalOpen(false);
+    };
+
+    const attachAudio = async (blob: Blob) => {
+        try {
+            const recording = await saveRecording(blob);
+            discardUnsavedRecording();
+            setNewRecording(recording);
+            setRecordingError(null);
+        } catch (e) {
+            setRecordingError(t('recording.failed'));
+        }
+    };
+
+    const toggleRecording = async () => {
+        if (recorder) {
+            setRecorder(null);
+            attachAudio(await recorder.stop());
+            return;
+        }
+        try {
+            setRecorder(await startRecording());
+            setRecordingError(null);
+        } catch (e) {
+            setRecordingError(t('recording.no_microphone'));
+        }
+    };
+
+    const handleAudioFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) attachAudio(file);
+        e.target.value = '';
+    };
+
+    const exportRecordings = async () => {
+        const bundle = await exportRecordingBundle(entries);
+        if (bundle.recordings.length === 0) { alert(t('recording.none')); return; }
+        const url = URL.createObjectURL(new Blob([JSON.stringify(bundle)], { type: 'application/json' }));
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = 'lexicon-recordings.json';
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const importRecordings = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        file.text()
+            .then(text => importRecordingBundle(JSON.parse(text), entries))
+            .then(updated => setEntries(updated))
+            .catch(() => alert(t('recording.bundle_invalid')));
     };
 
     const requestDelete = (entry: LexiconEntry, e: React.MouseEvent) => {
@@ -343,15 +458,7 @@ const Lexicon: React.FC<LexiconProps> = ({
 
     const handleCopyScript = (entry: LexiconEntry) => {
         if (scriptConfig && scriptConfig.glyphs) {
-            const textToCopy = entry.word.split('').map(char => {
-                const glyph = scriptConfig.glyphs.find(g => g.char === char);
-                if (glyph && glyph.pua) {
-                    try {
-                        return JSON.parse(`"${glyph.pua}"`);
-                    } catch (e) { return char; }
-                }
-                return char;
-            }).join('');
+            const textToCopy = toPuaText(entry.word, scriptConfig);
 
             navigator.clipboard.writeText(textToCopy).then(() => {
                 setCopiedId(`${entry.id}-script`);
@@ -371,8 +478,10 @@ const Lexicon: React.FC<LexiconProps> = ({
     const renderEntryCard = (entry: LexiconEntry) => {
         const parent = entries.find(e => e.id === entry.derivedFrom);
         const descendants = entries.filter(e => e.derivedFrom === entry.id);
-        const entryErrors = checkConformance(entry.word, entry.pos);
+        const entryErrors = checkConformance(entry.word, entry.pos, entry.ipa);
         const isInvalid = entryErrors.length > 0;
+        const derivedIPA = hasOrthography ? deriveIPA(entry.word) : null;
+        const ipaMismatch = derivedIPA !== null && !!entry.ipa && !isIpaConsistent(entry.ipa, derivedIPA);
 
         return (
             <div key={entry.id} className={`bg-neutral-900 border ${isInvalid ? 'border-red-900/30' : 'border-neutral-800'} rounded-lg p-4 hover:border-neutral-600 transition-colors group relative overflow-hidden`}>
@@ -393,8 +502,24 @@ const Lexicon: React.FC<LexiconProps> = ({
                                 <h3 className="text-2xl font-serif text-neutral-100 font-bold">{entry.word}</h3>
                             )}
 
-                            <span className="text-neutral-400 font-mono text-sm bg-neutral-800 px-2 py-0.5 rounded">/{entry.ipa}/</span>
+                            <span className="text-neutral-400 font-mono text-sm bg-neutral-800 px-2 py-0.5 rounded">/{displayIPA(entry.ipa)}/</span>
+                            {entry.ipa && (
+                                <button onClick={() => playEntry(entry)} className="text-neutral-500 hover:text-blue-400 self-center" title={t('speech.play')}>
+                                    <Volume2 size={14} />
+                                </button>
+                            )}
+                            {entry.recording && (
+                                <button onClick={() => playEntryRecording(entry)} className="flex items-center gap-1.5 text-emerald-500 hover:text-emerald-300 self-center" title={`${t('recording.play')} (${entry.recording.duration.toFixed(1)}s)`}>
+                                    <Play size={14} />
+                                    {showWaveforms && <Waveform peaks={entry.recording.peaks} className="w-20 h-4" />}
+                                </button>
+                            )}
                             <span className="text-blue-400 text-xs uppercase font-bold tracking-wider border border-blue-900 bg-blue-950/30 px-1.5 rounded">{getPosLabel(entry.pos)}</span>
+                            {ipaMismatch && (
+                                <span className="flex items-center gap-1 text-amber-400 text-[10px] uppercase font-bold tracking-wider border border-dashed border-amber-500/30 bg-amber-950/20 px-1.5 rounded cursor-help" title={`${t('lexicon.ipa_orthography')}: /${derivedIPA}/`}>
+                                    <AlertTriangle size={10} /> {t('lexicon.ipa_mismatch')}
+                                </span>
+                            )}
                             {isInvalid && (
                                 <div className="group/badge relative">
                                     <span className="flex items-center gap-1 text-red-400 text-[10px] uppercase font-bold tracking-wider border border-dashed border-red-500/30 bg-red-950/20 px-1.5 rounded cursor-help">
@@ -408,6 +533,7 @@ const Lexicon: React.FC<LexiconProps> = ({
                             )}
                         </div>
 
+                        {audioIssue?.id === entry.id && <p className="text-xs text-amber-400">{audioIssue.message}</p>}
                         <p className="text-neutral-300 text-lg mb-3 mt-1">{entry.definition}</p>
 
                         {(parent || descendants.length > 0 || entry.etymology) && (
@@ -476,14 +602,14 @@ const Lexicon: React.FC<LexiconProps> = ({
 
     const isSearchActive = debouncedSearchTerm.trim() !== '' || posFilter !== 'ALL';
 
-    if (activeTab === 'GENERATE' && enableAI) {
+    if (activeTab === 'GENERATE') {
         return (
             <div className="flex flex-col h-full bg-neutral-950">
                 <div className="p-4 border-b border-neutral-800 bg-neutral-900/50 flex items-center justify-between gap-4">
                     <button onClick={() => setActiveTab('BROWSE')} className="text-neutral-400 hover:text-white flex items-center gap-2 text-sm font-bold">
                         <ArrowRight className={direction === 'rtl' ? '' : 'rotate-180'} size={16} /> {t('common.cancel')}
                     </button>
-                    {!isApiKeySet() && (
+                    {enableAI && !isApiKeySet() && (
                         <div className="flex-1 bg-amber-950/20 border border-amber-900/50 rounded-lg p-2 text-xs text-amber-200 flex items-center gap-3">
                             <ShieldAlert size={14} className="shrink-0 text-amber-500" />
                             <p>{t('lexicon.ai_requires_key') || 'AI Generation requires an API Key.'} <a href="https://github.com/zRinexD/KoreLang/" target="_blank" rel="noopener noreferrer" className="underline font-bold">{t('lexicon.docs') || 'Documentation'}</a>.</p>
@@ -496,6 +622,9 @@ const Lexicon: React.FC<LexiconProps> = ({
                     initialState={genWordState}
                     saveState={setGenWordState}
                     projectConstraints={constraints}
+                    phonology={phonology}
+                    existingWords={entries.map(e => e.word)}
+                    enableAI={enableAI}
                     scriptConfig={scriptConfig}
                     isScriptMode={isScriptMode}
                 />
@@ -542,11 +671,19 @@ const Lexicon: React.FC<LexiconProps> = ({
                         <span className="text-neutral-500 text-sm font-mono hidden md:inline-block">
                             {isSearchActive ? `${searchResults.length} ${t('lexicon.results_count')}` : `${entries.length} ${t('lexicon.entries_count')}`}
                         </span>
-                        {enableAI && (
-                            <button onClick={() => setActiveTab('GENERATE')} className="flex items-center gap-2 text-purple-400 hover:text-purple-300 hover:bg-purple-900/20 px-3 py-2 rounded-lg font-medium transition-colors border border-transparent hover:border-purple-500/50">
-                                <span className="text-lg font-mono">*</span><span className="hidden sm:inline">{t('lexicon.ai_gen_btn')}</span>
-                            </button>
-                        )}
+                        <button onClick={() => setShowWaveforms(!showWaveforms)} className={`p-2 rounded-lg transition-colors ${showWaveforms ? 'text-emerald-400' : 'text-neutral-500 hover:text-neutral-300'}`} title={t('recording.show_waveforms')}>
+                            <AudioWaveform size={18} />
+                        </button>
+                        <button onClick={exportRecordings} className="p-2 rounded-lg text-neutral-500 hover:text-neutral-300 transition-colors" title={t('recording.export_bundle')}>
+                            <Download size={18} />
+                        </button>
+                        <label className="p-2 rounded-lg text-neutral-500 hover:text-neutral-300 transition-colors cursor-pointer" title={t('recording.import_bundle')}>
+                            <Upload size={18} />
+                            <input type="file" accept=".json,application/json" onChange={importRecordings} className="hidden" />
+                        </label>
+                        <button onClick={() => setActiveTab('GENERATE')} className="flex items-center gap-2 text-purple-400 hover:text-purple-300 hover:bg-purple-900/20 px-3 py-2 rounded-lg font-medium transition-colors border border-transparent hover:border-purple-500/50">
+                            <span className="text-lg font-mono">*</span><span className="hidden sm:inline">{enableAI ? t('lexicon.ai_gen_btn') : t('genword.title')}</span>
+                        </button>
                         <button onClick={openAddModal} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors shadow-lg shadow-blue-900/20">
                             <Plus size={18} /><span className="hidden sm:inline">{t('lexicon.new')}</span>
                         </button>
@@ -704,7 +841,7 @@ const Lexicon: React.FC<LexiconProps> = ({
                                 {editingEntryId ? <Edit size={18} className="text-blue-500" /> : <Plus size={18} className="text-blue-500" />}
                                 {editingEntryId ? t('lexicon.edit') : t('lexicon.new')}
                             </h2>
-                            <button onClick={() => setIsModalOpen(false)} className="text-neutral-500 hover:text-white transition-colors">✕</button>
+                            <button onClick={closeModal} className="text-neutral-500 hover:text-white transition-colors">✕</button>
                         </div>
                         <div className="p-6 space-y-4 overflow-y-auto">
                             {validationErrors.length > 0 && (
@@ -719,14 +856,14 @@ const Lexicon: React.FC<LexiconProps> = ({
                             <div className="grid grid-cols-2 gap-4">
                                 <div className="space-y-1">
                                     <label className="text-xs font-semibold text-neutral-400 uppercase">{t('lexicon.word')}</label>
-                                    <input autoFocus value={newWord} onChange={(e) => setNewWord(e.target.value)} className={`w-full bg-neutral-950 border rounded p-2 text-neutral-100 focus:outline-none focus:ring-1 ${validationErrors.length > 0 ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : 'border-neutral-700 focus:border-blue-500 focus:ring-blue-500'}`} placeholder="e.g. kamra" />
+                                    <input autoFocus value={newWord} onChange={(e) => handleWordChange(e.target.value)} className={`w-full bg-neutral-950 border rounded p-2 text-neutral-100 focus:outline-none focus:ring-1 ${validationErrors.length > 0 ? 'border-red-500 focus:border-red-500 focus:ring-red-500' : 'border-neutral-700 focus:border-blue-500 focus:ring-blue-500'}`} placeholder="e.g. kamra" />
                                 </div>
                                 <div className="space-y-1">
                                     <label className="text-xs font-semibold text-neutral-400 uppercase">{t('lexicon.ipa')}</label>
                                     <div className="relative">
                                         <input
                                             value={newIPA}
-                                            onChange={(e) => setNewIPA(e.target.value)}
+                                            onChange={(e) => handleIPAChange(e.target.value)}
                                             onFocus={() => setShowIPAKeyboard(true)}
                                             // On blur we might want to hide, but if pinned, keep it. 
                                             // Also need to check if focus moved TO the keyboard.
@@ -737,12 +874,41 @@ const Lexicon: React.FC<LexiconProps> = ({
                                             <Mic size={14} />
                                         </button>
                                     </div>
+                                    {hasOrthography && newWord.trim() && !isIpaConsistent(newIPA, deriveIPA(newWord)) && (
+                                        <button onClick={() => { setNewIPA(deriveIPA(newWord)); setIpaEdited(false); }} className="text-[10px] text-amber-400 hover:text-amber-300 font-mono">
+                                            {t('lexicon.ipa_orthography')}: /{deriveIPA(newWord)}/
+                                        </button>
+                                    )}
                                 </div>
                             </div>
                             <div className="space-y-1">
                                 <label className="text-xs font-semibold text-neutral-400 uppercase">{t('lexicon.pos')}</label>
                                 <Combobox value={newPOS} onChange={setNewPOS} options={POS_SUGGESTIONS} placeholder={t('lexicon.pos_placeholder') || 'Select POS...'} renderOption={(opt) => getPosLabel(opt)} />
                             </div>
+                            <div className="space-y-1">
+                                <label className="text-xs font-semibold text-neutral-400 uppercase">{t('recording.title')}</label>
+                                <div className="flex items-center gap-2">
+                                    <button onClick={toggleRecording} disabled={!isRecordingSupported()} className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-xs font-medium transition-colors disabled:opacity-30 ${recorder ? 'bg-red-600 hover:bg-red-700 text-white animate-pulse' : 'bg-neutral-800 hover:bg-neutral-700 text-neutral-300'}`}>
+                                        {recorder ? <><Square size={12} /> {t('recording.stop')}</> : <><Mic size={12} /> {t('recording.record')}</>}
+                                    </button>
+                                    <label className="flex items-center gap-1.5 px-3 py-1.5 rounded text-xs font-medium bg-neutral-800 hover:bg-neutral-700 text-neutral-300 cursor-pointer transition-colors">
+                                        <Upload size={12} /> {t('recording.import_file')}
+                                        <input type="file" accept="audio/*" onChange={handleAudioFile} className="hidden" />
+                                    </label>
+                                    {newRecording && (
+                                        <>
+                                            <button onClick={() => playRecording(newRecording).catch(() => setRecordingError(t('recording.play_failed')))} className="flex items-center gap-1.5 text-emerald-400 hover:text-emerald-300">
+                                                <Play size={14} /> <Waveform peaks={newRecording.peaks} className="w-24 h-5" />
+                                            </button>
+                                            <span className="text-[10px] font-mono text-neutral-500">{newRecording.duration.toFixed(1)}s</span>
+                                            <button onClick={() => { discardUnsavedRecording(); setNewRecording(undefined); }} className="text-neutral-500 hover:text-red-400" title={t('recording.remove')}>
+                                                <X size={14} />
+                                            </button>
+                                        </>
+                                    )}
+                                </div>
+                                {recordingError && <p className="text-xs text-red-400">{recordingError}</p>}
+                            </div>
                             <div className="space-y-1">
                                 <label className="text-xs font-semibold text-neutral-400 uppercase">{t('lexicon.definition')}</label>
                                 <textarea value={newDefinition} onChange={(e) => setNewDefinition(e.target.value)} className="w-full bg-neutral-950 border border-neutral-700 rounded p-2 text-neutral-100 h-24 focus:border-blue-500 focus:outline-none resize-none focus:ring-1 focus:ring-blue-500" placeholder="..." />
@@ -765,7 +931,7 @@ const Lexicon: React.FC<LexiconProps> = ({
                             </div>
                         </div>
                         <div className="px-6 py-4 bg-neutral-950 border-t border-neutral-800 flex justify-end gap-3 shrink-0">
-                            <button onClick={() => setIsModalOpen(false)} className="px-4 py-2 text-neutral-300 hover:text-white text-sm font-medium transition-colors">{t('lexicon.cancel')}</button>
+                            <button onClick={closeModal} className="px-4 py-2 text-neutral-300 hover:text-white text-sm font-medium transition-colors">{t('lexicon.cancel')}</button>
                             <button onClick={handleSaveEntry} disabled={validationErrors.length > 0} className={`px-4 py-2 text-white text-sm font-medium rounded-md shadow-lg transition-all active:scale-95 ${validationErrors.length > 0 ? 'bg-neutral-700 cursor-not-allowed opacity-50' : 'bg-blue-600 hover:bg-blue-700 shadow-blue-900/20'}`}>{t('lexicon.save')}</button>
                         </div>
                     </div>
@@ -1,7 +1,8 @@
 import React, { useState, useRef } from 'react';
 import {
-  FileText, FolderOpen, Settings,
-  Download, HelpCircle, Command, ShieldCheck, Feather
+  FileText, FolderOpen, Settings, Library,
+  Download, HelpCircle, Command, ShieldCheck, Feather,
+  Undo2, Redo2, History
 } from 'lucide-react';
 import { AppSettings } from '../types';
 import { useTranslation } from '../i18n';
@@ -9,6 +10,12 @@ import { useTranslation } from '../i18n';
 interface MenuBarProps {
   onNewProject: () => void;
   onOpenProject: (file: File) => void;
+  onOpenProjects: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onOpenHistory: () => void;
   onSaveProject: () => void;
   onOpenSettings: () => void;
   onOpenConstraints: () => void;
@@ -24,6 +31,12 @@ interface MenuBarProps {
 const MenuBar: React.FC<MenuBarProps> = ({
   onNewProject,
   onOpenProject,
+  onOpenProjects,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  onOpenHistory,
   onSaveProject,
   onOpenSettings,
   onOpenConstraints,
@@ -54,11 +67,22 @@ const MenuBar: React.FC<MenuBarProps> = ({
       label: t('menu.file'),
       items: [
         { label: t('menu.new_project'), icon: FileText, action: onNewProject, shortcut: 'Alt+N' },
+        { label: t('menu.projects'), icon: Library, action: onOpenProjects, shortcut: '' },
         { label: t('menu.open_project'), icon: FolderOpen, action: () => fileInputRef.current?.click(), shortcut: 'Alt+O' },
         { type: 'separator' },
         { label: t('menu.export_json'), icon: Download, action: onSaveProject, shortcut: 'Alt+S' },
       ]
     },
+    {
+      id: 'edit',
+      label: t('menu.edit'),
+      items: [
+        { label: t('menu.undo'), icon: Undo2, action: onUndo, shortcut: 'Ctrl+Z', disabled: !canUndo },
+        { label: t('menu.redo'), icon: Redo2, action: onRedo, shortcut: 'Ctrl+Y', disabled: !canRedo },
+        { type: 'separator' },
+        { label: t('menu.history'), icon: History, action: onOpenHistory, shortcut: '' },
+      ]
+    },
     {
       id: 'view',
       label: t('menu.view'),
@@ -151,7 +175,8 @@ const MenuBar: React.FC<MenuBarProps> = ({
                     return (
                       <button
                         key={idx}
-                        className="w-full text-left px-4 py-1.5 text-sm text-neutral-300 hover:bg-blue-600 hover:text-white flex items-center justify-between group"
+                        disabled={item.disabled}
+                        className="w-full text-left px-4 py-1.5 text-sm text-neutral-300 hover:bg-blue-600 hover:text-white flex items-center justify-between group disabled:opacity-40 disabled:pointer-events-none"
                         onClick={() => {
                           item.action?.();
                           setActiveMenu(null);
@@ -1,21 +1,34 @@
 import React, { useState } from 'react';
-import { Plus, Trash2, Table, Tag, Box, ArrowRight, Save, Grid, BookDashed, Filter } from 'lucide-react';
-import { MorphologyState, MorphParadigm, MorphDimension, InflectionRule, POS_SUGGESTIONS, ScriptConfig } from '../types';
+import { Plus, Trash2, Table, Tag, Box, ArrowRight, Save, Grid, BookDashed, Filter, Layers, Waves } from 'lucide-react';
+import { MorphologyState, MorphParadigm, MorphDimension, InflectionRule, AffixOperation, BoundaryRule, POS_SUGGESTIONS, ScriptConfig, LexiconEntry, PhonologyConfig } from '../types';
 import { useTranslation } from '../i18n';
 import { ConScriptText } from './ConScriptRenderer';
+import { applyAffix, applyBoundaryRules, buildParadigmTable, describeOperation, getOperation, getParadigmDimensions, isRuleApplicable, validateBoundaryRules, InflectedForm, BOUNDARY } from '../services/morphologyService';
+
+const OPERATIONS: AffixOperation[] = ['prefix', 'suffix', 'infix', 'circumfix', 'reduplication', 'replacement'];
+const BOUNDARY_TYPES: BoundaryRule['type'][] = ['sound-change', 'harmony', 'epenthesis'];
+
+// "a>ä, o>ö" and "go=went, be=was" round-trip through plain text inputs
+const formatPairs = (pairs: Array<[string, string]>, sep: string) => pairs.map(([a, b]) => `${a}${sep}${b}`).join(', ');
+const parsePairs = (text: string, sep: string): Array<[string, string]> =>
+  text.split(',').map(p => p.split(sep).map(x => x.trim())).filter(p => p.length === 2 && p[0]) as Array<[string, string]>;
 
 interface MorphologyEditorProps {
   data: MorphologyState;
   setData: (data: MorphologyState) => void;
   scriptConfig?: ScriptConfig; // NEW
   isScriptMode?: boolean; // NEW
+  entries?: LexiconEntry[];
+  phonology?: PhonologyConfig;
+  bannedSequences?: string[];
 }
 
-const MorphologyEditor: React.FC<MorphologyEditorProps> = ({ data, setData, scriptConfig, isScriptMode = false }) => {
+const MorphologyEditor: React.FC<MorphologyEditorProps> = ({ data, setData, scriptConfig, isScriptMode = false, entries = [], phonology, bannedSequences = [] }) => {
   const { t } = useTranslation();
   const [activeParadigmId, setActiveParadigmId] = useState<string | null>(null);
   const [testRoot, setTestRoot] = useState('am');
   const [testPos, setTestPos] = useState<string>('Verb'); // For simulating logic checks
+  const [tableEntryId, setTableEntryId] = useState<string>(''); // Empty = sandbox root
 
   // Helper for POS translation
   const getPosLabel = (posKey: string) => t(`pos.${posKey}` as any) || posKey;
@@ -52,6 +65,51 @@ const MorphologyEditor: React.FC<MorphologyEditorProps> = ({ data, setData, scri
     }
   }
 
+  // --- Dimension Management ---
+  const addDimension = () => {
+    const newDimension: MorphDimension = { id: Date.now().toString(), name: 'New Dimension', values: [] };
+    setData({ ...data, dimensions: [...data.dimensions, newDimension] });
+  };
+
+  const updateDimension = (id: string, updates: Partial<MorphDimension>) => {
+    setData({ ...data, dimensions: data.dimensions.map(d => d.id === id ? { ...d, ...updates } : d) });
+  };
+
+  const deleteDimension = (id: string) => {
+    if (!confirm(t('common.confirm'))) return;
+    setData({
+      ...data,
+      dimensions: data.dimensions.filter(d => d.id !== id),
+      paradigms: data.paradigms.map(p => ({ ...p, dimensions: p.dimensions.filter(dimId => dimId !== id) }))
+    });
+  };
+
+  // --- Boundary Rules ---
+  const boundaryRules = data.boundaryRules || [];
+  const boundaryErrors = validateBoundaryRules(boundaryRules);
+  const morphophonology = { boundaryRules, phonology, bannedSequences };
+
+  const addBoundaryRule = () => {
+    const newRule: BoundaryRule = { id: Date.now().toString(), type: 'sound-change', enabled: true, rule: '', feature: 'backness', epenthetic: '' };
+    setData({ ...data, boundaryRules: [...boundaryRules, newRule] });
+  };
+
+  const updateBoundaryRule = (id: string, updates: Partial<BoundaryRule>) => {
+    setData({ ...data, boundaryRules: boundaryRules.map(r => r.id === id ? { ...r, ...updates } : r) });
+  };
+
+  const deleteBoundaryRule = (id: string) => {
+    setData({ ...data, boundaryRules: boundaryRules.filter(r => r.id !== id) });
+  };
+
+  const toggleParadigmDimension = (dimId: string) => {
+    if (!activeParadigm) return;
+    const dims = activeParadigm.dimensions.includes(dimId)
+      ? activeParadigm.dimensions.filter(d => d !== dimId)
+      : [...activeParadigm.dimensions, dimId];
+    updateParadigm(activeParadigm.id, { dimensions: dims });
+  };
+
   // --- Rule Management ---
   
   const addRule = () => {
@@ -60,6 +118,7 @@ const MorphologyEditor: React.FC<MorphologyEditorProps> = ({ data, setData, scri
           coordinates: { name: "New Rule" }, 
           affix: "-",
           isPrefix: false,
+          operation: 'suffix',
           logic: {} // Empty logic by default
       };
       updateParadigm(activeParadigm.id, { rules: [...activeParadigm.rules, newRule] });
@@ -74,11 +133,35 @@ const MorphologyEditor: React.FC<MorphologyEditorProps> = ({ data, setData, scri
           rule.coordinates = { ...rule.coordinates, name: value };
       } else if (field === 'affix') {
           rule.affix = value;
-          rule.isPrefix = value.trim().endsWith('-');
+      } else if (field === 'operation') {
+          rule.operation = value as AffixOperation;
+          if (value === 'prefix' || value === 'suffix') rule.isPrefix = value === 'prefix';
+      } else if (field === 'placement') {
+          rule.isPrefix = value === 'before';
+      } else if (field === 'affixEnd') {
+          rule.affixEnd = value;
+      } else if (field === 'infixUnit') {
+          rule.infixAt = { index: 1, ...rule.infixAt, unit: value as 'position' | 'vowel' | 'syllable' };
+      } else if (field === 'infixIndex') {
+          rule.infixAt = { unit: 'vowel', ...rule.infixAt, index: parseInt(value, 10) || 0 };
+      } else if (field === 'reduplication') {
+          rule.reduplication = value as InflectionRule['reduplication'];
+      } else if (field === 'replacements') {
+          rule.replacements = parsePairs(value, '>').map(([from, to]) => ({ from, to }));
+      } else if (field === 'replaceScope') {
+          rule.replaceScope = value as InflectionRule['replaceScope'];
+      } else if (field === 'suppletive') {
+          const pairs = parsePairs(value, '=');
+          rule.suppletive = pairs.length > 0 ? Object.fromEntries(pairs) : undefined;
       } else if (field === 'logicPos') {
           rule.logic = { ...rule.logic, pos: value || undefined };
       } else if (field === 'logicRegex') {
           rule.logic = { ...rule.logic, regex: value || undefined };
+      } else if (field.startsWith('dim:')) {
+          const coordinates = { ...rule.coordinates };
+          if (value) coordinates[field.slice(4)] = value;
+          else delete coordinates[field.slice(4)];
+          rule.coordinates = coordinates;
       }
       
       updateParadigm(activeParadigm.id, { rules: newRules });
@@ -90,22 +173,96 @@ const MorphologyEditor: React.FC<MorphologyEditorProps> = ({ data, setData, scri
       updateParadigm(activeParadigm.id, { rules: newRules });
   };
 
-  const checkRuleApplicable = (rule: InflectionRule) => {
-      // 1. POS Check
-      if (rule.logic?.pos && rule.logic.pos !== testPos) return false;
-      
-      // 2. Regex Check
-      if (rule.logic?.regex) {
-          try {
-              const re = new RegExp(rule.logic.regex);
-              if (!re.test(testRoot)) return false;
-          } catch (e) {
-              return false; // Invalid Regex
-          }
-      }
-      return true;
+  const checkRuleApplicable = (rule: InflectionRule) => isRuleApplicable(rule, testRoot, testPos);
+
+  // --- Inflection Table ---
+  const paradigmDimensions = activeParadigm ? getParadigmDimensions(activeParadigm, data.dimensions) : [];
+  const matchingEntries = activeParadigm ? entries.filter(e => e.pos === activeParadigm.pos) : [];
+  const tableEntry = matchingEntries.find(e => e.id === tableEntryId);
+  const table = activeParadigm && paradigmDimensions.length > 0
+      ? buildParadigmTable(tableEntry ? tableEntry.word : testRoot, tableEntry ? tableEntry.pos : testPos, activeParadigm, data.dimensions, morphophonology)
+      : null;
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-amber-400 font-mono text-sm focus:border-amber-500 focus:outline-none";
+  const selectClass = "bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300 outline-none";
+
+  const renderOperationEditor = (rule: InflectionRule, idx: number) => {
+      const operation = getOperation(rule);
+      return (
+          <div className="flex flex-col gap-1.5">
+              <select value={operation} onChange={(e) => updateRule(idx, 'operation', e.target.value)} className={selectClass}>
+                  {OPERATIONS.map(op => <option key={op} value={op}>{t(`morph.op.${op}`)}</option>)}
+              </select>
+              {operation !== 'replacement' && (
+                  <div className="flex items-center gap-1">
+                      <input value={rule.affix} onChange={(e) => updateRule(idx, 'affix', e.target.value)} placeholder={operation === 'reduplication' ? 'linker' : operation === 'prefix' ? 'un-' : '-s'} className={inputClass} />
+                      {operation === 'circumfix' && (
+                          <>
+                              <span className="text-slate-600">…</span>
+                              <input value={rule.affixEnd || ''} onChange={(e) => updateRule(idx, 'affixEnd', e.target.value)} placeholder="-t" className={inputClass} />
+                          </>
+                      )}
+                  </div>
+              )}
+              {operation === 'infix' && (
+                  <div className="flex items-center gap-1">
+                      <select value={rule.infixAt?.unit || 'vowel'} onChange={(e) => updateRule(idx, 'infixUnit', e.target.value)} className={selectClass}>
+                          <option value="vowel">{t('morph.infix_vowel')}</option>
+                          <option value="syllable">{t('morph.infix_syllable')}</option>
+                          <option value="position">{t('morph.infix_position')}</option>
+                      </select>
+                      <input type="number" value={rule.infixAt?.index ?? 1} onChange={(e) => updateRule(idx, 'infixIndex', e.target.value)} className={`${selectClass} w-14`} title={t('morph.infix_index_hint')} />
+                  </div>
+              )}
+              {operation === 'reduplication' && (
+                  <div className="flex items-center gap-1">
+                      <select value={rule.reduplication || 'full'} onChange={(e) => updateRule(idx, 'reduplication', e.target.value)} className={selectClass}>
+                          <option value="full">{t('morph.red_full')}</option>
+                          <option value="cv">{t('morph.red_cv')}</option>
+                          <option value="syllable">{t('morph.red_syllable')}</option>
+                      </select>
+                      <select value={rule.isPrefix ? 'before' : 'after'} onChange={(e) => updateRule(idx, 'placement', e.target.value)} className={selectClass}>
+                          <option value="before">{t('morph.before_root')}</option>
+                          <option value="after">{t('morph.after_root')}</option>
+                      </select>
+                  </div>
+              )}
+              {operation === 'replacement' && (
+                  <div className="flex items-center gap-1">
+                      <input
+                          key={`rep-${idx}-${activeParadigmId}`}
+                          defaultValue={formatPairs((rule.replacements || []).map(r => [r.from, r.to]), '>')}
+                          onBlur={(e) => updateRule(idx, 'replacements', e.target.value)}
+                          placeholder="a>ä, o>ö"
+                          className={inputClass}
+                      />
+                      <select value={rule.replaceScope || 'last'} onChange={(e) => updateRule(idx, 'replaceScope', e.target.value)} className={selectClass}>
+                          <option value="first">{t('morph.scope_first')}</option>
+                          <option value="last">{t('morph.scope_last')}</option>
+                          <option value="all">{t('morph.scope_all')}</option>
+                      </select>
+                  </div>
+              )}
+              <input
+                  key={`sup-${idx}-${activeParadigmId}`}
+                  defaultValue={formatPairs(Object.entries(rule.suppletive || {}), '=')}
+                  onBlur={(e) => updateRule(idx, 'suppletive', e.target.value)}
+                  placeholder={t('morph.suppletive_ph')}
+                  className="w-full bg-slate-900 border border-slate-800 rounded px-2 py-0.5 text-[11px] text-rose-300 font-mono outline-none focus:border-rose-500 placeholder-slate-600"
+                  title={t('morph.suppletive')}
+              />
+              <div className="text-[10px] font-mono text-slate-600">{describeOperation(rule)}</div>
+          </div>
+      );
   };
 
+  // Cells no rule touches keep the bare root (unmarked forms such as NOM.SG)
+  const renderForm = (cellForm: InflectedForm) => (
+      isScriptMode
+          ? <ConScriptText text={cellForm.form} scriptConfig={scriptConfig} className="text-lg text-purple-300" />
+          : <span className={`font-serif ${cellForm.rules.length > 0 ? 'text-emerald-400' : 'text-slate-400'}`} title={`/${cellForm.underlying}/ · ${cellForm.rules.map(r => r.coordinates.name || r.affix).join(' + ')}`}>{cellForm.form}</span>
+  );
+
   return (
     <div className="flex h-full bg-slate-900 overflow-hidden rounded-xl border border-slate-800">
       {/* Sidebar: Paradigms */}
@@ -136,6 +293,92 @@ const MorphologyEditor: React.FC<MorphologyEditorProps> = ({ data, setData, scri
                 </div>
             ))}
         </div>
+
+        {/* Dimensions (case, number, tense...) shared by all paradigms */}
+        <div className="border-t border-slate-800 p-4 flex justify-between items-center">
+             <h3 className="font-bold text-slate-200 flex items-center gap-2 text-sm">
+                 <Layers size={14} className="text-amber-500" /> {t('morph.dimensions')}
+             </h3>
+             <button onClick={addDimension} className="text-amber-500 hover:text-white transition-colors">
+                 <Plus size={16} />
+             </button>
+        </div>
+        <div className="max-h-64 overflow-y-auto px-2 pb-2 space-y-2">
+            {data.dimensions.map(d => (
+                <div key={d.id} className="bg-slate-900 border border-slate-800 rounded p-2 group space-y-1">
+                    <div className="flex items-center gap-1">
+                        <input
+                            value={d.name}
+                            onChange={(e) => updateDimension(d.id, { name: e.target.value })}
+                            className="flex-1 bg-transparent text-xs font-bold text-slate-200 outline-none"
+                        />
+                        <button onClick={() => deleteDimension(d.id)} className="text-slate-700 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <Trash2 size={12} />
+                        </button>
+                    </div>
+                    <input
+                        defaultValue={d.values.join(', ')}
+                        onBlur={(e) => updateDimension(d.id, { values: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+                        placeholder="NOM, ACC, GEN"
+                        className="w-full bg-slate-950 border border-slate-800 rounded px-1.5 py-0.5 text-[11px] font-mono text-amber-300 outline-none focus:border-amber-500"
+                    />
+                </div>
+            ))}
+        </div>
+
+        {/* Boundary rules applied to every inflected form */}
+        <div className="border-t border-slate-800 p-4 flex justify-between items-center">
+             <h3 className="font-bold text-slate-200 flex items-center gap-2 text-sm">
+                 <Waves size={14} className="text-cyan-500" /> {t('morph.morphophonology')}
+             </h3>
+             <button onClick={addBoundaryRule} className="text-cyan-500 hover:text-white transition-colors">
+                 <Plus size={16} />
+             </button>
+        </div>
+        <div className="max-h-72 overflow-y-auto px-2 pb-2 space-y-2">
+            {boundaryRules.length > 0 && <p className="px-1 text-[10px] text-slate-600">{t('morph.boundary_hint')}</p>}
+            {boundaryRules.map(r => {
+                const error = boundaryErrors.find(e => e.ruleId === r.id);
+                return (
+                    <div key={r.id} className={`bg-slate-900 border rounded p-2 group space-y-1 ${error ? 'border-red-900' : 'border-slate-800'} ${r.enabled ? '' : 'opacity-50'}`}>
+                        <div className="flex items-center gap-1">
+                            <input type="checkbox" checked={r.enabled} onChange={(e) => updateBoundaryRule(r.id, { enabled: e.target.checked })} className="accent-cyan-500" />
+                            <select value={r.type} onChange={(e) => updateBoundaryRule(r.id, { type: e.target.value as BoundaryRule['type'] })} className={`flex-1 ${selectClass}`}>
+                                {BOUNDARY_TYPES.map(type => <option key={type} value={type}>{t(`morph.boundary.${type}`)}</option>)}
+                            </select>
+                            <button onClick={() => deleteBoundaryRule(r.id)} className="text-slate-700 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                        {r.type === 'sound-change' && (
+                            <input
+                                value={r.rule || ''}
+                                onChange={(e) => updateBoundaryRule(r.id, { rule: e.target.value })}
+                                placeholder="n > m / _+[pb]"
+                                className="w-full bg-slate-950 border border-slate-800 rounded px-1.5 py-0.5 text-[11px] font-mono text-cyan-300 outline-none focus:border-cyan-500"
+                            />
+                        )}
+                        {r.type === 'harmony' && (
+                            <select value={r.feature || 'backness'} onChange={(e) => updateBoundaryRule(r.id, { feature: e.target.value as BoundaryRule['feature'] })} className={`w-full ${selectClass}`}>
+                                <option value="backness">{t('morph.harmony_backness')}</option>
+                                <option value="rounded">{t('morph.harmony_rounded')}</option>
+                                <option value="both">{t('morph.harmony_both')}</option>
+                            </select>
+                        )}
+                        {r.type === 'epenthesis' && (
+                            <input
+                                value={r.epenthetic || ''}
+                                onChange={(e) => updateBoundaryRule(r.id, { epenthetic: e.target.value })}
+                                placeholder="e"
+                                title={t('morph.epenthesis_hint')}
+                                className="w-full bg-slate-950 border border-slate-800 rounded px-1.5 py-0.5 text-[11px] font-mono text-cyan-300 outline-none focus:border-cyan-500"
+                            />
+                        )}
+                        {error && <div className="text-[10px] text-red-400">{error.message}</div>}
+                    </div>
+                );
+            })}
+        </div>
       </div>
 
       {/* Main Editor */}
@@ -161,6 +404,23 @@ const MorphologyEditor: React.FC<MorphologyEditorProps> = ({ data, setData, scri
                                     {POS_SUGGESTIONS.map(p => <option key={p} value={p}>{getPosLabel(p)}</option>)}
                                 </select>
                             </div>
+                            {data.dimensions.length > 0 && (
+                                <div className="flex items-center gap-2 flex-wrap">
+                                    <span className="text-slate-500 text-sm">{t('morph.dimensions')}:</span>
+                                    {data.dimensions.map(d => {
+                                        const isOn = activeParadigm.dimensions.includes(d.id);
+                                        return (
+                                            <button
+                                                key={d.id}
+                                                onClick={() => toggleParadigmDimension(d.id)}
+                                                className={`text-[11px] px-2 py-0.5 rounded border transition-colors ${isOn ? 'bg-amber-900/30 border-amber-700 text-amber-300' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+                                            >
+                                                {d.name}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            )}
                         </div>
                         
                         {/* Root Tester */}
@@ -201,6 +461,7 @@ const MorphologyEditor: React.FC<MorphologyEditorProps> = ({ data, setData, scri
                                 <tr className="border-b border-slate-800 bg-slate-900/50">
                                     <th className="text-left py-3 px-4 text-xs font-bold text-slate-500 uppercase w-[25%]">{t('grammar.rule_name')}</th>
                                     <th className="text-left py-3 px-4 text-xs font-bold text-slate-500 uppercase w-[20%]">{t('grammar.affix_pattern')}</th>
+                                    {paradigmDimensions.length > 0 && <th className="text-left py-3 px-4 text-xs font-bold text-amber-500 uppercase">{t('morph.cell')}</th>}
                                     <th className="text-left py-3 px-4 text-xs font-bold text-slate-500 uppercase w-[30%]">Conditions (Logic)</th>
                                     <th className="text-left py-3 px-4 text-xs font-bold text-emerald-500 uppercase w-[20%]">{t('grammar.preview')}</th>
                                     <th className="w-[5%]"></th>
@@ -209,17 +470,22 @@ const MorphologyEditor: React.FC<MorphologyEditorProps> = ({ data, setData, scri
                             <tbody className="divide-y divide-slate-800">
                                 {activeParadigm.rules.map((rule, idx) => {
                                     // Calculate Preview
-                                    const cleanAffix = rule.affix.replace('-', '');
-                                    const isPrefix = rule.affix.endsWith('-');
                                     const isApplicable = checkRuleApplicable(rule);
                                     
-                                    const resultStr = isPrefix ? `${cleanAffix}${testRoot}` : `${testRoot}${cleanAffix}`;
+                                    const underlying = applyAffix(testRoot, rule, BOUNDARY);
+                                    const resultStr = applyBoundaryRules(underlying, morphophonology);
                                     
                                     const result = isApplicable 
                                         ? (
                                             isScriptMode 
                                             ? <ConScriptText text={resultStr} scriptConfig={scriptConfig} className="text-lg text-purple-300" />
-                                            : <span className="text-emerald-400">{resultStr}</span>
+                                            : (
+                                                <span className="flex items-center gap-2">
+                                                    <span className="text-slate-500 font-mono text-xs" title={t('morph.underlying')}>/{underlying}/</span>
+                                                    <ArrowRight size={12} className="text-slate-600" />
+                                                    <span className="text-emerald-400">{resultStr}</span>
+                                                </span>
+                                            )
                                         )
                                         : <span className="text-slate-600 italic line-through decoration-slate-700 decoration-2">{testRoot}</span>;
 
@@ -234,13 +500,26 @@ const MorphologyEditor: React.FC<MorphologyEditorProps> = ({ data, setData, scri
                                                 />
                                             </td>
                                             <td className="p-3 align-top">
-                                                <input 
-                                                    value={rule.affix}
-                                                    onChange={(e) => updateRule(idx, 'affix', e.target.value)}
-                                                    placeholder="-s or un-"
-                                                    className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-amber-400 font-mono text-sm focus:border-amber-500 focus:outline-none"
-                                                />
+                                                {renderOperationEditor(rule, idx)}
                                             </td>
+                                            {paradigmDimensions.length > 0 && (
+                                                <td className="p-3 align-top">
+                                                    <div className="flex flex-col gap-1">
+                                                        {paradigmDimensions.map(d => (
+                                                            <select
+                                                                key={d.id}
+                                                                value={rule.coordinates[d.id] || ''}
+                                                                onChange={(e) => updateRule(idx, `dim:${d.id}`, e.target.value)}
+                                                                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-amber-300 outline-none"
+                                                                title={d.name}
+                                                            >
+                                                                <option value="">{d.name}: *</option>
+                                                                {d.values.map(v => <option key={v} value={v}>{v}</option>)}
+                                                            </select>
+                                                        ))}
+                                                    </div>
+                                                </td>
+                                            )}
                                             <td className="p-3 align-top">
                                                 <div className="flex flex-col gap-2">
                                                     <div className="flex items-center gap-2">
@@ -279,7 +558,7 @@ const MorphologyEditor: React.FC<MorphologyEditorProps> = ({ data, setData, scri
                                 })}
                                 {activeParadigm.rules.length === 0 && (
                                     <tr>
-                                        <td colSpan={5} className="p-8 text-center text-slate-600">
+                                        <td colSpan={paradigmDimensions.length > 0 ? 6 : 5} className="p-8 text-center text-slate-600">
                                             <BookDashed size={24} className="mx-auto mb-2 opacity-50" />
                                             {t('grammar.no_morph_rules')}
                                         </td>
@@ -289,6 +568,57 @@ const MorphologyEditor: React.FC<MorphologyEditorProps> = ({ data, setData, scri
                         </table>
                     </div>
                     
+                    {table && (
+                        <div className="mt-6">
+                            <div className="flex justify-between items-center mb-3">
+                                <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+                                    <Grid size={14} className="text-amber-500" /> {t('morph.inflection_table')}
+                                </h4>
+                                <select
+                                    value={tableEntryId}
+                                    onChange={(e) => setTableEntryId(e.target.value)}
+                                    className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 outline-none min-w-[160px]"
+                                >
+                                    <option value="">{t('morph.sandbox_root')}: {testRoot}</option>
+                                    {matchingEntries.map(e => <option key={e.id} value={e.id}>{e.word} — {e.definition}</option>)}
+                                </select>
+                            </div>
+                            <div className="space-y-4">
+                                {table.pages.map((page, pageIdx) => (
+                                    <div key={pageIdx} className="bg-slate-950 border border-slate-800 rounded-lg overflow-hidden">
+                                        {Object.keys(page.cell).length > 0 && (
+                                            <div className="px-4 py-2 border-b border-slate-800 bg-slate-900/50 text-xs font-mono text-amber-400">
+                                                {paradigmDimensions.filter(d => page.cell[d.id]).map(d => `${d.name}: ${page.cell[d.id]}`).join(' · ')}
+                                            </div>
+                                        )}
+                                        <table className="w-full">
+                                            {table.columnDimension && (
+                                                <thead>
+                                                    <tr className="border-b border-slate-800">
+                                                        <th className="py-2 px-4"></th>
+                                                        {table.columnDimension.values.map(v => (
+                                                            <th key={v} className="text-left py-2 px-4 text-xs font-bold text-slate-500 uppercase">{v}</th>
+                                                        ))}
+                                                    </tr>
+                                                </thead>
+                                            )}
+                                            <tbody className="divide-y divide-slate-800">
+                                                {page.rows.map((row, rowIdx) => (
+                                                    <tr key={rowIdx}>
+                                                        <th className="text-left py-2 px-4 text-xs font-bold text-slate-500 uppercase w-32">{table.rowDimension?.values[rowIdx]}</th>
+                                                        {row.map((cellForm, colIdx) => (
+                                                            <td key={colIdx} className="py-2 px-4">{renderForm(cellForm)}</td>
+                                                        ))}
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     <div className="mt-4 p-3 bg-blue-900/10 border border-blue-900/30 rounded text-xs text-blue-300 flex gap-2">
                         <span className="font-bold">Pro Tip:</span> 
                         Use Regex conditions to create complex morphophonology. E.g., apply a suffix only if the root ends in a vowel (<code>[aeiou]$</code>).
@@ -1,16 +1,144 @@
-import React, { useState } from 'react';
-import { BookOpen, Eraser, Save, Copy, ZoomIn, ZoomOut, Type } from 'lucide-react';
+import React, { useMemo, useRef, useState } from 'react';
+import { BookOpen, Eraser, Save, Copy, ZoomIn, ZoomOut, Type, AlignLeft, Rows3, Plus, Trash2, Wand2, FileText, Tag, BookPlus } from 'lucide-react';
 import { ConScriptText } from './ConScriptRenderer';
-import { ScriptConfig } from '../types';
+import { GlossedExample, LexiconEntry, MorphologyState, NotebookDocument, PhonologyConfig, ScriptConfig, ViewState } from '../types';
+import { alignExample, autoGloss, exampleToHtml, exampleToLatex, exampleToText } from '../services/glossService';
+import { collectKnownForms, findUnknownWords, getWordAtCursor, normalizeToken, suggestWords, tokenizeText } from '../services/notebookService';
 
 interface NotebookProps {
     scriptConfig?: ScriptConfig;
     isScriptMode?: boolean;
+    documents: NotebookDocument[];
+    setDocuments: React.Dispatch<React.SetStateAction<NotebookDocument[]>>;
+    examples: GlossedExample[];
+    setExamples: React.Dispatch<React.SetStateAction<GlossedExample[]>>;
+    entries: LexiconEntry[];
+    morphology: MorphologyState;
+    phonology?: PhonologyConfig;
+    bannedSequences?: string[];
+    setView: (view: ViewState) => void;
+    setDraftEntry: (entry: Partial<LexiconEntry> | null) => void;
 }
 
-const Notebook: React.FC<NotebookProps> = ({ scriptConfig, isScriptMode }) => {
-    const [text, setText] = useState('');
+const Notebook: React.FC<NotebookProps> = ({ scriptConfig, isScriptMode, documents, setDocuments, examples, setExamples, entries, morphology, phonology, bannedSequences, setView, setDraftEntry }) => {
+    const [activeDocId, setActiveDocId] = useState<string | null>(null);
+    const [tagFilter, setTagFilter] = useState('');
+    const [cursor, setCursor] = useState(0);
+    const [suggestionIndex, setSuggestionIndex] = useState(0);
+    const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
     const [fontSize, setFontSize] = useState(24);
+    const [mode, setMode] = useState<'draft' | 'interlinear'>('draft');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [unglossedWords, setUnglossedWords] = useState<string[]>([]);
+
+    const selected = examples.find(ex => ex.id === selectedId) || examples[0];
+    const morphophonology = { boundaryRules: morphology.boundaryRules, phonology, bannedSequences };
+
+    // --- Documents ---
+    const activeDoc = documents.find(d => d.id === activeDocId) || documents[0];
+    const text = activeDoc?.content || '';
+    const allTags = Array.from(new Set(documents.flatMap(d => d.tags))).sort();
+    const visibleDocuments = documents
+        .filter(d => !tagFilter || d.tags.includes(tagFilter))
+        .sort((a, b) => b.modified - a.modified);
+
+    const createDocument = (content = ''): NotebookDocument => {
+        const now = Date.now();
+        const doc: NotebookDocument = { id: now.toString(), title: `Untitled ${documents.length + 1}`, content, tags: tagFilter ? [tagFilter] : [], created: now, modified: now };
+        setDocuments(prev => [...prev, doc]);
+        setActiveDocId(doc.id);
+        return doc;
+    };
+
+    const updateDocument = (id: string, updates: Partial<NotebookDocument>) => {
+        setDocuments(prev => prev.map(d => d.id === id ? { ...d, ...updates, modified: Date.now() } : d));
+    };
+
+    const deleteDocument = (id: string) => {
+        if (!confirm('Delete this document?')) return;
+        setDocuments(prev => prev.filter(d => d.id !== id));
+        if (activeDocId === id) setActiveDocId(null);
+    };
+
+    // Typing into an empty notebook starts its first document
+    const setText = (content: string) => {
+        if (activeDoc) updateDocument(activeDoc.id, { content });
+        else if (content) createDocument(content);
+    };
+
+    // --- Lexicon lookups ---
+    const partial = getWordAtCursor(text, cursor);
+    const suggestions = useMemo(
+        () => (partial && !suggestionsDismissed ? suggestWords(partial.word, entries) : []),
+        [partial?.word, partial?.start, suggestionsDismissed, entries]
+    );
+    const knownForms = useMemo(
+        () => collectKnownForms(entries, morphology, morphophonology),
+        [entries, morphology, phonology, bannedSequences]
+    );
+    const unknownWords = useMemo(() => findUnknownWords(text, knownForms), [text, knownForms]);
+    const unknownSet = new Set(unknownWords);
+
+    const acceptSuggestion = (entry: LexiconEntry) => {
+        if (!partial) return;
+        const next = text.slice(0, partial.start) + entry.word + text.slice(cursor);
+        const caret = partial.start + entry.word.length;
+        setText(next);
+        setCursor(caret);
+        requestAnimationFrame(() => textareaRef.current?.setSelectionRange(caret, caret));
+    };
+
+    const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (suggestions.length === 0) return;
+        if (e.key === 'ArrowDown') { e.preventDefault(); setSuggestionIndex(i => (i + 1) % suggestions.length); }
+        else if (e.key === 'ArrowUp') { e.preventDefault(); setSuggestionIndex(i => (i - 1 + suggestions.length) % suggestions.length); }
+        else if (e.key === 'Tab' || e.key === 'Enter') { e.preventDefault(); acceptSuggestion(suggestions[Math.min(suggestionIndex, suggestions.length - 1)]); }
+        else if (e.key === 'Escape') setSuggestionsDismissed(true);
+    };
+
+    const handleEditorChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+        setText(e.target.value);
+        setCursor(e.target.selectionStart);
+        setSuggestionIndex(0);
+        setSuggestionsDismissed(false);
+    };
+
+    const openDraftEntry = (word: string) => {
+        setDraftEntry({ word });
+        setView('LEXICON');
+    };
+
+    const addExample = () => {
+        const example: GlossedExample = { id: Date.now().toString(), text: '', segmentation: '', gloss: '', translation: '' };
+        setExamples(prev => [...prev, example]);
+        setSelectedId(example.id);
+        setUnglossedWords([]);
+    };
+
+    const updateExample = (id: string, updates: Partial<GlossedExample>) => {
+        setExamples(prev => prev.map(ex => ex.id === id ? { ...ex, ...updates } : ex));
+    };
+
+    const deleteExample = (id: string) => {
+        if (!confirm('Delete this example?')) return;
+        setExamples(prev => prev.filter(ex => ex.id !== id));
+        if (selectedId === id) setSelectedId(null);
+    };
+
+    const handleAutoGloss = () => {
+        if (!selected) return;
+        const result = autoGloss(selected.text, entries, morphology, morphophonology);
+        updateExample(selected.id, { segmentation: result.segmentation, gloss: result.gloss });
+        setUnglossedWords(result.unknown);
+    };
+
+    const exportFormats: Array<{ label: string; render: (ex: GlossedExample) => string }> = [
+        { label: 'Text', render: exampleToText },
+        { label: 'HTML', render: exampleToHtml },
+        { label: 'gb4e', render: ex => exampleToLatex(ex, 'gb4e') },
+        { label: 'expex', render: ex => exampleToLatex(ex, 'expex') }
+    ];
 
     return (
         <div className="h-full flex flex-col bg-slate-950">
@@ -27,6 +155,15 @@ const Notebook: React.FC<NotebookProps> = ({ scriptConfig, isScriptMode }) => {
                 </div>
                 
                 <div className="flex items-center gap-4">
+                    <div className="flex gap-1 bg-slate-950 p-1 rounded border border-slate-800">
+                        <button onClick={() => setMode('draft')} className={`px-2 py-1 text-xs rounded flex items-center gap-1 transition-colors ${mode === 'draft' ? 'bg-amber-600 text-white' : 'text-slate-400 hover:text-white'}`}>
+                            <AlignLeft size={14} /> Draft
+                        </button>
+                        <button onClick={() => setMode('interlinear')} className={`px-2 py-1 text-xs rounded flex items-center gap-1 transition-colors ${mode === 'interlinear' ? 'bg-amber-600 text-white' : 'text-slate-400 hover:text-white'}`}>
+                            <Rows3 size={14} /> Interlinear
+                        </button>
+                    </div>
+
                     {/* OPTICAL SCALING CONTROLS */}
                     <div className="flex items-center gap-2 bg-slate-950 px-3 py-1.5 rounded border border-slate-800 group">
                         <Type size={14} className="text-slate-500" />
@@ -41,31 +178,205 @@ const Notebook: React.FC<NotebookProps> = ({ scriptConfig, isScriptMode }) => {
                         <span className="text-[10px] font-mono text-slate-500 w-8 text-center">{fontSize}px</span>
                     </div>
 
-                    <div className="flex gap-1 bg-slate-950 p-1 rounded border border-slate-800">
+                    {mode === 'draft' && <div className="flex gap-1 bg-slate-950 p-1 rounded border border-slate-800">
                         <button onClick={() => setText('')} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors" title="Clear">
                             <Eraser size={16} />
                         </button>
                         <button onClick={() => navigator.clipboard.writeText(text)} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors" title="Copy Text">
                             <Copy size={16} />
                         </button>
-                    </div>
+                    </div>}
                 </div>
             </div>
 
-            {/* Split View */}
+            {mode === 'interlinear' ? (
             <div className="flex-1 flex overflow-hidden">
+                {/* Example list */}
+                <div className="w-56 border-r border-slate-800 bg-slate-900/30 flex flex-col">
+                    <div className="p-3 border-b border-slate-800 flex justify-between items-center">
+                        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Examples ({examples.length})</span>
+                        <button onClick={addExample} className="p-1 text-amber-500 hover:text-amber-300 hover:bg-slate-800 rounded" title="New example">
+                            <Plus size={16} />
+                        </button>
+                    </div>
+                    <div className="flex-1 overflow-y-auto custom-scrollbar">
+                        {examples.map((ex, i) => (
+                            <div key={ex.id} onClick={() => { setSelectedId(ex.id); setUnglossedWords([]); }} className={`group px-3 py-2 border-b border-slate-800/50 cursor-pointer flex items-center gap-2 ${selected?.id === ex.id ? 'bg-amber-900/20 text-amber-200' : 'text-slate-400 hover:bg-slate-800/50'}`}>
+                                <span className="text-[10px] font-mono text-slate-600">({i + 1})</span>
+                                <span className="flex-1 text-sm truncate">{ex.text || <i className="text-slate-600">empty</i>}</span>
+                                <button onClick={(e) => { e.stopPropagation(); deleteExample(ex.id); }} className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400" title="Delete">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                {selected ? (
+                <div className="flex-1 flex flex-col overflow-y-auto custom-scrollbar p-6 gap-4">
+                    {/* Fields */}
+                    <div className="grid gap-3">
+                        {([
+                            ['text', 'Text (romanization)'],
+                            ['segmentation', 'Morpheme segmentation'],
+                            ['gloss', 'Gloss'],
+                            ['translation', 'Free translation']
+                        ] as Array<[keyof GlossedExample, string]>).map(([field, label]) => (
+                            <label key={field} className="block">
+                                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{label}</span>
+                                <input
+                                    value={selected[field]}
+                                    onChange={(e) => updateExample(selected.id, { [field]: e.target.value })}
+                                    className="w-full mt-1 bg-slate-900 border border-slate-700 rounded px-3 py-2 text-slate-200 font-mono text-sm focus:outline-none focus:border-amber-500"
+                                    spellCheck={false}
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <button onClick={handleAutoGloss} disabled={!selected.text.trim()} className="px-3 py-1.5 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 text-white text-xs font-bold rounded flex items-center gap-2">
+                            <Wand2 size={14} /> Auto-gloss from lexicon
+                        </button>
+                        {unglossedWords.length > 0 && <span className="text-xs text-amber-400">Not in lexicon: {unglossedWords.join(', ')}</span>}
+                    </div>
+
+                    {/* Aligned preview */}
+                    <div className="bg-[#1a1b26] rounded border border-slate-800 p-6">
+                        {isScriptMode && scriptConfig && selected.text && (
+                            <div className="text-purple-200 mb-2" style={{ fontSize: `${fontSize}px` }}>
+                                <ConScriptText text={selected.text} scriptConfig={scriptConfig} />
+                            </div>
+                        )}
+                        <div className="text-slate-200 italic mb-3">{selected.text}</div>
+                        <div className="flex flex-wrap gap-x-5 gap-y-3">
+                            {alignExample(selected).map((column, i) => (
+                                <div key={i} className="flex flex-col">
+                                    <span className="font-mono text-slate-200">{column[0]}</span>
+                                    <span className="font-mono text-xs text-amber-300">{column[1]}</span>
+                                </div>
+                            ))}
+                        </div>
+                        {selected.translation && <div className="text-slate-400 mt-3">‘{selected.translation}’</div>}
+                    </div>
+
+                    {/* Export */}
+                    <div className="flex items-center gap-2">
+                        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Copy as</span>
+                        {exportFormats.map(format => (
+                            <button key={format.label} onClick={() => navigator.clipboard.writeText(format.render(selected))} className="px-2 py-1 text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 rounded flex items-center gap-1">
+                                <Copy size={12} /> {format.label}
+                            </button>
+                        ))}
+                        <button onClick={() => navigator.clipboard.writeText(examples.map(ex => exampleToLatex(ex, 'gb4e')).join('\n\n'))} className="px-2 py-1 text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 rounded flex items-center gap-1" title="All examples as gb4e">
+                            <Copy size={12} /> All (gb4e)
+                        </button>
+                    </div>
+                </div>
+                ) : (
+                <div className="flex-1 flex items-center justify-center text-slate-600 italic">
+                    <button onClick={addExample} className="flex items-center gap-2 hover:text-amber-400"><Plus size={16} /> Add a glossed example</button>
+                </div>
+                )}
+            </div>
+            ) : (
+            <div className="flex-1 flex overflow-hidden">
+                {/* Document list */}
+                <div className="w-56 border-r border-slate-800 bg-slate-900/30 flex flex-col">
+                    <div className="p-3 border-b border-slate-800 flex justify-between items-center">
+                        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Documents ({documents.length})</span>
+                        <button onClick={() => createDocument()} className="p-1 text-amber-500 hover:text-amber-300 hover:bg-slate-800 rounded" title="New document">
+                            <Plus size={16} />
+                        </button>
+                    </div>
+                    {allTags.length > 0 && (
+                        <div className="p-2 border-b border-slate-800 flex flex-wrap gap-1">
+                            {allTags.map(tag => (
+                                <button key={tag} onClick={() => setTagFilter(tagFilter === tag ? '' : tag)} className={`px-1.5 py-0.5 text-[10px] rounded ${tagFilter === tag ? 'bg-amber-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}>
+                                    #{tag}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <div className="flex-1 overflow-y-auto custom-scrollbar">
+                        {visibleDocuments.map(doc => (
+                            <div key={doc.id} onClick={() => setActiveDocId(doc.id)} className={`group px-3 py-2 border-b border-slate-800/50 cursor-pointer ${activeDoc?.id === doc.id ? 'bg-amber-900/20 text-amber-200' : 'text-slate-400 hover:bg-slate-800/50'}`}>
+                                <div className="flex items-center gap-2">
+                                    <FileText size={12} className="shrink-0 text-slate-500" />
+                                    <span className="flex-1 text-sm truncate">{doc.title || 'Untitled'}</span>
+                                    <button onClick={(e) => { e.stopPropagation(); deleteDocument(doc.id); }} className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400" title="Delete">
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                                <div className="text-[10px] text-slate-600 mt-0.5">{new Date(doc.modified).toLocaleString()}</div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
                 {/* Input Area */}
-                <div className="flex-1 border-r border-slate-800 relative bg-slate-900/30">
-                    <textarea 
-                        value={text}
-                        onChange={(e) => setText(e.target.value)}
-                        className="w-full h-full bg-transparent p-6 text-slate-300 font-mono text-base leading-relaxed focus:outline-none resize-none placeholder-slate-800"
-                        placeholder="Start drafting your manuscript here..."
-                        spellCheck={false}
-                    />
-                    <div className="absolute bottom-4 right-4 text-[10px] font-mono text-slate-600 bg-slate-900/80 px-2 py-1 rounded">
-                        {text.length} chars
+                <div className="flex-1 border-r border-slate-800 relative bg-slate-900/30 flex flex-col">
+                    {activeDoc && (
+                        <div className="px-6 pt-4 pb-2 border-b border-slate-800/50 space-y-2">
+                            <input
+                                value={activeDoc.title}
+                                onChange={(e) => updateDocument(activeDoc.id, { title: e.target.value })}
+                                className="w-full bg-transparent text-lg font-bold text-slate-200 focus:outline-none"
+                                placeholder="Title"
+                            />
+                            <div className="flex items-center gap-2 text-[10px] text-slate-500">
+                                <Tag size={12} />
+                                <input
+                                    key={activeDoc.id}
+                                    defaultValue={activeDoc.tags.join(', ')}
+                                    onBlur={(e) => updateDocument(activeDoc.id, { tags: Array.from(new Set(e.target.value.split(',').map(t => t.trim()).filter(Boolean))) })}
+                                    className="flex-1 bg-transparent text-slate-400 focus:outline-none"
+                                    placeholder="tags, comma separated"
+                                />
+                                <span>Created {new Date(activeDoc.created).toLocaleDateString()}</span>
+                            </div>
+                        </div>
+                    )}
+                    <div className="flex-1 relative">
+                        <textarea
+                            ref={textareaRef}
+                            value={text}
+                            onChange={handleEditorChange}
+                            onKeyDown={handleEditorKeyDown}
+                            onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
+                            onBlur={() => setSuggestionsDismissed(true)}
+                            className="w-full h-full bg-transparent p-6 text-slate-300 font-mono text-base leading-relaxed focus:outline-none resize-none placeholder-slate-800"
+                            placeholder="Start drafting your manuscript here..."
+                            spellCheck={false}
+                        />
+                        {suggestions.length > 0 && (
+                            <div className="absolute bottom-12 left-6 z-10 bg-slate-900 border border-slate-700 rounded shadow-xl min-w-[14rem] overflow-hidden">
+                                {suggestions.map((entry, i) => (
+                                    <div
+                                        key={entry.id}
+                                        onMouseDown={(e) => { e.preventDefault(); acceptSuggestion(entry); }}
+                                        className={`px-3 py-1.5 text-sm cursor-pointer flex justify-between gap-4 ${i === suggestionIndex ? 'bg-amber-900/40 text-amber-200' : 'text-slate-300 hover:bg-slate-800'}`}
+                                    >
+                                        <span className="font-mono">{entry.word}</span>
+                                        <span className="text-xs text-slate-500 truncate max-w-[10rem]">{entry.definition}</span>
+                                    </div>
+                                ))}
+                                <div className="px-3 py-1 text-[10px] text-slate-600 border-t border-slate-800">Tab to accept · Esc to dismiss</div>
+                            </div>
+                        )}
+                        <div className="absolute bottom-4 right-4 text-[10px] font-mono text-slate-600 bg-slate-900/80 px-2 py-1 rounded">
+                            {text.length} chars
+                        </div>
                     </div>
+                    {unknownWords.length > 0 && (
+                        <div className="px-4 py-2 border-t border-slate-800 flex items-center gap-2 overflow-x-auto custom-scrollbar">
+                            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider shrink-0">Unknown</span>
+                            {unknownWords.map(word => (
+                                <button key={word} onClick={() => openDraftEntry(word)} className="shrink-0 px-2 py-0.5 text-xs text-red-300 bg-red-900/20 hover:bg-red-900/40 rounded flex items-center gap-1" title="Add to lexicon">
+                                    <BookPlus size={12} /> {word}
+                                </button>
+                            ))}
+                        </div>
+                    )}
                 </div>
 
                 {/* Render Area */}
@@ -80,13 +391,24 @@ const Notebook: React.FC<NotebookProps> = ({ scriptConfig, isScriptMode }) => {
                         >
                             <ConScriptText text={text} scriptConfig={scriptConfig} />
                         </div>
+                    ) : text ? (
+                        <div className="text-slate-300 leading-loose break-words whitespace-pre-wrap font-serif" style={{ fontSize: `${fontSize}px` }}>
+                            {tokenizeText(text).map(token => token.isWord && unknownSet.has(normalizeToken(token.text)) ? (
+                                <span key={token.start} onClick={() => openDraftEntry(normalizeToken(token.text))} className="underline decoration-wavy decoration-red-500/70 cursor-pointer hover:text-red-300" title="Not in lexicon — click to add">
+                                    {token.text}
+                                </span>
+                            ) : (
+                                <React.Fragment key={token.start}>{token.text}</React.Fragment>
+                            ))}
+                        </div>
                     ) : (
                         <div className="text-2xl text-slate-700 leading-loose break-words whitespace-pre-wrap font-serif italic opacity-30 mt-10 text-center">
-                            {text ? "Switch to Script Mode to see your glifos" : "The sandbox is empty..."}
+                            The sandbox is empty...
                         </div>
                     )}
                 </div>
             </div>
+            )}
         </div>
     );
 };
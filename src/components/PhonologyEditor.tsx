@@ -1,31 +1,57 @@
-import React, { useState } from 'react';
-import { Wand2, RefreshCw, Volume2, Info, LayoutGrid, EyeOff, ShieldAlert } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Wand2, RefreshCw, Volume2, Info, LayoutGrid, EyeOff, ShieldAlert, SpellCheck, Plus, Trash2, Filter, RotateCcw, Music } from 'lucide-react';
 import { generatePhonology, isApiKeySet } from '../services/geminiService';
-import { PhonologyConfig, Phoneme } from '../types';
+import { PhonologyConfig, Phoneme, OrthographyRule, StressPattern, FeatureValue, PhonemeCategory, SpeechSettings } from '../types';
+import { ipaDescriptor, ipaFeatures, knownFeatures, naturalClassMembers, parseFeatureSpec, phonemeFeatures } from '../services/featureService';
+import { CONSONANT_SECTIONS, phonemeCategory, TONE_SECTIONS, toneLevels, VOWEL_SECTIONS } from '../services/ipaService';
+import { compileOrthography, transcribe } from '../services/orthographyService';
+import { formatSyllabifiedIPA } from '../services/syllableService';
+import { phonemeSample, speakIPA } from '../services/speechService';
 import { useTranslation } from '../i18n';
 
 interface PhonologyEditorProps {
     data: PhonologyConfig;
     setData: (data: PhonologyConfig) => void;
     enableAI: boolean; // NEW PROP
+    speech?: SpeechSettings;
 }
 
 const MANNERS = ['plosive', 'nasal', 'trill', 'tap', 'fricative', 'lateral-fricative', 'approximant', 'lateral-approximant'];
 const PLACES = ['bilabial', 'labiodental', 'dental', 'alveolar', 'postalveolar', 'retroflex', 'palatal', 'velar', 'uvular', 'pharyngeal', 'glottal'];
 const HEIGHTS = ['close', 'near-close', 'close-mid', 'mid', 'open-mid', 'near-open', 'open'];
 const BACKNESS = ['front', 'central', 'back'];
+const STRESS_PATTERNS: StressPattern[] = ['initial', 'final', 'penultimate', 'antepenultimate', 'weight', 'lexical'];
+const NEXT_VALUE: Record<FeatureValue, FeatureValue> = { '+': '-', '-': '0', '0': '+' };
+const PHONEME_LISTS = { consonant: 'consonants', vowel: 'vowels', tone: 'tones' } as const;
 
-const PhonologyEditor: React.FC<PhonologyEditorProps> = ({ data, setData, enableAI }) => {
+// Pitch trace of a tone: levels 1-5 from bottom to top
+const TonePitch: React.FC<{ levels: number[] }> = ({ levels }) => {
+    const points = (levels.length === 1 ? [levels[0], levels[0]] : levels)
+        .map((level, i, all) => `${2 + (i * 16) / (all.length - 1)},${19 - level * 3.5}`).join(' ');
+    return (
+        <svg viewBox="0 0 20 20" className="w-5 h-5 inline-block">
+            <line x1="19" y1="1" x2="19" y2="19" stroke="currentColor" strokeOpacity={0.3} />
+            <polyline points={points} fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" />
+        </svg>
+    );
+};
+
+const PhonologyEditor: React.FC<PhonologyEditorProps> = ({ data, setData, enableAI, speech }) => {
     const { t } = useTranslation();
     const [prompt, setPrompt] = useState('');
     const [loading, setLoading] = useState(false);
+    const [orthographyTest, setOrthographyTest] = useState('');
+    const [classQuery, setClassQuery] = useState('');
+    const [selectedSymbol, setSelectedSymbol] = useState<string | null>(null);
+    const [speechIssue, setSpeechIssue] = useState<string | null>(null);
+    const [newSymbols, setNewSymbols] = useState<Record<Phoneme['type'], string>>({ consonant: '', vowel: '', tone: '' });
 
     const handleGenerate = async () => {
         if (!prompt) return;
         setLoading(true);
         try {
             const result = await generatePhonology(prompt);
-            setData(result);
+            setData({ ...result, orthography: data.orthography });
         } catch (e) {
             alert("AI Generation failed. Check API Key or try again.");
         }
@@ -34,11 +60,131 @@ const PhonologyEditor: React.FC<PhonologyEditorProps> = ({ data, setData, enable
 
     // Helper to find phoneme in specific cell
     const getConsonants = (manner: string, place: string) => {
-        return (data.consonants || []).filter(p => p.manner === manner && p.place === place);
+        return (data.consonants || []).filter(p => p.manner === manner && p.place === place && phonemeCategory(p) === 'pulmonic');
     };
 
     const getVowels = (height: string, backness: string) => {
-        return (data.vowels || []).filter(p => p.height === height && p.backness === backness);
+        return (data.vowels || []).filter(p => p.height === height && p.backness === backness && phonemeCategory(p) === 'monophthong');
+    };
+
+    // --- Inventory sections beyond the grids ---
+    const inSection = (phonemes: Phoneme[] = [], category: PhonemeCategory) => phonemes.filter(p => phonemeCategory(p) === category);
+    const unplacedConsonants = inSection(data.consonants, 'pulmonic').filter(p => !MANNERS.includes(p.manner || '') || !PLACES.includes(p.place || ''));
+    const unplacedVowels = inSection(data.vowels, 'monophthong').filter(p => !HEIGHTS.includes(p.height || '') || !BACKNESS.includes(p.backness || ''));
+    const tones = data.tones || [];
+
+    const addPhoneme = (type: Phoneme['type']) => {
+        const symbol = newSymbols[type].trim();
+        if (!symbol) return;
+        if ([...(data.consonants || []), ...(data.vowels || []), ...tones].some(p => p.symbol === symbol)) {
+            alert(t('phonology.duplicate_phoneme'));
+            return;
+        }
+        const phoneme: Phoneme = type === 'tone' ? { symbol, type } : { ...ipaDescriptor(symbol), symbol, type };
+        const list = PHONEME_LISTS[type];
+        setData({ ...data, [list]: [...(data[list] || []), phoneme] });
+        setNewSymbols(prev => ({ ...prev, [type]: '' }));
+    };
+
+    const replacePhoneme = (phoneme: Phoneme, next: Phoneme | null) => {
+        const list = PHONEME_LISTS[phoneme.type];
+        const current = data[list] || [];
+        setData({ ...data, [list]: next ? current.map(p => p === phoneme ? next : p) : current.filter(p => p !== phoneme) });
+    };
+
+    // --- Distinctive features ---
+    const classResult = useMemo(() => {
+        if (!classQuery.trim()) return null;
+        try {
+            const spec = parseFeatureSpec(classQuery, data);
+            return { members: new Set(naturalClassMembers(spec, data).map(p => p.symbol)), error: undefined };
+        } catch (e) {
+            return { members: new Set<string>(), error: e instanceof Error ? e.message : String(e) };
+        }
+    }, [classQuery, data]);
+
+    const selectedPhoneme = selectedSymbol ? [...(data.consonants || []), ...(data.vowels || []), ...tones].find(p => p.symbol === selectedSymbol) : undefined;
+
+    // Members of the queried class stand out; everything else fades
+    const highlightClass = (p: Phoneme) => {
+        const selected = p.symbol === selectedSymbol ? 'ring-1 ring-purple-500 rounded px-0.5' : '';
+        if (!classResult || classResult.error) return selected;
+        return `${selected} ${classResult.members.has(p.symbol) ? 'bg-emerald-900/50 text-emerald-300 rounded px-0.5' : 'opacity-25'}`;
+    };
+
+    const updatePhonemeFeatures = (phoneme: Phoneme, features: Phoneme['features']) => {
+        replacePhoneme(phoneme, { ...phoneme, features: features && Object.keys(features).length > 0 ? features : undefined });
+    };
+
+    // Only values that differ from the IPA table are stored
+    const cycleFeature = (phoneme: Phoneme, name: string) => {
+        const value = NEXT_VALUE[phonemeFeatures(phoneme)[name] ?? '0'];
+        const overrides = { ...phoneme.features };
+        if ((ipaFeatures(phoneme.symbol)[name] ?? '0') === value) delete overrides[name];
+        else overrides[name] = value;
+        updatePhonemeFeatures(phoneme, overrides);
+    };
+
+    const playPhoneme = (p: Phoneme) => {
+        speakIPA(phonemeSample(p), data, speech)
+            .then(unknown => setSpeechIssue(unknown.length > 0 ? `${t('speech.unknown')}: ${unknown.join(' ')}` : null))
+            .catch(() => setSpeechIssue(t('speech.unavailable')));
+    };
+
+    const renderChip = (p: Phoneme) => (
+        <span key={p.symbol} onClick={() => setSelectedSymbol(p.symbol)} onDoubleClick={() => playPhoneme(p)} className={`text-lg font-serif cursor-pointer inline-flex items-center gap-1 text-neutral-200 ${highlightClass(p)}`} title={p.description || p.symbol}>
+            {p.symbol}
+            {p.type === 'tone' && <TonePitch levels={toneLevels(p.symbol)} />}
+        </span>
+    );
+
+    // Extra chart sections; empty ones are left out
+    const renderSections = (sections: Array<{ key: string, phonemes: Phoneme[] }>) => {
+        const filled = sections.filter(s => s.phonemes.length > 0);
+        if (filled.length === 0) return null;
+        return (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3 mt-6">
+                {filled.map(section => (
+                    <div key={section.key} className="border border-neutral-800 rounded-lg p-3 bg-neutral-900/30">
+                        <div className="text-[10px] font-bold text-neutral-500 uppercase mb-2">{t(`phonology.category.${section.key}`)}</div>
+                        <div className="flex flex-wrap gap-3">{section.phonemes.map(renderChip)}</div>
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
+    const renderAddPhoneme = (type: Phoneme['type']) => (
+        <div className="flex items-center gap-1">
+            <input
+                value={newSymbols[type]}
+                onChange={(e) => setNewSymbols(prev => ({ ...prev, [type]: e.target.value }))}
+                onKeyDown={(e) => e.key === 'Enter' && addPhoneme(type)}
+                placeholder={t(`phonology.add_${type}_placeholder`)}
+                className="w-28 bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-sm font-serif text-neutral-100 focus:border-blue-500 outline-none"
+            />
+            <button onClick={() => addPhoneme(type)} className="text-xs flex items-center gap-1 px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 text-neutral-300 rounded transition-colors">
+                <Plus size={14} /> {t('phonology.add_phoneme')}
+            </button>
+        </div>
+    );
+
+    // --- Orthography ---
+    const orthography = data.orthography || [];
+    const compiledOrthography = compileOrthography(orthography);
+    const testTranscription = orthographyTest ? transcribe(orthographyTest, compiledOrthography) : null;
+
+    const addOrthographyRule = () => {
+        const rule: OrthographyRule = { id: Date.now().toString(), grapheme: '', phoneme: '' };
+        setData({ ...data, orthography: [...orthography, rule] });
+    };
+
+    const updateOrthographyRule = (id: string, updates: Partial<OrthographyRule>) => {
+        setData({ ...data, orthography: orthography.map(r => r.id === id ? { ...r, ...updates } : r) });
+    };
+
+    const deleteOrthographyRule = (id: string) => {
+        setData({ ...data, orthography: orthography.filter(r => r.id !== id) });
     };
 
     return (
@@ -108,11 +254,37 @@ const PhonologyEditor: React.FC<PhonologyEditorProps> = ({ data, setData, enable
                             <span className="text-neutral-400">{t('phonology.vowels')}</span>
                             <span className="text-neutral-200 font-mono">{data.vowels?.length || 0}</span>
                         </div>
+                        {tones.length > 0 && (
+                            <div className="flex justify-between border-b border-neutral-800 pb-2">
+                                <span className="text-neutral-400">{t('phonology.tones')}</span>
+                                <span className="text-neutral-200 font-mono">{tones.length}</span>
+                            </div>
+                        )}
                         <div>
                             <span className="text-neutral-400 block mb-1">{t('phonology.syllable_struct')}</span>
-                            <span className="bg-neutral-900 px-2 py-1 rounded text-emerald-400 font-mono text-xs border border-neutral-800 block text-center">
-                                {data.syllableStructure || t('phonology.undefined')}
-                            </span>
+                            <input
+                                value={data.syllableStructure}
+                                onChange={(e) => setData({ ...data, syllableStructure: e.target.value })}
+                                placeholder={t('phonology.undefined')}
+                                className="w-full bg-neutral-900 px-2 py-1 rounded text-emerald-400 font-mono text-xs border border-neutral-800 text-center outline-none focus:border-emerald-600 placeholder-neutral-600"
+                            />
+                        </div>
+                        <div>
+                            <span className="text-neutral-400 block mb-1">{t('phonology.stress')}</span>
+                            <select
+                                value={data.stress?.pattern || ''}
+                                onChange={(e) => setData({ ...data, stress: e.target.value ? { ...data.stress, pattern: e.target.value as StressPattern } : undefined })}
+                                className="w-full bg-neutral-900 px-2 py-1 rounded text-neutral-200 text-xs border border-neutral-800 outline-none focus:border-emerald-600"
+                            >
+                                <option value="">{t('phonology.undefined')}</option>
+                                {STRESS_PATTERNS.map(p => <option key={p} value={p}>{t(`phonology.stress.${p}`)}</option>)}
+                            </select>
+                            {data.stress?.pattern === 'weight' && (
+                                <label className="flex items-center gap-2 mt-2 text-xs text-neutral-400">
+                                    <input type="checkbox" checked={data.stress.heavyCoda !== false} onChange={(e) => setData({ ...data, stress: { ...data.stress!, heavyCoda: e.target.checked } })} />
+                                    {t('phonology.heavy_coda')}
+                                </label>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -123,9 +295,12 @@ const PhonologyEditor: React.FC<PhonologyEditorProps> = ({ data, setData, enable
 
                 {/* Consonants Chart */}
                 <div className="bg-neutral-950 border border-neutral-800 rounded-xl p-6 shadow-lg overflow-x-auto">
-                    <h3 className="text-lg font-bold text-neutral-200 mb-6 flex items-center gap-2">
-                        <LayoutGrid size={20} className="text-neutral-500" /> {t('phonology.consonants')}
-                    </h3>
+                    <div className="flex justify-between items-center mb-6">
+                        <h3 className="text-lg font-bold text-neutral-200 flex items-center gap-2">
+                            <LayoutGrid size={20} className="text-neutral-500" /> {t('phonology.consonants')}
+                        </h3>
+                        {renderAddPhoneme('consonant')}
+                    </div>
 
                     <table className="w-full border-collapse min-w-[800px]">
                         <thead>
@@ -151,7 +326,9 @@ const PhonologyEditor: React.FC<PhonologyEditorProps> = ({ data, setData, enable
                                                             <span
                                                                 key={idx}
                                                                 title={`${p.voiced ? 'Voiced' : 'Unvoiced'} ${place} ${manner}`}
-                                                                className={`text-lg font-serif cursor-help ${p.voiced ? 'text-neutral-200' : 'text-neutral-400'}`}
+                                                                onClick={() => setSelectedSymbol(p.symbol)}
+                                                                onDoubleClick={() => playPhoneme(p)}
+                                                                className={`text-lg font-serif cursor-pointer ${p.voiced ? 'text-neutral-200' : 'text-neutral-400'} ${highlightClass(p)}`}
                                                             >
                                                                 {p.symbol}
                                                             </span>
@@ -165,13 +342,20 @@ const PhonologyEditor: React.FC<PhonologyEditorProps> = ({ data, setData, enable
                             ))}
                         </tbody>
                     </table>
+                    {renderSections([
+                        ...CONSONANT_SECTIONS.map(key => ({ key, phonemes: inSection(data.consonants, key) })),
+                        { key: 'unplaced', phonemes: unplacedConsonants }
+                    ])}
                 </div>
 
                 {/* Vowels Chart */}
                 <div className="bg-neutral-950 border border-neutral-800 rounded-xl p-6 shadow-lg">
-                    <h3 className="text-lg font-bold text-neutral-200 mb-6 flex items-center gap-2">
-                        <Volume2 size={20} className="text-neutral-500" /> {t('phonology.vowels')}
-                    </h3>
+                    <div className="flex justify-between items-center mb-6">
+                        <h3 className="text-lg font-bold text-neutral-200 flex items-center gap-2">
+                            <Volume2 size={20} className="text-neutral-500" /> {t('phonology.vowels')}
+                        </h3>
+                        {renderAddPhoneme('vowel')}
+                    </div>
 
                     <div className="relative w-full max-w-lg mx-auto aspect-[4/3] border border-neutral-800 bg-neutral-900/30 rounded-lg p-8">
                         {/* Simplified Vowel Trapezoid Grid */}
@@ -194,7 +378,7 @@ const PhonologyEditor: React.FC<PhonologyEditorProps> = ({ data, setData, enable
                                                 {cIdx === 0 && <span className="absolute -left-16 text-[10px] text-neutral-600 uppercase w-12 text-right">{height}</span>}
 
                                                 {vowels.map((v, i) => (
-                                                    <span key={`${v.symbol}-${i}`} className={`text-xl font-serif mx-1 ${v.rounded ? 'text-amber-400' : 'text-blue-300'}`} title={`${height} ${back} ${v.rounded ? 'rounded' : 'unrounded'}`}>
+                                                    <span key={`${v.symbol}-${i}`} onClick={() => setSelectedSymbol(v.symbol)} onDoubleClick={() => playPhoneme(v)} className={`text-xl font-serif mx-1 cursor-pointer ${v.rounded ? 'text-amber-400' : 'text-blue-300'} ${highlightClass(v)}`} title={`${height} ${back} ${v.rounded ? 'rounded' : 'unrounded'}`}>
                                                         {v.symbol}
                                                     </span>
                                                 ))}
@@ -209,6 +393,141 @@ const PhonologyEditor: React.FC<PhonologyEditorProps> = ({ data, setData, enable
                         <span className="flex items-center gap-1"><span className="w-2 h-2 bg-blue-300 rounded-full"></span> Unrounded</span>
                         <span className="flex items-center gap-1"><span className="w-2 h-2 bg-amber-400 rounded-full"></span> Rounded</span>
                     </div>
+                    {renderSections([
+                        ...VOWEL_SECTIONS.map(key => ({ key, phonemes: inSection(data.vowels, key) })),
+                        { key: 'unplaced', phonemes: unplacedVowels }
+                    ])}
+                </div>
+
+                {/* Tones: suprasegmental phonemes */}
+                <div className="bg-neutral-950 border border-neutral-800 rounded-xl p-6 shadow-lg">
+                    <div className="flex justify-between items-center mb-2">
+                        <h3 className="text-lg font-bold text-neutral-200 flex items-center gap-2">
+                            <Music size={20} className="text-neutral-500" /> {t('phonology.tones')}
+                        </h3>
+                        {renderAddPhoneme('tone')}
+                    </div>
+                    <p className="text-xs text-neutral-500">{t('phonology.tones_desc')}</p>
+                    {renderSections(TONE_SECTIONS.map(key => ({ key, phonemes: inSection(tones, key) })))}
+                </div>
+
+                {/* Distinctive features and natural classes */}
+                <div className="bg-neutral-950 border border-neutral-800 rounded-xl p-6 shadow-lg">
+                    <h3 className="text-lg font-bold text-neutral-200 flex items-center gap-2 mb-2">
+                        <Filter size={20} className="text-neutral-500" /> {t('phonology.features')}
+                    </h3>
+                    <p className="text-xs text-neutral-500 mb-4">{t('phonology.features_desc')}</p>
+
+                    <div className="flex items-center gap-3">
+                        <input value={classQuery} onChange={(e) => setClassQuery(e.target.value)} placeholder={t('phonology.class_placeholder')} className={`flex-1 bg-neutral-900 border rounded px-3 py-2 text-sm font-mono text-neutral-100 focus:border-emerald-600 outline-none ${classResult?.error ? 'border-red-700' : 'border-neutral-700'}`} />
+                        {classResult && !classResult.error && (
+                            <span className="text-xs text-emerald-400 font-mono min-w-[8rem]">{classResult.members.size} {t('phonology.class_members')}: {Array.from(classResult.members).join(' ')}</span>
+                        )}
+                    </div>
+                    {classResult?.error && <p className="text-xs text-red-400 mt-2">{classResult.error}</p>}
+
+                    {selectedPhoneme ? (
+                        <div className="mt-4">
+                            <div className="flex items-center justify-between mb-2">
+                                <span className="text-2xl font-serif text-neutral-100">
+                                    {selectedPhoneme.symbol}
+                                    <span className="ml-3 text-[10px] font-sans font-bold uppercase text-neutral-500">{t(`phonology.category.${phonemeCategory(selectedPhoneme)}`)}</span>
+                                </span>
+                                <div className="flex gap-2">
+                                    <button onClick={() => playPhoneme(selectedPhoneme)} className="text-xs flex items-center gap-1 px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 text-neutral-300 rounded transition-colors" title={t('speech.play_hint')}>
+                                        <Volume2 size={14} /> {t('speech.play')}
+                                    </button>
+                                    {selectedPhoneme.type !== 'tone' && (
+                                        <button onClick={() => updatePhonemeFeatures(selectedPhoneme, undefined)} disabled={!selectedPhoneme.features} className="text-xs flex items-center gap-1 px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 text-neutral-300 rounded transition-colors disabled:opacity-30">
+                                            <RotateCcw size={14} /> {t('phonology.reset_features')}
+                                        </button>
+                                    )}
+                                    <button onClick={() => { replacePhoneme(selectedPhoneme, null); setSelectedSymbol(null); }} className="text-xs flex items-center gap-1 px-3 py-1.5 bg-neutral-800 hover:bg-red-900/40 text-neutral-300 hover:text-red-300 rounded transition-colors">
+                                        <Trash2 size={14} /> {t('phonology.remove_phoneme')}
+                                    </button>
+                                </div>
+                            </div>
+                            {selectedPhoneme.type === 'tone' ? (
+                                <p className="text-xs text-neutral-400 font-mono">{t('phonology.tone_levels')}: {toneLevels(selectedPhoneme.symbol).join('') || '—'}</p>
+                            ) : (
+                            <div className="grid grid-cols-3 md:grid-cols-5 gap-1">
+                                {knownFeatures(data).map(name => {
+                                    const value = phonemeFeatures(selectedPhoneme)[name] ?? '0';
+                                    const overridden = selectedPhoneme.features?.[name] !== undefined;
+                                    return (
+                                        <button
+                                            key={name}
+                                            onClick={() => cycleFeature(selectedPhoneme, name)}
+                                            className={`px-2 py-1 rounded border text-xs font-mono text-left transition-colors ${overridden ? 'border-amber-700 bg-amber-950/20' : 'border-neutral-800 bg-neutral-900'} ${value === '+' ? 'text-emerald-400' : value === '-' ? 'text-neutral-400' : 'text-neutral-600'}`}
+                                        >
+                                            {value}{name}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                            )}
+                            {speechIssue && <p className="text-xs text-amber-400 mt-2">{speechIssue}</p>}
+                        </div>
+                    ) : (
+                        <p className="text-xs text-neutral-600 mt-4">{t('phonology.select_phoneme')}</p>
+                    )}
+                </div>
+
+                {/* Orthography: spelling → IPA */}
+                <div className="bg-neutral-950 border border-neutral-800 rounded-xl p-6 shadow-lg">
+                    <div className="flex justify-between items-center mb-2">
+                        <h3 className="text-lg font-bold text-neutral-200 flex items-center gap-2">
+                            <SpellCheck size={20} className="text-neutral-500" /> {t('phonology.orthography')}
+                        </h3>
+                        <button onClick={addOrthographyRule} className="text-xs flex items-center gap-1 px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 text-neutral-300 rounded transition-colors">
+                            <Plus size={14} /> {t('phonology.add_grapheme')}
+                        </button>
+                    </div>
+                    <p className="text-xs text-neutral-500 mb-4">{t('phonology.orthography_desc')}</p>
+
+                    {orthography.length > 0 && (
+                        <table className="w-full mb-4">
+                            <thead>
+                                <tr className="text-left text-xs font-bold text-neutral-500 uppercase">
+                                    <th className="p-2 w-1/4">{t('phonology.grapheme')}</th>
+                                    <th className="p-2 w-1/4">{t('phonology.phoneme')}</th>
+                                    <th className="p-2">{t('phonology.context')}</th>
+                                    <th className="w-8"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-neutral-800">
+                                {orthography.map(rule => {
+                                    const error = compiledOrthography.errors.find(e => e.ruleId === rule.id);
+                                    return (
+                                        <tr key={rule.id} className="group">
+                                            <td className="p-2">
+                                                <input value={rule.grapheme} onChange={(e) => updateOrthographyRule(rule.id, { grapheme: e.target.value })} placeholder="ch" className="w-full bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-sm text-neutral-100 focus:border-blue-500 outline-none" />
+                                            </td>
+                                            <td className="p-2">
+                                                <input value={rule.phoneme} onChange={(e) => updateOrthographyRule(rule.id, { phoneme: e.target.value })} placeholder="tʃ" className="w-full bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-sm font-mono text-emerald-400 focus:border-blue-500 outline-none" />
+                                            </td>
+                                            <td className="p-2">
+                                                <input value={rule.environment || ''} onChange={(e) => updateOrthographyRule(rule.id, { environment: e.target.value })} placeholder="_[ei]" className={`w-full bg-neutral-900 border rounded px-2 py-1 text-sm font-mono text-neutral-300 focus:border-blue-500 outline-none ${error ? 'border-red-700' : 'border-neutral-700'}`} title={error?.message} />
+                                            </td>
+                                            <td className="p-2 text-right">
+                                                <button onClick={() => deleteOrthographyRule(rule.id)} className="text-neutral-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity">
+                                                    <Trash2 size={14} />
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+
+                    <div className="flex items-center gap-3">
+                        <input value={orthographyTest} onChange={(e) => setOrthographyTest(e.target.value)} placeholder={t('phonology.test_spelling')} className="flex-1 bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-neutral-100 focus:border-blue-500 outline-none" />
+                        <span className="font-mono text-emerald-400 min-w-[8rem]">{testTranscription ? `/${formatSyllabifiedIPA(testTranscription.ipa, data)}/` : ''}</span>
+                    </div>
+                    {testTranscription && testTranscription.unmapped.length > 0 && (
+                        <p className="text-xs text-amber-400 mt-2">{t('phonology.unmapped')}: {testTranscription.unmapped.join(' ')}</p>
+                    )}
                 </div>
 
             </div>
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { X, FolderOpen, Copy, Edit, Trash2, Plus, Library } from 'lucide-react';
+import { useTranslation } from '../i18n';
+import { listProjects, ProjectSummary } from '../services/projectStoreService';
+
+interface ProjectManagerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    activeProjectId: string | null;
+    onOpen: (id: string) => void;
+    onNew: () => void;
+    onDuplicate: (id: string, name: string) => Promise<void>;
+    onRename: (id: string, name: string) => Promise<void>;
+    onDelete: (id: string) => Promise<void>;
+}
+
+const ProjectManager: React.FC<ProjectManagerProps> = ({ isOpen, onClose, activeProjectId, onOpen, onNew, onDuplicate, onRename, onDelete }) => {
+    const { t } = useTranslation();
+    const [projects, setProjects] = useState<ProjectSummary[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = () => {
+        listProjects()
+            .then(list => { setProjects(list); setError(null); })
+            .catch(() => setError(t('projects.unavailable')));
+    };
+
+    useEffect(() => { if (isOpen) refresh(); }, [isOpen, activeProjectId]);
+
+    if (!isOpen) return null;
+
+    const run = (action: Promise<void>) => action.then(refresh).catch(() => setError(t('projects.failed')));
+
+    const duplicate = (project: ProjectSummary) => {
+        const name = prompt(t('projects.duplicate_name'), `${project.name} (${t('projects.copy')})`);
+        if (name && name.trim()) run(onDuplicate(project.id, name.trim()));
+    };
+
+    const rename = (project: ProjectSummary) => {
+        const name = prompt(t('projects.rename_prompt'), project.name);
+        if (name && name.trim() && name.trim() !== project.name) run(onRename(project.id, name.trim()));
+    };
+
+    const remove = (project: ProjectSummary) => {
+        if (confirm(`${t('projects.delete_confirm')} "${project.name}"`)) run(onDelete(project.id));
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+            <div className="bg-neutral-900 border border-neutral-700 w-full max-w-2xl rounded-lg shadow-2xl overflow-hidden flex flex-col max-h-[85vh] animate-in fade-in zoom-in duration-200">
+                <div className="flex justify-between items-center p-4 border-b border-neutral-800 bg-neutral-950">
+                    <h2 className="text-lg font-bold text-white flex items-center gap-2"><Library size={18} className="text-blue-400" /> {t('projects.title')}</h2>
+                    <div className="flex items-center gap-3">
+                        <button onClick={onNew} className="flex items-center gap-1.5 text-xs font-medium bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded transition-colors">
+                            <Plus size={14} /> {t('menu.new_project')}
+                        </button>
+                        <button onClick={onClose} className="text-neutral-500 hover:text-white"><X size={20} /></button>
+                    </div>
+                </div>
+
+                <div className="overflow-y-auto p-4 space-y-2">
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+                    {projects.map(project => {
+                        const isActive = project.id === activeProjectId;
+                        return (
+                            <div key={project.id} className={`flex items-center gap-4 p-3 rounded-lg border group ${isActive ? 'bg-blue-900/20 border-blue-700/50' : 'bg-neutral-950 border-neutral-800 hover:border-neutral-600'}`}>
+                                <button onClick={() => onOpen(project.id)} disabled={isActive} className="flex-1 text-left min-w-0">
+                                    <div className="flex items-center gap-2">
+                                        <span className={`font-bold truncate ${isActive ? 'text-blue-300' : 'text-neutral-100'}`}>{project.name}</span>
+                                        {isActive && <span className="text-[10px] uppercase font-bold bg-blue-950/50 text-blue-400 px-1.5 py-0.5 rounded border border-blue-900">{t('projects.current')}</span>}
+                                    </div>
+                                    <div className="text-xs text-neutral-500 font-mono mt-0.5">
+                                        {project.author} · {project.wordCount} {t('lexicon.entries_count')} · {project.languageCount} {t('projects.languages')} · {new Date(project.lastModified).toLocaleString()}
+                                    </div>
+                                </button>
+                                <div className="flex items-center gap-1 opacity-60 group-hover:opacity-100 transition-opacity">
+                                    {!isActive && <button onClick={() => onOpen(project.id)} className="p-1.5 text-neutral-400 hover:text-blue-400" title={t('projects.open')}><FolderOpen size={16} /></button>}
+                                    <button onClick={() => duplicate(project)} className="p-1.5 text-neutral-400 hover:text-white" title={t('projects.duplicate')}><Copy size={16} /></button>
+                                    <button onClick={() => rename(project)} className="p-1.5 text-neutral-400 hover:text-white" title={t('projects.rename')}><Edit size={16} /></button>
+                                    <button onClick={() => remove(project)} className="p-1.5 text-neutral-400 hover:text-red-400" title={t('projects.delete')}><Trash2 size={16} /></button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                    {projects.length === 0 && !error && <p className="text-sm text-neutral-500 text-center py-8">{t('projects.empty')}</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ProjectManager;
@@ -1,9 +1,18 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Feather, Save, Image as ImageIcon, Palette, Spline, RotateCw, RotateCcw, Square, Circle, Minus, Layers, Eye, EyeOff, Lock, Unlock, ChevronLeft, ChevronRight, Trash2, ChevronUp, ChevronDown, Plus, Search, Edit3, Type, Grid } from 'lucide-react';
-import { ScriptConfig, ScriptGlyph, ProjectConstraints, GlyphStroke } from '../types';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Feather, Save, Image as ImageIcon, Palette, Spline, RotateCw, RotateCcw, Square, Circle, Minus, Layers, Eye, EyeOff, Lock, Unlock, ChevronLeft, ChevronRight, Trash2, ChevronUp, ChevronDown, Plus, Search, Edit3, Type, Grid, Download, Link2, Anchor, ArrowRight, Upload, FolderOpen, MousePointer2, Magnet, Waves, X, Ruler } from 'lucide-react';
+import { ScriptConfig, ScriptGlyph, ProjectConstraints, GlyphStroke, GlyphSubstitution, GlyphForm, ScriptGuide, ScriptMetrics, KerningPair } from '../types';
 import { useTranslation } from '../i18n';
 import { ConScriptText } from './ConScriptRenderer';
+import GlyphImportModal from './GlyphImportModal';
+import { exportFont, FontFormat } from '../services/fontService';
+import { decodePua, defaultPua, shapeText } from '../services/scriptShapingService';
+import { ImportedGlyph, parseFontFile, parseSvgGlyph } from '../services/glyphImportService';
+import { getScriptMetrics, glyphLayout, measureViewWidth, metricGuides } from '../services/scriptMetricsService';
+import {
+    deleteNode, EditableSubpath, editablePathToData, hitSegment, insertNode, moveHandle, moveNode, NodeRef,
+    parseEditablePath, segmentToCurve, segmentToLine, smoothSubpaths, snapPoint
+} from '../services/pathEditService';
 
 interface ScriptEditorProps {
     scriptConfig: ScriptConfig;
@@ -12,6 +21,21 @@ interface ScriptEditorProps {
 }
 
 const CANVAS_SIZE = 400;
+const ASCII_CHARS = Array.from({ length: 94 }, (_, i) => String.fromCharCode(i + 33));
+const GLYPH_FORMS: GlyphForm[] = ['isolated', 'initial', 'medial', 'final'];
+const GRID_SIZE = 20; // Matches the canvas background dots
+const METRIC_FIELDS: { key: keyof ScriptMetrics, label: string }[] = [
+    { key: 'ascender', label: 'Ascender' },
+    { key: 'xHeight', label: 'x-height' },
+    { key: 'baseline', label: 'Baseline' },
+    { key: 'descender', label: 'Descender' }
+];
+const HIT_RADIUS = 8;
+// WOFF2 would need a Brotli encoder, which browsers do not expose, so the web format is WOFF 1.0 (zlib)
+const FONT_EXPORTS: { format: FontFormat, label: string, title: string }[] = [
+    { format: 'ttf', label: 'TTF', title: 'TrueType font, to install on a computer' },
+    { format: 'woff', label: 'WOFF 1.0', title: 'WOFF 1.0 web font (zlib). WOFF2 is not available' }
+];
 
 const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConfig, constraints }) => {
     const { t } = useTranslation();
@@ -23,6 +47,9 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
 
     const svgRef = useRef<SVGSVGElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const fontInputRef = useRef<HTMLInputElement>(null);
+    const svgInputRef = useRef<HTMLInputElement>(null);
+    const svgFolderInputRef = useRef<HTMLInputElement>(null);
 
     const [isDrawing, setIsDrawing] = useState(false);
     const [currentPoints, setCurrentPoints] = useState<{ x: number, y: number }[]>([]);
@@ -39,9 +66,22 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
     const [coords, setCoords] = useState({ x: 0, y: 0 });
     const [glyphColor, setGlyphColor] = useState('#ffffff');
     const [brushCap, setBrushCap] = useState<'round' | 'square'>('round');
-    const [drawMode, setDrawMode] = useState<'free' | 'line' | 'rect' | 'circle'>('free');
+    const [drawMode, setDrawMode] = useState<'free' | 'line' | 'rect' | 'circle' | 'edit'>('free');
     const [canvasZoom, setCanvasZoom] = useState(1);
     const [editingLayerId, setEditingLayerId] = useState<string | null>(null);
+    const [rightPanel, setRightPanel] = useState<'layers' | 'rules' | 'metrics'>('layers');
+    const [isMark, setIsMark] = useState(false);
+    const [anchor, setAnchor] = useState<{ x: number, y: number } | undefined>(undefined);
+    const [markAnchor, setMarkAnchor] = useState<{ x: number, y: number } | undefined>(undefined);
+    const [leftBearing, setLeftBearing] = useState<number | undefined>(undefined);
+    const [rightBearing, setRightBearing] = useState<number | undefined>(undefined);
+    const [shapingTest, setShapingTest] = useState('');
+    const [pendingImport, setPendingImport] = useState<ImportedGlyph[] | null>(null);
+    const [selectedNode, setSelectedNode] = useState<NodeRef | null>(null);
+    const [dragTarget, setDragTarget] = useState<{ ref: NodeRef, part: 'node' | 'in' | 'out' } | null>(null);
+    const [snapToGrid, setSnapToGrid] = useState(false);
+    const [snapToGuides, setSnapToGuides] = useState(true);
+    const [smoothTolerance, setSmoothTolerance] = useState(4);
 
     // Sinkronisasi strokeWidth dengan layer aktif
     useEffect(() => {
@@ -52,6 +92,7 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
         if (activeLayer && activeLayer.color) {
             setGlyphColor(activeLayer.color);
         }
+        setSelectedNode(null);
     }, [activeLayerId]);
 
     useEffect(() => {
@@ -75,10 +116,16 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
             setStrokes([initialLayer]);
             setActiveLayerId(initialLayer.id);
         }
+        setIsMark(!!glyph?.mark);
+        setAnchor(glyph?.anchor);
+        setMarkAnchor(glyph?.markAnchor);
+        setLeftBearing(glyph?.leftBearing);
+        setRightBearing(glyph?.rightBearing);
         setUndoStack([]);
         setRedoStack([]);
+        setSelectedNode(null);
         setIsDirty(false);
-    }, [selectedChar, scriptConfig]);
+    }, [selectedChar, scriptConfig.glyphs]);
 
     const pushToUndo = useCallback(() => {
         setUndoStack(prev => [...prev, JSON.parse(JSON.stringify(strokes))]);
@@ -120,7 +167,112 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
         return { x, y };
     };
 
+    // --- Node editing ---
+    const metrics = getScriptMetrics(scriptConfig);
+    const guides = [...metricGuides(metrics), ...(scriptConfig.guides || [])];
+    const editLayer = drawMode === 'edit' ? strokes.find(s => s.id === activeLayerId && s.type !== 'image' && !s.locked) : undefined;
+    const editPaths = useMemo(() => editLayer ? parseEditablePath(editLayer.d) : [], [editLayer?.d]);
+
+    const setEditPaths = (next: EditableSubpath[]) => {
+        if (!editLayer) return;
+        // An edited rect or circle is a plain path from now on; its x/y/width no longer describe it
+        setStrokes(prev => prev.map(s => s.id === editLayer.id ? { ...s, type: 'path', d: editablePathToData(next) } : s));
+        setIsDirty(true);
+    };
+
+    const snap = (p: { x: number, y: number }) =>
+        snapPoint(p, { grid: snapToGrid ? GRID_SIZE : undefined, guides: snapToGuides ? guides : [], threshold: HIT_RADIUS });
+
+    const hitNode = (p: { x: number, y: number }): { ref: NodeRef, part: 'node' | 'in' | 'out' } | null => {
+        const near = (q?: { x: number, y: number }) => !!q && Math.hypot(q.x - p.x, q.y - p.y) <= HIT_RADIUS;
+        // Handles of the selected node first, they can sit on top of other nodes
+        if (selectedNode) {
+            const node = editPaths[selectedNode.subpath]?.nodes[selectedNode.node];
+            if (near(node?.in)) return { ref: selectedNode, part: 'in' };
+            if (near(node?.out)) return { ref: selectedNode, part: 'out' };
+        }
+        for (let subpath = 0; subpath < editPaths.length; subpath++) {
+            const node = editPaths[subpath].nodes.findIndex(n => near(n));
+            if (node >= 0) return { ref: { subpath, node }, part: 'node' };
+        }
+        return null;
+    };
+
+    const editSelectedNode = (operation: (paths: EditableSubpath[], ref: NodeRef) => EditableSubpath[]) => {
+        if (!selectedNode) return;
+        pushToUndo();
+        setEditPaths(operation(editPaths, selectedNode));
+    };
+
+    const handleDeleteNode = () => {
+        editSelectedNode(deleteNode);
+        setSelectedNode(null);
+    };
+
+    const handleSmoothLayer = () => {
+        if (!editLayer) return;
+        pushToUndo();
+        setEditPaths(smoothSubpaths(editPaths, smoothTolerance));
+        setSelectedNode(null);
+    };
+
+    const handleInsertNode = (e: React.MouseEvent) => {
+        if (drawMode !== 'edit') return;
+        const hit = hitSegment(editPaths, getCoordinates(e), HIT_RADIUS);
+        if (!hit) return;
+        pushToUndo();
+        const result = insertNode(editPaths, hit.ref, hit.t);
+        setEditPaths(result.subpaths);
+        setSelectedNode(result.ref);
+    };
+
+    useEffect(() => {
+        if (drawMode !== 'edit' || !selectedNode) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+            if (e.key === 'Delete' || e.key === 'Backspace') {
+                e.preventDefault();
+                handleDeleteNode();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    });
+
+    // Canvas undo runs before the project history (capture phase) while it has steps of its own
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+            const key = e.key.toLowerCase();
+            const redo = key === 'y' || (key === 'z' && e.shiftKey);
+            if (key === 'z' && !redo && undoStack.length > 0) { e.preventDefault(); performUndo(); }
+            else if (redo && redoStack.length > 0) { e.preventDefault(); performRedo(); }
+        };
+        window.addEventListener('keydown', onKeyDown, true);
+        return () => window.removeEventListener('keydown', onKeyDown, true);
+    }, [undoStack, redoStack, performUndo, performRedo]);
+
+    const addGuide = (axis: ScriptGuide['axis']) => {
+        const value = prompt(`${axis === 'horizontal' ? 'Y' : 'X'} position of the guide (0-${CANVAS_SIZE}):`);
+        if (!value || !value.trim() || isNaN(Number(value))) return;
+        setScriptConfig({ ...scriptConfig, guides: [...(scriptConfig.guides || []), { id: Date.now().toString(), axis, position: Number(value) }] });
+    };
+
+    const removeGuide = (id: string) => {
+        setScriptConfig({ ...scriptConfig, guides: (scriptConfig.guides || []).filter(g => g.id !== id) });
+    };
+
     const handleStart = (e: React.MouseEvent | React.TouchEvent) => {
+        if (drawMode === 'edit') {
+            e.preventDefault();
+            const hit = hitNode(getCoordinates(e));
+            setSelectedNode(hit?.ref ?? null);
+            if (hit) {
+                pushToUndo();
+                setDragTarget(hit);
+            }
+            return;
+        }
         const activeLayer = strokes.find(s => s.id === activeLayerId);
         if (activeLayer?.locked || activeLayer?.type === 'image') return;
 
@@ -140,6 +292,12 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
     const handleMove = (e: React.MouseEvent | React.TouchEvent) => {
         const { x, y } = getCoordinates(e);
         setCoords({ x, y });
+        if (dragTarget) {
+            e.preventDefault();
+            const { ref, part } = dragTarget;
+            setEditPaths(part === 'node' ? moveNode(editPaths, ref, snap({ x, y })) : moveHandle(editPaths, ref, part, { x, y }, !e.altKey));
+            return;
+        }
         if (!isDrawing) return;
         e.preventDefault();
 
@@ -155,6 +313,10 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
     };
 
     const handleEnd = () => {
+        if (dragTarget) {
+            setDragTarget(null);
+            return;
+        }
         if (!isDrawing) return;
         setIsDrawing(false);
 
@@ -164,7 +326,7 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
             const nextStrokes = [...prev];
             const activeIdx = nextStrokes.findIndex(s => s.id === activeLayerId);
 
-            if (activeIdx !== -1 && nextStrokes[activeIdx].type === 'path' && !nextStrokes[activeIdx].locked && (drawMode === 'free' || drawMode === 'line')) {
+            if (activeIdx !== -1 && nextStrokes[activeIdx].type === 'path' && !nextStrokes[activeIdx].fill && !nextStrokes[activeIdx].locked && (drawMode === 'free' || drawMode === 'line')) {
                 nextStrokes[activeIdx] = {
                     ...nextStrokes[activeIdx],
                     d: nextStrokes[activeIdx].d + ` ${activeStrokePath}`,
@@ -250,34 +412,20 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
         setIsDirty(true);
     };
 
-    const calculateGlyphWidth = (strokes: GlyphStroke[]) => {
-        let maxX = 50;
-        strokes.forEach(s => {
-            if (!s.visible) return;
-            if (s.type === 'path') {
-                const matches = s.d.match(/([0-9.]+)\s+([0-9.]+)/g);
-                if (matches) {
-                    matches.forEach(m => {
-                        const x = parseFloat(m.split(/\s+/)[0]);
-                        if (x > maxX) maxX = x;
-                    });
-                }
-            } else if (s.x !== undefined && s.width !== undefined) {
-                if (s.x + s.width > maxX) maxX = s.x + s.width;
-            }
-        });
-        return Math.min(CANVAS_SIZE, Math.max(50, maxX + 20));
-    };
-
     const saveGlyph = () => {
-        const calculatedWidth = calculateGlyphWidth(strokes);
+        const existingIdx = scriptConfig.glyphs.findIndex(g => g.char === selectedChar);
+        const pua = existingIdx >= 0 ? scriptConfig.glyphs[existingIdx].pua : defaultPua(selectedChar, scriptConfig);
         const newGlyph: ScriptGlyph = {
             char: selectedChar,
-            pua: `\\u${(0xE000 + selectedChar.charCodeAt(0)).toString(16).toUpperCase()}`,
+            pua,
             strokes: strokes,
-            viewWidth: calculatedWidth
+            viewWidth: measureViewWidth(strokes),
+            leftBearing,
+            rightBearing,
+            mark: isMark || undefined,
+            anchor,
+            markAnchor
         };
-        const existingIdx = scriptConfig.glyphs.findIndex(g => g.char === selectedChar);
         let newGlyphs = [...scriptConfig.glyphs];
         if (existingIdx >= 0) newGlyphs[existingIdx] = newGlyph;
         else newGlyphs.push(newGlyph);
@@ -292,6 +440,91 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
         });
     };
 
+    const handleExportFont = async (format: FontFormat) => {
+        if (scriptConfig.glyphs.length === 0) {
+            alert('Draw and commit at least one glyph before exporting a font.');
+            return;
+        }
+        const familyName = scriptConfig.fontFamily || scriptConfig.name || 'ConScript';
+        try {
+            const { blob, warnings } = await exportFont(scriptConfig, format, familyName);
+            const a = document.createElement('a');
+            a.href = URL.createObjectURL(blob);
+            a.download = `${familyName.toLowerCase().replace(/\s/g, '-')}.${format}`;
+            a.click();
+            if (warnings.length > 0) alert(`Font exported with warnings:\n${warnings.join('\n')}`);
+        } catch (e) {
+            alert(`Font export failed: ${e instanceof Error ? e.message : e}`);
+        }
+    };
+
+    // --- Substitution rules ---
+    const substitutions = scriptConfig.substitutions || [];
+    const namedGlyphs = Array.from(new Set([
+        ...scriptConfig.glyphs.map(g => g.char).filter(c => !ASCII_CHARS.includes(c)),
+        ...substitutions.map(r => r.output).filter(o => o && !ASCII_CHARS.includes(o))
+    ]));
+
+    // Named glyphs render through their PUA character so rules don't reshape the name
+    const glyphPreviewText = (glyph: ScriptGlyph) => {
+        const cp = decodePua(glyph.pua);
+        return cp !== null ? String.fromCodePoint(cp) : glyph.char;
+    };
+
+    const setSubstitutions = (next: GlyphSubstitution[]) => setScriptConfig({ ...scriptConfig, substitutions: next });
+
+    const addSubstitution = () => {
+        setSubstitutions([...substitutions, { id: Date.now().toString(), input: '', output: '' }]);
+    };
+
+    const updateSubstitution = (id: string, updates: Partial<GlyphSubstitution>) => {
+        setSubstitutions(substitutions.map(r => r.id === id ? { ...r, ...updates } : r));
+    };
+
+    const addNamedGlyph = () => {
+        const name = prompt('Glyph name (e.g. "th" for a ligature or "a.init" for an initial form):');
+        if (name && name.trim()) setSelectedChar(name.trim());
+    };
+
+    const updateAnchor = (target: 'anchor' | 'markAnchor', axis: 'x' | 'y', value: string) => {
+        const setter = target === 'anchor' ? setAnchor : setMarkAnchor;
+        const current = target === 'anchor' ? anchor : markAnchor;
+        if (value === '') setter(undefined);
+        else setter({ x: current?.x ?? CANVAS_SIZE / 2, y: current?.y ?? CANVAS_SIZE / 2, [axis]: Number(value) });
+        setIsDirty(true);
+    };
+
+    const updateBearing = (setter: (value: number | undefined) => void, value: string) => {
+        setter(value === '' ? undefined : Number(value));
+        setIsDirty(true);
+    };
+
+    // Where the pen starts and stops for the glyph as currently drawn, in canvas coordinates
+    const currentLayout = glyphLayout({ char: selectedChar, pua: '', strokes, viewWidth: measureViewWidth(strokes), leftBearing, rightBearing }, scriptConfig);
+
+    // --- Metrics and kerning ---
+    const kerning = scriptConfig.kerning || [];
+
+    const updateMetric = (key: keyof ScriptMetrics, value: string) => {
+        if (value === '') return;
+        setScriptConfig({ ...scriptConfig, metrics: { ...metrics, [key]: Number(value) } });
+    };
+
+    const setKerning = (next: KerningPair[]) => setScriptConfig({ ...scriptConfig, kerning: next });
+
+    const addKerningPair = () => {
+        setKerning([...kerning, { id: Date.now().toString(), left: '', right: '', value: 0 }]);
+    };
+
+    const updateKerningPair = (id: string, updates: Partial<KerningPair>) => {
+        setKerning(kerning.map(k => k.id === id ? { ...k, ...updates } : k));
+    };
+
+    const kerningPreviewText = (pair: KerningPair) => [pair.left, pair.right].map(char => {
+        const glyph = scriptConfig.glyphs.find(g => g.char === char);
+        return glyph ? glyphPreviewText(glyph) : char;
+    }).join('');
+
     const importImageLayer = (base64: string) => {
         const newId = 'img-' + Date.now();
         const imageLayer: GlyphStroke = {
@@ -304,6 +537,41 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
         setIsDirty(true);
     };
 
+    // --- Font and SVG import ---
+    const handleImportFont = async (file: File) => {
+        try {
+            const glyphs = await parseFontFile(await file.arrayBuffer(), file.name);
+            if (glyphs.length === 0) alert(`${file.name} has no character outlines to import.`);
+            else setPendingImport(glyphs);
+        } catch (e) {
+            alert(`Font import failed: ${e instanceof Error ? e.message : e}`);
+        }
+    };
+
+    const handleImportSvgs = async (files: File[]) => {
+        const glyphs: ImportedGlyph[] = [];
+        const problems: string[] = [];
+        for (const file of files.filter(f => f.name.toLowerCase().endsWith('.svg'))) {
+            try {
+                const glyph = parseSvgGlyph(await file.text(), file.name);
+                if (!glyph) problems.push(`${file.name}: no shapes`);
+                else if (glyphs.some(g => g.char === glyph.char)) problems.push(`${file.name}: "${glyph.char}" is already taken by another file`);
+                else glyphs.push(glyph);
+            } catch (e) {
+                problems.push(e instanceof Error ? e.message : String(e));
+            }
+        }
+        if (problems.length > 0) alert(`Some files were not imported:\n${problems.join('\n')}`);
+        if (glyphs.length > 0) setPendingImport(glyphs);
+        else if (problems.length === 0) alert('No SVG files were selected.');
+    };
+
+    const applyPendingImport = (config: ScriptConfig) => {
+        if (isDirty && !confirm('The current glyph has uncommitted changes that the import will discard. Continue?')) return;
+        setScriptConfig(config);
+        setPendingImport(null);
+    };
+
     return (
         <div className="h-full flex flex-col bg-[var(--bg-main)] overflow-hidden text-slate-200">
             <div className="p-4 border-b border-neutral-800 flex justify-between items-center bg-[var(--bg-panel)]/50 z-20">
@@ -337,11 +605,19 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
                         <button onClick={() => setDrawMode('line')} className={`p-1.5 rounded ${drawMode === 'line' ? 'bg-purple-600' : 'hover:bg-neutral-800'}`} title="Line"><Minus size={16} /></button>
                         <button onClick={() => setDrawMode('rect')} className={`p-1.5 rounded ${drawMode === 'rect' ? 'bg-purple-600' : 'hover:bg-neutral-800'}`} title="Rectangle"><Square size={16} /></button>
                         <button onClick={() => setDrawMode('circle')} className={`p-1.5 rounded ${drawMode === 'circle' ? 'bg-purple-600' : 'hover:bg-neutral-800'}`} title="Circle"><Circle size={16} /></button>
+                        <button onClick={() => setDrawMode('edit')} className={`p-1.5 rounded ${drawMode === 'edit' ? 'bg-purple-600' : 'hover:bg-neutral-800'}`} title="Edit nodes"><MousePointer2 size={16} /></button>
                     </div>
                     <div className="flex items-center gap-1 bg-neutral-900 border border-neutral-800 rounded px-2 py-1">
                         <button onClick={performUndo} disabled={undoStack.length === 0} className="p-1.5 hover:bg-neutral-800 text-neutral-500 disabled:opacity-20" title="Undo (Ctrl+Z)"><RotateCcw size={16} /></button>
                         <button onClick={performRedo} disabled={redoStack.length === 0} className="p-1.5 hover:bg-neutral-800 text-neutral-500 disabled:opacity-20" title="Redo (Ctrl+Y)"><RotateCw size={16} /></button>
                     </div>
+                    <div className="flex gap-1 bg-neutral-900 border border-neutral-800 rounded p-1" title="Export the script as an installable font">
+                        {FONT_EXPORTS.map(({ format, label, title }) => (
+                            <button key={format} onClick={() => handleExportFont(format)} title={title} className="flex items-center gap-1 px-2 py-1 text-[10px] font-bold uppercase rounded text-slate-400 hover:text-white hover:bg-neutral-800">
+                                <Download size={14} /> {label}
+                            </button>
+                        ))}
+                    </div>
                     <button onClick={saveGlyph} className={`px-4 py-2 rounded font-bold flex items-center gap-2 shadow-lg transition-all ${isDirty ? 'bg-purple-600 hover:bg-purple-700 scale-105' : 'bg-neutral-800 text-neutral-600'}`}>
                         <Save size={18} /> {isDirty ? 'Commit Changes' : 'Synced'}
                     </button>
@@ -368,18 +644,23 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
                     )}
 
                     <div className="flex-1 overflow-y-auto flex flex-wrap content-start p-2 gap-1 custom-scrollbar">
-                        {Array.from({ length: 94 }, (_, i) => String.fromCharCode(i + 33))
+                        {[...ASCII_CHARS, ...namedGlyphs, ...(ASCII_CHARS.includes(selectedChar) || namedGlyphs.includes(selectedChar) ? [] : [selectedChar])]
                             .filter(c => !sidebarSearch || c.toLowerCase().includes(sidebarSearch.toLowerCase()))
                             .map(char => {
                                 const glyph = scriptConfig.glyphs.find(g => g.char === char);
                                 const hasGlyph = !!glyph;
                                 return (
-                                    <button key={char} onClick={() => setSelectedChar(char)} className={`w-12 h-12 rounded flex items-center justify-center font-mono font-bold text-sm transition-all relative ${selectedChar === char ? 'bg-purple-600 text-white shadow-lg' : 'text-neutral-500 hover:bg-neutral-800'}`}>
-                                        {hasGlyph ? <div className="w-full h-full p-2 flex items-center justify-center overflow-hidden"><ConScriptText text={char} scriptConfig={scriptConfig} /></div> : char}
+                                    <button key={char} onClick={() => setSelectedChar(char)} title={char} className={`w-12 h-12 rounded flex items-center justify-center font-mono font-bold text-sm transition-all relative ${selectedChar === char ? 'bg-purple-600 text-white shadow-lg' : 'text-neutral-500 hover:bg-neutral-800'}`}>
+                                        {hasGlyph ? <div className="w-full h-full p-2 flex items-center justify-center overflow-hidden"><ConScriptText text={glyphPreviewText(glyph)} scriptConfig={scriptConfig} /></div> : <span className="truncate px-1 text-[10px]">{char}</span>}
                                         {hasGlyph && <span className="absolute top-1 right-1 w-2 h-2 bg-emerald-400 rounded-full border-2 border-neutral-950"></span>}
                                     </button>
                                 );
                             })}
+                        {!sidebarCollapsed && (
+                            <button onClick={addNamedGlyph} className="w-12 h-12 rounded flex items-center justify-center text-neutral-600 hover:text-purple-400 hover:bg-neutral-800 border border-dashed border-neutral-800" title="New named glyph (ligature or alternate form)">
+                                <Plus size={16} />
+                            </button>
+                        )}
                     </div>
                 </div>
 
@@ -425,10 +706,30 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
                     </div>
 
                     <div className="relative w-[400px] h-[400px] bg-neutral-900/40 rounded-xl border border-neutral-800/50 shadow-2xl overflow-hidden cursor-crosshair touch-none select-none transition-transform duration-200" style={{ transform: `scale(${canvasZoom})`, backgroundImage: showGrid ? 'radial-gradient(rgba(148,163,184,0.1) 1px, transparent 1px)' : 'none', backgroundSize: '20px 20px' }}>
-                        <svg ref={svgRef} viewBox={`0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}`} className="w-full h-full" onMouseDown={handleStart} onMouseMove={handleMove} onMouseUp={handleEnd} onMouseLeave={handleEnd} onTouchStart={handleStart} onTouchMove={handleMove} onTouchEnd={handleEnd}>
+                        <svg ref={svgRef} viewBox={`0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}`} className="w-full h-full" onMouseDown={handleStart} onMouseMove={handleMove} onMouseUp={handleEnd} onMouseLeave={handleEnd} onTouchStart={handleStart} onTouchMove={handleMove} onTouchEnd={handleEnd} onDoubleClick={handleInsertNode}>
+                            {guides.map(g => (
+                                <line
+                                    key={`guide-${g.id}`}
+                                    x1={g.axis === 'vertical' ? g.position : 0} x2={g.axis === 'vertical' ? g.position : CANVAS_SIZE}
+                                    y1={g.axis === 'horizontal' ? g.position : 0} y2={g.axis === 'horizontal' ? g.position : CANVAS_SIZE}
+                                    stroke="#22d3ee" strokeOpacity={0.3} strokeDasharray="4 4" pointerEvents="none"
+                                />
+                            ))}
+                            {[-currentLayout.offsetX, currentLayout.advance - currentLayout.offsetX].map((x, i) => (
+                                <line key={`advance-${i}`} x1={x} x2={x} y1={0} y2={CANVAS_SIZE} stroke="#f59e0b" strokeOpacity={0.4} strokeDasharray="2 6" pointerEvents="none" />
+                            ))}
                             {strokes.map((s) => s.visible && (
                                 s.type === 'image' ? (
                                     <image key={s.id} href={s.imageUrl} x={s.x} y={s.y} width={s.width} height={s.height} opacity={s.opacity} className={activeLayerId === s.id ? 'outline outline-2 outline-purple-500' : ''} />
+                                ) : s.fill ? (
+                                    <path
+                                        key={s.id}
+                                        d={s.d}
+                                        fill={s.color}
+                                        fillRule={s.fill}
+                                        fillOpacity={s.locked ? 0.3 : 1}
+                                        style={activeLayerId === s.id ? { filter: 'drop-shadow(0px 0px 8px rgba(168, 85, 247, 0.4))' } : {}}
+                                    />
                                 ) : (
                                     <path
                                         key={s.id}
@@ -443,11 +744,77 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
                                     />
                                 )
                             ))}
+                            {[anchor && !isMark && { p: anchor, color: '#22d3ee' }, markAnchor && isMark && { p: markAnchor, color: '#f472b6' }].map((m, i) => m && (
+                                <g key={`anchor-${i}`} pointerEvents="none" stroke={m.color} strokeWidth={2}>
+                                    <circle cx={m.p.x} cy={m.p.y} r={8} fill="none" />
+                                    <line x1={m.p.x - 14} y1={m.p.y} x2={m.p.x + 14} y2={m.p.y} />
+                                    <line x1={m.p.x} y1={m.p.y - 14} x2={m.p.x} y2={m.p.y + 14} />
+                                </g>
+                            ))}
+                            {editLayer && (
+                                <g pointerEvents="none">
+                                    <path d={editLayer.d} stroke="#a855f7" strokeWidth={1} fill="none" />
+                                    {editPaths.map((sp, si) => sp.nodes.map((node, ni) => {
+                                        const selected = selectedNode?.subpath === si && selectedNode.node === ni;
+                                        return (
+                                            <g key={`node-${si}-${ni}`}>
+                                                {selected && (['in', 'out'] as const).map(part => node[part] && (
+                                                    <g key={part}>
+                                                        <line x1={node.x} y1={node.y} x2={node[part]!.x} y2={node[part]!.y} stroke="#a855f7" strokeWidth={1} />
+                                                        <circle cx={node[part]!.x} cy={node[part]!.y} r={4} fill="#a855f7" />
+                                                    </g>
+                                                ))}
+                                                <rect x={node.x - 4} y={node.y - 4} width={8} height={8} fill={selected ? '#a855f7' : '#0a0a0a'} stroke="#a855f7" strokeWidth={1.5} />
+                                            </g>
+                                        );
+                                    }))}
+                                </g>
+                            )}
                             {activeStrokePath && <path d={activeStrokePath} stroke={glyphColor} strokeWidth={strokeWidth} fill="none" strokeLinecap={brushCap} strokeLinejoin="round" strokeOpacity="0.8" />}
                             {activeShape && drawMode === 'rect' && <rect x={activeShape.w < 0 ? activeShape.x + activeShape.w : activeShape.x} y={activeShape.h < 0 ? activeShape.y + activeShape.h : activeShape.y} width={Math.abs(activeShape.w)} height={Math.abs(activeShape.h)} stroke={glyphColor} strokeWidth={strokeWidth} fill="none" strokeOpacity="0.5" />}
                             {activeShape && drawMode === 'circle' && <circle cx={activeShape.x} cy={activeShape.y} r={Math.sqrt(activeShape.w ** 2 + activeShape.h ** 2)} stroke={glyphColor} strokeWidth={strokeWidth} fill="none" strokeOpacity="0.5" />}
                         </svg>
                     </div>
+                    {drawMode === 'edit' && (
+                        <div className="absolute top-4 right-4 z-10 w-56 bg-neutral-900/90 backdrop-blur border border-neutral-800 rounded-lg p-3 shadow-2xl space-y-3 text-[10px]">
+                            <div className="text-neutral-500 uppercase font-bold flex items-center gap-1"><MousePointer2 size={12} /> Nodes</div>
+                            {!editLayer ? (
+                                <p className="text-neutral-600">Select an unlocked path layer to edit its nodes.</p>
+                            ) : (
+                                <>
+                                    <p className="text-neutral-600">Drag nodes and handles (Alt moves one handle alone). Double-click a segment to add a node.</p>
+                                    <div className="grid grid-cols-3 gap-1">
+                                        <button disabled={!selectedNode} onClick={() => editSelectedNode(segmentToCurve)} className="py-1 rounded bg-neutral-800 text-neutral-300 hover:text-white disabled:opacity-30" title="Turn the segment after the selected node into a curve">Curve</button>
+                                        <button disabled={!selectedNode} onClick={() => editSelectedNode(segmentToLine)} className="py-1 rounded bg-neutral-800 text-neutral-300 hover:text-white disabled:opacity-30" title="Straighten the segment after the selected node">Line</button>
+                                        <button disabled={!selectedNode} onClick={handleDeleteNode} className="py-1 rounded bg-neutral-800 text-neutral-300 hover:text-red-400 disabled:opacity-30 flex justify-center" title="Delete node (Del)"><Trash2 size={12} /></button>
+                                    </div>
+                                    <div className="flex items-center gap-2 text-neutral-500">
+                                        <Waves size={12} />
+                                        <input type="range" min="1" max="20" value={smoothTolerance} onChange={(e) => setSmoothTolerance(Number(e.target.value))} className="flex-1 accent-purple-500" title="Smoothing tolerance" />
+                                        <span className="font-mono w-4 text-right">{smoothTolerance}</span>
+                                    </div>
+                                    <button onClick={handleSmoothLayer} className="w-full py-1 rounded bg-purple-900/40 text-purple-300 hover:text-white font-bold uppercase">Smooth into curves</button>
+                                </>
+                            )}
+                            <div className="text-neutral-500 uppercase font-bold flex items-center gap-1 pt-2 border-t border-neutral-800"><Magnet size={12} /> Snap</div>
+                            <div className="flex gap-3 text-neutral-400">
+                                <label className="flex items-center gap-1 cursor-pointer"><input type="checkbox" checked={snapToGrid} onChange={(e) => setSnapToGrid(e.target.checked)} className="accent-purple-500" /> Grid</label>
+                                <label className="flex items-center gap-1 cursor-pointer"><input type="checkbox" checked={snapToGuides} onChange={(e) => setSnapToGuides(e.target.checked)} className="accent-purple-500" /> Guides</label>
+                            </div>
+                            <div className="flex flex-wrap gap-1">
+                                {guides.map(g => (
+                                    <span key={g.id} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-cyan-950/40 text-cyan-300 font-mono">
+                                        {g.label || `${g.axis === 'horizontal' ? 'y' : 'x'}=${g.position}`}
+                                        {!g.id.startsWith('metric-') && <button onClick={() => removeGuide(g.id)} className="text-cyan-700 hover:text-red-400"><X size={10} /></button>}
+                                    </span>
+                                ))}
+                            </div>
+                            <div className="grid grid-cols-2 gap-1">
+                                <button onClick={() => addGuide('horizontal')} className="py-1 rounded bg-neutral-800 text-neutral-300 hover:text-white">+ Horizontal</button>
+                                <button onClick={() => addGuide('vertical')} className="py-1 rounded bg-neutral-800 text-neutral-300 hover:text-white">+ Vertical</button>
+                            </div>
+                        </div>
+                    )}
                     <div className="absolute bottom-4 left-4 flex items-center gap-2 bg-neutral-900/80 p-2 rounded border border-neutral-800 text-[10px] font-mono text-neutral-500 backdrop-blur">
                         POS: {Math.round(coords.x)}/{Math.round(coords.y)} | CANVAS ZOOM: {Math.round(canvasZoom * 100)}% | LAYERS: {strokes.length}
                     </div>
@@ -455,12 +822,98 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
 
                 <div className="w-80 border-l border-neutral-800 bg-[var(--bg-panel)]/50 flex flex-col">
                     <div className="p-3 border-b border-neutral-800 flex items-center justify-between bg-neutral-950">
-                        <div className="flex items-center gap-2">
-                            <Layers size={14} className="text-purple-400" />
-                            <span className="text-xs font-bold text-neutral-400 uppercase tracking-widest">Neural Layer Stack</span>
+                        <div className="flex gap-1">
+                            <button onClick={() => setRightPanel('layers')} className={`flex items-center gap-2 px-2 py-1 rounded text-xs font-bold uppercase tracking-widest ${rightPanel === 'layers' ? 'text-purple-300 bg-purple-900/20' : 'text-neutral-500 hover:text-neutral-300'}`}>
+                                <Layers size={14} /> Layers
+                            </button>
+                            <button onClick={() => setRightPanel('rules')} className={`flex items-center gap-2 px-2 py-1 rounded text-xs font-bold uppercase tracking-widest ${rightPanel === 'rules' ? 'text-purple-300 bg-purple-900/20' : 'text-neutral-500 hover:text-neutral-300'}`}>
+                                <Link2 size={14} /> Rules {substitutions.length > 0 && <span className="text-[10px] text-neutral-500">{substitutions.length}</span>}
+                            </button>
+                            <button onClick={() => setRightPanel('metrics')} className={`flex items-center gap-2 px-2 py-1 rounded text-xs font-bold uppercase tracking-widest ${rightPanel === 'metrics' ? 'text-purple-300 bg-purple-900/20' : 'text-neutral-500 hover:text-neutral-300'}`}>
+                                <Ruler size={14} /> Metrics
+                            </button>
                         </div>
-                        <button onClick={addNewLayer} className="p-1.5 bg-purple-600 hover:bg-purple-500 rounded text-white shadow-lg transition-all" title="Add Layer"><Plus size={14} /></button>
+                        {rightPanel === 'layers'
+                            ? <button onClick={addNewLayer} className="p-1.5 bg-purple-600 hover:bg-purple-500 rounded text-white shadow-lg transition-all" title="Add Layer"><Plus size={14} /></button>
+                            : rightPanel === 'rules'
+                                ? <button onClick={addSubstitution} className="p-1.5 bg-purple-600 hover:bg-purple-500 rounded text-white shadow-lg transition-all" title="Add Rule"><Plus size={14} /></button>
+                                : <button onClick={addKerningPair} className="p-1.5 bg-purple-600 hover:bg-purple-500 rounded text-white shadow-lg transition-all" title="Add Kerning Pair"><Plus size={14} /></button>}
                     </div>
+                    {rightPanel === 'metrics' ? (
+                    <div className="flex-1 overflow-y-auto p-2 space-y-2 custom-scrollbar">
+                        <p className="text-[10px] text-neutral-500 px-1">Vertical lines in canvas units (0 is the top). The baseline sits on the text line; the others set the exported font's line height.</p>
+                        <div className="grid grid-cols-2 gap-2">
+                            {METRIC_FIELDS.map(({ key, label }) => (
+                                <label key={key} className="flex flex-col gap-1 text-[10px] uppercase font-bold text-neutral-500">
+                                    {label}
+                                    <input type="number" value={metrics[key]} onChange={(e) => updateMetric(key, e.target.value)} className="bg-neutral-900 border border-neutral-800 rounded px-1.5 py-1 text-xs font-mono text-neutral-200 outline-none focus:border-purple-500" />
+                                </label>
+                            ))}
+                        </div>
+                        <div className="border-t border-neutral-800 pt-3 mt-3 space-y-2">
+                            <p className="text-[10px] text-neutral-500 px-1">Kerning pairs adjust the space between two glyphs. Negative values pull them together.</p>
+                            <datalist id="kerning-glyphs">
+                                {scriptConfig.glyphs.map(g => <option key={g.char} value={g.char} />)}
+                            </datalist>
+                            {kerning.map(pair => (
+                                <div key={pair.id} className="border border-neutral-800 rounded-lg p-2 bg-neutral-950/40 space-y-1.5">
+                                    <div className="flex items-center gap-1">
+                                        <input value={pair.left} list="kerning-glyphs" onChange={(e) => updateKerningPair(pair.id, { left: e.target.value })} placeholder="left" className="w-full min-w-0 bg-neutral-900 border border-neutral-800 rounded px-1.5 py-1 text-xs font-mono text-neutral-200 outline-none focus:border-purple-500" />
+                                        <input value={pair.right} list="kerning-glyphs" onChange={(e) => updateKerningPair(pair.id, { right: e.target.value })} placeholder="right" className="w-full min-w-0 bg-neutral-900 border border-neutral-800 rounded px-1.5 py-1 text-xs font-mono text-neutral-200 outline-none focus:border-purple-500" />
+                                        <input type="number" value={pair.value} onChange={(e) => updateKerningPair(pair.id, { value: Number(e.target.value) })} className="w-16 bg-neutral-900 border border-neutral-800 rounded px-1.5 py-1 text-xs font-mono text-neutral-200 outline-none focus:border-purple-500" />
+                                        <button onClick={() => setKerning(kerning.filter(k => k.id !== pair.id))} className="p-1 text-neutral-700 hover:text-red-500"><Trash2 size={12} /></button>
+                                    </div>
+                                    {pair.left && pair.right && (
+                                        <div className="text-3xl text-purple-200 bg-black/30 rounded p-2"><ConScriptText text={kerningPreviewText(pair)} scriptConfig={scriptConfig} /></div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                    ) : rightPanel === 'rules' ? (
+                    <div className="flex-1 overflow-y-auto p-2 space-y-2 custom-scrollbar">
+                        <p className="text-[10px] text-neutral-500 px-1">Sequences are replaced by named glyphs, longest first. Contexts list characters; # is the word edge.</p>
+                        <datalist id="glyph-names">
+                            {scriptConfig.glyphs.map(g => <option key={g.char} value={g.char} />)}
+                        </datalist>
+                        {substitutions.map(rule => (
+                            <div key={rule.id} className="border border-neutral-800 rounded-lg p-2 bg-neutral-950/40 space-y-1.5">
+                                <div className="flex items-center gap-1">
+                                    <input value={rule.input} onChange={(e) => updateSubstitution(rule.id, { input: e.target.value })} placeholder="input" className="w-16 bg-neutral-900 border border-neutral-800 rounded px-1.5 py-1 text-xs font-mono text-neutral-200 outline-none focus:border-purple-500" />
+                                    <ArrowRight size={12} className="text-neutral-600 shrink-0" />
+                                    <input value={rule.output} list="glyph-names" onChange={(e) => updateSubstitution(rule.id, { output: e.target.value })} placeholder="glyph" className="flex-1 min-w-0 bg-neutral-900 border border-neutral-800 rounded px-1.5 py-1 text-xs font-mono text-neutral-200 outline-none focus:border-purple-500" />
+                                    {rule.output && !scriptConfig.glyphs.some(g => g.char === rule.output) && (
+                                        <button onClick={() => setSelectedChar(rule.output)} className="text-[9px] text-amber-500 hover:text-amber-300 uppercase font-bold" title="This glyph has not been drawn yet">draw</button>
+                                    )}
+                                    <button onClick={() => setSubstitutions(substitutions.filter(r => r.id !== rule.id))} className="p-1 text-neutral-700 hover:text-red-500"><Trash2 size={12} /></button>
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    <select value={rule.form || ''} onChange={(e) => updateSubstitution(rule.id, { form: (e.target.value || undefined) as GlyphForm | undefined })} className="bg-neutral-900 border border-neutral-800 rounded px-1 py-1 text-[10px] text-neutral-400 outline-none">
+                                        <option value="">any position</option>
+                                        {GLYPH_FORMS.map(f => <option key={f} value={f}>{f}</option>)}
+                                    </select>
+                                    <input value={rule.before || ''} onChange={(e) => updateSubstitution(rule.id, { before: e.target.value || undefined })} placeholder="after…" title="Only when preceded by one of these characters" className="w-full min-w-0 bg-neutral-900 border border-neutral-800 rounded px-1.5 py-1 text-[10px] font-mono text-neutral-400 outline-none focus:border-purple-500" />
+                                    <input value={rule.after || ''} onChange={(e) => updateSubstitution(rule.id, { after: e.target.value || undefined })} placeholder="before…" title="Only when followed by one of these characters" className="w-full min-w-0 bg-neutral-900 border border-neutral-800 rounded px-1.5 py-1 text-[10px] font-mono text-neutral-400 outline-none focus:border-purple-500" />
+                                </div>
+                            </div>
+                        ))}
+                        <div className="border-t border-neutral-800 pt-3 mt-3 space-y-2">
+                            <input value={shapingTest} onChange={(e) => setShapingTest(e.target.value)} placeholder="Test text..." className="w-full bg-neutral-900 border border-neutral-800 rounded px-2 py-1.5 text-xs text-neutral-200 outline-none focus:border-purple-500" />
+                            {shapingTest && (
+                                <>
+                                    <div className="text-3xl text-purple-200 bg-black/30 rounded p-3 overflow-x-auto"><ConScriptText text={shapingTest} scriptConfig={scriptConfig} /></div>
+                                    <div className="flex flex-wrap gap-1">
+                                        {shapeText(shapingTest, scriptConfig).filter(c => !c.isSpace).map((c, i) => (
+                                            <span key={i} className={`px-1.5 py-0.5 rounded text-[10px] font-mono ${c.glyph ? 'bg-neutral-800 text-neutral-300' : 'bg-red-900/30 text-red-400'}`}>
+                                                {c.text}→{c.glyph ? [c.glyph.char, ...c.marks.map(m => m.char)].join('+') : '?'}
+                                            </span>
+                                        ))}
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                    ) : (
                     <div className="flex-1 overflow-y-auto p-2 space-y-2 custom-scrollbar">
                         {[...strokes].reverse().map((s, revIdx) => {
                             const actualIdx = strokes.length - 1 - revIdx;
@@ -477,7 +930,9 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
                                                 <img src={s.imageUrl} className="w-full h-full object-cover opacity-50" />
                                             ) : (
                                                 <svg viewBox={`0 0 ${CANVAS_SIZE} ${CANVAS_SIZE}`} className="w-8 h-8">
-                                                    <path d={s.d} stroke={s.color} strokeWidth={s.strokeWidth * 1.5} fill="none" strokeLinecap="round" />
+                                                    {s.fill
+                                                        ? <path d={s.d} fill={s.color} fillRule={s.fill} />
+                                                        : <path d={s.d} stroke={s.color} strokeWidth={s.strokeWidth * 1.5} fill="none" strokeLinecap="round" />}
                                                 </svg>
                                             )}
                                         </div>
@@ -498,7 +953,7 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
                                                     <button onClick={(e) => { e.stopPropagation(); setEditingLayerId(s.id); }} className="opacity-0 group-hover/label:opacity-100 text-neutral-600 hover:text-purple-400"><Edit3 size={10} /></button>
                                                 </div>
                                             )}
-                                            <span className="text-[8px] text-neutral-600 uppercase font-mono">{s.type} {s.type !== 'image' && `• ${s.strokeWidth}pt`}</span>
+                                            <span className="text-[8px] text-neutral-600 uppercase font-mono">{s.type} {s.fill ? '• fill' : s.type !== 'image' && `• ${s.strokeWidth}pt`}</span>
                                         </div>
                                     </div>
                                     <div className="flex items-center gap-0.5 opacity-40 group-hover:opacity-100 transition-opacity">
@@ -518,7 +973,32 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
                             );
                         })}
                     </div>
+                    )}
                     <div className="p-4 bg-neutral-950 border-t border-neutral-800 space-y-2">
+                        <label className="flex items-center gap-2 text-[10px] font-bold uppercase text-neutral-400 cursor-pointer">
+                            <input type="checkbox" checked={isMark} onChange={(e) => { setIsMark(e.target.checked); setIsDirty(true); }} className="accent-purple-500" />
+                            Combining mark
+                        </label>
+                        <div className="flex items-center gap-2 text-[10px] text-neutral-500">
+                            <Anchor size={12} className={isMark ? 'text-pink-400' : 'text-cyan-400'} />
+                            <span className="uppercase font-bold w-20">{isMark ? 'Mark anchor' : 'Base anchor'}</span>
+                            {(['x', 'y'] as const).map(axis => (
+                                <input
+                                    key={axis}
+                                    type="number"
+                                    value={(isMark ? markAnchor : anchor)?.[axis] ?? ''}
+                                    onChange={(e) => updateAnchor(isMark ? 'markAnchor' : 'anchor', axis, e.target.value)}
+                                    placeholder={axis}
+                                    className="w-14 bg-neutral-900 border border-neutral-800 rounded px-1.5 py-1 text-neutral-300 outline-none focus:border-purple-500"
+                                />
+                            ))}
+                        </div>
+                        <div className="flex items-center gap-2 text-[10px] text-neutral-500" title="Space before and after the ink. Leave empty to keep the glyph where it was drawn.">
+                            <Ruler size={12} className="text-amber-400" />
+                            <span className="uppercase font-bold w-20">Bearings</span>
+                            <input type="number" value={leftBearing ?? ''} onChange={(e) => updateBearing(setLeftBearing, e.target.value)} placeholder="left" className="w-14 bg-neutral-900 border border-neutral-800 rounded px-1.5 py-1 text-neutral-300 outline-none focus:border-purple-500" />
+                            <input type="number" value={rightBearing ?? ''} onChange={(e) => updateBearing(setRightBearing, e.target.value)} placeholder="right" className="w-14 bg-neutral-900 border border-neutral-800 rounded px-1.5 py-1 text-neutral-300 outline-none focus:border-purple-500" />
+                        </div>
                         <button onClick={() => fileInputRef.current?.click()} className="w-full py-2 bg-neutral-900 border border-neutral-800 text-neutral-400 text-[10px] font-bold uppercase hover:bg-neutral-800 hover:text-white transition-all flex items-center justify-center gap-2">
                             <ImageIcon size={12} /> Import Reference Matrix
                         </button>
@@ -530,9 +1010,36 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ scriptConfig, setScriptConf
                                 reader.readAsDataURL(file);
                             }
                         }} accept="image/*" className="hidden" />
+                        <div className="grid grid-cols-3 gap-1" title="Import outlines as editable layers, matched to characters by codepoint or file name">
+                            <button onClick={() => fontInputRef.current?.click()} className="py-2 bg-neutral-900 border border-neutral-800 text-neutral-400 text-[10px] font-bold uppercase hover:bg-neutral-800 hover:text-white transition-all flex items-center justify-center gap-1">
+                                <Type size={12} /> Font
+                            </button>
+                            <button onClick={() => svgInputRef.current?.click()} className="py-2 bg-neutral-900 border border-neutral-800 text-neutral-400 text-[10px] font-bold uppercase hover:bg-neutral-800 hover:text-white transition-all flex items-center justify-center gap-1">
+                                <Upload size={12} /> SVGs
+                            </button>
+                            <button onClick={() => svgFolderInputRef.current?.click()} className="py-2 bg-neutral-900 border border-neutral-800 text-neutral-400 text-[10px] font-bold uppercase hover:bg-neutral-800 hover:text-white transition-all flex items-center justify-center gap-1">
+                                <FolderOpen size={12} /> Folder
+                            </button>
+                        </div>
+                        <input type="file" ref={fontInputRef} onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleImportFont(file);
+                            e.target.value = '';
+                        }} accept=".ttf,.otf,.woff,.woff2,.ttc" className="hidden" />
+                        <input type="file" ref={svgInputRef} multiple onChange={(e) => {
+                            handleImportSvgs(Array.from(e.target.files || []));
+                            e.target.value = '';
+                        }} accept=".svg,image/svg+xml" className="hidden" />
+                        <input type="file" ref={svgFolderInputRef} {...{ webkitdirectory: '' }} onChange={(e) => {
+                            handleImportSvgs(Array.from(e.target.files || []));
+                            e.target.value = '';
+                        }} className="hidden" />
                     </div>
                 </div>
             </div>
+            {pendingImport && (
+                <GlyphImportModal glyphs={pendingImport} scriptConfig={scriptConfig} onApply={applyPendingImport} onClose={() => setPendingImport(null)} />
+            )}
         </div>
     );
 };
@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
-import { X, Moon, Sun, CloudMoon, Cpu, CloudSun, Palette, Download, Upload, Check, Eye, EyeOff, HelpCircle, ExternalLink, ChevronLeft } from 'lucide-react';
-import { AppSettings, CustomTheme } from '../types';
+import { X, Moon, Sun, CloudMoon, Cpu, CloudSun, Palette, Download, Upload, Check, Eye, EyeOff, HelpCircle, ExternalLink, ChevronLeft, Volume2 } from 'lucide-react';
+import { AppSettings, CustomTheme, SpeechSettings } from '../types';
 import { useTranslation, Language } from '../i18n';
 
 interface SettingsModalProps {
@@ -20,6 +20,7 @@ const DEFAULT_CUSTOM: CustomTheme = {
 };
 
 import { isApiKeySet, getApiKey, setApiKey } from '../services/geminiService';
+import { DEFAULT_SPEECH, speakIPA } from '../services/speechService';
 
 const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onUpdateSettings }) => {
   const { language, setLanguage, t } = useTranslation();
@@ -65,6 +66,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
     }
   };
 
+  const speech = settings.speech || DEFAULT_SPEECH;
+  const handleSpeechUpdate = (key: keyof SpeechSettings, val: number) => {
+    onUpdateSettings({ ...settings, speech: { ...speech, [key]: val } });
+  };
+
   const handleApiKeyChange = (val: string) => {
     setApiKeyLocal(val);
     setApiKey(val);
@@ -128,6 +134,21 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                 </button>
               </div>
 
+              <div className="space-y-3">
+                <label className="text-xs font-bold text-slate-500 uppercase flex items-center justify-between">
+                  <span className="flex items-center gap-2"><Volume2 size={14} /> {t('settings.speech')}</span>
+                  <button onClick={() => speakIPA('ˈhe.lo', undefined, speech).catch(() => alert(t('speech.unavailable')))} className="text-[10px] text-blue-400 hover:text-blue-300 normal-case">{t('settings.speech_test')}</button>
+                </label>
+                <div className="grid grid-cols-[5rem_1fr_3rem] items-center gap-2 text-xs text-slate-400">
+                  <span>{t('settings.speech_rate')}</span>
+                  <input type="range" min={0.5} max={2} step={0.1} value={speech.rate} onChange={(e) => handleSpeechUpdate('rate', Number(e.target.value))} />
+                  <span className="font-mono text-right">{speech.rate.toFixed(1)}×</span>
+                  <span>{t('settings.speech_pitch')}</span>
+                  <input type="range" min={60} max={300} step={5} value={speech.pitch} onChange={(e) => handleSpeechUpdate('pitch', Number(e.target.value))} />
+                  <span className="font-mono text-right">{speech.pitch} Hz</span>
+                </div>
+              </div>
+
               <div>
                 <label className="text-xs font-bold text-slate-500 uppercase mb-3 block">Language</label>
                 <div className="grid grid-cols-2 gap-2 bg-slate-950 p-2 rounded">
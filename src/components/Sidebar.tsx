@@ -1,6 +1,7 @@
 import React from 'react';
-import { BookA, GitBranch, Languages, LayoutDashboard, Settings, Activity, Terminal, FileJson, Feather, BookOpen } from 'lucide-react';
-import { ViewState } from '../types';
+import { BookA, GitBranch, Languages, LayoutDashboard, Settings, Activity, Terminal, FileJson, Feather, BookOpen, Network } from 'lucide-react';
+import { ViewState, LanguageData } from '../types';
+import { buildLanguageTree, flattenLanguageTree } from '../services/languageService';
 import { useTranslation } from '../i18n';
 
 interface SidebarProps {
@@ -8,9 +9,12 @@ interface SidebarProps {
   setView: (view: ViewState) => void;
   onOpenProjectSettings: () => void;
   onToggleSidebar?: () => void;
+  languages: LanguageData[];
+  activeLanguageId: string;
+  onSwitchLanguage: (id: string) => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ currentView, setView, onOpenProjectSettings, onToggleSidebar }) => {
+const Sidebar: React.FC<SidebarProps> = ({ currentView, setView, onOpenProjectSettings, onToggleSidebar, languages, activeLanguageId, onSwitchLanguage }) => {
   const { t } = useTranslation();
 
   const authoringItems = [
@@ -28,6 +32,8 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setView, onOpenProjectSe
     { id: 'SOURCE', label: t('nav.source'), icon: FileJson },
   ];
 
+  const languageOptions = flattenLanguageTree(buildLanguageTree(languages));
+
   const renderItem = (item: any) => {
     const Icon = item.icon;
     const isActive = currentView === item.id;
@@ -72,6 +78,21 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setView, onOpenProjectSe
         )}
       </div>
 
+      <div className="px-3 py-3 border-b border-neutral-700">
+        <label className="text-[10px] font-semibold text-neutral-500 uppercase tracking-wider mb-1 flex items-center gap-1.5">
+          <Network size={12} /> {t('nav.language')}
+        </label>
+        <select
+          value={activeLanguageId}
+          onChange={(e) => onSwitchLanguage(e.target.value)}
+          className="w-full bg-neutral-900 border border-neutral-700 rounded px-2 py-1.5 text-sm text-neutral-200 outline-none focus:border-blue-500"
+        >
+          {languageOptions.map(({ language, depth }) => (
+            <option key={language.id} value={language.id}>{'\u00A0\u00A0'.repeat(depth)}{depth > 0 ? '└ ' : ''}{language.name}</option>
+          ))}
+        </select>
+      </div>
+
       <div className="flex-1 overflow-y-auto py-4 flex flex-col gap-6">
         <nav>
           <div className="px-4 mb-2 text-xs font-semibold text-neutral-500 uppercase tracking-wider">Authoring</div>
@@ -3,6 +3,7 @@ import { Save, RefreshCw, AlertTriangle, FileJson } from 'lucide-react';
 import CodeEditor from './CodeEditor';
 import { ProjectData } from '../types';
 import { useTranslation } from '../i18n';
+import { formatSchemaErrors, parseProject } from '../services/schemaService';
 
 interface SourceViewProps {
   data: ProjectData;
@@ -20,13 +21,21 @@ const SourceView: React.FC<SourceViewProps> = ({ data, onApply }) => {
   }, [data]);
 
   const handleApply = () => {
+    let raw: unknown;
     try {
-      const parsed = JSON.parse(jsonContent);
-      onApply(parsed);
-      setError(null);
+      raw = JSON.parse(jsonContent);
     } catch (e: any) {
       setError(e.message);
+      return;
     }
+    // Nothing is applied while any field is invalid
+    const { data: parsed, errors } = parseProject(raw);
+    if (!parsed) {
+      setError(`${t('schema.invalid_source')}\n${formatSchemaErrors(errors)}`);
+      return;
+    }
+    onApply(parsed);
+    setError(null);
   };
 
   const handleReset = () => {
@@ -61,9 +70,9 @@ const SourceView: React.FC<SourceViewProps> = ({ data, onApply }) => {
         </div>
 
         {error && (
-            <div className="bg-red-900/20 border-b border-red-500/30 p-3 text-red-200 text-xs flex items-center gap-2">
-                <AlertTriangle size={14} />
-                <span className="font-mono">{error}</span>
+            <div className="bg-red-900/20 border-b border-red-500/30 p-3 text-red-200 text-xs flex items-start gap-2 max-h-48 overflow-y-auto">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                <span className="font-mono whitespace-pre-wrap">{error}</span>
             </div>
         )}
 
@@ -14,7 +14,16 @@ const resources: TranslationResources = {
     "genword.config": "Configuration",
     "genword.constraints": "Constraints",
     "genword.vibe": "Vibe",
-    "genword.count": "Count (Max 15)",
+    "genword.count": "Count",
+    "genword.engine_local": "Phonotactic",
+    "genword.engine_ai": "AI",
+    "genword.structure": "Syllable structure",
+    "genword.structure_hint": "Edit it in the Phonology editor. Default: (C)V(C)",
+    "genword.syllables": "Syllables (min – max)",
+    "genword.seed": "Seed",
+    "genword.seed_ph": "Leave empty for random output",
+    "genword.weights": "Phoneme weights",
+    "genword.weights_ph": "a=3, i=2, ŋ=0.5",
     "genword.generate": "Generate",
     "genword.loading_1": "Loading...",
     "genword.loading_2": "Generating...",
@@ -28,13 +37,64 @@ const resources: TranslationResources = {
     "genword.vibe_ph": "Enter desired semantic vibe (e.g., 'ancient', 'modern')",
     "defaults.project_name": "New Project",
     "defaults.author": "Author",
-    "defaults.grammar": "Rules\\n\\n// Enter your grammar rules here...",
+    "defaults.grammar": "// Enter your grammar rules here...\nS ::= NP VP\nNP ::= Determiner? Adjective* Noun\nVP ::= Verb NP?",
     "defaults.phonology_name": "Default Phonology",
-    "wizard.overwrite_confirm": "Are you sure you want to create a new project? This will overwrite the current state.",
     "menu.file": "File",
     "menu.new_project": "New Project",
-    "menu.open_project": "Open Project",
+    "menu.open_project": "Import Project File",
+    "menu.projects": "Projects…",
+    "projects.title": "Projects",
+    "projects.switch": "Projects",
+    "projects.current": "Open",
+    "projects.open": "Open",
+    "projects.duplicate": "Duplicate",
+    "projects.duplicate_name": "Name of the copy:",
+    "projects.copy": "copy",
+    "projects.rename": "Rename",
+    "projects.rename_prompt": "Rename project:",
+    "projects.delete": "Delete",
+    "projects.delete_confirm": "Delete this project with its snapshots and recordings? This cannot be undone:",
+    "projects.languages": "languages",
+    "projects.empty": "No saved projects yet.",
+    "projects.unavailable": "The project store (IndexedDB) is not available in this browser.",
+    "projects.failed": "The operation failed.",
+    "projects.save_failed": "Not saved",
     "menu.export_json": "Export JSON",
+    "menu.edit": "Edit",
+    "menu.undo": "Undo",
+    "menu.redo": "Redo",
+    "menu.history": "History & Snapshots…",
+    "history.title": "History & Snapshots",
+    "history.steps": "Undo History",
+    "history.steps_hint": "Click a step to go back or forward to it. Ctrl+Z / Ctrl+Y step through it in every view.",
+    "history.opened": "Project opened",
+    "history.current": "Current",
+    "history.snapshots": "Snapshots",
+    "history.snapshot_name": "Snapshot name…",
+    "history.take_snapshot": "Save Snapshot",
+    "history.no_snapshots": "No snapshots yet. Name the current state to keep it.",
+    "history.compare": "Compare",
+    "history.restore": "Restore",
+    "history.restore_confirm": "Replace the working state with this snapshot? You can undo it:",
+    "history.checkout_hint": "Open this snapshot as a separate project",
+    "history.delete_confirm": "Delete this snapshot?",
+    "history.diff_title": "Changes since",
+    "history.no_changes": "The working state matches this snapshot.",
+    "history.more": "more",
+    "history.section.project": "project info",
+    "history.section.languages": "languages",
+    "history.section.lexicon": "lexicon",
+    "history.section.phonology": "phonology",
+    "history.section.morphology": "morphology",
+    "history.section.paradigms": "paradigms",
+    "history.section.script": "script",
+    "history.section.glyphs": "glyphs",
+    "history.section.grammar": "grammar",
+    "history.section.rules": "sound changes",
+    "history.section.branch_rules": "branch sound changes",
+    "history.section.notebook": "notebook",
+    "history.section.examples": "glossed examples",
+    "history.section.constraints": "validation",
     "menu.view": "View",
     "menu.toggle_sidebar": "Toggle Sidebar",
     "menu.zoom_in": "Zoom In",
@@ -63,11 +123,15 @@ const resources: TranslationResources = {
     "nav.settings": "Settings",
     "nav.console": "Console",
     "nav.source": "Source",
+    "nav.language": "Language",
     "source.title": "Project Source",
     "source.desc": "View and edit the raw JSON data for your project.",
     "source.reset": "Reset",
     "source.apply": "Apply",
     "source.warning": "Warning: Editing directly can lead to data corruption.",
+    "schema.invalid_file": "Could not import",
+    "schema.legacy_failed": "The autosave from an earlier version could not be moved into the project list. It is kept and will be tried again on the next start.",
+    "schema.invalid_source": "The project was not applied. Fix these fields first:",
     "val.desc": "Configure validation rules and sorting for your lexicon.",
     "tab.general": "General",
     "tab.phonotactics": "Phonotactics",
@@ -88,12 +152,14 @@ const resources: TranslationResources = {
     "sort.preset_katakana": "Katakana",
     "sort.preset_arabic": "Arabic",
     "val.banned_seq": "Banned Sequences",
-    "val.banned_placeholder": "e.g. zz, qp, st",
+    "val.syllable": "Syllable structure",
+    "val.inventory": "Not in the inventory",
+    "val.banned_placeholder": "e.g. zz, qp, [+nasal][-voice]",
     "val.no_bans": "No banned sequences configured.",
     "lbl.structure": "Phonotactic Structure (Regex)",
     "lbl.structure_desc": "Define the allowed syllable or word structure. Use C for consonants, V for vowels. Example: C?VC?V",
     "lbl.starts_with": "Must Start With",
-    "val.target_placeholder": "e.g. p, s, pre",
+    "val.target_placeholder": "e.g. p, s, pre, C, [+nasal]",
     "val.any_pos": "Any",
     "val.no_restrictions": "No restrictions.",
     "lbl.ends_with": "Must End With",
@@ -109,8 +175,51 @@ const resources: TranslationResources = {
     "grammar.bnf_placeholder": "// Enter your grammar rules here...",
     "grammar.type_sentence": "Type a sentence to parse...",
     "grammar.analysis_output": "Analysis Output",
+    "grammar.errors": "errors",
+    "grammar.rules_ok": "rules",
+    "grammar.line": "Line",
+    "grammar.parse": "Parse",
+    "grammar.ask_ai": "Ask AI",
+    "grammar.unknown_words": "Not in the lexicon",
+    "grammar.ambiguous": "Ambiguous",
+    "grammar.readings": "readings",
+    "grammar.parsed": "Parsed",
     "common.confirm": "Are you sure you want to delete this item?",
     "morph.paradigms": "Paradigms",
+    "morph.dimensions": "Dimensions",
+    "morph.cell": "Cell",
+    "morph.inflection_table": "Inflection Table",
+    "morph.sandbox_root": "Sandbox root",
+    "morph.op.prefix": "Prefix",
+    "morph.op.suffix": "Suffix",
+    "morph.op.infix": "Infix",
+    "morph.op.circumfix": "Circumfix",
+    "morph.op.reduplication": "Reduplication",
+    "morph.op.replacement": "Ablaut / Umlaut",
+    "morph.infix_vowel": "Before vowel #",
+    "morph.infix_syllable": "At syllable #",
+    "morph.infix_position": "At position",
+    "morph.infix_index_hint": "1 = first, -1 = last",
+    "morph.red_full": "Full",
+    "morph.red_cv": "Partial (CV)",
+    "morph.red_syllable": "Partial (syllable)",
+    "morph.before_root": "Before root",
+    "morph.after_root": "After root",
+    "morph.scope_first": "First",
+    "morph.scope_last": "Last",
+    "morph.scope_all": "All",
+    "morph.suppletive": "Suppletive forms",
+    "morph.suppletive_ph": "Suppletive: go=went, be=was",
+    "morph.morphophonology": "Morphophonology",
+    "morph.boundary_hint": "Run in order after affixation. Use + for the morpheme boundary, C and V for the inventory.",
+    "morph.boundary.sound-change": "Sound change",
+    "morph.boundary.harmony": "Vowel harmony",
+    "morph.boundary.epenthesis": "Epenthesis",
+    "morph.harmony_backness": "Backness",
+    "morph.harmony_rounded": "Rounding",
+    "morph.harmony_both": "Backness + rounding",
+    "morph.epenthesis_hint": "Inserted where a banned sequence spans a boundary",
+    "morph.underlying": "Underlying",
     "grammar.applies_to": "Applies to",
     "grammar.morph_rules": "Morphological Rules",
     "grammar.add_rule": "Add Rule",
@@ -129,6 +238,22 @@ const resources: TranslationResources = {
     "dashboard.create_first": "Create your first word",
     "dashboard.pos_dist": "Part of Speech Distribution",
     "dashboard.no_data": "No data available.",
+    "dashboard.family_tree": "Language Family",
+    "dashboard.active_language": "Active",
+    "dashboard.branch_rules": "rules",
+    "dashboard.rename_language": "Rename language",
+    "dashboard.corpus": "Corpus",
+    "dashboard.corpus_texts": "texts",
+    "dashboard.corpus_tokens": "Tokens",
+    "dashboard.corpus_types": "Types",
+    "dashboard.corpus_coverage": "Coverage",
+    "dashboard.corpus_top_words": "Most frequent entries",
+    "dashboard.corpus_phonemes": "Phonemes",
+    "dashboard.corpus_bigrams": "Bigrams",
+    "dashboard.corpus_oov": "Out of vocabulary",
+    "dashboard.corpus_unused": "Never used",
+    "dashboard.corpus_empty": "Write texts in the Notebook to see word and sound frequencies.",
+    "dashboard.corpus_open_notebook": "Open Notebook",
     "msg.about_title": "About Korelang",
     "msg.about_desc": "Developed by zRinexD (github.com/zRinexD)",
     "app.title": "Korelang",
@@ -158,6 +283,8 @@ const resources: TranslationResources = {
     "lexicon.results_count": "results",
     "lexicon.entries_count": "entries",
     "lexicon.ai_gen_btn": "AI Generate",
+    "lexicon.ipa_mismatch": "IPA ≠ spelling",
+    "lexicon.ipa_orthography": "From orthography",
     "lexicon.new": "New Word",
     "lexicon.pos": "Part of Speech",
     "lexicon.word": "Word",
@@ -192,6 +319,50 @@ const resources: TranslationResources = {
     "phonology.vowels": "Vowels",
     "phonology.syllable_struct": "Syllable Structure",
     "phonology.undefined": "Undefined",
+    "phonology.stress": "Stress",
+    "phonology.stress.initial": "Initial",
+    "phonology.stress.final": "Final",
+    "phonology.stress.penultimate": "Penultimate",
+    "phonology.stress.antepenultimate": "Antepenultimate",
+    "phonology.stress.weight": "Weight-sensitive (heavy penult, else antepenult)",
+    "phonology.stress.lexical": "Lexical (ˈ in the entry's IPA)",
+    "phonology.heavy_coda": "Closed syllables are heavy",
+    "phonology.orthography": "Orthography",
+    "phonology.orthography_desc": "Maps spellings to IPA. Longest grapheme wins; contexts use sound-change notation (_[ei], #_, V_V).",
+    "phonology.add_grapheme": "Add Grapheme",
+    "phonology.grapheme": "Grapheme",
+    "phonology.phoneme": "Phoneme",
+    "phonology.context": "Context (optional)",
+    "phonology.test_spelling": "Type a word to test...",
+    "phonology.unmapped": "Unmapped letters",
+    "phonology.features": "Distinctive Features",
+    "phonology.features_desc": "Each phoneme's feature matrix comes from its IPA symbol. Click a phoneme on the charts to edit it; type a natural class to highlight its members. Classes also work in constraints, sound changes and syllable structures.",
+    "phonology.class_placeholder": "[+voice -sonorant]",
+    "phonology.class_members": "members",
+    "phonology.select_phoneme": "Select a phoneme on the charts to see its features; double-click it to hear it.",
+    "phonology.reset_features": "Reset to IPA",
+    "phonology.tones": "Tones",
+    "phonology.tones_desc": "Tones are written with tone letters (˥ ˧˥), Chao digits (55, 214) or accents on the vowel (á, ǎ) and checked on every syllable.",
+    "phonology.tone_levels": "Pitch levels (1 low – 5 high)",
+    "phonology.add_phoneme": "Add",
+    "phonology.add_consonant_placeholder": "e.g. tʃ, ɓ, kʼ",
+    "phonology.add_vowel_placeholder": "e.g. aː, ã, ai",
+    "phonology.add_tone_placeholder": "e.g. ˥, ˨˩˦",
+    "phonology.remove_phoneme": "Remove",
+    "phonology.duplicate_phoneme": "This symbol is already in the inventory.",
+    "phonology.category.pulmonic": "Pulmonic",
+    "phonology.category.affricate": "Affricates",
+    "phonology.category.coarticulated": "Co-articulated",
+    "phonology.category.click": "Clicks",
+    "phonology.category.implosive": "Implosives",
+    "phonology.category.ejective": "Ejectives",
+    "phonology.category.monophthong": "Monophthong",
+    "phonology.category.long": "Long vowels",
+    "phonology.category.nasal": "Nasal vowels",
+    "phonology.category.diphthong": "Diphthongs",
+    "phonology.category.level": "Level tones",
+    "phonology.category.contour": "Contour tones",
+    "phonology.category.unplaced": "Other",
     "wizard.create_title": "Create New Project",
     "wizard.edit_title": "Edit Project Details",
     "wizard.create_desc": "Start a fresh new conlang project.",
@@ -210,6 +381,11 @@ const resources: TranslationResources = {
     "console.violations": "violations",
     "console.available_commands": "AVAILABLE COMMANDS:",
     "console.help_fix": "Repairs words that violate the project rules.",
+    "console.help_derive_ipa": "Re-derives IPA from the orthography table and flags entries that disagree.",
+    "console.no_orthography": "No orthography table defined. Add graphemes in the Phonology editor.",
+    "console.ipa_consistent": "Every entry's IPA agrees with the orthography.",
+    "console.ipa_mismatches": "entries disagree with the orthography. Review the derived IPA:",
+    "console.ipa_cancelled": "IPA derivation cancelled.",
     "console.help_clear": "Clears the terminal history.",
     "console.help_about": "Developed by zRinexD (github.com/zRinexD)",
     "console.placeholder": "Enter command here...",
@@ -222,6 +398,14 @@ const resources: TranslationResources = {
     "genevolve.preview": "Preview",
     "genevolve.commit": "Commit Changes",
     "genevolve.placeholder": "Run sound changes to see the evolution here.",
+    "genevolve.unchanged": "No rule applied.",
+    "genevolve.accept_all": "Accept all",
+    "genevolve.reject_all": "Reject all",
+    "genevolve.mode_replace": "Replace in place",
+    "genevolve.mode_daughter": "New daughter language",
+    "genevolve.daughter_default": "Daughter Language",
+    "genevolve.daughter_alert": "Evolved forms committed to the daughter language.",
+    "genevolve.load_branch_rules": "Target this branch and load its saved sound changes? The rules in the editor will be replaced. Cancel keeps the current target.",
     "settings.api_key": "Gemini API Key",
     "settings.api_key_ph": "Enter your Gemini API key",
     "settings.api_key_required": "API Key is required for AI features.",
@@ -237,6 +421,29 @@ const resources: TranslationResources = {
     "settings.help_step_5": "5. Click 'Finalize Settings' to save your key.",
     "settings.open_ai_studio": "Open Google AI Studio",
     "settings.help_is_free": "Is it Free?",
+    "settings.speech": "Pronunciation playback",
+    "settings.speech_test": "Test voice",
+    "settings.speech_rate": "Speed",
+    "settings.speech_pitch": "Pitch",
+    "speech.play": "Play pronunciation",
+    "recording.title": "Recording",
+    "recording.record": "Record",
+    "recording.stop": "Stop",
+    "recording.import_file": "Audio file",
+    "recording.play": "Play recording",
+    "recording.remove": "Remove recording",
+    "recording.show_waveforms": "Show waveforms",
+    "recording.export_bundle": "Export recordings",
+    "recording.import_bundle": "Import recordings",
+    "recording.none": "No entry has a recording to export.",
+    "recording.missing": "The audio of this recording is not stored in this browser. Import its recordings bundle.",
+    "recording.failed": "The audio could not be read or stored.",
+    "recording.play_failed": "The recording could not be played.",
+    "recording.no_microphone": "No microphone access.",
+    "recording.bundle_invalid": "This file is not a recordings bundle.",
+    "speech.play_hint": "Consonants play between [a] vowels, tones on [a]",
+    "speech.unknown": "Not synthesized (unknown IPA)",
+    "speech.unavailable": "Audio playback is not available in this browser.",
     "settings.help_free_desc": "Yes, using the Gemini API is free for light usage. Refer to Google's documentation for details and pricing tiers.",
   },
 };
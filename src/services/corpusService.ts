@@ -0,0 +1,102 @@
+import { GlossedExample, LexiconEntry, MorphologyState, NotebookDocument, PhonologyConfig } from "../types";
+import { MorphophonologyContext } from "./morphologyService";
+import { buildFormIndex, normalizeToken, tokenizeText } from "./notebookService";
+import { compileOrthography, transcribe } from "./orthographyService";
+import { segmentIPA } from "./syllableService";
+
+/**
+ * Corpus statistics over the project's stored texts (Notebook documents and
+ * glossed examples): token/type counts, lexicon coverage and sound frequencies.
+ */
+
+export interface FrequencyItem {
+  label: string;
+  count: number;
+}
+
+export interface EntryFrequency {
+  entry: LexiconEntry;
+  count: number;
+}
+
+export interface CorpusAnalysis {
+  texts: number;
+  tokens: number;
+  types: number;
+  knownTokens: number;
+  coverage: number; // Share of tokens traced back to an entry, 0..1
+  entryFrequency: EntryFrequency[]; // Used entries, most frequent first
+  unusedEntries: LexiconEntry[];
+  outOfVocabulary: FrequencyItem[];
+  phonemes: FrequencyItem[];
+  bigrams: FrequencyItem[];
+}
+
+/** Every stored text of the project. Interlinear examples count with their object-language line. */
+export const collectCorpusTexts = (documents: NotebookDocument[] = [], examples: GlossedExample[] = []): string[] =>
+  [...documents.map(d => d.content), ...examples.map(ex => ex.text)].filter(text => text.trim());
+
+const byCount = (counts: Map<string, number>): FrequencyItem[] =>
+  Array.from(counts, ([label, count]) => ({ label, count })).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+
+const increment = (counts: Map<string, number>, key: string, by = 1) => counts.set(key, (counts.get(key) || 0) + by);
+
+/**
+ * Inflected tokens are traced to their entries through the paradigm forms. A form shared by
+ * several entries counts for each of them. Phonemes are read from the orthography when the
+ * project has one, otherwise from the spelling.
+ */
+export const analyzeCorpus = (
+  texts: string[],
+  entries: LexiconEntry[],
+  morphology: MorphologyState,
+  phonology?: PhonologyConfig,
+  context?: MorphophonologyContext
+): CorpusAnalysis => {
+  const formIndex = buildFormIndex(entries, morphology, context);
+  const orthography = phonology?.orthography?.length ? compileOrthography(phonology.orthography) : null;
+
+  const typeCounts = new Map<string, number>();
+  texts.forEach(text => tokenizeText(text).forEach(token => {
+    const word = normalizeToken(token.text);
+    if (token.isWord && word) increment(typeCounts, word);
+  }));
+
+  const entryCounts = new Map<LexiconEntry, number>();
+  const oov = new Map<string, number>();
+  const phonemes = new Map<string, number>();
+  const bigrams = new Map<string, number>();
+  let tokens = 0;
+  let knownTokens = 0;
+
+  typeCounts.forEach((count, word) => {
+    tokens += count;
+    const owners = formIndex.get(word);
+    if (owners) {
+      knownTokens += count;
+      owners.forEach(entry => entryCounts.set(entry, (entryCounts.get(entry) || 0) + count));
+    } else {
+      oov.set(word, count);
+    }
+
+    const ipa = orthography ? transcribe(word, orthography).ipa : word;
+    const segments = segmentIPA(ipa, phonology).map(s => s.symbol);
+    segments.forEach((segment, i) => {
+      increment(phonemes, segment, count);
+      if (i > 0) increment(bigrams, segments[i - 1] + segment, count);
+    });
+  });
+
+  return {
+    texts: texts.length,
+    tokens,
+    types: typeCounts.size,
+    knownTokens,
+    coverage: tokens > 0 ? knownTokens / tokens : 0,
+    entryFrequency: Array.from(entryCounts, ([entry, count]) => ({ entry, count })).sort((a, b) => b.count - a.count || a.entry.word.localeCompare(b.entry.word)),
+    unusedEntries: entries.filter(e => !entryCounts.has(e)),
+    outOfVocabulary: byCount(oov),
+    phonemes: byCount(phonemes),
+    bigrams: byCount(bigrams)
+  };
+};
@@ -0,0 +1,60 @@
+/**
+ * The browser database (IndexedDB) behind data too large for localStorage.
+ * Object stores are created here on upgrade; services read and write them through `withStore` and `withTransaction`.
+ */
+
+const DB_NAME = 'conlang-studio';
+const DB_VERSION = 3;
+
+export const STORES = {
+  recordings: 'recordings',
+  projects: 'projects', // One summary per project
+  projectParts: 'projectParts', // Project sections, keyed `<projectId>:<part>`
+  snapshots: 'snapshots' // Named project states, keyed `<projectId>:<snapshotId>`
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let database: Promise<IDBDatabase> | null = null;
+
+export const isDatabaseAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (!isDatabaseAvailable()) return reject(new Error('IndexedDB is not available in this browser'));
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    database.catch(() => { database = null; });
+  }
+  return database;
+};
+
+/** Runs requests over several stores in one transaction; resolves with `run`'s result once it commits. */
+export const withTransaction = async <T>(stores: StoreName[], mode: IDBTransactionMode, run: (transaction: IDBTransaction) => T): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(stores, mode);
+    const result = run(transaction);
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/** Runs one request against a store and resolves with its result once the transaction commits. */
+export const withStore = async <T>(store: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const request = await withTransaction([store], mode, transaction => run(transaction.objectStore(store)));
+  return request.result;
+};
+
+/** All keys of a store that start with `prefix`. */
+export const prefixRange = (prefix: string): IDBKeyRange => IDBKeyRange.bound(prefix, prefix + '\uffff');
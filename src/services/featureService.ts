@@ -0,0 +1,308 @@
+import { FeatureValue, Phoneme, PhonologyConfig } from "../types";
+
+/**
+ * Distinctive features and natural classes.
+ * Every phoneme gets a feature matrix derived from its IPA symbol (base letter plus
+ * diacritics); `Phoneme.features` overrides single values. Natural classes are written
+ * `[+voice -sonorant]` and select the inventory members whose matrix agrees with every value.
+ */
+
+export type FeatureSpec = Record<string, FeatureValue>;
+
+export const FEATURES = [
+  'syllabic', 'long', 'consonantal', 'sonorant', 'continuant', 'delrel', 'approximant', 'nasal',
+  'voice', 'spread', 'constricted', 'lateral', 'strident', 'tap', 'trill',
+  'labial', 'round', 'labiodental', 'coronal', 'anterior', 'distributed',
+  'dorsal', 'high', 'low', 'front', 'back', 'tense'
+];
+
+const ALIASES: Record<string, string> = {
+  syll: 'syllabic', cons: 'consonantal', son: 'sonorant', cont: 'continuant', delayedrelease: 'delrel',
+  approx: 'approximant', nas: 'nasal', voi: 'voice', voiced: 'voice', sg: 'spread', cg: 'constricted',
+  lat: 'lateral', strid: 'strident', str: 'strident', lab: 'labial', rnd: 'round', rounded: 'round',
+  cor: 'coronal', ant: 'anterior', dist: 'distributed', dor: 'dorsal', hi: 'high', lo: 'low', bk: 'back'
+};
+
+type Place = 'bilabial' | 'labiodental' | 'dental' | 'alveolar' | 'postalveolar' | 'retroflex' | 'alveolopalatal'
+  | 'palatal' | 'labial-palatal' | 'velar' | 'labial-velar' | 'uvular' | 'pharyngeal' | 'glottal';
+
+interface ConsonantDescriptor { place: Place; manner: string; voiced: boolean }
+interface VowelDescriptor { height: string; backness: string; rounded: boolean }
+
+// Base IPA letters: [place, manner, voiceless/voiced letters]
+const CONSONANT_TABLE: Array<[Place, string, string, string]> = [
+  ['bilabial', 'plosive', 'p', 'b'], ['bilabial', 'nasal', '', 'm'], ['bilabial', 'trill', '', 'ʙ'], ['bilabial', 'fricative', 'ɸ', 'β'],
+  ['labiodental', 'nasal', '', 'ɱ'], ['labiodental', 'tap', '', 'ⱱ'], ['labiodental', 'fricative', 'f', 'v'], ['labiodental', 'approximant', '', 'ʋ'],
+  ['dental', 'fricative', 'θ', 'ð'],
+  ['alveolar', 'plosive', 't', 'd'], ['alveolar', 'nasal', '', 'n'], ['alveolar', 'trill', '', 'r'], ['alveolar', 'tap', '', 'ɾ'],
+  ['alveolar', 'fricative', 's', 'z'], ['alveolar', 'lateral-fricative', 'ɬ', 'ɮ'], ['alveolar', 'approximant', '', 'ɹ'], ['alveolar', 'lateral-approximant', '', 'l'],
+  ['postalveolar', 'fricative', 'ʃ', 'ʒ'],
+  ['retroflex', 'plosive', 'ʈ', 'ɖ'], ['retroflex', 'nasal', '', 'ɳ'], ['retroflex', 'tap', '', 'ɽ'], ['retroflex', 'fricative', 'ʂ', 'ʐ'],
+  ['retroflex', 'approximant', '', 'ɻ'], ['retroflex', 'lateral-approximant', '', 'ɭ'],
+  ['alveolopalatal', 'fricative', 'ɕ', 'ʑ'],
+  ['palatal', 'plosive', 'c', 'ɟ'], ['palatal', 'nasal', '', 'ɲ'], ['palatal', 'fricative', 'ç', 'ʝ'], ['palatal', 'approximant', '', 'j'], ['palatal', 'lateral-approximant', '', 'ʎ'],
+  ['labial-palatal', 'approximant', '', 'ɥ'],
+  ['velar', 'plosive', 'k', 'gɡ'], ['velar', 'nasal', '', 'ŋ'], ['velar', 'fricative', 'x', 'ɣ'], ['velar', 'approximant', '', 'ɰ'], ['velar', 'lateral-approximant', '', 'ʟ'],
+  ['labial-velar', 'approximant', 'ʍ', 'w'],
+  ['uvular', 'plosive', 'q', 'ɢ'], ['uvular', 'nasal', '', 'ɴ'], ['uvular', 'trill', '', 'ʀ'], ['uvular', 'fricative', 'χ', 'ʁ'],
+  ['pharyngeal', 'fricative', 'ħ', 'ʕ'],
+  ['glottal', 'plosive', 'ʔ', ''], ['glottal', 'fricative', 'h', 'ɦ'],
+  ['bilabial', 'implosive', '', 'ɓ'], ['alveolar', 'implosive', '', 'ɗ'], ['palatal', 'implosive', '', 'ʄ'], ['velar', 'implosive', '', 'ɠ'], ['uvular', 'implosive', '', 'ʛ'],
+  ['bilabial', 'click', 'ʘ', ''], ['dental', 'click', 'ǀ', ''], ['alveolar', 'click', 'ǃ', ''], ['palatal', 'click', 'ǂ', ''], ['alveolar', 'lateral-click', 'ǁ', '']
+];
+
+const CONSONANTS = new Map<string, ConsonantDescriptor>();
+CONSONANT_TABLE.forEach(([place, manner, voiceless, voiced]) => {
+  Array.from(voiceless).forEach(c => CONSONANTS.set(c, { place, manner, voiced: false }));
+  Array.from(voiced).forEach(c => CONSONANTS.set(c, { place, manner, voiced: true }));
+});
+
+// [height, backness, unrounded, rounded]
+const VOWEL_TABLE: Array<[string, string, string, string]> = [
+  ['close', 'front', 'i', 'y'], ['close', 'central', 'ɨ', 'ʉ'], ['close', 'back', 'ɯ', 'u'],
+  ['near-close', 'front', 'ɪ', 'ʏ'], ['near-close', 'back', '', 'ʊ'],
+  ['close-mid', 'front', 'e', 'ø'], ['close-mid', 'central', 'ɘ', 'ɵ'], ['close-mid', 'back', 'ɤ', 'o'],
+  ['mid', 'central', 'ə', ''],
+  ['open-mid', 'front', 'ɛ', 'œ'], ['open-mid', 'central', 'ɜ', 'ɞ'], ['open-mid', 'back', 'ʌ', 'ɔ'],
+  ['near-open', 'front', 'æ', ''], ['near-open', 'central', 'ɐ', ''],
+  ['open', 'front', 'a', 'ɶ'], ['open', 'back', 'ɑ', 'ɒ']
+];
+
+const VOWELS = new Map<string, VowelDescriptor>();
+VOWEL_TABLE.forEach(([height, backness, unrounded, rounded]) => {
+  if (unrounded) VOWELS.set(unrounded, { height, backness, rounded: false });
+  if (rounded) VOWELS.set(rounded, { height, backness, rounded: true });
+});
+
+const LAX_VOWELS = 'ɪʏʊɛœɜɞʌɔæɐə';
+const CORONAL_PLACES: Place[] = ['dental', 'alveolar', 'postalveolar', 'retroflex', 'alveolopalatal', 'palatal'];
+const DORSAL_PLACES: Place[] = ['alveolopalatal', 'palatal', 'labial-palatal', 'velar', 'labial-velar', 'uvular'];
+const STRIDENT_PLACES: Place[] = ['labiodental', 'alveolar', 'postalveolar', 'retroflex', 'alveolopalatal', 'uvular'];
+const TIE_BARS = /[͜͡]/g;
+
+const plus = (condition: boolean): FeatureValue => condition ? '+' : '-';
+
+const STOP_MANNERS = ['plosive', 'nasal', 'affricate', 'implosive', 'click', 'lateral-click'];
+
+const consonantFeatures = ({ place, manner, voiced }: ConsonantDescriptor): FeatureSpec => {
+  const sonorant = ['nasal', 'trill', 'tap', 'approximant', 'lateral-approximant'].includes(manner);
+  const approximant = ['trill', 'tap', 'approximant', 'lateral-approximant'].includes(manner);
+  const click = manner.endsWith('click'); // Clicks have a velar or uvular rear closure
+  const coronal = CORONAL_PLACES.includes(place);
+  const dorsal = click || DORSAL_PLACES.includes(place);
+  return {
+    syllabic: '-',
+    long: '-',
+    consonantal: plus(manner !== 'approximant' && place !== 'glottal'),
+    sonorant: plus(sonorant),
+    continuant: plus(!STOP_MANNERS.includes(manner)),
+    delrel: plus(manner === 'affricate'),
+    approximant: plus(approximant),
+    nasal: plus(manner === 'nasal'),
+    voice: plus(voiced),
+    spread: plus(place === 'glottal' && manner === 'fricative'),
+    constricted: plus((place === 'glottal' && manner === 'plosive') || manner === 'implosive'),
+    lateral: plus(manner.startsWith('lateral')),
+    strident: plus(['fricative', 'affricate'].includes(manner) && STRIDENT_PLACES.includes(place)),
+    tap: plus(manner === 'tap'),
+    trill: plus(manner === 'trill'),
+    labial: plus(['bilabial', 'labiodental', 'labial-palatal', 'labial-velar'].includes(place)),
+    round: plus(place === 'labial-palatal' || place === 'labial-velar'),
+    labiodental: plus(place === 'labiodental'),
+    coronal: plus(coronal),
+    anterior: coronal ? plus(place === 'dental' || place === 'alveolar') : '0',
+    distributed: coronal ? plus(place !== 'alveolar' && place !== 'retroflex') : '0',
+    dorsal: plus(dorsal),
+    high: dorsal ? plus(click || place !== 'uvular') : '0',
+    low: dorsal ? '-' : place === 'pharyngeal' ? '+' : '0',
+    front: dorsal ? plus(!click && (place === 'alveolopalatal' || place === 'palatal' || place === 'labial-palatal')) : '0',
+    back: dorsal ? plus(click || place === 'velar' || place === 'labial-velar' || place === 'uvular') : '0',
+    tense: '0'
+  };
+};
+
+const vowelFeatures = (symbol: string, { height, backness, rounded }: VowelDescriptor): FeatureSpec => ({
+  syllabic: '+',
+  long: '-',
+  consonantal: '-',
+  sonorant: '+',
+  continuant: '+',
+  delrel: '-',
+  approximant: '+',
+  nasal: '-',
+  voice: '+',
+  spread: '-',
+  constricted: '-',
+  lateral: '-',
+  strident: '-',
+  tap: '-',
+  trill: '-',
+  labial: plus(rounded),
+  round: plus(rounded),
+  labiodental: '-',
+  coronal: '-',
+  anterior: '0',
+  distributed: '0',
+  dorsal: '+',
+  high: plus(height === 'close' || height === 'near-close'),
+  low: plus(height === 'open' || height === 'near-open'),
+  front: plus(backness === 'front'),
+  back: plus(backness === 'back'),
+  tense: plus(!LAX_VOWELS.includes(symbol))
+});
+
+const unspecified = (): FeatureSpec => Object.fromEntries(FEATURES.map(f => [f, '0' as FeatureValue]));
+
+// Diacritics and modifier letters change the base letter's matrix
+const DIACRITICS: Record<string, FeatureSpec> = {
+  'ː': { long: '+' },
+  'ʰ': { spread: '+' },
+  'ʱ': { spread: '+', voice: '+' },
+  'ʼ': { constricted: '+' },
+  'ʷ': { labial: '+', round: '+' },
+  'ʲ': { dorsal: '+', high: '+', front: '+', back: '-' },
+  'ˠ': { dorsal: '+', high: '+', back: '+', front: '-' },
+  'ˤ': { dorsal: '+', low: '+', back: '+' },
+  'ⁿ': { nasal: '+' },
+  '̃': { nasal: '+' }, // Tilde
+  '̥': { voice: '-' }, // Ring below
+  '̊': { voice: '-' },
+  '̬': { voice: '+' },
+  '̩': { syllabic: '+' },
+  '̍': { syllabic: '+' },
+  '̯': { syllabic: '-' },
+  '̈': { front: '-', back: '-' }, // Centralized
+  '̪': { anterior: '+', distributed: '+' } // Dental
+};
+
+/** The base IPA letters of a symbol, without diacritics or tie bars: `t͡ʃʰ` → `t`, `ʃ`. */
+export const ipaLetters = (symbol: string): string[] =>
+  Array.from(symbol.normalize('NFD').replace(TIE_BARS, '')).filter(c => CONSONANTS.has(c) || VOWELS.has(c));
+
+export const isIpaVowel = (letter: string): boolean => VOWELS.has(letter);
+
+/** A stop followed by a fricative, written as one phoneme: `ts`, `t͡ʃ`, `pf`. */
+const affricateOf = (first: string, second?: string): ConsonantDescriptor | null => {
+  const stop = CONSONANTS.get(first);
+  const fricative = second ? CONSONANTS.get(second) : undefined;
+  if (stop?.manner !== 'plosive' || !fricative?.manner.endsWith('fricative')) return null;
+  return { place: fricative.place, manner: 'affricate', voiced: stop.voiced };
+};
+
+/**
+ * Feature matrix of an IPA symbol from the built-in table. Affricates are written as a
+ * stop plus fricative (`ts`, `t͡ʃ`), co-articulations as two letters of one manner (`k͡p`,
+ * `ŋm`) and diphthongs as two vowels; unknown letters leave every feature unspecified.
+ */
+export const ipaFeatures = (symbol: string): FeatureSpec => {
+  const modifiers = Array.from(symbol.normalize('NFD')).filter(c => DIACRITICS[c]);
+  const [first, second] = ipaLetters(symbol);
+  const affricate = first ? affricateOf(first, second) : null;
+
+  let features: FeatureSpec;
+  if (!first) features = unspecified();
+  else if (VOWELS.has(first)) {
+    features = vowelFeatures(first, VOWELS.get(first)!);
+    if (second && VOWELS.has(second)) features.long = '+';
+  } else if (affricate) {
+    features = consonantFeatures(affricate);
+    if (CONSONANTS.get(second!)!.manner === 'lateral-fricative') features.lateral = '+';
+  } else {
+    features = consonantFeatures(CONSONANTS.get(first)!);
+    const other = second ? CONSONANTS.get(second) : undefined;
+    if (other && other.manner === CONSONANTS.get(first)!.manner) {
+      // Double articulation: both places count
+      const secondary = consonantFeatures(other);
+      (['labial', 'round', 'coronal', 'dorsal'] as const).forEach(f => { if (secondary[f] === '+') features[f] = '+'; });
+    }
+  }
+
+  modifiers.forEach(m => Object.assign(features, DIACRITICS[m]));
+  return features;
+};
+
+/** Chart fields for a new phoneme (manner/place/voicing or height/backness/rounding), from its IPA letters. */
+export const ipaDescriptor = (symbol: string): Partial<Phoneme> => {
+  const [first, second] = ipaLetters(symbol);
+  const vowel = first ? VOWELS.get(first) : undefined;
+  if (vowel) return { type: 'vowel', height: vowel.height, backness: vowel.backness, rounded: vowel.rounded };
+  const consonant = first ? affricateOf(first, second) || CONSONANTS.get(first) : undefined;
+  if (!consonant) return {};
+  return { type: 'consonant', manner: consonant.manner, place: consonant.place, voiced: consonant.voiced };
+};
+
+/** The phoneme's matrix: the IPA table with the phoneme's own overrides on top. */
+export const phonemeFeatures = (phoneme: Phoneme): FeatureSpec => ({ ...ipaFeatures(phoneme.symbol), ...phoneme.features });
+
+export const inventory = (phonology?: PhonologyConfig): Phoneme[] => [...(phonology?.consonants || []), ...(phonology?.vowels || [])];
+
+/** Feature names the inventory uses: the standard set plus any custom feature in an override. */
+export const knownFeatures = (phonology?: PhonologyConfig): string[] => {
+  const custom = inventory(phonology).flatMap(p => Object.keys(p.features || {})).filter(f => !FEATURES.includes(f));
+  return [...FEATURES, ...Array.from(new Set(custom))];
+};
+
+const SPEC_ITEM = /([+\-−0])\s*([A-Za-z]+)/g;
+
+/** True when a bracket body is a feature list (`+voice -son`) rather than a set of segments. */
+export const isFeatureSpec = (body: string): boolean => /^\s*[+\-−]\s*[A-Za-z]/.test(body);
+
+/** Parses `+voice -sonorant` (brackets optional). Throws on unknown features. */
+export const parseFeatureSpec = (text: string, phonology?: PhonologyConfig): FeatureSpec => {
+  const body = text.trim().replace(/^\[|\]$/g, '');
+  const known = knownFeatures(phonology);
+  const leftover = body.replace(SPEC_ITEM, '').replace(/[\s,]/g, '');
+  if (leftover) throw new Error(`"${leftover}" is not a feature value in [${body}]; write +feature or -feature`);
+
+  const spec: FeatureSpec = {};
+  for (const [, sign, rawName] of Array.from(body.matchAll(SPEC_ITEM))) {
+    const name = ALIASES[rawName.toLowerCase()] || (known.includes(rawName) ? rawName : rawName.toLowerCase());
+    if (!known.includes(name)) throw new Error(`Unknown feature "${rawName}"`);
+    spec[name] = sign === '0' ? '0' : sign === '+' ? '+' : '-';
+  }
+  return spec;
+};
+
+/** Like `parseFeatureSpec` for a whole `[...]` token, but returns null instead of throwing. */
+export const parseNaturalClass = (text: string, phonology?: PhonologyConfig): FeatureSpec | null => {
+  const match = text.trim().match(/^\[(.*)\]$/);
+  if (!match || !isFeatureSpec(match[1])) return null;
+  try {
+    return parseFeatureSpec(match[1], phonology);
+  } catch {
+    return null;
+  }
+};
+
+export const formatFeatureSpec = (spec: FeatureSpec): string =>
+  `[${Object.entries(spec).map(([name, value]) => `${value}${name}`).join(' ')}]`;
+
+export const matchesFeatures = (phoneme: Phoneme, spec: FeatureSpec): boolean => {
+  const features = phonemeFeatures(phoneme);
+  return Object.entries(spec).every(([name, value]) => (features[name] ?? '0') === value);
+};
+
+/** Inventory members of a natural class, consonants first. */
+export const naturalClassMembers = (spec: FeatureSpec, phonology?: PhonologyConfig): Phoneme[] =>
+  inventory(phonology).filter(p => matchesFeatures(p, spec));
+
+/**
+ * The inventory phoneme closest to `phoneme` with the spec's values applied, as in
+ * `[-voice] > [+voice]`: it must match the spec and differ from the source in as few
+ * other features as possible. Undefined when nothing in the inventory fits.
+ */
+export const changeFeatures = (phoneme: Phoneme, spec: FeatureSpec, phonology?: PhonologyConfig): Phoneme | undefined => {
+  const source = phonemeFeatures(phoneme);
+  const names = knownFeatures(phonology).filter(f => !(f in spec));
+  let best: Phoneme | undefined;
+  let bestDistance = Infinity;
+  naturalClassMembers(spec, phonology).forEach(candidate => {
+    const features = phonemeFeatures(candidate);
+    const distance = names.filter(f => (features[f] ?? '0') !== (source[f] ?? '0')).length;
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
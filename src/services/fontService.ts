@@ -0,0 +1,435 @@
+import { ScriptConfig, ScriptGlyph } from "../types";
+import { Contour, glyphToContours, signedArea } from "./glyphOutlineService";
+import { getScriptMetrics, glyphLayout, kerningPairsFor } from "./scriptMetricsService";
+import { decodePua } from "./scriptShapingService";
+
+/**
+ * Compiles a ScriptConfig into a TrueType font (TTF, or WOFF 1.0 for the web).
+ * Each glyph is mapped to its Latin `char` and its `pua` codepoint so text copied
+ * from the app renders with the script wherever the font is installed.
+ * WOFF2 needs a Brotli encoder, which browsers do not expose; WOFF uses zlib.
+ */
+
+export interface FontTable {
+  tag: string;
+  data: Uint8Array;
+}
+
+export interface FontBuildResult {
+  tables: FontTable[];
+  glyphCount: number;
+  warnings: string[];
+}
+
+export type FontFormat = 'ttf' | 'woff';
+
+interface CompiledGlyph {
+  codepoints: number[];
+  advance: number;
+  contours: Contour[]; // Font units, y up, solids clockwise and holes counter-clockwise
+}
+
+interface VerticalMetrics {
+  ascender: number;
+  descender: number;
+  xHeight: number;
+  capHeight: number;
+}
+
+// The renderer draws the 400-unit canvas at 0.75em; the script's baseline becomes y = 0
+const CANVAS_SIZE = 400;
+export const UNITS_PER_EM = 1000;
+const SCALE = (UNITS_PER_EM * 0.75) / CANVAS_SIZE;
+const LETTER_GAP = 50; // The 0.05em gap between rendered glyphs
+const SPACE_ADVANCE = 250;
+const ASCENDER = 800; // Line height floor, so short scripts keep a 1em line
+const DESCENDER = -200;
+const MAX_KERNING_PAIRS = 10000; // A format 0 subtable's length must fit 16 bits
+
+// --- Binary helpers ---
+
+const u8 = (b: number[], v: number) => { b.push(v & 0xff); };
+const u16 = (b: number[], v: number) => { b.push((v >> 8) & 0xff, v & 0xff); };
+const i16 = (b: number[], v: number) => u16(b, v < 0 ? v + 0x10000 : v);
+const u32 = (b: number[], v: number) => { b.push((v >>> 24) & 0xff, (v >>> 16) & 0xff, (v >>> 8) & 0xff, v & 0xff); };
+const tag = (b: number[], s: string) => { for (let i = 0; i < 4; i++) b.push(s.charCodeAt(i) || 0x20); };
+const pad4 = (b: number[]) => { while (b.length % 4) b.push(0); };
+// Spreading large arrays into push() overflows the call stack
+const append = (b: number[], data: ArrayLike<number>) => { for (let i = 0; i < data.length; i++) b.push(data[i]); };
+const toBytes = (b: number[]) => Uint8Array.from(b);
+
+const checksum = (data: Uint8Array): number => {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    sum = (sum + ((data[i] << 24) | ((data[i + 1] || 0) << 16) | ((data[i + 2] || 0) << 8) | (data[i + 3] || 0))) >>> 0;
+  }
+  return sum;
+};
+
+// head's own checksum is taken with checkSumAdjustment zeroed
+const tableChecksum = (table: FontTable): number => {
+  if (table.tag !== 'head') return checksum(table.data);
+  const data = table.data.slice();
+  data.set([0, 0, 0, 0], 8);
+  return checksum(data);
+};
+
+const binarySearchFields = (count: number, unit: number) => {
+  const power = 2 ** Math.floor(Math.log2(Math.max(1, count)));
+  return { searchRange: power * unit, entrySelector: Math.log2(power), rangeShift: count * unit - power * unit };
+};
+
+// --- Glyphs ---
+
+const glyphCodepoints = (glyph: ScriptGlyph): number[] => {
+  const codepoints: number[] = [];
+  if (Array.from(glyph.char).length === 1) codepoints.push(glyph.char.codePointAt(0)!);
+  const pua = decodePua(glyph.pua);
+  if (pua !== null && !codepoints.includes(pua)) codepoints.push(pua);
+  return codepoints;
+};
+
+/** Canvas → font units (y up). Flipping y turns the canvas's clockwise solids into TrueType's. */
+const toFontContours = (contours: Contour[], offsetX: number, baseline: number): Contour[] =>
+  contours.map(contour => {
+    const points = contour.map(p => ({ x: Math.round((p.x + offsetX) * SCALE), y: Math.round((baseline - p.y) * SCALE), onCurve: p.onCurve }));
+    const firstOn = points.findIndex(p => p.onCurve);
+    return firstOn > 0 ? [...points.slice(firstOn), ...points.slice(0, firstOn)] : points;
+  }).filter(contour => contour.length >= 3 && signedArea(contour) !== 0);
+
+export const glyphAdvance = (glyph: ScriptGlyph, config: ScriptConfig): number =>
+  Math.round(glyphLayout(glyph, config).advance * SCALE) + LETTER_GAP;
+
+const verticalMetrics = (config: ScriptConfig): VerticalMetrics => {
+  const metrics = getScriptMetrics(config);
+  const toFont = (y: number) => Math.round((metrics.baseline - y) * SCALE);
+  return {
+    ascender: Math.max(ASCENDER, toFont(metrics.ascender)),
+    descender: Math.min(DESCENDER, toFont(metrics.descender)),
+    xHeight: toFont(metrics.xHeight),
+    capHeight: toFont(metrics.ascender)
+  };
+};
+
+const NOTDEF: Contour[] = [
+  [{ x: 50, y: 0, onCurve: true }, { x: 50, y: 700, onCurve: true }, { x: 450, y: 700, onCurve: true }, { x: 450, y: 0, onCurve: true }],
+  [{ x: 100, y: 50, onCurve: true }, { x: 400, y: 50, onCurve: true }, { x: 400, y: 650, onCurve: true }, { x: 100, y: 650, onCurve: true }]
+];
+
+const bounds = (contours: Contour[]) => {
+  const points = contours.flat();
+  if (points.length === 0) return { xMin: 0, yMin: 0, xMax: 0, yMax: 0 };
+  return points.reduce((box, p) => ({
+    xMin: Math.min(box.xMin, p.x), yMin: Math.min(box.yMin, p.y),
+    xMax: Math.max(box.xMax, p.x), yMax: Math.max(box.yMax, p.y)
+  }), { xMin: Infinity, yMin: Infinity, xMax: -Infinity, yMax: -Infinity });
+};
+
+const encodeGlyph = (contours: Contour[]): number[] => {
+  const b: number[] = [];
+  if (contours.length === 0) return b;
+  const box = bounds(contours);
+  i16(b, contours.length);
+  i16(b, box.xMin); i16(b, box.yMin); i16(b, box.xMax); i16(b, box.yMax);
+  let end = -1;
+  contours.forEach(c => { end += c.length; u16(b, end); });
+  u16(b, 0); // No instructions
+  const points = contours.flat();
+  points.forEach(p => u8(b, p.onCurve ? 1 : 0));
+  let last = 0;
+  points.forEach(p => { i16(b, p.x - last); last = p.x; });
+  last = 0;
+  points.forEach(p => { i16(b, p.y - last); last = p.y; });
+  return b;
+};
+
+// --- Tables ---
+
+const buildCmap = (mapping: Map<number, number>): number[] => {
+  const entries = Array.from(mapping).sort((a, b) => a[0] - b[0]);
+  const bmp = entries.filter(([cp]) => cp <= 0xfffe);
+
+  // Format 4: one segment per run of codepoints whose glyph ids advance together
+  const segments: Array<{ start: number; end: number; delta: number }> = [];
+  bmp.forEach(([cp, gid]) => {
+    const last = segments[segments.length - 1];
+    if (last && cp === last.end + 1 && gid - cp === last.delta) last.end = cp;
+    else segments.push({ start: cp, end: cp, delta: gid - cp });
+  });
+  segments.push({ start: 0xffff, end: 0xffff, delta: 1 });
+  const f4: number[] = [];
+  const segCount = segments.length;
+  const search = binarySearchFields(segCount, 2);
+  u16(f4, 4); u16(f4, 16 + segCount * 8); u16(f4, 0);
+  u16(f4, segCount * 2); u16(f4, search.searchRange); u16(f4, search.entrySelector); u16(f4, search.rangeShift);
+  segments.forEach(s => u16(f4, s.end));
+  u16(f4, 0);
+  segments.forEach(s => u16(f4, s.start));
+  segments.forEach(s => u16(f4, (s.delta + 0x10000) % 0x10000));
+  segments.forEach(() => u16(f4, 0));
+
+  // Format 12 covers everything, including codepoints beyond the BMP
+  const groups: Array<{ start: number; end: number; gid: number }> = [];
+  entries.forEach(([cp, gid]) => {
+    const last = groups[groups.length - 1];
+    if (last && cp === last.end + 1 && gid === last.gid + (cp - last.start)) last.end = cp;
+    else groups.push({ start: cp, end: cp, gid });
+  });
+  const f12: number[] = [];
+  u16(f12, 12); u16(f12, 0); u32(f12, 16 + groups.length * 12); u32(f12, 0); u32(f12, groups.length);
+  groups.forEach(g => { u32(f12, g.start); u32(f12, g.end); u32(f12, g.gid); });
+
+  const b: number[] = [];
+  u16(b, 0); u16(b, 2);
+  u16(b, 3); u16(b, 1); u32(b, 4 + 16);
+  u16(b, 3); u16(b, 10); u32(b, 4 + 16 + f4.length);
+  append(b, f4);
+  append(b, f12);
+  return b;
+};
+
+const buildName = (family: string): number[] => {
+  const postscript = family.replace(/[^A-Za-z0-9-]/g, '').slice(0, 63) || 'ConScript';
+  const names: Array<[number, string]> = [
+    [1, family], [2, 'Regular'], [3, `${postscript}:1.000:${new Date().toISOString().slice(0, 10)}`],
+    [4, family], [5, 'Version 1.000'], [6, `${postscript}-Regular`]
+  ];
+  const strings: number[] = [];
+  const b: number[] = [];
+  u16(b, 0); u16(b, names.length); u16(b, 6 + names.length * 12);
+  names.forEach(([id, text]) => {
+    const offset = strings.length;
+    for (const ch of text) {
+      const cp = ch.codePointAt(0)!;
+      if (cp > 0xffff) {
+        const v = cp - 0x10000;
+        u16(strings, 0xd800 + (v >> 10)); u16(strings, 0xdc00 + (v & 0x3ff));
+      } else u16(strings, cp);
+    }
+    u16(b, 3); u16(b, 1); u16(b, 0x409); u16(b, id); u16(b, strings.length - offset); u16(b, offset);
+  });
+  append(b, strings);
+  return b;
+};
+
+const buildOs2 = (glyphs: CompiledGlyph[], codepoints: number[], box: ReturnType<typeof bounds>, metrics: VerticalMetrics): number[] => {
+  const b: number[] = [];
+  const widths = glyphs.map(g => g.advance).filter(a => a > 0);
+  const bmp = codepoints.filter(cp => cp <= 0xffff);
+  const range = [0, 0, 0, 0];
+  if (codepoints.some(cp => cp < 0x80)) range[0] |= 1;
+  if (codepoints.some(cp => cp >= 0x80 && cp <= 0xff)) range[0] |= 2;
+  if (codepoints.some(cp => cp >= 0xe000 && cp <= 0xf8ff)) range[1] |= 1 << 28; // Bit 60: Private Use Area
+
+  u16(b, 4);
+  i16(b, Math.round(widths.reduce((a, w) => a + w, 0) / Math.max(1, widths.length)));
+  u16(b, 400); u16(b, 5); u16(b, 0); // Regular, medium width, installable
+  i16(b, 650); i16(b, 600); i16(b, 0); i16(b, 75); // Subscript
+  i16(b, 650); i16(b, 600); i16(b, 0); i16(b, 350); // Superscript
+  i16(b, 50); i16(b, 250); i16(b, 0);
+  for (let i = 0; i < 10; i++) u8(b, 0); // PANOSE
+  range.forEach(r => u32(b, r >>> 0));
+  tag(b, 'NONE');
+  u16(b, 0x40 | 0x80); // REGULAR, USE_TYPO_METRICS
+  u16(b, bmp.length ? Math.min(...bmp) : 0x20); u16(b, bmp.length ? Math.max(...bmp) : 0x20);
+  i16(b, metrics.ascender); i16(b, metrics.descender); i16(b, 0);
+  u16(b, Math.max(metrics.ascender, box.yMax)); u16(b, Math.max(-metrics.descender, -box.yMin));
+  u32(b, 1); u32(b, 0);
+  i16(b, metrics.xHeight); i16(b, metrics.capHeight);
+  u16(b, 0); u16(b, 0x20); u16(b, 0);
+  return b;
+};
+
+/** Legacy `kern` table (format 0), which shapers apply to fonts without GPOS. Pairs are [left, right, value]. */
+const buildKern = (pairs: Array<[number, number, number]>): number[] => {
+  const b: number[] = [];
+  const search = binarySearchFields(pairs.length, 6);
+  u16(b, 0); u16(b, 1);
+  u16(b, 0); u16(b, 14 + pairs.length * 6); u16(b, 0x0001); // Horizontal kerning
+  u16(b, pairs.length); u16(b, search.searchRange); u16(b, search.entrySelector); u16(b, search.rangeShift);
+  pairs.forEach(([left, right, value]) => { u16(b, left); u16(b, right); i16(b, value); });
+  return b;
+};
+
+/**
+ * Builds the sfnt tables for every glyph with visible strokes.
+ * Glyph 0 is .notdef, glyph 1 the space.
+ */
+export const buildFontTables = (config: ScriptConfig, familyName: string): FontBuildResult => {
+  const warnings: string[] = [];
+  const glyphs: CompiledGlyph[] = [
+    { codepoints: [], advance: 500 + LETTER_GAP, contours: NOTDEF },
+    { codepoints: [0x20], advance: SPACE_ADVANCE + LETTER_GAP, contours: [] }
+  ];
+  const mapping = new Map<number, number>([[0x20, 1]]);
+  const glyphIndex = new Map<string, number>();
+  const metrics = verticalMetrics(config);
+  const { baseline } = getScriptMetrics(config);
+
+  config.glyphs.forEach(glyph => {
+    const contours = toFontContours(glyphToContours(glyph), glyphLayout(glyph, config).offsetX, baseline);
+    if (contours.length === 0) {
+      warnings.push(`"${glyph.char}" has no drawn strokes`);
+      return;
+    }
+    const codepoints = glyphCodepoints(glyph).filter(cp => {
+      if (!mapping.has(cp)) return true;
+      warnings.push(`"${glyph.char}": U+${cp.toString(16).toUpperCase().padStart(4, '0')} is already mapped`);
+      return false;
+    });
+    if (codepoints.length === 0) return;
+    codepoints.forEach(cp => mapping.set(cp, glyphs.length));
+    glyphIndex.set(glyph.char, glyphs.length);
+    if (glyph.mark) {
+      // Without positioning tables a mark overlaps the previous glyph by drawing left of the pen
+      const shift = glyphAdvance(glyph, config);
+      glyphs.push({ codepoints, advance: 0, contours: contours.map(c => c.map(p => ({ ...p, x: p.x - shift }))) });
+    } else {
+      glyphs.push({ codepoints, advance: glyphAdvance(glyph, config), contours });
+    }
+  });
+
+  const box = bounds(glyphs.flatMap(g => g.contours));
+  const codepoints = Array.from(mapping.keys());
+
+  // glyf + loca (long offsets)
+  const glyf: number[] = [];
+  const loca: number[] = [];
+  glyphs.forEach(g => {
+    u32(loca, glyf.length);
+    append(glyf, encodeGlyph(g.contours));
+    pad4(glyf);
+  });
+  u32(loca, glyf.length);
+
+  const now = Math.floor(Date.now() / 1000) + 2082844800; // Seconds since 1904
+  const head: number[] = [];
+  u32(head, 0x00010000); u32(head, 0x00010000); u32(head, 0); u32(head, 0x5f0f3cf5);
+  u16(head, 0x0009); u16(head, UNITS_PER_EM);
+  u32(head, 0); u32(head, now); u32(head, 0); u32(head, now);
+  i16(head, box.xMin); i16(head, box.yMin); i16(head, box.xMax); i16(head, box.yMax);
+  u16(head, 0); u16(head, 8); i16(head, 2); i16(head, 1); i16(head, 0);
+
+  const glyphBounds = glyphs.map(g => bounds(g.contours));
+  const hhea: number[] = [];
+  u32(hhea, 0x00010000);
+  i16(hhea, metrics.ascender); i16(hhea, metrics.descender); i16(hhea, 0);
+  u16(hhea, Math.max(...glyphs.map(g => g.advance)));
+  i16(hhea, Math.min(...glyphBounds.map(b => b.xMin)));
+  i16(hhea, Math.min(...glyphs.map((g, i) => g.advance - glyphBounds[i].xMax)));
+  i16(hhea, Math.max(...glyphBounds.map(b => b.xMax)));
+  i16(hhea, 1); i16(hhea, 0); i16(hhea, 0);
+  for (let i = 0; i < 5; i++) i16(hhea, 0);
+  u16(hhea, glyphs.length);
+
+  const hmtx: number[] = [];
+  glyphs.forEach((g, i) => { u16(hmtx, g.advance); i16(hmtx, glyphBounds[i].xMin); });
+
+  const maxp: number[] = [];
+  u32(maxp, 0x00010000); u16(maxp, glyphs.length);
+  u16(maxp, Math.max(...glyphs.map(g => g.contours.flat().length)));
+  u16(maxp, Math.max(...glyphs.map(g => g.contours.length)));
+  u16(maxp, 0); u16(maxp, 0); u16(maxp, 2);
+  for (let i = 0; i < 8; i++) u16(maxp, 0);
+
+  const post: number[] = [];
+  u32(post, 0x00030000); u32(post, 0); i16(post, -100); i16(post, 50);
+  u32(post, config.spacingMode === 'proportional' ? 0 : 1);
+  for (let i = 0; i < 4; i++) u32(post, 0);
+
+  const tables: FontTable[] = [
+    { tag: 'OS/2', data: toBytes(buildOs2(glyphs, codepoints, box, metrics)) },
+    { tag: 'cmap', data: toBytes(buildCmap(mapping)) },
+    { tag: 'glyf', data: toBytes(glyf) },
+    { tag: 'head', data: toBytes(head) },
+    { tag: 'hhea', data: toBytes(hhea) },
+    { tag: 'hmtx', data: toBytes(hmtx) },
+    { tag: 'loca', data: toBytes(loca) },
+    { tag: 'maxp', data: toBytes(maxp) },
+    { tag: 'name', data: toBytes(buildName(familyName)) },
+    { tag: 'post', data: toBytes(post) }
+  ];
+
+  const kerning = new Map<number, [number, number, number]>();
+  kerningPairsFor(config).forEach(pair => {
+    const left = glyphIndex.get(pair.left), right = glyphIndex.get(pair.right);
+    if (left === undefined || right === undefined) warnings.push(`Kerning ${pair.left}/${pair.right} refers to a glyph that is not in the font`);
+    else kerning.set(left * 0x10000 + right, [left, right, Math.round(pair.value * SCALE)]);
+  });
+  if (kerning.size > 0) {
+    const pairs = Array.from(kerning.keys()).sort((a, b) => a - b).slice(0, MAX_KERNING_PAIRS).map(key => kerning.get(key)!);
+    tables.push({ tag: 'kern', data: toBytes(buildKern(pairs)) });
+  }
+  return { tables, glyphCount: glyphs.length, warnings };
+};
+
+// --- Containers ---
+
+const sortTables = (tables: FontTable[]) => [...tables].sort((a, b) => (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0));
+
+const assembleSfnt = (tables: FontTable[]): Uint8Array => {
+  const b: number[] = [];
+  const search = binarySearchFields(tables.length, 16);
+  u32(b, 0x00010000); u16(b, tables.length); u16(b, search.searchRange); u16(b, search.entrySelector); u16(b, search.rangeShift);
+  let offset = 12 + tables.length * 16;
+  tables.forEach(t => {
+    tag(b, t.tag); u32(b, tableChecksum(t)); u32(b, offset); u32(b, t.data.length);
+    offset += Math.ceil(t.data.length / 4) * 4;
+  });
+  tables.forEach(t => { append(b, t.data); pad4(b); });
+  return toBytes(b);
+};
+
+/** Fills head.checkSumAdjustment, which covers the whole assembled font. */
+const withChecksumAdjustment = (tables: FontTable[]): FontTable[] => {
+  const sorted = sortTables(tables).map(t => t.tag === 'head' ? { ...t, data: t.data.slice() } : t);
+  const head = sorted.find(t => t.tag === 'head');
+  if (head) {
+    head.data.set([0, 0, 0, 0], 8);
+    const adjustment = (0xb1b0afba - checksum(assembleSfnt(sorted))) >>> 0;
+    head.data.set([(adjustment >>> 24) & 0xff, (adjustment >>> 16) & 0xff, (adjustment >>> 8) & 0xff, adjustment & 0xff], 8);
+  }
+  return sorted;
+};
+
+export const encodeTtf = (tables: FontTable[]): Uint8Array => assembleSfnt(withChecksumAdjustment(tables));
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** WOFF 1.0: the same tables, each zlib-compressed when that makes it smaller. */
+export const encodeWoff = async (tables: FontTable[]): Promise<Uint8Array> => {
+  const sorted = withChecksumAdjustment(tables);
+  const compressed = await Promise.all(sorted.map(async t => {
+    const packed = await deflate(t.data);
+    return packed.length < t.data.length ? packed : t.data;
+  }));
+  const headerSize = 44 + sorted.length * 20;
+  const totalSfntSize = 12 + sorted.length * 16 + sorted.reduce((sum, t) => sum + Math.ceil(t.data.length / 4) * 4, 0);
+
+  const directory: number[] = [];
+  const body: number[] = [];
+  sorted.forEach((t, i) => {
+    tag(directory, t.tag); u32(directory, headerSize + body.length); u32(directory, compressed[i].length);
+    u32(directory, t.data.length); u32(directory, tableChecksum(t));
+    append(body, compressed[i]);
+    pad4(body);
+  });
+
+  const header: number[] = [];
+  tag(header, 'wOFF'); u32(header, 0x00010000); u32(header, headerSize + body.length);
+  u16(header, sorted.length); u16(header, 0); u32(header, totalSfntSize);
+  u16(header, 1); u16(header, 0);
+  for (let i = 0; i < 5; i++) u32(header, 0); // No metadata or private block
+  append(header, directory);
+  append(header, body);
+  return toBytes(header);
+};
+
+export const exportFont = async (config: ScriptConfig, format: FontFormat, familyName: string): Promise<{ blob: Blob; warnings: string[] }> => {
+  const { tables, warnings } = buildFontTables(config, familyName);
+  const data = format === 'woff' ? await encodeWoff(tables) : encodeTtf(tables);
+  return { blob: new Blob([new Uint8Array(data)], { type: format === 'woff' ? 'font/woff' : 'font/ttf' }), warnings };
+};
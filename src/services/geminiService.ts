@@ -1,5 +1,5 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
-import { LexiconEntry, ProjectConstraints, MorphologyState, PhonologyConfig, SoundChangeRule } from "../types";
+import { LexiconEntry, ProjectConstraints, MorphologyState, PhonologyConfig } from "../types";
 
 const STORAGE_KEY = 'user_gemini_api_key';
 
@@ -212,47 +212,6 @@ export const generateWords = async (
     }
 };
 
-export const evolveWords = async (
-    words: LexiconEntry[],
-    rules: SoundChangeRule[]
-): Promise<LexiconEntry[]> => {
-    if (words.length === 0 || rules.length === 0) return words;
-
-    const CHUNK_SIZE = 10;
-    const evolvedLexicon: LexiconEntry[] = [...words];
-
-    try {
-        const genAI = getGenAI();
-        const model = genAI.getGenerativeModel({
-            model: "gemma-3-27b-it",
-
-        });
-
-        for (let i = 0; i < words.length; i += CHUNK_SIZE) {
-            const chunk = words.slice(i, i + CHUNK_SIZE);
-            console.log("Iniciando generación con el modelo gemma-3-27b-it...");
-            const result = await model.generateContent("Apply sound changes: " + rules.map(r => r.rule).join('\n') + ". Words: " + chunk.map(w => w.word).join(', ') + ". Return JSON array of objects with \"originalWord\", \"newWord\", \"newIPA\", \"changeLog\".");
-            const response = await result.response;
-            const results = safeParseJSON(response.text());
-            results.forEach((res: any) => {
-                const index = evolvedLexicon.findIndex(w => w.word === res.originalWord);
-                if (index !== -1) {
-                    evolvedLexicon[index] = {
-                        ...evolvedLexicon[index],
-                        word: res.newWord,
-                        ipa: res.newIPA,
-                        etymology: (evolvedLexicon[index].etymology || '') + '; ' + res.changeLog
-                    };
-                }
-            });
-        }
-        return evolvedLexicon;
-    } catch (error: any) {
-        console.error("Evolution Error:", error?.message || error);
-        return words;
-    }
-};
-
 export const processCommandAI = async (
     lexicon: LexiconEntry[],
     instruction: string,
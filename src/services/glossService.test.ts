@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { exampleToLatex } from './glossService';
+import { GlossedExample } from '../types';
+
+const example = (overrides: Partial<GlossedExample>): GlossedExample => ({
+  id: '1', text: 'sang', segmentation: 'sang', gloss: 'sing\\PST', translation: 'sang', ...overrides
+});
+
+describe('exampleToLatex', () => {
+  it('escapes a backslash in a gloss once, keeping abbreviations in small caps', () => {
+    const latex = exampleToLatex(example({}), 'gb4e');
+    expect(latex).toContain('sing\\textbackslash{}\\textsc{pst}\\\\');
+    expect(latex).not.toContain('\\{\\}');
+  });
+
+  it('escapes LaTeX specials', () => {
+    const latex = exampleToLatex(example({ text: '50% a_b {c} ~d^ & #', translation: '$5' }), 'expex');
+    expect(latex).toContain('\\glpreamble 50\\% a\\_b \\{c\\} \\textasciitilde{}d\\textasciicircum{} \\& \\#//');
+    expect(latex).toContain("\\glft `\\$5'//");
+  });
+});
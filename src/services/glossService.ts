@@ -0,0 +1,241 @@
+import { GlossedExample, InflectionRule, LexiconEntry, MorphologyState } from "../types";
+import {
+  applyAffix, applyBoundaryRules, BOUNDARY, buildParadigmTable, getOperation, getParadigmsForEntry,
+  getParadigmDimensions, isRuleApplicable, MorphophonologyContext, RULE_NAME_KEY
+} from "./morphologyService";
+
+/**
+ * Leipzig-style interlinear glossing: segments each word of an example into
+ * morphemes using the lexicon and the paradigm rules, and glosses them.
+ */
+
+export interface WordAnalysis {
+  word: string;
+  segmentation: string; // e.g. "kat-i"
+  gloss: string; // e.g. "cat-PL"
+  found: boolean;
+}
+
+// Common category names → Leipzig abbreviations
+const LEIPZIG_ABBREVIATIONS: Record<string, string> = {
+  'first person': '1', 'second person': '2', 'third person': '3',
+  'ablative': 'ABL', 'absolutive': 'ABS', 'accusative': 'ACC', 'adjective': 'ADJ', 'adverb': 'ADV',
+  'agent': 'AGR', 'allative': 'ALL', 'antipassive': 'ANTIP', 'applicative': 'APPL', 'article': 'ART',
+  'auxiliary': 'AUX', 'benefactive': 'BEN', 'causative': 'CAUS', 'classifier': 'CLF', 'comitative': 'COM',
+  'complementizer': 'COMP', 'completive': 'COMPL', 'conditional': 'COND', 'copula': 'COP', 'converb': 'CVB',
+  'dative': 'DAT', 'declarative': 'DECL', 'definite': 'DEF', 'demonstrative': 'DEM', 'determiner': 'DET',
+  'distal': 'DIST', 'distributive': 'DISTR', 'dual': 'DU', 'durative': 'DUR', 'ergative': 'ERG',
+  'exclusive': 'EXCL', 'feminine': 'F', 'focus': 'FOC', 'future': 'FUT', 'genitive': 'GEN',
+  'imperative': 'IMP', 'inclusive': 'INCL', 'indicative': 'IND', 'indefinite': 'INDF', 'infinitive': 'INF',
+  'instrumental': 'INS', 'intransitive': 'INTR', 'imperfective': 'IPFV', 'irrealis': 'IRR', 'locative': 'LOC',
+  'masculine': 'M', 'neuter': 'N', 'negation': 'NEG', 'negative': 'NEG', 'nominalizer': 'NMLZ',
+  'nominative': 'NOM', 'object': 'OBJ', 'oblique': 'OBL', 'passive': 'PASS', 'perfect': 'PRF',
+  'perfective': 'PFV', 'plural': 'PL', 'possessive': 'POSS', 'predicative': 'PRED', 'present': 'PRS',
+  'progressive': 'PROG', 'prohibitive': 'PROH', 'proximal': 'PROX', 'past': 'PST', 'participle': 'PTCP',
+  'purposive': 'PURP', 'question': 'Q', 'quotative': 'QUOT', 'reciprocal': 'RECP', 'reflexive': 'REFL',
+  'relative': 'REL', 'result': 'RES', 'resultative': 'RES', 'singular': 'SG', 'subjunctive': 'SBJV',
+  'subject': 'SBJ', 'top': 'TOP', 'topic': 'TOP', 'transitive': 'TR', 'vocative': 'VOC'
+};
+
+/** "Plural" → "PL", "past tense" → "PST", "Third person singular" → "3.SG". */
+export const toLeipzig = (name: string): string => {
+  const clean = name.trim().toLowerCase();
+  if (!clean) return '';
+  if (LEIPZIG_ABBREVIATIONS[clean]) return LEIPZIG_ABBREVIATIONS[clean];
+  if (/^[A-Z0-9.]+$/.test(name.trim())) return name.trim(); // Already an abbreviation
+  const words = clean.replace(/\btense\b|\bcase\b|\bmood\b|\baspect\b/g, '').split(/[\s_-]+/).filter(w => w && w !== 'person');
+  const joined = words.join(' ');
+  if (LEIPZIG_ABBREVIATIONS[joined]) return LEIPZIG_ABBREVIATIONS[joined];
+  return words.map(w => LEIPZIG_ABBREVIATIONS[w] || LEIPZIG_ABBREVIATIONS[`${w} person`] || w.toUpperCase()).join('.');
+};
+
+const ruleGloss = (rule: InflectionRule): string => {
+  const name = rule.coordinates[RULE_NAME_KEY];
+  if (name) return toLeipzig(name);
+  return Object.entries(rule.coordinates).filter(([key]) => key !== RULE_NAME_KEY).map(([, value]) => toLeipzig(value)).join('.');
+};
+
+/** First sense of a definition, multi-word glosses joined with "." as Leipzig rule 4 asks. */
+export const lexicalGloss = (definition: string): string =>
+  (definition.split(/[,;(\n]/)[0] || '').trim().toLowerCase().replace(/^(to|a|an|the)\s+/, '').split(/\s+/).filter(Boolean).join('.');
+
+const clean = (affix?: string) => (affix || '').replace(/-/g, '').trim();
+
+/**
+ * Builds the segmentation and gloss for a root and the rules applied to it, in order.
+ * Separators follow Leipzig: `-` affixes, `<>` infixes, `~` reduplication, `\` ablaut, `.` suppletion.
+ */
+export const glossInflection = (root: string, rootGloss: string, rules: InflectionRule[]): { segmentation: string; gloss: string } => {
+  let stem = root;
+  let stemGloss = rootGloss;
+  let prefixes: Array<{ form: string; gloss: string; sep: string }> = [];
+  let suffixes: Array<{ form: string; gloss: string; sep: string }> = [];
+
+  rules.forEach(rule => {
+    const abbr = ruleGloss(rule);
+    const bare = [...prefixes.map(p => p.form), stem, ...suffixes.map(s => s.form)].join('');
+    if (rule.suppletive && rule.suppletive[bare]) {
+      stem = rule.suppletive[bare];
+      stemGloss = [stemGloss, ...prefixes.map(p => p.gloss), ...suffixes.map(s => s.gloss), abbr].join('.');
+      prefixes = [];
+      suffixes = [];
+      return;
+    }
+    switch (getOperation(rule)) {
+      case 'prefix':
+        prefixes.unshift({ form: clean(rule.affix), gloss: abbr, sep: '-' });
+        break;
+      case 'suffix':
+        suffixes.push({ form: clean(rule.affix), gloss: abbr, sep: '-' });
+        break;
+      case 'circumfix':
+        prefixes.unshift({ form: clean(rule.affix), gloss: abbr, sep: '-' });
+        suffixes.push({ form: clean(rule.affixEnd), gloss: abbr, sep: '-' });
+        break;
+      case 'infix': {
+        const marked = applyAffix(stem, rule, BOUNDARY);
+        const parts = marked.split(BOUNDARY);
+        stem = parts.length === 3 ? `${parts[0]}<${parts[1]}>${parts[2]}` : marked.split(BOUNDARY).join('');
+        stemGloss = `<${abbr}>${stemGloss}`;
+        break;
+      }
+      case 'reduplication': {
+        const full = applyAffix(stem, rule, BOUNDARY).split(BOUNDARY);
+        if (rule.isPrefix) prefixes.unshift({ form: full[0], gloss: abbr, sep: '~' });
+        else suffixes.push({ form: full[full.length - 1], gloss: abbr, sep: '~' });
+        break;
+      }
+      case 'replacement':
+        stem = applyAffix(stem, rule);
+        stemGloss = `${stemGloss}\\${abbr}`;
+        break;
+    }
+  });
+
+  const formPart = (list: typeof prefixes, before: boolean) => list.filter(m => m.form).map(m => before ? m.form + m.sep : m.sep + m.form).join('');
+  const glossPart = (list: typeof prefixes, before: boolean) => list.filter(m => m.form).map(m => before ? m.gloss + m.sep : m.sep + m.gloss).join('');
+  return {
+    segmentation: formPart(prefixes, true) + stem + formPart(suffixes, false),
+    gloss: glossPart(prefixes, true) + stemGloss + glossPart(suffixes, false)
+  };
+};
+
+const normalize = (word: string) => word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+/**
+ * Finds a lexicon entry (bare or inflected through its paradigms) that yields the word.
+ * Unknown words are returned as-is with a "?" gloss.
+ */
+export const analyzeWord = (word: string, entries: LexiconEntry[], morphology: MorphologyState, context?: MorphophonologyContext): WordAnalysis => {
+  const target = normalize(word);
+  const bare = entries.find(e => e.word.toLowerCase() === target);
+  if (bare) return { word, segmentation: bare.word, gloss: lexicalGloss(bare.definition), found: true };
+
+  for (const entry of entries) {
+    for (const paradigm of getParadigmsForEntry(entry, morphology)) {
+      const candidates: InflectionRule[][] = [];
+      if (getParadigmDimensions(paradigm, morphology.dimensions).length > 0) {
+        buildParadigmTable(entry.word, entry.pos, paradigm, morphology.dimensions, context).pages
+          .forEach(page => page.rows.forEach(row => row.forEach(cell => {
+            if (cell.rules.length > 0 && cell.form.toLowerCase() === target) candidates.push(cell.rules);
+          })));
+      }
+      paradigm.rules.forEach(rule => {
+        if (!isRuleApplicable(rule, entry.word, entry.pos)) return;
+        if (applyBoundaryRules(applyAffix(entry.word, rule, BOUNDARY), context).toLowerCase() === target) candidates.push([rule]);
+      });
+      if (candidates.length > 0) {
+        return { word, ...glossInflection(entry.word, lexicalGloss(entry.definition), candidates[0]), found: true };
+      }
+    }
+  }
+  return { word, segmentation: target || word, gloss: '?', found: false };
+};
+
+/** Fills segmentation and gloss for every word of the example text. */
+export const autoGloss = (text: string, entries: LexiconEntry[], morphology: MorphologyState, context?: MorphophonologyContext): { segmentation: string; gloss: string; unknown: string[] } => {
+  const analyses = text.split(/\s+/).filter(Boolean).map(word => analyzeWord(word, entries, morphology, context));
+  return {
+    segmentation: analyses.map(a => a.segmentation).join(' '),
+    gloss: analyses.map(a => a.gloss).join(' '),
+    unknown: analyses.filter(a => !a.found).map(a => a.word)
+  };
+};
+
+// --- Export ---
+
+const words = (line: string) => line.split(/\s+/).filter(Boolean);
+
+/** Word-aligned columns: one entry per word of the longest line. */
+export const alignExample = (example: GlossedExample): string[][] => {
+  const lines = [words(example.segmentation || example.text), words(example.gloss)];
+  const width = Math.max(...lines.map(l => l.length));
+  return Array.from({ length: width }, (_, i) => lines.map(l => l[i] || ''));
+};
+
+export const exampleToText = (example: GlossedExample): string => {
+  const columns = alignExample(example);
+  const widths = columns.map(col => Math.max(...col.map(c => Array.from(c).length)));
+  const pad = (s: string, w: number) => s + ' '.repeat(Math.max(0, w - Array.from(s).length));
+  const rows = [0, 1].map(row => columns.map((col, i) => pad(col[row], widths[i])).join('  ').trimEnd());
+  return [example.text, ...rows, example.translation ? `‘${example.translation}’` : ''].filter(Boolean).join('\n');
+};
+
+const escapeHtml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const exampleToHtml = (example: GlossedExample): string => {
+  const columns = alignExample(example);
+  // Leipzig abbreviations go in small caps
+  const glossCell = (g: string) => escapeHtml(g).replace(/\b([A-Z][A-Z0-9]+)\b/g, (_, abbr: string) => `<span style="font-variant: small-caps">${abbr.toLowerCase()}</span>`);
+  return [
+    '<div class="interlinear">',
+    `  <p class="ex-text"><i>${escapeHtml(example.text)}</i></p>`,
+    '  <table class="ex-gloss">',
+    `    <tr>${columns.map(c => `<td>${escapeHtml(c[0])}</td>`).join('')}</tr>`,
+    `    <tr>${columns.map(c => `<td>${glossCell(c[1])}</td>`).join('')}</tr>`,
+    '  </table>',
+    example.translation ? `  <p class="ex-translation">‘${escapeHtml(example.translation)}’</p>` : '',
+    '</div>'
+  ].filter(Boolean).join('\n');
+};
+
+const LATEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}', '~': '\\textasciitilde{}', '^': '\\textasciicircum{}',
+  '&': '\\&', '%': '\\%', '$': '\\$', '#': '\\#', '_': '\\_', '{': '\\{', '}': '\\}'
+};
+
+// One pass, so the braces of `\textbackslash{}` are not escaped again
+const escapeLatex = (s: string) => s.replace(/[\\&%$#_{}~^]/g, c => LATEX_ESCAPES[c]);
+
+const latexGloss = (gloss: string) =>
+  escapeLatex(gloss).replace(/\b([A-Z][A-Z0-9]+)\b/g, (_, abbr: string) => `\\textsc{${abbr.toLowerCase()}}`);
+
+export type LatexPackage = 'gb4e' | 'expex';
+
+export const exampleToLatex = (example: GlossedExample, pkg: LatexPackage): string => {
+  const seg = words(example.segmentation || example.text).map(escapeLatex).join(' ');
+  const gloss = words(example.gloss).map(latexGloss).join(' ');
+  const translation = escapeLatex(example.translation || '');
+
+  if (pkg === 'expex') {
+    return [
+      '\\ex',
+      '\\begingl',
+      `\\glpreamble ${escapeLatex(example.text)}//`,
+      `\\gla ${seg}//`,
+      `\\glb ${gloss}//`,
+      `\\glft \`${translation}'//`,
+      '\\endgl',
+      '\\xe'
+    ].join('\n');
+  }
+  return [
+    '\\begin{exe}',
+    '\\ex',
+    `\\glll ${escapeLatex(example.text)}\\\\`,
+    `${seg}\\\\`,
+    `${gloss}\\\\`,
+    `\\trans \`${translation}'`,
+    '\\end{exe}'
+  ].join('\n');
+};
@@ -0,0 +1,712 @@
+import { GlyphStroke, ScriptConfig, ScriptGlyph } from "../types";
+import {
+  commandsToPath, IDENTITY, Matrix, multiplyMatrix, parsePath, PathCommand, Point, transformCommands
+} from "./glyphOutlineService";
+import { defaultPua } from "./scriptShapingService";
+
+/**
+ * Imports glyph outlines from existing fonts (TTF, OTF, WOFF) and SVG files as
+ * editable path layers. Font glyphs are keyed by their cmap codepoint, SVGs by
+ * file name ("a.svg", "uni0061.svg", or a glyph name such as "th.svg").
+ * WOFF2 needs a Brotli decoder, which browsers do not expose.
+ */
+
+export interface ImportedGlyph {
+  char: string; // Character or glyph name the layers are stored under
+  layers: GlyphStroke[];
+  viewWidth?: number;
+  source: string; // File the glyph came from
+}
+
+export type ImportAction = 'add' | 'replace' | 'merge' | 'skip';
+
+const CANVAS_SIZE = 400;
+const MAX_COMPONENT_DEPTH = 8;
+
+let layerCounter = 0;
+
+const outlineLayer = (d: string, fill: 'nonzero' | 'evenodd', label: string): GlyphStroke => ({
+  id: `import-${Date.now()}-${layerCounter++}`,
+  type: 'path', d, width: 0, strokeWidth: 0, cap: 'round', color: '#ffffff',
+  visible: true, locked: false, label, fill
+});
+
+// --- Font containers ---
+
+type TableMap = Map<string, DataView>;
+
+const tagAt = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const readSfnt = (view: DataView, start: number): TableMap => {
+  const tables: TableMap = new Map();
+  const numTables = view.getUint16(start + 4);
+  for (let i = 0; i < numTables; i++) {
+    const record = start + 12 + i * 16;
+    const offset = view.getUint32(record + 8);
+    const length = view.getUint32(record + 12);
+    tables.set(tagAt(view, record), new DataView(view.buffer, view.byteOffset + offset, length));
+  }
+  return tables;
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** WOFF 1.0: tables are stored whole or zlib-compressed. */
+const readWoff = async (view: DataView): Promise<TableMap> => {
+  const tables: TableMap = new Map();
+  const numTables = view.getUint16(12);
+  for (let i = 0; i < numTables; i++) {
+    const record = 44 + i * 20;
+    const offset = view.getUint32(record + 4);
+    const compLength = view.getUint32(record + 8);
+    const origLength = view.getUint32(record + 12);
+    const raw = new Uint8Array(view.buffer, view.byteOffset + offset, compLength);
+    const data = compLength < origLength ? await inflate(raw) : raw.slice();
+    tables.set(tagAt(view, record), new DataView(data.buffer, data.byteOffset, data.byteLength));
+  }
+  return tables;
+};
+
+const readTables = async (buffer: ArrayBuffer): Promise<TableMap> => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 12) throw new Error('The file is too short to be a font.');
+  switch (tagAt(view, 0)) {
+    case 'wOFF': return readWoff(view);
+    case 'wOF2': throw new Error('WOFF2 fonts need a Brotli decoder, which browsers do not provide. Convert the font to TTF, OTF or WOFF first.');
+    case 'ttcf': return readSfnt(view, view.getUint32(12)); // First font of a collection
+    case 'OTTO':
+    case 'true': return readSfnt(view, 0);
+    default:
+      if (view.getUint32(0) === 0x00010000) return readSfnt(view, 0);
+      throw new Error('Not a TrueType, OpenType or WOFF font.');
+  }
+};
+
+// --- cmap ---
+
+const readCmapFormat4 = (view: DataView, offset: number, map: Map<number, number>) => {
+  const segX2 = view.getUint16(offset + 6);
+  const ends = offset + 14;
+  const starts = ends + segX2 + 2;
+  const deltas = starts + segX2;
+  const rangeOffsets = deltas + segX2;
+  for (let s = 0; s < segX2; s += 2) {
+    const start = view.getUint16(starts + s);
+    const end = view.getUint16(ends + s);
+    const delta = view.getInt16(deltas + s);
+    const rangeOffset = view.getUint16(rangeOffsets + s);
+    for (let c = start; c <= end && c !== 0xffff; c++) {
+      let glyph = c + delta;
+      if (rangeOffset !== 0) {
+        const address = rangeOffsets + s + rangeOffset + (c - start) * 2;
+        glyph = address + 2 <= view.byteLength ? view.getUint16(address) : 0;
+        if (glyph !== 0) glyph += delta;
+      }
+      glyph &= 0xffff;
+      if (glyph !== 0) map.set(c, glyph);
+    }
+  }
+};
+
+const readCmapFormat12 = (view: DataView, offset: number, map: Map<number, number>) => {
+  const groups = view.getUint32(offset + 12);
+  for (let g = 0; g < groups; g++) {
+    const record = offset + 16 + g * 12;
+    const start = view.getUint32(record);
+    const end = Math.min(view.getUint32(record + 4), 0x10ffff);
+    const glyph = view.getUint32(record + 8);
+    for (let c = start; c <= end; c++) map.set(c, glyph + c - start);
+  }
+};
+
+/** Codepoint → glyph id from the Unicode (and symbol) subtables; format 12 wins over format 4. */
+const readCmap = (cmap: DataView): Map<number, number> => {
+  const map = new Map<number, number>();
+  const subtables: Array<{ format: number; offset: number }> = [];
+  const count = cmap.getUint16(2);
+  for (let i = 0; i < count; i++) {
+    const platform = cmap.getUint16(4 + i * 8);
+    const encoding = cmap.getUint16(6 + i * 8);
+    const offset = cmap.getUint32(8 + i * 8);
+    if (platform === 0 || (platform === 3 && [0, 1, 10].includes(encoding))) {
+      subtables.push({ format: cmap.getUint16(offset), offset });
+    }
+  }
+  subtables.filter(t => t.format === 4).forEach(t => readCmapFormat4(cmap, t.offset, map));
+  subtables.filter(t => t.format === 12).forEach(t => readCmapFormat12(cmap, t.offset, map));
+  return map;
+};
+
+// --- TrueType outlines (glyf) ---
+
+interface FontPoint extends Point {
+  onCurve: boolean;
+}
+
+const readLoca = (tables: TableMap, numGlyphs: number): number[] => {
+  const loca = tables.get('loca')!;
+  const long = tables.get('head')!.getInt16(50) === 1;
+  return Array.from({ length: numGlyphs + 1 }, (_, i) => long ? loca.getUint32(i * 4) : loca.getUint16(i * 2) * 2);
+};
+
+const readSimpleGlyph = (glyf: DataView, offset: number, contourCount: number): FontPoint[][] => {
+  const endPoints = Array.from({ length: contourCount }, (_, i) => glyf.getUint16(offset + 10 + i * 2));
+  const pointCount = contourCount > 0 ? endPoints[contourCount - 1] + 1 : 0;
+  let p = offset + 10 + contourCount * 2;
+  p += 2 + glyf.getUint16(p); // Hinting instructions
+
+  const flags: number[] = [];
+  while (flags.length < pointCount) {
+    const flag = glyf.getUint8(p++);
+    flags.push(flag);
+    if (flag & 8) {
+      const repeat = glyf.getUint8(p++);
+      for (let r = 0; r < repeat; r++) flags.push(flag);
+    }
+  }
+  const readAxis = (shortBit: number, sameBit: number): number[] => {
+    let value = 0;
+    return flags.slice(0, pointCount).map(flag => {
+      if (flag & shortBit) {
+        const delta = glyf.getUint8(p++);
+        value += flag & sameBit ? delta : -delta;
+      } else if (!(flag & sameBit)) {
+        value += glyf.getInt16(p);
+        p += 2;
+      }
+      return value;
+    });
+  };
+  const xs = readAxis(2, 16);
+  const ys = readAxis(4, 32);
+
+  const contours: FontPoint[][] = [];
+  let first = 0;
+  endPoints.forEach(last => {
+    contours.push(Array.from({ length: last - first + 1 }, (_, k) => ({ x: xs[first + k], y: ys[first + k], onCurve: (flags[first + k] & 1) === 1 })));
+    first = last + 1;
+  });
+  return contours;
+};
+
+const readGlyfContours = (glyf: DataView, loca: number[], id: number, depth = 0): FontPoint[][] => {
+  const offset = loca[id];
+  if (offset === undefined || loca[id + 1] <= offset || depth > MAX_COMPONENT_DEPTH) return [];
+  const contourCount = glyf.getInt16(offset);
+  if (contourCount >= 0) return readSimpleGlyph(glyf, offset, contourCount);
+
+  // Composite glyph: components placed with an offset and an optional 2×2 scale
+  const contours: FontPoint[][] = [];
+  let p = offset + 10;
+  let flags: number;
+  do {
+    flags = glyf.getUint16(p);
+    const component = glyf.getUint16(p + 2);
+    p += 4;
+    let dx: number, dy: number;
+    if (flags & 1) { dx = glyf.getInt16(p); dy = glyf.getInt16(p + 2); p += 4; }
+    else { dx = glyf.getInt8(p); dy = glyf.getInt8(p + 1); p += 2; }
+    if (!(flags & 2)) { dx = 0; dy = 0; } // Point-matched placement is not supported
+    let [a, b, c, d] = [1, 0, 0, 1];
+    const f2dot14 = (at: number) => glyf.getInt16(at) / 16384;
+    if (flags & 8) { a = d = f2dot14(p); p += 2; }
+    else if (flags & 0x40) { a = f2dot14(p); d = f2dot14(p + 2); p += 4; }
+    else if (flags & 0x80) { a = f2dot14(p); b = f2dot14(p + 2); c = f2dot14(p + 4); d = f2dot14(p + 6); p += 8; }
+    readGlyfContours(glyf, loca, component, depth + 1).forEach(contour => {
+      contours.push(contour.map(pt => ({ x: a * pt.x + c * pt.y + dx, y: b * pt.x + d * pt.y + dy, onCurve: pt.onCurve })));
+    });
+  } while (flags & 0x20);
+  return contours;
+};
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/** Quadratic contour → path commands; consecutive off-curve points imply an on-curve midpoint. */
+const quadraticContourToCommands = (contour: FontPoint[]): PathCommand[] => {
+  if (contour.length < 2) return [];
+  const firstOn = contour.findIndex(pt => pt.onCurve);
+  const start = firstOn >= 0 ? contour[firstOn] : midpoint(contour[0], contour[contour.length - 1]);
+  const rotated = firstOn >= 0 ? [...contour.slice(firstOn + 1), ...contour.slice(0, firstOn)] : contour;
+  const commands: PathCommand[] = [{ type: 'M', to: { x: start.x, y: start.y } }];
+  let control: Point | null = null;
+  rotated.forEach(pt => {
+    if (pt.onCurve) {
+      commands.push(control ? { type: 'Q', c: control, to: { x: pt.x, y: pt.y } } : { type: 'L', to: { x: pt.x, y: pt.y } });
+      control = null;
+    } else {
+      if (control) commands.push({ type: 'Q', c: control, to: midpoint(control, pt) });
+      control = { x: pt.x, y: pt.y };
+    }
+  });
+  if (control) commands.push({ type: 'Q', c: control, to: { x: start.x, y: start.y } });
+  commands.push({ type: 'Z' });
+  return commands;
+};
+
+// --- CFF outlines (OTF) ---
+
+interface CffIndex {
+  items: Array<[number, number]>; // [start, end) offsets into the view
+  end: number;
+}
+
+const readIndex = (view: DataView, offset: number): CffIndex => {
+  const count = view.getUint16(offset);
+  if (count === 0) return { items: [], end: offset + 2 };
+  const offSize = view.getUint8(offset + 2);
+  const readOffset = (i: number) => {
+    let value = 0;
+    for (let k = 0; k < offSize; k++) value = value * 256 + view.getUint8(offset + 3 + i * offSize + k);
+    return value;
+  };
+  const dataStart = offset + 2 + (count + 1) * offSize;
+  const items: Array<[number, number]> = [];
+  for (let i = 0; i < count; i++) items.push([dataStart + readOffset(i), dataStart + readOffset(i + 1)]);
+  return { items, end: dataStart + readOffset(count) };
+};
+
+const REAL_NIBBLES = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '.', 'E', 'E-', '', '-', ''];
+
+/** DICT data as operator → operands; two-byte operators are keyed 1200 + second byte. */
+const readDict = (view: DataView, start: number, end: number): Map<number, number[]> => {
+  const dict = new Map<number, number[]>();
+  let operands: number[] = [];
+  let p = start;
+  while (p < end) {
+    const b0 = view.getUint8(p++);
+    if (b0 <= 21) {
+      const op = b0 === 12 ? 1200 + view.getUint8(p++) : b0;
+      dict.set(op, operands);
+      operands = [];
+    } else if (b0 === 28) { operands.push(view.getInt16(p)); p += 2; }
+    else if (b0 === 29) { operands.push(view.getInt32(p)); p += 4; }
+    else if (b0 === 30) {
+      let text = '';
+      for (let done = false; !done && p < end;) {
+        const byte = view.getUint8(p++);
+        for (const nibble of [byte >> 4, byte & 15]) {
+          if (nibble === 15) { done = true; break; }
+          text += REAL_NIBBLES[nibble];
+        }
+      }
+      operands.push(parseFloat(text));
+    } else if (b0 >= 32 && b0 <= 246) operands.push(b0 - 139);
+    else if (b0 >= 247 && b0 <= 250) operands.push((b0 - 247) * 256 + view.getUint8(p++) + 108);
+    else if (b0 >= 251 && b0 <= 254) operands.push(-(b0 - 251) * 256 - view.getUint8(p++) - 108);
+  }
+  return dict;
+};
+
+const subrBias = (count: number) => count < 1240 ? 107 : count < 33900 ? 1131 : 32768;
+
+interface CffFont {
+  view: DataView;
+  charStrings: CffIndex;
+  globalSubrs: CffIndex;
+  localSubrs: (glyph: number) => CffIndex;
+}
+
+const readCff = (view: DataView): CffFont => {
+  const nameIndex = readIndex(view, view.getUint8(2));
+  const topIndex = readIndex(view, nameIndex.end);
+  const stringIndex = readIndex(view, topIndex.end);
+  const globalSubrs = readIndex(view, stringIndex.end);
+  const top = readDict(view, ...topIndex.items[0]);
+  const charStrings = readIndex(view, top.get(17)![0]);
+
+  const privateSubrs = (dict: Map<number, number[]>): CffIndex => {
+    const [size, offset] = dict.get(18) || [0, 0];
+    const priv = readDict(view, offset, offset + size);
+    const subrs = priv.get(19);
+    return subrs ? readIndex(view, offset + subrs[0]) : { items: [], end: 0 };
+  };
+
+  // CID-keyed fonts pick the private dict (and its subroutines) per glyph through FDSelect
+  if (top.has(1236) && top.has(1237)) {
+    const fdSubrs = readIndex(view, top.get(1236)![0]).items.map(([s, e]) => privateSubrs(readDict(view, s, e)));
+    const select = top.get(1237)![0];
+    const format = view.getUint8(select);
+    const fdOf = (glyph: number): number => {
+      if (format === 0) return view.getUint8(select + 1 + glyph);
+      const ranges = view.getUint16(select + 1);
+      for (let r = 0; r < ranges; r++) {
+        const first = view.getUint16(select + 3 + r * 3);
+        const next = view.getUint16(select + 3 + (r + 1) * 3);
+        if (glyph >= first && glyph < next) return view.getUint8(select + 5 + r * 3);
+      }
+      return 0;
+    };
+    return { view, charStrings, globalSubrs, localSubrs: glyph => fdSubrs[fdOf(glyph)] || { items: [], end: 0 } };
+  }
+  const subrs = privateSubrs(top);
+  return { view, charStrings, globalSubrs, localSubrs: () => subrs };
+};
+
+/** Runs a Type 2 charstring; hints and the advance width are read past, only the outline is kept. */
+const readCharString = (font: CffFont, glyph: number): PathCommand[] => {
+  const { view } = font;
+  const localSubrs = font.localSubrs(glyph);
+  const commands: PathCommand[] = [];
+  let stack: number[] = [];
+  let stems = 0;
+  let haveWidth = false;
+  let open = false;
+  let ended = false;
+  let x = 0, y = 0;
+
+  const moveTo = (dx: number, dy: number) => {
+    if (open) commands.push({ type: 'Z' });
+    x += dx; y += dy;
+    commands.push({ type: 'M', to: { x, y } });
+    open = true;
+  };
+  const lineTo = (dx: number, dy: number) => {
+    x += dx; y += dy;
+    commands.push({ type: 'L', to: { x, y } });
+  };
+  const curveTo = (dx1: number, dy1: number, dx2: number, dy2: number, dx3: number, dy3: number) => {
+    const c1 = { x: x + dx1, y: y + dy1 };
+    const c2 = { x: c1.x + dx2, y: c1.y + dy2 };
+    x = c2.x + dx3; y = c2.y + dy3;
+    commands.push({ type: 'C', c1, c2, to: { x, y } });
+  };
+  // An odd operand count on the first stack-clearing operator means a leading width
+  const takeWidth = (expectEven: boolean) => {
+    if (!haveWidth && (expectEven ? stack.length % 2 === 1 : stack.length > 0)) stack.shift();
+    haveWidth = true;
+  };
+  const readStems = () => {
+    takeWidth(true);
+    stems += stack.length >> 1;
+    stack = [];
+  };
+
+  const run = (start: number, end: number, depth: number) => {
+    let p = start;
+    while (p < end && !ended) {
+      const v = view.getUint8(p++);
+      if (v >= 32) {
+        if (v <= 246) stack.push(v - 139);
+        else if (v <= 250) stack.push((v - 247) * 256 + view.getUint8(p++) + 108);
+        else if (v <= 254) stack.push(-(v - 251) * 256 - view.getUint8(p++) - 108);
+        else { stack.push(view.getInt32(p) / 65536); p += 4; }
+        continue;
+      }
+      switch (v) {
+        case 28: stack.push(view.getInt16(p)); p += 2; break;
+        case 1: case 3: case 18: case 23: readStems(); break;
+        case 19: case 20: readStems(); p += (stems + 7) >> 3; break;
+        case 21: if (stack.length > 2) takeWidth(false); haveWidth = true; moveTo(stack[0], stack[1]); stack = []; break;
+        case 22: if (stack.length > 1) takeWidth(false); haveWidth = true; moveTo(stack[0], 0); stack = []; break;
+        case 4: if (stack.length > 1) takeWidth(false); haveWidth = true; moveTo(0, stack[0]); stack = []; break;
+        case 5: for (let i = 0; i + 1 < stack.length; i += 2) lineTo(stack[i], stack[i + 1]); stack = []; break;
+        case 6:
+        case 7: {
+          let horizontal = v === 6;
+          stack.forEach(d => { if (horizontal) lineTo(d, 0); else lineTo(0, d); horizontal = !horizontal; });
+          stack = [];
+          break;
+        }
+        case 8: for (let i = 0; i + 5 < stack.length; i += 6) curveTo(stack[i], stack[i + 1], stack[i + 2], stack[i + 3], stack[i + 4], stack[i + 5]); stack = []; break;
+        case 24: {
+          let i = 0;
+          for (; i + 5 < stack.length - 2; i += 6) curveTo(stack[i], stack[i + 1], stack[i + 2], stack[i + 3], stack[i + 4], stack[i + 5]);
+          lineTo(stack[i], stack[i + 1]);
+          stack = [];
+          break;
+        }
+        case 25: {
+          let i = 0;
+          for (; i + 1 < stack.length - 6; i += 2) lineTo(stack[i], stack[i + 1]);
+          curveTo(stack[i], stack[i + 1], stack[i + 2], stack[i + 3], stack[i + 4], stack[i + 5]);
+          stack = [];
+          break;
+        }
+        case 26: {
+          let dx1 = stack.length % 2 ? stack.shift()! : 0;
+          for (let i = 0; i + 3 < stack.length; i += 4) { curveTo(dx1, stack[i], stack[i + 1], stack[i + 2], 0, stack[i + 3]); dx1 = 0; }
+          stack = [];
+          break;
+        }
+        case 27: {
+          let dy1 = stack.length % 2 ? stack.shift()! : 0;
+          for (let i = 0; i + 3 < stack.length; i += 4) { curveTo(stack[i], dy1, stack[i + 1], stack[i + 2], stack[i + 3], 0); dy1 = 0; }
+          stack = [];
+          break;
+        }
+        case 30:
+        case 31: {
+          // Curves alternate between starting vertical and horizontal; a fifth operand on the last one is its other end delta
+          let vertical = v === 30;
+          for (let i = 0; i + 3 < stack.length; i += 4) {
+            const last = i + 5 === stack.length ? stack[i + 4] : 0;
+            if (vertical) curveTo(0, stack[i], stack[i + 1], stack[i + 2], stack[i + 3], last);
+            else curveTo(stack[i], 0, stack[i + 1], stack[i + 2], last, stack[i + 3]);
+            vertical = !vertical;
+          }
+          stack = [];
+          break;
+        }
+        case 10:
+        case 29: {
+          const subrs = v === 10 ? localSubrs : font.globalSubrs;
+          const item = subrs.items[stack.pop()! + subrBias(subrs.items.length)];
+          if (item && depth < 10) run(item[0], item[1], depth + 1);
+          break;
+        }
+        case 11: return;
+        case 14:
+          if (stack.length === 1 || stack.length === 5) takeWidth(false);
+          if (open) commands.push({ type: 'Z' });
+          open = false;
+          ended = true;
+          return;
+        case 12: {
+          const op = view.getUint8(p++);
+          const s = stack;
+          if (op === 35) { curveTo(s[0], s[1], s[2], s[3], s[4], s[5]); curveTo(s[6], s[7], s[8], s[9], s[10], s[11]); }
+          else if (op === 34) { curveTo(s[0], 0, s[1], s[2], s[3], 0); curveTo(s[4], 0, s[5], -s[2], s[6], 0); }
+          else if (op === 36) { curveTo(s[0], s[1], s[2], s[3], s[4], 0); curveTo(s[5], 0, s[6], s[7], s[8], -(s[1] + s[3] + s[7])); }
+          else if (op === 37) {
+            const dx = s[0] + s[2] + s[4] + s[6] + s[8];
+            const dy = s[1] + s[3] + s[5] + s[7] + s[9];
+            curveTo(s[0], s[1], s[2], s[3], s[4], s[5]);
+            if (Math.abs(dx) > Math.abs(dy)) curveTo(s[6], s[7], s[8], s[9], s[10], -dy);
+            else curveTo(s[6], s[7], s[8], s[9], -dx, s[10]);
+          }
+          stack = [];
+          break;
+        }
+        default: stack = [];
+      }
+    }
+  };
+
+  const [start, end] = font.charStrings.items[glyph] || [0, 0];
+  run(start, end, 0);
+  if (open) commands.push({ type: 'Z' });
+  return commands;
+};
+
+// --- Fonts ---
+
+/**
+ * Reads every mapped character of a TTF, OTF or WOFF file. Outlines are scaled so the font's
+ * ascender-to-descender span fills the canvas; characters without an outline (spaces, controls) are left out.
+ */
+export const parseFontFile = async (buffer: ArrayBuffer, fileName: string): Promise<ImportedGlyph[]> => {
+  const tables = await readTables(buffer);
+  const head = tables.get('head');
+  const cmap = tables.get('cmap');
+  if (!head || !cmap) throw new Error('The font has no head or cmap table.');
+  if (tables.has('CFF2')) throw new Error('Variable CFF2 fonts are not supported.');
+
+  const hhea = tables.get('hhea');
+  const ascender = hhea?.getInt16(4) || head.getInt16(42);
+  const descender = hhea?.getInt16(6) || head.getInt16(38);
+  const scale = CANVAS_SIZE / Math.max(1, ascender - descender);
+  const matrix: Matrix = [scale, 0, 0, -scale, 0, ascender * scale]; // y up → canvas y down
+  const numGlyphs = tables.get('maxp')?.getUint16(4) ?? 0;
+  const hmtx = tables.get('hmtx');
+  const metricCount = hhea?.getUint16(34) ?? 0;
+  const advanceOf = (glyph: number): number | undefined =>
+    hmtx && metricCount > 0 ? hmtx.getUint16(Math.min(glyph, metricCount - 1) * 4) : undefined;
+
+  let outline: (glyph: number) => PathCommand[];
+  if (tables.has('glyf') && tables.has('loca')) {
+    const glyf = tables.get('glyf')!;
+    const loca = readLoca(tables, numGlyphs);
+    outline = glyph => readGlyfContours(glyf, loca, glyph).flatMap(quadraticContourToCommands);
+  } else if (tables.has('CFF ')) {
+    const cff = readCff(tables.get('CFF ')!);
+    outline = glyph => readCharString(cff, glyph);
+  } else {
+    throw new Error('The font has neither TrueType (glyf) nor CFF outlines.');
+  }
+
+  const cache = new Map<number, string>();
+  const glyphs: ImportedGlyph[] = [];
+  readCmap(cmap).forEach((glyph, codepoint) => {
+    if (!cache.has(glyph)) cache.set(glyph, commandsToPath(transformCommands(outline(glyph), matrix)));
+    const d = cache.get(glyph)!;
+    if (!d) return;
+    const advance = advanceOf(glyph);
+    glyphs.push({
+      char: String.fromCodePoint(codepoint),
+      layers: [outlineLayer(d, 'nonzero', 'Outline')],
+      viewWidth: advance !== undefined ? Math.min(CANVAS_SIZE, advance * scale) : undefined,
+      source: fileName
+    });
+  });
+  return glyphs.sort((a, b) => a.char.codePointAt(0)! - b.char.codePointAt(0)!);
+};
+
+// --- SVG ---
+
+/** "a.svg" → "a", "uni0061.svg" / "U+0061.svg" → "a"; any other name is kept as a glyph name. */
+export const charFromFileName = (fileName: string): string => {
+  const base = fileName.replace(/^.*[\\/]/, '').replace(/\.svg$/i, '');
+  const code = base.match(/^(?:uni|u\+?)([0-9a-f]{4,6})$/i);
+  if (code) {
+    const cp = parseInt(code[1], 16);
+    if (cp <= 0x10ffff) return String.fromCodePoint(cp);
+  }
+  return base;
+};
+
+const numbers = (text: string | null): number[] => (text || '').trim().split(/[\s,]+/).filter(Boolean).map(Number);
+
+const parseTransform = (text: string | null): Matrix => {
+  let matrix = IDENTITY;
+  const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text || '')) !== null) {
+    const n = numbers(match[2]);
+    let step: Matrix = IDENTITY;
+    switch (match[1]) {
+      case 'matrix': if (n.length === 6) step = n as Matrix; break;
+      case 'translate': step = [1, 0, 0, 1, n[0] || 0, n[1] || 0]; break;
+      case 'scale': step = [n[0] ?? 1, 0, 0, n[1] ?? n[0] ?? 1, 0, 0]; break;
+      case 'rotate': {
+        const a = ((n[0] || 0) * Math.PI) / 180;
+        const [cx, cy] = [n[1] || 0, n[2] || 0];
+        step = multiplyMatrix(multiplyMatrix([1, 0, 0, 1, cx, cy], [Math.cos(a), Math.sin(a), -Math.sin(a), Math.cos(a), 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case 'skewX': step = [1, 0, Math.tan(((n[0] || 0) * Math.PI) / 180), 1, 0, 0]; break;
+      case 'skewY': step = [1, Math.tan(((n[0] || 0) * Math.PI) / 180), 0, 1, 0, 0]; break;
+    }
+    matrix = multiplyMatrix(matrix, step);
+  }
+  return matrix;
+};
+
+/** Path data for the basic shapes; rounded rect corners are ignored. */
+const shapeToPath = (el: Element): string => {
+  const num = (name: string) => parseFloat(el.getAttribute(name) || '0') || 0;
+  switch (el.tagName.toLowerCase()) {
+    case 'path': return el.getAttribute('d') || '';
+    case 'rect': {
+      const [x, y, w, h] = [num('x'), num('y'), num('width'), num('height')];
+      return w > 0 && h > 0 ? `M ${x} ${y} H ${x + w} V ${y + h} H ${x} Z` : '';
+    }
+    case 'circle':
+    case 'ellipse': {
+      const [cx, cy] = [num('cx'), num('cy')];
+      const rx = el.tagName.toLowerCase() === 'circle' ? num('r') : num('rx');
+      const ry = el.tagName.toLowerCase() === 'circle' ? rx : num('ry');
+      return rx > 0 && ry > 0 ? `M ${cx - rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx + rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx - rx} ${cy} Z` : '';
+    }
+    case 'line': return `M ${num('x1')} ${num('y1')} L ${num('x2')} ${num('y2')}`;
+    case 'polyline':
+    case 'polygon': {
+      const n = numbers(el.getAttribute('points'));
+      if (n.length < 4) return '';
+      const pairs = Array.from({ length: n.length >> 1 }, (_, i) => `${n[2 * i]} ${n[2 * i + 1]}`);
+      return `M ${pairs.join(' L ')}${el.tagName.toLowerCase() === 'polygon' ? ' Z' : ''}`;
+    }
+    default: return '';
+  }
+};
+
+interface Paint {
+  fill: string;
+  fillRule: 'nonzero' | 'evenodd';
+  stroke: string;
+  strokeWidth: number;
+  cap: 'round' | 'square';
+  hidden: boolean;
+}
+
+const PAINT_PROPERTIES = ['fill', 'fill-rule', 'stroke', 'stroke-width', 'stroke-linecap', 'display', 'visibility'];
+
+// Presentation attributes, overridden by the inline style
+const readPaint = (el: Element, inherited: Paint): Paint => {
+  const values: Record<string, string> = {};
+  PAINT_PROPERTIES.forEach(name => { const v = el.getAttribute(name); if (v) values[name] = v.trim(); });
+  (el.getAttribute('style') || '').split(';').forEach(rule => {
+    const [name, value] = rule.split(':').map(s => s?.trim());
+    if (name && value && PAINT_PROPERTIES.includes(name)) values[name] = value;
+  });
+  return {
+    fill: values['fill'] ?? inherited.fill,
+    fillRule: values['fill-rule'] === 'evenodd' ? 'evenodd' : values['fill-rule'] === 'nonzero' ? 'nonzero' : inherited.fillRule,
+    stroke: values['stroke'] ?? inherited.stroke,
+    strokeWidth: values['stroke-width'] ? parseFloat(values['stroke-width']) || 1 : inherited.strokeWidth,
+    cap: values['stroke-linecap'] ? (values['stroke-linecap'] === 'round' ? 'round' : 'square') : inherited.cap,
+    hidden: inherited.hidden || values['display'] === 'none' || values['visibility'] === 'hidden'
+  };
+};
+
+const SKIPPED_ELEMENTS = ['defs', 'clippath', 'mask', 'symbol', 'marker', 'pattern', 'title', 'desc', 'metadata', 'style', 'script'];
+
+/**
+ * One SVG file as a glyph. The viewBox is fitted into the canvas; filled shapes become filled
+ * layers and stroked shapes stroke layers, so line-art SVGs stay editable as strokes.
+ */
+export const parseSvgGlyph = (svgText: string, fileName: string): ImportedGlyph | null => {
+  const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (root.tagName.toLowerCase() !== 'svg' || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`${fileName} is not a valid SVG file.`);
+  }
+  const viewBox = numbers(root.getAttribute('viewBox'));
+  const [minX, minY, width, height] = viewBox.length === 4 ? viewBox
+    : [0, 0, parseFloat(root.getAttribute('width') || '') || CANVAS_SIZE, parseFloat(root.getAttribute('height') || '') || CANVAS_SIZE];
+  const scale = CANVAS_SIZE / Math.max(width, height, 1);
+  const fit: Matrix = [scale, 0, 0, scale, -minX * scale, -minY * scale];
+
+  const layers: GlyphStroke[] = [];
+  const walk = (el: Element, matrix: Matrix, inherited: Paint) => {
+    const tag = el.tagName.toLowerCase();
+    if (SKIPPED_ELEMENTS.includes(tag)) return;
+    const paint = readPaint(el, inherited);
+    if (paint.hidden) return;
+    const ctm = multiplyMatrix(matrix, parseTransform(el.getAttribute('transform')));
+    const raw = shapeToPath(el);
+    if (raw) {
+      const d = commandsToPath(transformCommands(parsePath(raw), ctm));
+      const label = el.getAttribute('id') || tag;
+      if (d && paint.fill !== 'none' && tag !== 'line' && tag !== 'polyline') layers.push(outlineLayer(d, paint.fillRule, label));
+      if (d && paint.stroke !== 'none') {
+        const strokeScale = Math.sqrt(Math.abs(ctm[0] * ctm[3] - ctm[1] * ctm[2]));
+        layers.push({ ...outlineLayer(d, 'nonzero', label), fill: undefined, strokeWidth: paint.strokeWidth * strokeScale, width: paint.strokeWidth * strokeScale, cap: paint.cap });
+      }
+    }
+    Array.from(el.children).forEach(child => walk(child, ctm, paint));
+  };
+  walk(root, fit, { fill: '#000', fillRule: 'nonzero', stroke: 'none', strokeWidth: 1, cap: 'square', hidden: false });
+
+  if (layers.length === 0) return null;
+  return { char: charFromFileName(fileName), layers, viewWidth: Math.min(CANVAS_SIZE, width * scale), source: fileName };
+};
+
+// --- Review ---
+
+/** New characters are added; existing glyphs are kept until the user decides. */
+export const defaultImportAction = (glyph: ImportedGlyph, config: ScriptConfig): ImportAction =>
+  config.glyphs.some(g => g.char === glyph.char) ? 'skip' : 'add';
+
+/** Applies the reviewed actions. Replacing keeps the glyph's PUA point, mark flag and anchors. */
+export const applyImport = (config: ScriptConfig, glyphs: ImportedGlyph[], actions: Record<string, ImportAction>): ScriptConfig => {
+  const next: ScriptConfig = { ...config, glyphs: [...config.glyphs] };
+  glyphs.forEach(imported => {
+    const action = actions[imported.char] ?? defaultImportAction(imported, config);
+    if (action === 'skip') return;
+    const index = next.glyphs.findIndex(g => g.char === imported.char);
+    if (index >= 0 && action !== 'add') {
+      const existing = next.glyphs[index];
+      next.glyphs[index] = action === 'replace'
+        ? { ...existing, strokes: imported.layers, viewWidth: imported.viewWidth ?? existing.viewWidth }
+        : { ...existing, strokes: [...existing.strokes, ...imported.layers] };
+    } else if (index < 0) {
+      const glyph: ScriptGlyph = { char: imported.char, pua: defaultPua(imported.char, next), strokes: imported.layers, viewWidth: imported.viewWidth };
+      next.glyphs.push(glyph);
+    }
+  });
+  return next;
+};
@@ -0,0 +1,437 @@
+import { GlyphStroke, ScriptGlyph } from "../types";
+
+/**
+ * Geometry for glyph strokes: SVG path parsing, flattening and stroke expansion.
+ * Strokes are drawn as centre lines with a width; fonts need filled outlines,
+ * so each stroke is expanded into overlapping contours (segment bodies plus
+ * round joins and caps) that a non-zero fill merges into the visible shape.
+ * Filled layers are already outlines and only need their winding made consistent.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type PathCommand =
+  | { type: 'M'; to: Point }
+  | { type: 'L'; to: Point }
+  | { type: 'Q'; c: Point; to: Point }
+  | { type: 'C'; c1: Point; c2: Point; to: Point }
+  | { type: 'Z' };
+
+export interface Polyline {
+  points: Point[];
+  closed: boolean;
+}
+
+/** Outline point as TrueType stores it: quadratic off-curve control points between on-curve points. */
+export interface OutlinePoint extends Point {
+  onCurve: boolean;
+}
+
+export type Contour = OutlinePoint[];
+
+const ARGS: Record<string, number> = { M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0 };
+const FLATTEN_STEP = 6; // Canvas units per sampled curve segment
+const SIMPLIFY_TOLERANCE = 0.75;
+const CIRCLE_SEGMENTS = 8;
+
+// --- Parsing ---
+
+const NUMBER = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/y;
+
+const tokenizePath = (d: string): Array<string | number> => {
+  const tokens: Array<string | number> = [];
+  let command = '';
+  let argIndex = 0;
+  let i = 0;
+  while (i < d.length) {
+    const ch = d[i];
+    if (/[\s,]/.test(ch)) { i++; continue; }
+    if (/[MLHVCSQTAZ]/i.test(ch)) {
+      tokens.push(ch);
+      command = ch.toUpperCase();
+      argIndex = 0;
+      i++;
+      continue;
+    }
+    // Arc flags are single digits that minified files write without separators ("a5 5 0 011 1")
+    if (command === 'A' && (argIndex % 7 === 3 || argIndex % 7 === 4) && (ch === '0' || ch === '1')) {
+      tokens.push(Number(ch));
+      argIndex++;
+      i++;
+      continue;
+    }
+    NUMBER.lastIndex = i;
+    const match = NUMBER.exec(d);
+    if (!match) { i++; continue; }
+    tokens.push(parseFloat(match[0]));
+    argIndex++;
+    i += match[0].length;
+  }
+  return tokens;
+};
+
+// SVG elliptical arc → cubic Béziers of at most 90° each (endpoint to centre parameterisation)
+const arcToCubics = (from: Point, rx: number, ry: number, angle: number, largeArc: boolean, sweep: boolean, to: Point): PathCommand[] => {
+  if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) return [{ type: 'L', to }];
+  const phi = (angle * Math.PI) / 180;
+  const cos = Math.cos(phi), sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2, dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy, y1 = -sin * dx + cos * dy;
+  rx = Math.abs(rx); ry = Math.abs(ry);
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) { rx *= Math.sqrt(lambda); ry *= Math.sqrt(lambda); }
+  const num = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const den = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const coef = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+  const cx1 = coef * (rx * y1) / ry, cy1 = coef * -(ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+  const vectorAngle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta = vectorAngle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = vectorAngle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const segments = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+  const step = delta / segments;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const at = (t: number) => ({
+    x: cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+    y: cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos
+  });
+  const derivative = (t: number) => ({
+    x: -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+    y: -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos
+  });
+  const commands: PathCommand[] = [];
+  for (let i = 0; i < segments; i++) {
+    const t1 = theta + i * step, t2 = t1 + step;
+    const p1 = at(t1), p2 = i === segments - 1 ? to : at(t2);
+    const d1 = derivative(t1), d2 = derivative(t2);
+    commands.push({ type: 'C', c1: { x: p1.x + k * d1.x, y: p1.y + k * d1.y }, c2: { x: p2.x - k * d2.x, y: p2.y - k * d2.y }, to: p2 });
+  }
+  return commands;
+};
+
+/**
+ * Parses SVG path data into absolute M/L/Q/C/Z commands.
+ * H/V become lines, S/T get their reflected control point, arcs become cubics.
+ */
+export const parsePath = (d: string): PathCommand[] => {
+  const tokens = tokenizePath(d);
+  const commands: PathCommand[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let start: Point = { x: 0, y: 0 };
+  let lastControl: Point | null = null;
+  let lastType = '';
+  let command = '';
+  let i = 0;
+
+  while (i < tokens.length) {
+    if (typeof tokens[i] === 'string') command = tokens[i++] as string;
+    else if (!command) { i++; continue; }
+    const upper = command.toUpperCase();
+    const relative = command !== upper;
+    const count = ARGS[upper];
+    if (upper === 'Z') {
+      commands.push({ type: 'Z' });
+      current = start;
+      lastControl = null;
+      lastType = 'Z';
+      command = '';
+      continue;
+    }
+    const args = tokens.slice(i, i + count);
+    if (args.length < count || args.some(a => typeof a !== 'number')) break;
+    i += count;
+    const n = args as number[];
+    const abs = (x: number, y: number): Point => relative ? { x: current.x + x, y: current.y + y } : { x, y };
+
+    switch (upper) {
+      case 'M':
+        current = start = abs(n[0], n[1]);
+        commands.push({ type: 'M', to: current });
+        command = relative ? 'l' : 'L'; // Further pairs are implicit line-tos
+        lastControl = null;
+        break;
+      case 'L':
+      case 'H':
+      case 'V': {
+        const to = upper === 'L' ? abs(n[0], n[1])
+          : upper === 'H' ? { x: relative ? current.x + n[0] : n[0], y: current.y }
+          : { x: current.x, y: relative ? current.y + n[0] : n[0] };
+        commands.push({ type: 'L', to });
+        current = to;
+        lastControl = null;
+        break;
+      }
+      case 'C':
+      case 'S': {
+        const c1 = upper === 'C' ? abs(n[0], n[1])
+          : lastControl && (lastType === 'C' || lastType === 'S') ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y } : current;
+        const c2 = upper === 'C' ? abs(n[2], n[3]) : abs(n[0], n[1]);
+        const to = upper === 'C' ? abs(n[4], n[5]) : abs(n[2], n[3]);
+        commands.push({ type: 'C', c1, c2, to });
+        lastControl = c2;
+        current = to;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const c = upper === 'Q' ? abs(n[0], n[1])
+          : lastControl && (lastType === 'Q' || lastType === 'T') ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y } : current;
+        const to = upper === 'Q' ? abs(n[2], n[3]) : abs(n[0], n[1]);
+        commands.push({ type: 'Q', c, to });
+        lastControl = c;
+        current = to;
+        break;
+      }
+      case 'A': {
+        const to = abs(n[5], n[6]);
+        commands.push(...arcToCubics(current, n[0], n[1], n[2], n[3] !== 0, n[4] !== 0, to));
+        current = to;
+        lastControl = null;
+        break;
+      }
+    }
+    lastType = upper;
+  }
+  return commands;
+};
+
+/** 2D affine matrix in SVG order: x' = a·x + c·y + e, y' = b·x + d·y + f. */
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+export const multiplyMatrix = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1], m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3], m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4], m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+const applyMatrix = (m: Matrix, p: Point): Point => ({ x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] });
+
+/** Arcs are already cubics after parsing, so every command survives an affine transform exactly. */
+export const transformCommands = (commands: PathCommand[], m: Matrix): PathCommand[] =>
+  commands.map(cmd => {
+    switch (cmd.type) {
+      case 'M':
+      case 'L': return { type: cmd.type, to: applyMatrix(m, cmd.to) };
+      case 'Q': return { type: 'Q', c: applyMatrix(m, cmd.c), to: applyMatrix(m, cmd.to) };
+      case 'C': return { type: 'C', c1: applyMatrix(m, cmd.c1), c2: applyMatrix(m, cmd.c2), to: applyMatrix(m, cmd.to) };
+      default: return cmd;
+    }
+  });
+
+const coord = (p: Point) => `${+p.x.toFixed(1)} ${+p.y.toFixed(1)}`;
+
+/** Path data for the commands, rounded to a tenth of a canvas unit. */
+export const commandsToPath = (commands: PathCommand[]): string =>
+  commands.map(cmd => {
+    switch (cmd.type) {
+      case 'M':
+      case 'L': return `${cmd.type} ${coord(cmd.to)}`;
+      case 'Q': return `Q ${coord(cmd.c)} ${coord(cmd.to)}`;
+      case 'C': return `C ${coord(cmd.c1)} ${coord(cmd.c2)} ${coord(cmd.to)}`;
+      default: return 'Z';
+    }
+  }).join(' ');
+
+// --- Flattening ---
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const sampleCount = (...points: Point[]) => {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) length += distance(points[i - 1], points[i]);
+  return Math.max(2, Math.ceil(length / FLATTEN_STEP));
+};
+
+// Ramer–Douglas–Peucker: freehand strokes record every mouse move
+export const simplify = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 3) return points;
+  const first = points[0], last = points[points.length - 1];
+  const length = distance(first, last);
+  let maxDist = 0, index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const p = points[i];
+    const dist = length === 0 ? distance(p, first)
+      : Math.abs((last.x - first.x) * (first.y - p.y) - (first.x - p.x) * (last.y - first.y)) / length;
+    if (dist > maxDist) { maxDist = dist; index = i; }
+  }
+  if (maxDist <= tolerance) return [first, last];
+  return [...simplify(points.slice(0, index + 1), tolerance).slice(0, -1), ...simplify(points.slice(index), tolerance)];
+};
+
+/** Turns path commands into polylines, one per subpath. */
+export const flattenPath = (commands: PathCommand[]): Polyline[] => {
+  const polylines: Polyline[] = [];
+  let current: Polyline | null = null;
+  let position: Point = { x: 0, y: 0 };
+
+  const ensure = () => {
+    if (!current) {
+      current = { points: [position], closed: false };
+      polylines.push(current);
+    }
+    return current;
+  };
+
+  commands.forEach(cmd => {
+    if (cmd.type === 'M') {
+      current = { points: [cmd.to], closed: false };
+      polylines.push(current);
+      position = cmd.to;
+    } else if (cmd.type === 'L') {
+      ensure().points.push(cmd.to);
+      position = cmd.to;
+    } else if (cmd.type === 'Q') {
+      const line = ensure();
+      const from = position;
+      const steps = sampleCount(from, cmd.c, cmd.to);
+      for (let s = 1; s <= steps; s++) {
+        const t = s / steps, mt = 1 - t;
+        line.points.push({ x: mt * mt * from.x + 2 * mt * t * cmd.c.x + t * t * cmd.to.x, y: mt * mt * from.y + 2 * mt * t * cmd.c.y + t * t * cmd.to.y });
+      }
+      position = cmd.to;
+    } else if (cmd.type === 'C') {
+      const line = ensure();
+      const from = position;
+      const steps = sampleCount(from, cmd.c1, cmd.c2, cmd.to);
+      for (let s = 1; s <= steps; s++) {
+        const t = s / steps, mt = 1 - t;
+        line.points.push({
+          x: mt * mt * mt * from.x + 3 * mt * mt * t * cmd.c1.x + 3 * mt * t * t * cmd.c2.x + t * t * t * cmd.to.x,
+          y: mt * mt * mt * from.y + 3 * mt * mt * t * cmd.c1.y + 3 * mt * t * t * cmd.c2.y + t * t * t * cmd.to.y
+        });
+      }
+      position = cmd.to;
+    } else if (current) {
+      current.closed = true;
+      position = current.points[0];
+      current = null;
+    }
+  });
+
+  return polylines.map(line => {
+    const deduped = line.points.filter((p, i) => i === 0 || distance(p, line.points[i - 1]) > 0.01);
+    // A subpath that returns to its start (like the app's two-arc circles) is closed even without Z
+    const returns = deduped.length > 2 && distance(deduped[0], deduped[deduped.length - 1]) < 0.5;
+    const points = returns ? deduped.slice(0, -1) : deduped;
+    return { points: simplify(points, SIMPLIFY_TOLERANCE), closed: line.closed || returns };
+  });
+};
+
+// --- Stroke expansion ---
+
+/** Circle as 8 quadratic arcs; the control points sit on the tangents, 1/cos(22.5°) out. */
+export const circleContour = (center: Point, radius: number): Contour => {
+  const contour: Contour = [];
+  const controlRadius = radius / Math.cos(Math.PI / CIRCLE_SEGMENTS);
+  for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+    const a = (i * 2 * Math.PI) / CIRCLE_SEGMENTS;
+    const mid = a + Math.PI / CIRCLE_SEGMENTS;
+    contour.push({ x: center.x + radius * Math.cos(a), y: center.y + radius * Math.sin(a), onCurve: true });
+    contour.push({ x: center.x + controlRadius * Math.cos(mid), y: center.y + controlRadius * Math.sin(mid), onCurve: false });
+  }
+  return contour;
+};
+
+const squareContour = (center: Point, half: number): Contour => [
+  { x: center.x - half, y: center.y - half, onCurve: true },
+  { x: center.x + half, y: center.y - half, onCurve: true },
+  { x: center.x + half, y: center.y + half, onCurve: true },
+  { x: center.x - half, y: center.y + half, onCurve: true }
+];
+
+/**
+ * Expands a polyline into filled contours for the given stroke width.
+ * Joins are round (as the renderer draws them); caps follow the stroke.
+ */
+export const strokeToContours = (line: Polyline, width: number, cap: 'round' | 'square'): Contour[] => {
+  const half = Math.max(0.5, width / 2);
+  const points = line.closed && line.points.length > 2 ? [...line.points, line.points[0]] : line.points;
+  if (points.length === 0) return [];
+  if (points.length === 1) return [cap === 'round' ? circleContour(points[0], half) : squareContour(points[0], half)];
+
+  const contours: Contour[] = [];
+  for (let i = 1; i < points.length; i++) {
+    let a = points[i - 1], b = points[i];
+    const len = distance(a, b);
+    if (len === 0) continue;
+    const ux = (b.x - a.x) / len, uy = (b.y - a.y) / len;
+    if (cap === 'square' && !line.closed) {
+      if (i === 1) a = { x: a.x - ux * half, y: a.y - uy * half };
+      if (i === points.length - 1) b = { x: b.x + ux * half, y: b.y + uy * half };
+    }
+    const nx = -uy * half, ny = ux * half;
+    contours.push([
+      { x: a.x + nx, y: a.y + ny, onCurve: true },
+      { x: b.x + nx, y: b.y + ny, onCurve: true },
+      { x: b.x - nx, y: b.y - ny, onCurve: true },
+      { x: a.x - nx, y: a.y - ny, onCurve: true }
+    ]);
+  }
+  points.forEach((p, i) => {
+    const isEnd = i === 0 || i === points.length - 1;
+    if (isEnd && !line.closed) {
+      if (cap === 'round') contours.push(circleContour(p, half));
+    } else if (i < points.length - 1) {
+      contours.push(circleContour(p, half));
+    }
+  });
+  return contours;
+};
+
+/** Shoelace area; positive for contours that run clockwise on the canvas (y down). */
+export const signedArea = (contour: Point[]) =>
+  contour.reduce((sum, p, i) => {
+    const next = contour[(i + 1) % contour.length];
+    return sum + (p.x * next.y - next.x * p.y);
+  }, 0) / 2;
+
+const orient = (contour: Contour, solid: boolean): Contour =>
+  (signedArea(contour) > 0) === solid ? contour : [...contour].reverse();
+
+const containsPoint = (polygon: Point[], p: Point): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i], b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Filled layers (imported outlines) keep their holes: even-odd contours are turned by how
+ * deeply they nest, non-zero contours keep their relative direction with the largest one solid.
+ */
+const fillContours = (stroke: GlyphStroke): Contour[] => {
+  const rings: Contour[] = flattenPath(parsePath(stroke.d))
+    .filter(line => line.points.length >= 3)
+    .map(line => line.points.map(p => ({ ...p, onCurve: true })));
+  if (rings.length === 0) return [];
+  if (stroke.fill === 'evenodd') {
+    return rings.map(ring => orient(ring, rings.filter(other => other !== ring && containsPoint(other, ring[0])).length % 2 === 0));
+  }
+  const largest = rings.reduce((best, ring) => Math.abs(signedArea(ring)) > Math.abs(signedArea(best)) ? ring : best);
+  return signedArea(largest) > 0 ? rings : rings.map(ring => [...ring].reverse());
+};
+
+const strokeContours = (stroke: GlyphStroke): Contour[] => {
+  if (!stroke.visible || stroke.type === 'image' || !stroke.d?.trim()) return [];
+  if (stroke.fill) return fillContours(stroke);
+  const width = stroke.strokeWidth || 15;
+  return flattenPath(parsePath(stroke.d)).flatMap(line => strokeToContours(line, width, stroke.cap || 'round')).map(c => orient(c, true));
+};
+
+/**
+ * All contours of a glyph in canvas coordinates (y down), solid ones clockwise and holes
+ * counter-clockwise. Image layers are references and are skipped.
+ */
+export const glyphToContours = (glyph: ScriptGlyph): Contour[] =>
+  (glyph.strokes || []).flatMap(strokeContours);
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { formatBrackets, parseGrammar, parseSentence } from './grammarService';
+import { LexiconEntry } from '../types';
+
+const entry = (word: string, pos: string): LexiconEntry => ({ id: word, word, ipa: '', pos, definition: '' });
+const entries = [entry('cat', 'Noun'), entry('dog', 'Noun'), entry('sleeps', 'Verb'), entry('the', 'Determiner')];
+const POS = ['Noun', 'Verb', 'Determiner'];
+
+describe('parseGrammar', () => {
+  it('reads rules with EBNF sugar', () => {
+    const grammar = parseGrammar('S ::= NP VP\nNP ::= Determiner? Noun\nVP ::= Verb', POS);
+    expect(grammar.errors).toEqual([]);
+    expect(grammar.ruleNames).toEqual(['S', 'NP', 'VP']);
+  });
+
+  it('keeps the next rule after an unclosed bracket', () => {
+    const grammar = parseGrammar('S ::= NP (VP\nNP ::= Noun\nVP ::= Verb', POS);
+    expect(grammar.ruleNames).toEqual(['NP', 'VP']);
+    expect(grammar.errors).toHaveLength(1);
+    expect(grammar.errors[0].message).toBe('Unclosed "("');
+  });
+});
+
+describe('parseSentence', () => {
+  it('builds a tree for a grammatical sentence', () => {
+    const grammar = parseGrammar('S ::= NP VP\nNP ::= Determiner? Noun\nVP ::= Verb', POS);
+    const parse = parseSentence('The cat sleeps.', grammar, entries);
+    expect(parse.error).toBeUndefined();
+    expect(parse.trees.map(formatBrackets)).toEqual(['[S [NP [Determiner the] [Noun cat]] [VP [Verb sleeps]]]']);
+  });
+
+  it('gives one reading for a repeated repeat', () => {
+    const grammar = parseGrammar('S ::= {Noun}+ Verb', POS);
+    const parse = parseSentence('cat dog sleeps', grammar, entries);
+    expect(parse.trees).toHaveLength(1);
+    expect(formatBrackets(parse.trees[0])).toBe('[S [Noun cat] [Noun dog] [Verb sleeps]]');
+  });
+
+  it('reports where a sentence stops matching', () => {
+    const grammar = parseGrammar('S ::= Noun Verb', POS);
+    const parse = parseSentence('sleeps cat', grammar, entries);
+    expect(parse.trees).toEqual([]);
+    expect(parse.error?.position).toBe(0);
+  });
+});
@@ -0,0 +1,461 @@
+import { LexiconEntry } from "../types";
+
+/**
+ * BNF/EBNF grammars for the syntax editor, and a local Earley parser for test sentences.
+ *
+ * Grammar syntax (one or more lines per rule, `//` or `;` start a comment):
+ *   S  ::= NP VP                  `->` and `→` work as well as `::=`
+ *   NP ::= Determiner? Adjective* Noun | Pronoun
+ *   VP ::= Verb [NP] {PP}         `[x]` optional, `{x}` zero or more, `( )` grouping, `? * +` postfix
+ *   PP ::= "at" NP                quoted strings are literal words
+ * Identifiers that are not rules are parts of speech, resolved through the lexicon.
+ */
+
+export interface GrammarError {
+  line: number;
+  column: number;
+  message: string;
+}
+
+export type GrammarTerm =
+  | { kind: 'rule'; name: string }
+  | { kind: 'pos'; name: string }
+  | { kind: 'literal'; value: string };
+
+export interface Production {
+  lhs: string;
+  rhs: GrammarTerm[];
+}
+
+export interface Grammar {
+  start: string | null;
+  ruleNames: string[]; // As written, in order
+  productions: Production[];
+  errors: GrammarError[];
+}
+
+export interface ParseTree {
+  symbol: string;
+  word?: string; // Set on leaves
+  children: ParseTree[];
+}
+
+export interface SentenceParse {
+  tokens: string[];
+  trees: ParseTree[]; // More than one = ambiguous
+  truncated: boolean; // More readings exist than MAX_TREES
+  unknownWords: string[];
+  error?: { position: number; message: string };
+}
+
+export const MAX_TREES = 8;
+// Helper rules produced by EBNF desugaring carry this marker and are spliced out of trees
+const HELPER_MARK = '~';
+
+// --- Tokenizer ---
+
+type TokenType = 'ident' | 'string' | 'define' | 'pipe' | 'open' | 'close' | 'postfix' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+  column: number;
+}
+
+class GrammarSyntaxError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(message);
+  }
+}
+
+const tokenizeGrammar = (source: string): { tokens: Token[]; errors: GrammarError[] } => {
+  const tokens: Token[] = [];
+  const errors: GrammarError[] = [];
+
+  source.split('\n').forEach((text, lineIdx) => {
+    const line = lineIdx + 1;
+    let i = 0;
+    while (i < text.length) {
+      const char = text[i];
+      const column = i + 1;
+      const rest = text.slice(i);
+
+      if (/\s/.test(char)) { i++; continue; }
+      if (rest.startsWith('//') || char === ';') break;
+
+      const define = ['::=', '->', '→'].find(op => rest.startsWith(op));
+      if (define) {
+        tokens.push({ type: 'define', value: define, line, column });
+        i += define.length;
+      } else if (char === '"' || char === "'") {
+        const close = text.indexOf(char, i + 1);
+        if (close === -1) {
+          errors.push({ line, column, message: `Unterminated string` });
+          break;
+        }
+        tokens.push({ type: 'string', value: text.slice(i + 1, close), line, column });
+        i = close + 1;
+      } else if (char === '<') {
+        const close = text.indexOf('>', i + 1);
+        if (close === -1) {
+          errors.push({ line, column, message: `Unclosed "<"` });
+          break;
+        }
+        tokens.push({ type: 'ident', value: text.slice(i + 1, close).trim(), line, column });
+        i = close + 1;
+      } else if (/[\p{L}\p{N}_]/u.test(char)) {
+        const match = rest.match(/^[\p{L}\p{N}_-]+/u)!;
+        tokens.push({ type: 'ident', value: match[0], line, column });
+        i += match[0].length;
+      } else if (char === '|') {
+        tokens.push({ type: 'pipe', value: char, line, column }); i++;
+      } else if ('([{'.includes(char)) {
+        tokens.push({ type: 'open', value: char, line, column }); i++;
+      } else if (')]}'.includes(char)) {
+        tokens.push({ type: 'close', value: char, line, column }); i++;
+      } else if ('?*+'.includes(char)) {
+        tokens.push({ type: 'postfix', value: char, line, column }); i++;
+      } else {
+        errors.push({ line, column, message: `Unexpected character "${char}"` });
+        i++;
+      }
+    }
+  });
+
+  const last = tokens[tokens.length - 1];
+  tokens.push({ type: 'eof', value: '', line: last ? last.line : 1, column: last ? last.column + last.value.length : 1 });
+  return { tokens, errors };
+};
+
+// --- Rule parser (recursive descent) ---
+
+type Expr =
+  | { type: 'alt'; options: Expr[] }
+  | { type: 'seq'; items: Expr[] }
+  | { type: 'ident'; name: string; token: Token }
+  | { type: 'literal'; value: string }
+  | { type: 'repeat'; mode: RepeatMode; expr: Expr };
+
+type RepeatMode = '?' | '*' | '+';
+
+/**
+ * Wraps an expression in a repeat. A repeat of a repeat (`{Noun}+`, `(Adj?)*`) is folded into one,
+ * since nesting them only derives the same words in several ways and yields identical trees.
+ */
+const repeatOf = (expr: Expr, mode: RepeatMode): Expr => {
+  if (expr.type !== 'repeat') return { type: 'repeat', mode, expr };
+  const combined: RepeatMode = expr.mode === mode ? mode : '*';
+  return { type: 'repeat', mode: combined, expr: expr.expr };
+};
+
+const CLOSERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+const parseRules = (tokens: Token[]): { rules: Array<{ name: string; token: Token; expr: Expr }>; errors: GrammarError[] } => {
+  const rules: Array<{ name: string; token: Token; expr: Expr }> = [];
+  const errors: GrammarError[] = [];
+  let pos = 0;
+
+  const peek = (offset = 0) => tokens[Math.min(pos + offset, tokens.length - 1)];
+  const atRuleStart = () => peek().type === 'ident' && peek(1).type === 'define';
+  const fail = (token: Token, message: string): never => { throw new GrammarSyntaxError(message, token.line, token.column); };
+
+  const parseAlternatives = (closer?: string): Expr => {
+    const options: Expr[] = [parseSequence(closer)];
+    while (peek().type === 'pipe') {
+      pos++;
+      options.push(parseSequence(closer));
+    }
+    return options.length === 1 ? options[0] : { type: 'alt', options };
+  };
+
+  const parseSequence = (closer?: string): Expr => {
+    const items: Expr[] = [];
+    while (true) {
+      const token = peek();
+      if (token.type === 'eof' || token.type === 'pipe' || atRuleStart()) break;
+      if (token.type === 'close') {
+        if (token.value === closer) break;
+        fail(token, `Unexpected "${token.value}"`);
+      }
+      if (token.type === 'define') fail(token, `Unexpected "${token.value}"; a rule name must come first`);
+      items.push(parseTerm());
+    }
+    return items.length === 1 ? items[0] : { type: 'seq', items };
+  };
+
+  const parseTerm = (): Expr => {
+    const token = peek();
+    let expr: Expr;
+    if (token.type === 'ident') {
+      pos++;
+      expr = { type: 'ident', name: token.value, token };
+    } else if (token.type === 'string') {
+      pos++;
+      expr = { type: 'literal', value: token.value };
+    } else if (token.type === 'open') {
+      pos++;
+      const inner = parseAlternatives(CLOSERS[token.value]);
+      const close = peek();
+      if (close.type !== 'close' || close.value !== CLOSERS[token.value]) fail(token, `Unclosed "${token.value}"`);
+      pos++;
+      expr = token.value === '[' ? repeatOf(inner, '?')
+        : token.value === '{' ? repeatOf(inner, '*')
+        : inner;
+    } else {
+      return fail(token, `Unexpected "${token.value}"`);
+    }
+    while (peek().type === 'postfix') {
+      expr = repeatOf(expr, peek().value as RepeatMode);
+      pos++;
+    }
+    return expr;
+  };
+
+  while (peek().type !== 'eof') {
+    const token = peek();
+    try {
+      if (!atRuleStart()) fail(token, token.type === 'ident' ? `Expected "::=" after "${token.value}"` : `Expected a rule name, found "${token.value}"`);
+      pos += 2;
+      rules.push({ name: token.value, token, expr: parseAlternatives() });
+    } catch (e) {
+      if (!(e instanceof GrammarSyntaxError)) throw e;
+      errors.push({ line: e.line, column: e.column, message: e.message });
+      // Resynchronise at the next rule definition; after an unclosed bracket the failing token may already start it
+      if (!atRuleStart()) pos++;
+      while (peek().type !== 'eof' && !atRuleStart()) pos++;
+    }
+  }
+  return { rules, errors };
+};
+
+// --- Desugaring to plain productions ---
+
+/**
+ * Parses grammar text into productions. Identifiers that are neither rules nor
+ * one of `posNames` are reported as errors; POS names match case-insensitively.
+ */
+export const parseGrammar = (source: string, posNames: string[]): Grammar => {
+  const { tokens, errors: lexErrors } = tokenizeGrammar(source);
+  const { rules, errors: parseErrors } = parseRules(tokens);
+  const errors = [...lexErrors, ...parseErrors];
+  const ruleNames = Array.from(new Set(rules.map(r => r.name)));
+  const posByLower = new Map(posNames.map(p => [p.toLowerCase(), p]));
+  const productions: Production[] = [];
+  let helperCount = 0;
+
+  const toTerms = (expr: Expr, owner: string): GrammarTerm[][] => {
+    switch (expr.type) {
+      case 'ident': {
+        if (ruleNames.includes(expr.name)) return [[{ kind: 'rule', name: expr.name }]];
+        const pos = posByLower.get(expr.name.toLowerCase());
+        if (pos) return [[{ kind: 'pos', name: pos }]];
+        errors.push({ line: expr.token.line, column: expr.token.column, message: `"${expr.name}" is neither a rule nor a part of speech` });
+        return [[]];
+      }
+      case 'literal':
+        return [[{ kind: 'literal', value: expr.value.toLowerCase() }]];
+      case 'seq':
+        return [expr.items.reduce<GrammarTerm[]>((acc, item) => [...acc, ...inline(item, owner)], [])];
+      case 'alt':
+        return expr.options.flatMap(option => toTerms(option, owner));
+      case 'repeat': {
+        const helper = `${owner}${HELPER_MARK}${++helperCount}`;
+        const bodies = toTerms(expr.expr, owner);
+        const self: GrammarTerm = { kind: 'rule', name: helper };
+        if (expr.mode === '?') productions.push({ lhs: helper, rhs: [] }, ...bodies.map(rhs => ({ lhs: helper, rhs })));
+        if (expr.mode === '*') productions.push({ lhs: helper, rhs: [] }, ...bodies.map(rhs => ({ lhs: helper, rhs: [self, ...rhs] })));
+        if (expr.mode === '+') productions.push(...bodies.map(rhs => ({ lhs: helper, rhs })), ...bodies.map(rhs => ({ lhs: helper, rhs: [self, ...rhs] })));
+        return [[self]];
+      }
+    }
+  };
+
+  // A nested alternative inside a sequence becomes its own helper rule
+  const inline = (expr: Expr, owner: string): GrammarTerm[] => {
+    const alternatives = toTerms(expr, owner);
+    if (alternatives.length === 1) return alternatives[0];
+    const helper = `${owner}${HELPER_MARK}${++helperCount}`;
+    productions.push(...alternatives.map(rhs => ({ lhs: helper, rhs })));
+    return [{ kind: 'rule', name: helper }];
+  };
+
+  rules.forEach(rule => {
+    toTerms(rule.expr, rule.name).forEach(rhs => productions.push({ lhs: rule.name, rhs }));
+  });
+
+  errors.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { start: ruleNames[0] || null, ruleNames, productions, errors };
+};
+
+/** Every POS the grammar can refer to: the standard list plus any used in the lexicon. */
+export const collectPosNames = (entries: LexiconEntry[], standard: readonly string[]): string[] =>
+  Array.from(new Set([...standard, ...entries.map(e => e.pos).filter(Boolean)]));
+
+// --- Earley parser ---
+
+interface EarleyItem {
+  production: number;
+  dot: number;
+  origin: number;
+}
+
+/** Lowercased words with surrounding punctuation removed. */
+export const tokenizeSentence = (sentence: string): string[] =>
+  sentence.toLowerCase().split(/\s+/).map(w => w.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')).filter(Boolean);
+
+const computeNullable = (productions: Production[]): Set<string> => {
+  const nullable = new Set<string>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    productions.forEach(p => {
+      if (!nullable.has(p.lhs) && p.rhs.every(t => t.kind === 'rule' && nullable.has(t.name))) {
+        nullable.add(p.lhs);
+        changed = true;
+      }
+    });
+  }
+  return nullable;
+};
+
+const describeTerm = (term: GrammarTerm) => term.kind === 'literal' ? `"${term.value}"` : term.name;
+
+/**
+ * Parses a sentence against the grammar. Each word's parts of speech come from
+ * lexicon entries with that spelling; quoted literals in the grammar match directly.
+ */
+export const parseSentence = (sentence: string, grammar: Grammar, entries: LexiconEntry[]): SentenceParse => {
+  const tokens = tokenizeSentence(sentence);
+  const result: SentenceParse = { tokens, trees: [], truncated: false, unknownWords: [] };
+  if (!grammar.start) return { ...result, error: { position: 0, message: 'The grammar has no rules.' } };
+
+  const literals = new Set(grammar.productions.flatMap(p => p.rhs.filter(t => t.kind === 'literal').map(t => (t as { value: string }).value)));
+  const tokenPos = tokens.map(token => new Set(entries.filter(e => e.word.toLowerCase() === token).map(e => e.pos.toLowerCase())));
+  result.unknownWords = tokens.filter((token, i) => tokenPos[i].size === 0 && !literals.has(token));
+
+  const matches = (term: GrammarTerm, i: number) =>
+    term.kind === 'literal' ? tokens[i] === term.value : term.kind === 'pos' && tokenPos[i].has(term.name.toLowerCase());
+
+  const { productions } = grammar;
+  const nullable = computeNullable(productions);
+  const byLhs = new Map<string, number[]>();
+  productions.forEach((p, idx) => byLhs.set(p.lhs, [...(byLhs.get(p.lhs) || []), idx]));
+
+  const chart: EarleyItem[][] = tokens.map(() => []).concat([[]]);
+  const seen: Set<string>[] = chart.map(() => new Set());
+  // completed[end] holds "symbol@start" for every finished constituent
+  const completed: Set<string>[] = chart.map(() => new Set());
+
+  const add = (set: number, item: EarleyItem) => {
+    const key = `${item.production}:${item.dot}:${item.origin}`;
+    if (seen[set].has(key)) return;
+    seen[set].add(key);
+    chart[set].push(item);
+  };
+
+  (byLhs.get(grammar.start) || []).forEach(production => add(0, { production, dot: 0, origin: 0 }));
+
+  for (let i = 0; i < chart.length; i++) {
+    for (let k = 0; k < chart[i].length; k++) {
+      const item = chart[i][k];
+      const { lhs, rhs } = productions[item.production];
+
+      if (item.dot === rhs.length) {
+        // Complete
+        completed[i].add(`${lhs}@${item.origin}`);
+        chart[item.origin].forEach(parent => {
+          const next = productions[parent.production].rhs[parent.dot];
+          if (next && next.kind === 'rule' && next.name === lhs) add(i, { ...parent, dot: parent.dot + 1 });
+        });
+        continue;
+      }
+
+      const next = rhs[item.dot];
+      if (next.kind === 'rule') {
+        // Predict (advancing over nullable rules straight away, Aycock–Horspool)
+        (byLhs.get(next.name) || []).forEach(production => add(i, { production, dot: 0, origin: i }));
+        if (nullable.has(next.name)) add(i, { ...item, dot: item.dot + 1 });
+      } else if (i < tokens.length && matches(next, i)) {
+        // Scan
+        add(i + 1, { ...item, dot: item.dot + 1 });
+      }
+    }
+  }
+
+  if (!completed[tokens.length].has(`${grammar.start}@0`)) {
+    const furthest = chart.reduce((acc, set, idx) => (set.length > 0 ? idx : acc), 0);
+    const expected = Array.from(new Set(chart[furthest]
+      .map(item => productions[item.production].rhs[item.dot])
+      .filter((t): t is GrammarTerm => !!t && t.kind !== 'rule')
+      .map(describeTerm)));
+    const message = furthest < tokens.length
+      ? `Unexpected "${tokens[furthest]}" at word ${furthest + 1}${expected.length ? `; expected ${expected.join(', ')}` : ''}`
+      : `Sentence ended early${expected.length ? `; expected ${expected.join(', ')}` : ''}`;
+    return { ...result, error: { position: furthest, message } };
+  }
+
+  // --- Tree extraction ---
+  let truncated = false;
+  const inProgress = new Set<string>();
+  const memo = new Map<string, ParseTree[]>();
+
+  const buildSymbol = (symbol: string, start: number, end: number): ParseTree[] => {
+    const key = `${symbol}@${start}-${end}`;
+    if (memo.has(key)) return memo.get(key)!;
+    if (inProgress.has(key) || !completed[end].has(`${symbol}@${start}`)) return [];
+    inProgress.add(key);
+    const trees: ParseTree[] = [];
+    // Spliced helper rules can give the same tree through different derivations
+    const shapes = new Set<string>();
+    for (const idx of byLhs.get(symbol) || []) {
+      for (const children of buildSequence(productions[idx].rhs, 0, start, end)) {
+        const shape = JSON.stringify(children);
+        if (shapes.has(shape)) continue;
+        if (trees.length >= MAX_TREES) { truncated = true; break; }
+        shapes.add(shape);
+        trees.push({ symbol, children });
+      }
+    }
+    inProgress.delete(key);
+    memo.set(key, trees);
+    return trees;
+  };
+
+  const buildSequence = (rhs: GrammarTerm[], index: number, start: number, end: number): ParseTree[][] => {
+    if (index === rhs.length) return start === end ? [[]] : [];
+    const term = rhs[index];
+    const results: ParseTree[][] = [];
+
+    if (term.kind !== 'rule') {
+      if (start < end && matches(term, start)) {
+        const leaf: ParseTree = { symbol: term.kind === 'pos' ? term.name : describeTerm(term), word: tokens[start], children: [] };
+        buildSequence(rhs, index + 1, start + 1, end).forEach(rest => results.push([leaf, ...rest]));
+      }
+      return results;
+    }
+
+    for (let mid = start; mid <= end; mid++) {
+      const heads = buildSymbol(term.name, start, mid);
+      if (heads.length === 0) continue;
+      const tails = buildSequence(rhs, index + 1, mid, end);
+      for (const head of heads) {
+        for (const tail of tails) {
+          if (results.length >= MAX_TREES) { truncated = true; return results; }
+          // Helper rules from EBNF sugar are spliced into their parent
+          results.push(head.symbol.includes(HELPER_MARK) ? [...head.children, ...tail] : [head, ...tail]);
+        }
+      }
+    }
+    return results;
+  };
+
+  const trees = buildSymbol(grammar.start, 0, tokens.length);
+  return { ...result, trees, truncated };
+};
+
+/** Labelled bracket notation, e.g. [S [NP [Noun cat]] [VP [Verb sleeps]]]. */
+export const formatBrackets = (tree: ParseTree): string =>
+  tree.word !== undefined && tree.children.length === 0
+    ? `[${tree.symbol} ${tree.word}]`
+    : `[${tree.symbol} ${tree.children.map(formatBrackets).join(' ')}]`;
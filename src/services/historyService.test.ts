@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { compareProjects, emptyHistory, recordState, redoHistory, undoHistory } from './historyService';
+import { ProjectData } from '../types';
+
+const project = (overrides: Partial<ProjectData> = {}): ProjectData => ({
+  version: '2.0.0',
+  name: 'Test',
+  author: '',
+  description: '',
+  lexicon: [],
+  grammar: '',
+  morphology: { dimensions: [], paradigms: [] },
+  evolutionRules: [],
+  constraints: { allowDuplicates: false, caseSensitive: false, bannedSequences: [], allowedGraphemes: '', phonotacticStructure: '', mustStartWith: [], mustEndWith: [] },
+  lastModified: 0,
+  ...overrides
+});
+
+describe('history', () => {
+  it('undoes and redoes steps, labelled by the sections they changed', () => {
+    const first = project();
+    const second = { ...first, grammar: 'S ::= NP VP' };
+    let history = recordState(recordState(emptyHistory(), first, 0), second, 5000);
+    expect(history.present?.label).toBe('grammar');
+    expect(recordState(history, { ...second }, 9000)).toBe(history);
+
+    history = undoHistory(history);
+    expect(history.present?.data).toBe(first);
+    history = redoHistory(history);
+    expect(history.present?.data).toBe(second);
+  });
+});
+
+describe('compareProjects', () => {
+  it('lists changed constraints and project fields', () => {
+    const from = project();
+    const to = project({ name: 'Renamed', constraints: { ...from.constraints, bannedSequences: ['zz'] } });
+    const diffs = compareProjects(from, to);
+    expect(diffs.find(d => d.section === 'constraints')?.changed).toEqual(['bannedSequences']);
+    expect(diffs.find(d => d.section === 'project')?.changed).toEqual(['name']);
+  });
+});
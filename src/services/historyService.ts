@@ -0,0 +1,163 @@
+import { LanguageData, PhonologyConfig, ProjectConstraints, ProjectData } from "../types";
+
+/**
+ * Project-wide undo history and snapshot comparison. History entries are whole `ProjectData`
+ * values; sections are shared by reference between entries (state updates are immutable), so a
+ * step only costs the sections it changed. Changes are told apart by comparing section references.
+ */
+
+export interface HistoryEntry {
+  data: ProjectData;
+  label: string; // Sections changed by this step, e.g. "lexicon, grammar"
+  time: number;
+}
+
+export interface ProjectHistory {
+  past: HistoryEntry[];
+  present: HistoryEntry | null;
+  future: HistoryEntry[];
+}
+
+export interface SectionDiff {
+  section: string; // Section key, as in `changedSections`
+  language?: string; // Set when the project has several languages
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export const HISTORY_LIMIT = 100;
+// Edits to the same sections closer together than this become one step (typing, dragging)
+const COALESCE_MS = 1000;
+
+export const emptyHistory = (): ProjectHistory => ({ past: [], present: null, future: [] });
+
+const sameLanguages = (a: LanguageData[] = [], b: LanguageData[] = [], activeId?: string) =>
+  a.length === b.length && a.every((l, i) => {
+    const other = b[i];
+    if (l.id !== other.id || l.name !== other.name || l.parentId !== other.parentId || l.evolutionRules !== other.evolutionRules) return false;
+    // The active language is compared through the mirrored sections
+    return l.id === activeId || l === other;
+  });
+
+/** Sections that differ between two states; empty when `next` holds the same data. */
+export const changedSections = (previous: ProjectData, next: ProjectData): string[] => {
+  const sections: string[] = [];
+  if (previous.name !== next.name || previous.author !== next.author || previous.description !== next.description) sections.push('project');
+  if (previous.activeLanguageId !== next.activeLanguageId || !sameLanguages(previous.languages, next.languages, next.activeLanguageId)) sections.push('languages');
+  if (previous.lexicon !== next.lexicon) sections.push('lexicon');
+  if (previous.phonology !== next.phonology) sections.push('phonology');
+  if (previous.morphology !== next.morphology) sections.push('morphology');
+  if (previous.scriptConfig !== next.scriptConfig) sections.push('script');
+  if (previous.grammar !== next.grammar) sections.push('grammar');
+  if (previous.evolutionRules !== next.evolutionRules) sections.push('rules');
+  if (previous.glossedExamples !== next.glossedExamples || previous.notebookDocuments !== next.notebookDocuments) sections.push('notebook');
+  // Constraints are rebuilt on load, so they are compared by value
+  if (JSON.stringify(previous.constraints) !== JSON.stringify(next.constraints)) sections.push('constraints');
+  return sections;
+};
+
+/** Adds a state to the history. Returns the same history when nothing changed. */
+export const recordState = (history: ProjectHistory, data: ProjectData, time = Date.now()): ProjectHistory => {
+  const { present } = history;
+  if (!present) return { ...history, present: { data, label: '', time } };
+  const sections = changedSections(present.data, data);
+  if (sections.length === 0) return history;
+  const entry = { data, label: sections.join(', '), time };
+  if (history.past.length > 0 && present.label === entry.label && time - present.time < COALESCE_MS) {
+    return { ...history, present: entry, future: [] };
+  }
+  return { past: [...history.past, present].slice(-HISTORY_LIMIT), present: entry, future: [] };
+};
+
+export const undoHistory = (history: ProjectHistory): ProjectHistory => {
+  if (!history.present || history.past.length === 0) return history;
+  return { past: history.past.slice(0, -1), present: history.past[history.past.length - 1], future: [history.present, ...history.future] };
+};
+
+export const redoHistory = (history: ProjectHistory): ProjectHistory => {
+  if (!history.present || history.future.length === 0) return history;
+  return { past: [...history.past, history.present], present: history.future[0], future: history.future.slice(1) };
+};
+
+/** Moves to any step: an index into `past`, or `past.length + i` for `future[i]`. */
+export const jumpToHistory = (history: ProjectHistory, index: number): ProjectHistory => {
+  if (!history.present) return history;
+  const steps = [...history.past, history.present, ...history.future];
+  if (index < 0 || index >= steps.length) return history;
+  return { past: steps.slice(0, index), present: steps[index], future: steps.slice(index + 1) };
+};
+
+// --- Comparison ---
+
+/** Matches items by key; items present in both whose JSON differs count as changed. */
+const diffBy = <T>(section: string, from: T[] = [], to: T[] = [], key: (item: T) => string, name: (item: T) => string): SectionDiff => {
+  const before = new Map(from.map(item => [key(item), item]));
+  const after = new Map(to.map(item => [key(item), item]));
+  return {
+    section,
+    added: to.filter(item => !before.has(key(item))).map(name),
+    removed: from.filter(item => !after.has(key(item))).map(name),
+    changed: to.filter(item => before.has(key(item)) && JSON.stringify(before.get(key(item))) !== JSON.stringify(item)).map(name)
+  };
+};
+
+const diffById = <T extends { id: string }>(section: string, from: T[] | undefined, to: T[] | undefined, name: (item: T) => string) =>
+  diffBy(section, from, to, item => item.id, name);
+
+const diffValues = (section: string, from: string[], to: string[]): SectionDiff => ({
+  section,
+  added: to.filter(v => !from.includes(v)),
+  removed: from.filter(v => !to.includes(v)),
+  changed: []
+});
+
+const phonemeSymbols = (data: Pick<LanguageData, 'phonology'>) =>
+  [...(data.phonology?.consonants || []), ...(data.phonology?.vowels || []), ...(data.phonology?.tones || [])].map(p => p.symbol);
+
+const familyOf = (data: ProjectData): LanguageData[] => data.languages && data.languages.length > 0
+  ? data.languages
+  : [{ id: 'root', name: data.name, lexicon: data.lexicon, phonology: data.phonology, morphology: data.morphology, scriptConfig: data.scriptConfig, evolutionRules: [] }];
+
+/**
+ * What changed from one project state to another, section by section. Languages are matched
+ * by id; lexicons, inventories, paradigms and glyphs are compared inside each shared language.
+ * Sections without differences are left out.
+ */
+export const compareProjects = (from: ProjectData, to: ProjectData): SectionDiff[] => {
+  const diffs: SectionDiff[] = [];
+  const fromFamily = familyOf(from), toFamily = familyOf(to);
+  const single = toFamily.length === 1 && fromFamily.length === 1;
+
+  const outline = (family: LanguageData[]) => family.map(({ id, name, parentId }) => ({ id: single ? 'root' : id, name, parentId }));
+  diffs.push(diffById('languages', outline(fromFamily), outline(toFamily), l => l.name));
+  toFamily.forEach(language => {
+    const before = fromFamily.find(l => l.id === language.id) || (single ? fromFamily[0] : undefined);
+    if (!before) return;
+    const inventory = diffValues('phonology', phonemeSymbols(before), phonemeSymbols(language));
+    const { consonants: _c, vowels: _v, tones: _t, ...settingsBefore } = before.phonology || {} as Partial<PhonologyConfig>;
+    const { consonants: _c2, vowels: _v2, tones: _t2, ...settingsAfter } = language.phonology || {} as Partial<PhonologyConfig>;
+    if (JSON.stringify(settingsBefore) !== JSON.stringify(settingsAfter)) inventory.changed.push('settings');
+    [
+      diffById('lexicon', before.lexicon, language.lexicon, e => e.word),
+      inventory,
+      diffById('paradigms', before.morphology?.paradigms, language.morphology?.paradigms, p => p.name),
+      diffBy('glyphs', before.scriptConfig?.glyphs, language.scriptConfig?.glyphs, g => g.char, g => g.char),
+      diffById('branch_rules', before.evolutionRules, language.evolutionRules, r => r.rule)
+    ].forEach(diff => diffs.push(single ? diff : { ...diff, language: language.name }));
+  });
+
+  const fromLines = (from.grammar || '').split('\n'), toLines = (to.grammar || '').split('\n');
+  diffs.push(diffValues('grammar', fromLines.filter(Boolean), toLines.filter(Boolean)));
+  diffs.push(diffById('rules', from.evolutionRules, to.evolutionRules, r => r.rule));
+  diffs.push(diffById('notebook', from.notebookDocuments, to.notebookDocuments, d => d.title));
+  diffs.push(diffById('examples', from.glossedExamples, to.glossedExamples, e => e.text));
+
+  const meta = (['name', 'author', 'description'] as const).filter(key => from[key] !== to[key]);
+  if (meta.length > 0) diffs.push({ section: 'project', added: [], removed: [], changed: [...meta] });
+  const constraintKeys = Array.from(new Set([...Object.keys(from.constraints || {}), ...Object.keys(to.constraints || {})])) as (keyof ProjectConstraints)[];
+  const constraints = constraintKeys.filter(key => JSON.stringify(from.constraints?.[key]) !== JSON.stringify(to.constraints?.[key]));
+  if (constraints.length > 0) diffs.push({ section: 'constraints', added: [], removed: [], changed: constraints });
+
+  return diffs.filter(d => d.added.length + d.removed.length + d.changed.length > 0);
+};
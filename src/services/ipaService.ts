@@ -0,0 +1,83 @@
+import { Phoneme, PhonemeCategory } from "../types";
+import { ipaDescriptor, ipaLetters, isIpaVowel } from "./featureService";
+
+/**
+ * IPA chart sections beyond the pulmonic grid and the vowel trapezoid: non-pulmonic
+ * and multi-letter consonants, long, nasal and diphthong vowels, and tones.
+ * Tones are suprasegmental phonemes written with Chao tone letters (˥˦˧˨˩),
+ * tone diacritics on a vowel (á, à, â…) or Chao digits (55, 214).
+ */
+
+export const CONSONANT_SECTIONS: PhonemeCategory[] = ['affricate', 'coarticulated', 'click', 'implosive', 'ejective'];
+export const VOWEL_SECTIONS: PhonemeCategory[] = ['long', 'nasal', 'diphthong'];
+export const TONE_SECTIONS: PhonemeCategory[] = ['level', 'contour'];
+
+const CLICKS = 'ʘǀǃǂǁ';
+const IMPLOSIVES = 'ɓɗʄɠʛ';
+const EJECTIVE = 'ʼ';
+const NASALIZED = '̃';
+
+// Chao tone letters, lowest first: level = index + 1
+export const TONE_LETTERS = ['˩', '˨', '˧', '˦', '˥'];
+const TONE_DIACRITICS: Record<string, number[]> = {
+  '̏': [1], // Double grave: extra low
+  '̀': [2], // Grave: low
+  '̄': [3], // Macron: mid
+  '́': [4], // Acute: high
+  '̋': [5], // Double acute: extra high
+  '̌': [2, 4], // Caron: rising
+  '̂': [4, 2], // Circumflex: falling
+  '᷄': [3, 4],
+  '᷅': [2, 3],
+  '᷆': [3, 2],
+  '᷇': [4, 3],
+  '᷈': [2, 4, 2],
+  '᷉': [4, 2, 4]
+};
+
+export const isToneMark = (char: string): boolean => TONE_LETTERS.includes(char) || char in TONE_DIACRITICS;
+
+/** Pitch levels (1 low … 5 high) of a tone written in any of the three notations. */
+export const toneLevels = (symbol: string): number[] => {
+  const text = symbol.normalize('NFD');
+  if (/^[1-5]+$/.test(text.trim())) return Array.from(text.trim()).map(Number);
+  return Array.from(text).flatMap(c => {
+    const letter = TONE_LETTERS.indexOf(c);
+    return letter >= 0 ? [letter + 1] : TONE_DIACRITICS[c] || [];
+  });
+};
+
+export const toneLetters = (levels: number[]): string => levels.map(l => TONE_LETTERS[Math.min(5, Math.max(1, l)) - 1]).join('');
+
+/** Splits a segment such as `á` or `a˥˩` into its segment and its tone marks (NFC). */
+export const splitTone = (segment: string): { base: string; tone: string } => {
+  const chars = Array.from(segment.normalize('NFD'));
+  return {
+    base: chars.filter(c => !isToneMark(c)).join('').normalize('NFC'),
+    tone: chars.filter(isToneMark).join('')
+  };
+};
+
+export const isDiphthong = (symbol: string): boolean => ipaLetters(symbol).filter(isIpaVowel).length > 1;
+
+/** The chart section of a phoneme: its own `category`, or one read off the symbol. */
+export const phonemeCategory = (phoneme: Phoneme): PhonemeCategory => {
+  if (phoneme.category) return phoneme.category;
+  if (phoneme.type === 'tone') return new Set(toneLevels(phoneme.symbol)).size > 1 ? 'contour' : 'level';
+
+  const decomposed = phoneme.symbol.normalize('NFD');
+  if (phoneme.type === 'vowel') {
+    if (isDiphthong(phoneme.symbol)) return 'diphthong';
+    if (decomposed.includes(NASALIZED)) return 'nasal';
+    if (decomposed.includes('ː')) return 'long';
+    return 'monophthong';
+  }
+
+  const letters = ipaLetters(phoneme.symbol);
+  if (decomposed.includes(EJECTIVE)) return 'ejective';
+  if (letters.some(c => CLICKS.includes(c))) return 'click';
+  if (letters.some(c => IMPLOSIVES.includes(c))) return 'implosive';
+  if (phoneme.manner === 'affricate' || ipaDescriptor(phoneme.symbol).manner === 'affricate') return 'affricate';
+  if (letters.length > 1) return 'coarticulated';
+  return 'pulmonic';
+};
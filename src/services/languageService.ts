@@ -0,0 +1,66 @@
+import { LanguageData, LexiconEntry } from "../types";
+
+export interface LanguageTreeNode {
+  language: LanguageData;
+  depth: number;
+  children: LanguageTreeNode[];
+}
+
+/**
+ * Creates a language, inheriting phonology, morphology and script from its parent.
+ */
+export const createLanguage = (name: string, parent?: LanguageData, overrides: Partial<LanguageData> = {}): LanguageData => ({
+  id: Date.now().toString() + Math.random().toString(36).slice(2, 6),
+  name,
+  parentId: parent?.id,
+  lexicon: [],
+  phonology: parent?.phonology,
+  morphology: parent?.morphology || { dimensions: [], paradigms: [] },
+  scriptConfig: parent?.scriptConfig,
+  evolutionRules: [],
+  ...overrides
+});
+
+export const getChildLanguages = (languages: LanguageData[], id: string): LanguageData[] =>
+  languages.filter(l => l.parentId === id);
+
+/**
+ * Builds the family tree. Languages whose parent is missing are treated as roots
+ * so a broken link never hides a language.
+ */
+export const buildLanguageTree = (languages: LanguageData[]): LanguageTreeNode[] => {
+  const ids = new Set(languages.map(l => l.id));
+  const build = (language: LanguageData, depth: number, seen: Set<string>): LanguageTreeNode => {
+    const nextSeen = new Set(seen).add(language.id);
+    return {
+      language,
+      depth,
+      children: getChildLanguages(languages, language.id)
+        .filter(child => !nextSeen.has(child.id)) // Guard against cycles in hand-edited files
+        .map(child => build(child, depth + 1, nextSeen))
+    };
+  };
+  return languages
+    .filter(l => !l.parentId || !ids.has(l.parentId) || l.parentId === l.id)
+    .map(root => build(root, 0, new Set()));
+};
+
+/**
+ * Depth-first listing of the tree, for pickers that render a flat list.
+ */
+export const flattenLanguageTree = (nodes: LanguageTreeNode[]): LanguageTreeNode[] =>
+  nodes.flatMap(node => [node, ...flattenLanguageTree(node.children)]);
+
+/**
+ * Merges freshly evolved entries into a daughter lexicon. An entry already
+ * derived from the same proto-form is replaced (keeping its id), others are appended.
+ */
+export const mergeDaughterEntries = (existing: LexiconEntry[], incoming: LexiconEntry[]): LexiconEntry[] => {
+  const merged = [...existing];
+  incoming.forEach(entry => {
+    const index = entry.derivedFrom ? merged.findIndex(e => e.derivedFrom === entry.derivedFrom) : -1;
+    if (index !== -1) merged[index] = { ...entry, id: merged[index].id };
+    else merged.push(entry);
+  });
+  return merged;
+};
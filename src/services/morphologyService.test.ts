@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { applyAffix, BOUNDARY } from './morphologyService';
+import { InflectionRule } from '../types';
+
+const rule = (overrides: Partial<InflectionRule>): InflectionRule => ({ coordinates: {}, affix: '', isPrefix: false, ...overrides });
+
+describe('applyAffix', () => {
+  it('places infixes by vowel, syllable and position', () => {
+    expect(applyAffix('kata', rule({ operation: 'infix', affix: 'um', infixAt: { unit: 'vowel', index: 1 } }))).toBe('kumata');
+    expect(applyAffix('kata', rule({ operation: 'infix', affix: 'um', infixAt: { unit: 'syllable', index: 2 } }))).toBe('kaumta');
+    expect(applyAffix('kata', rule({ operation: 'infix', affix: 'um', infixAt: { unit: 'position', index: -1 } }))).toBe('katuma');
+  });
+
+  it('ignores boundaries of earlier affixes when placing an infix', () => {
+    const stem = applyAffix('ta', rule({ operation: 'prefix', affix: 'ka' }), BOUNDARY);
+    expect(stem).toBe('ka+ta');
+    expect(applyAffix(stem, rule({ operation: 'infix', affix: 'um', infixAt: { unit: 'syllable', index: 2 } }), BOUNDARY)).toBe('ka+um+ta');
+    expect(applyAffix(stem, rule({ operation: 'infix', affix: 'um', infixAt: { unit: 'vowel', index: 2 } }), BOUNDARY)).toBe('ka+t+um+a');
+    expect(applyAffix(stem, rule({ operation: 'infix', affix: 'um', infixAt: { unit: 'position', index: 3 } }), BOUNDARY)).toBe('ka+t+um+a');
+  });
+
+  it('stacks prefixes and suffixes around boundaries', () => {
+    const stem = applyAffix('ta', rule({ operation: 'suffix', affix: 'n' }), BOUNDARY);
+    expect(applyAffix(stem, rule({ operation: 'prefix', affix: 'ka' }), BOUNDARY)).toBe('ka+ta+n');
+  });
+});
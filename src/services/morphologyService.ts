@@ -0,0 +1,313 @@
+import { AffixOperation, BoundaryRule, InflectionRule, LexiconEntry, MorphDimension, MorphologyState, MorphParadigm, Phoneme, PhonologyConfig } from "../types";
+import { applyRule, compileSoundChanges, SoundChangeError } from "./soundChangeService";
+
+/** A cell coordinate: dimension id -> value. */
+export type ParadigmCell = Record<string, string>;
+
+export interface InflectedForm {
+  cell: ParadigmCell;
+  underlying: string; // Morphemes joined with BOUNDARY
+  form: string; // Surface form after boundary rules
+  rules: InflectionRule[];
+}
+
+/** What boundary rules need to know about the language. */
+export interface MorphophonologyContext {
+  boundaryRules?: BoundaryRule[];
+  phonology?: PhonologyConfig;
+  bannedSequences?: string[];
+}
+
+export interface ParadigmTable {
+  paradigm: MorphParadigm;
+  root: string;
+  rowDimension?: MorphDimension;
+  columnDimension?: MorphDimension;
+  /** One page per combination of the dimensions beyond rows and columns. */
+  pages: Array<{ cell: ParadigmCell; rows: InflectedForm[][] }>;
+}
+
+/** The `name` coordinate is a label, every other key is a dimension id. */
+export const RULE_NAME_KEY = 'name';
+
+/** Morpheme boundary in underlying forms. */
+export const BOUNDARY = '+';
+
+/**
+ * Checks a rule's POS and regex conditions against a root.
+ * An invalid regex never matches.
+ */
+export const isRuleApplicable = (rule: InflectionRule, root: string, pos?: string): boolean => {
+  if (rule.logic?.pos && pos && rule.logic.pos !== pos) return false;
+  if (rule.logic?.regex) {
+    try {
+      if (!new RegExp(rule.logic.regex).test(root)) return false;
+    } catch (e) {
+      return false;
+    }
+  }
+  return true;
+};
+
+const VOWEL = /[aeiouyàáâäèéêëìíîïòóôöùúûüæøœɑɐɒəɛɜɞɘɵɪɨʉɯɤʊʌɔɶ]/i;
+
+export const getOperation = (rule: InflectionRule): AffixOperation =>
+  rule.operation || (rule.isPrefix ? 'prefix' : 'suffix');
+
+const cleanAffix = (affix?: string) => (affix || '').replace(/-/g, '').trim();
+
+const vowelStarts = (word: string): number[] => {
+  const starts: number[] = [];
+  Array.from(word).forEach((char, i) => {
+    if (VOWEL.test(char) && (i === 0 || !VOWEL.test(word[i - 1]))) starts.push(i);
+  });
+  return starts;
+};
+
+/**
+ * Rough syllable onsets: each vowel nucleus after the first takes one preceding consonant.
+ */
+const syllableStarts = (word: string): number[] =>
+  vowelStarts(word).map((v, i) => (i === 0 ? 0 : v > 0 && !VOWEL.test(word[v - 1]) ? v - 1 : v));
+
+// 1-based from the start, negative from the end; clamped into range
+const pick = <T,>(list: T[], index: number): T | undefined =>
+  list.length === 0 ? undefined : list[Math.max(0, Math.min(list.length - 1, index > 0 ? index - 1 : list.length + index))];
+
+const infixOffset = (root: string, at: NonNullable<InflectionRule['infixAt']>): number => {
+  if (at.unit === 'vowel') return pick(vowelStarts(root), at.index) ?? root.length;
+  if (at.unit === 'syllable') return pick(syllableStarts(root), at.index) ?? 0;
+  const offset = at.index >= 0 ? at.index : root.length + at.index;
+  return Math.max(0, Math.min(root.length, offset));
+};
+
+// Offsets count the segments of the bare root; maps one onto a root that already holds boundaries
+const toRootIndex = (root: string, bareOffset: number): number => {
+  let seen = 0;
+  for (let i = 0; i < root.length; i++) {
+    if (root[i] === BOUNDARY) continue;
+    if (seen === bareOffset) return i;
+    seen++;
+  }
+  return root.length;
+};
+
+const reduplicant = (root: string, rule: InflectionRule): string => {
+  if (rule.reduplication === 'full' || !rule.reduplication) return root;
+  const starts = rule.reduplication === 'syllable' ? syllableStarts(root) : vowelStarts(root);
+  if (starts.length === 0) return root;
+  if (rule.isPrefix) {
+    // Copy up to the end of the first nucleus (CV) or up to the second syllable
+    const end = rule.reduplication === 'cv' ? starts[0] + 1 : (starts[1] ?? root.length);
+    return root.slice(0, end);
+  }
+  const start = rule.reduplication === 'cv' ? Math.max(0, starts[starts.length - 1] - 1) : starts[starts.length - 1];
+  return root.slice(start);
+};
+
+const applyReplacements = (root: string, rule: InflectionRule): string =>
+  (rule.replacements || []).reduce((current, { from, to }) => {
+    if (!from) return current;
+    if (rule.replaceScope === 'all') return current.split(from).join(to);
+    const index = rule.replaceScope === 'first' ? current.indexOf(from) : current.lastIndexOf(from);
+    return index === -1 ? current : current.slice(0, index) + to + current.slice(index + from.length);
+  }, root);
+
+/**
+ * Applies one rule's operation to a root. A suppletive form for the root wins outright.
+ * Pass `boundary` to keep morphemes apart for the boundary rules.
+ */
+export const applyAffix = (root: string, rule: InflectionRule, boundary = ''): string => {
+  const bare = root.split(BOUNDARY).join('');
+  if (rule.suppletive && rule.suppletive[bare]) return rule.suppletive[bare];
+
+  const affix = cleanAffix(rule.affix);
+  const b = affix ? boundary : '';
+  switch (getOperation(rule)) {
+    case 'prefix':
+      return `${affix}${b}${root}`;
+    case 'suffix':
+      return `${root}${b}${affix}`;
+    case 'infix': {
+      const offset = toRootIndex(root, infixOffset(bare, rule.infixAt || { unit: 'vowel', index: 1 }));
+      const before = root.slice(0, offset);
+      // Landing on an existing boundary reuses it instead of doubling it
+      return before + (before.endsWith(BOUNDARY) ? '' : b) + affix + b + root.slice(offset);
+    }
+    case 'circumfix': {
+      const end = cleanAffix(rule.affixEnd);
+      return `${affix}${b}${root}${end ? boundary : ''}${end}`;
+    }
+    case 'reduplication': {
+      const copy = reduplicant(bare, rule);
+      return rule.isPrefix ? `${copy}${affix}${boundary}${root}` : `${root}${boundary}${affix}${copy}`;
+    }
+    case 'replacement':
+      return applyReplacements(root, rule);
+  }
+};
+
+// --- Morphophonology ---
+
+const findPhoneme = (phonology: PhonologyConfig | undefined, symbol: string): Phoneme | undefined =>
+  phonology?.vowels.find(v => v.symbol === symbol);
+
+/**
+ * Progressive vowel harmony: every vowel after a boundary takes the backness
+ * and/or rounding of the last vowel before it, keeping its own height.
+ */
+const applyHarmony = (underlying: string, feature: BoundaryRule['feature'], phonology?: PhonologyConfig): string => {
+  if (!phonology || phonology.vowels.length === 0) return underlying;
+  const matchBack = feature !== 'rounded';
+  const matchRound = feature !== 'backness';
+  let trigger: Phoneme | undefined;
+  let crossedBoundary = false;
+
+  return Array.from(underlying).map(char => {
+    if (char === BOUNDARY) {
+      crossedBoundary = true;
+      return char;
+    }
+    const vowel = findPhoneme(phonology, char);
+    if (!vowel) return char;
+    if (!crossedBoundary || !trigger) {
+      trigger = vowel;
+      return char;
+    }
+    const target = phonology.vowels.find(v =>
+      v.height === vowel.height &&
+      (matchBack ? v.backness === trigger!.backness : v.backness === vowel.backness) &&
+      (matchRound ? !!v.rounded === !!trigger!.rounded : !!v.rounded === !!vowel.rounded)
+    );
+    const result = target || vowel;
+    trigger = result;
+    return result.symbol;
+  }).join('');
+};
+
+/**
+ * Inserts the epenthetic segment at any boundary where the join would create a banned sequence.
+ */
+const applyEpenthesis = (underlying: string, epenthetic: string, banned: string[]): string => {
+  if (!epenthetic || banned.length === 0) return underlying;
+  const morphemes = underlying.split(BOUNDARY);
+  return morphemes.reduce((left, right) => {
+    const spansBoundary = banned.some(seq => {
+      for (let k = 1; k < seq.length; k++) {
+        if (left.endsWith(seq.slice(0, k)) && right.startsWith(seq.slice(k))) return true;
+      }
+      return false;
+    });
+    return spansBoundary ? `${left}${BOUNDARY}${epenthetic}${BOUNDARY}${right}` : `${left}${BOUNDARY}${right}`;
+  });
+};
+
+/** C and V categories from the inventory, so boundary rules can write `n > m / _+C`. */
+const inventoryCategories = (phonology?: PhonologyConfig): Record<string, string[]> => {
+  const categories: Record<string, string[]> = {};
+  if (phonology?.consonants.length) categories.C = phonology.consonants.map(p => p.symbol);
+  if (phonology?.vowels.length) categories.V = phonology.vowels.map(p => p.symbol);
+  return categories;
+};
+
+/**
+ * Runs the enabled boundary rules in order over an underlying form
+ * and returns the surface form with boundaries removed.
+ */
+export const applyBoundaryRules = (underlying: string, context: MorphophonologyContext = {}): string => {
+  const rules = (context.boundaryRules || []).filter(r => r.enabled);
+  const { compiled } = compileSoundChanges(
+    rules.filter(r => r.type === 'sound-change').map(r => ({ id: r.id, rule: r.rule || '', description: '' })),
+    inventoryCategories(context.phonology),
+    context.phonology
+  );
+
+  const surface = rules.reduce((current, rule) => {
+    if (rule.type === 'harmony') return applyHarmony(current, rule.feature, context.phonology);
+    if (rule.type === 'epenthesis') return applyEpenthesis(current, rule.epenthetic || '', context.bannedSequences || []);
+    const soundChange = compiled.find(c => c.id === rule.id);
+    return soundChange ? applyRule(current, soundChange) : current;
+  }, underlying);
+
+  return surface.split(BOUNDARY).join('');
+};
+
+/** Syntax errors in the sound-change boundary rules, for the editor. */
+export const validateBoundaryRules = (rules: BoundaryRule[] = []): SoundChangeError[] =>
+  compileSoundChanges(rules.filter(r => r.type === 'sound-change').map(r => ({ id: r.id, rule: r.rule || '', description: '' })), { C: [], V: [] }).errors;
+
+/**
+ * Short human-readable summary of a rule's operation, e.g. "ge- … -t" or "a→ä (last)".
+ */
+export const describeOperation = (rule: InflectionRule): string => {
+  const affix = cleanAffix(rule.affix);
+  switch (getOperation(rule)) {
+    case 'prefix': return `${affix}-`;
+    case 'suffix': return `-${affix}`;
+    case 'infix': return `<${affix}>`;
+    case 'circumfix': return `${affix}- … -${cleanAffix(rule.affixEnd)}`;
+    case 'reduplication': return `RED(${rule.reduplication || 'full'})`;
+    case 'replacement': return (rule.replacements || []).map(r => `${r.from}→${r.to}`).join(', ') + ` (${rule.replaceScope || 'last'})`;
+  }
+};
+
+/**
+ * A rule belongs to a cell when each dimension it names has the cell's value.
+ * Dimensions a rule leaves unspecified match every value.
+ */
+export const ruleMatchesCell = (rule: InflectionRule, paradigm: MorphParadigm, cell: ParadigmCell): boolean =>
+  paradigm.dimensions.every(dimId => {
+    const value = rule.coordinates[dimId];
+    return !value || value === cell[dimId];
+  });
+
+/**
+ * Inflects a root for one cell, stacking every matching rule in list order.
+ * Rules without any dimension coordinate only show up in the sandbox preview.
+ */
+export const inflect = (root: string, pos: string | undefined, paradigm: MorphParadigm, cell: ParadigmCell, context?: MorphophonologyContext): InflectedForm => {
+  const rules = paradigm.rules.filter(rule =>
+    ruleMatchesCell(rule, paradigm, cell) &&
+    paradigm.dimensions.some(dimId => rule.coordinates[dimId]) &&
+    isRuleApplicable(rule, root, pos)
+  );
+  const underlying = rules.reduce((current, rule) => applyAffix(current, rule, BOUNDARY), root);
+  return { cell, underlying, form: applyBoundaryRules(underlying, context), rules };
+};
+
+const cartesian = (dimensions: MorphDimension[]): ParadigmCell[] =>
+  dimensions.reduce<ParadigmCell[]>(
+    (cells, dim) => cells.flatMap(cell => dim.values.map(value => ({ ...cell, [dim.id]: value }))),
+    [{}]
+  );
+
+export const getParadigmDimensions = (paradigm: MorphParadigm, dimensions: MorphDimension[]): MorphDimension[] =>
+  paradigm.dimensions
+    .map(id => dimensions.find(d => d.id === id))
+    .filter((d): d is MorphDimension => !!d && d.values.length > 0);
+
+/**
+ * Lays a paradigm out as a table: the first dimension gives rows, the second
+ * columns, and any further dimensions split the table into pages.
+ */
+export const buildParadigmTable = (root: string, pos: string | undefined, paradigm: MorphParadigm, dimensions: MorphDimension[], context?: MorphophonologyContext): ParadigmTable => {
+  const dims = getParadigmDimensions(paradigm, dimensions);
+  const [rowDimension, columnDimension, ...pageDimensions] = dims;
+
+  const pages = cartesian(pageDimensions).map(pageCell => ({
+    cell: pageCell,
+    rows: (rowDimension ? rowDimension.values : ['']).map(rowValue =>
+      (columnDimension ? columnDimension.values : ['']).map(columnValue => {
+        const cell: ParadigmCell = { ...pageCell };
+        if (rowDimension) cell[rowDimension.id] = rowValue;
+        if (columnDimension) cell[columnDimension.id] = columnValue;
+        return inflect(root, pos, paradigm, cell, context);
+      })
+    )
+  }));
+
+  return { paradigm, root, rowDimension, columnDimension, pages };
+};
+
+export const getParadigmsForEntry = (entry: LexiconEntry, morphology: MorphologyState): MorphParadigm[] =>
+  morphology.paradigms.filter(p => p.pos === entry.pos);
@@ -0,0 +1,101 @@
+import { LexiconEntry, MorphologyState } from "../types";
+import {
+  applyAffix, applyBoundaryRules, BOUNDARY, buildParadigmTable, getParadigmDimensions, getParadigmsForEntry,
+  isRuleApplicable, MorphophonologyContext
+} from "./morphologyService";
+
+/**
+ * Text helpers for the Notebook: word tokens, the word under the caret
+ * and lexicon lookups for autocomplete and unknown-word marking.
+ */
+
+export interface TextToken {
+  text: string;
+  isWord: boolean;
+  start: number;
+}
+
+const WORD = /[\p{L}\p{M}'’-]+/gu;
+const MAX_SUGGESTIONS = 8;
+
+/** Lowercases a word token and trims apostrophes and hyphens at its edges. */
+export const normalizeToken = (token: string): string => token.toLowerCase().replace(/^['’-]+|['’-]+$/g, '');
+
+/** Splits text into alternating word and non-word tokens, keeping every character. */
+export const tokenizeText = (text: string): TextToken[] => {
+  const tokens: TextToken[] = [];
+  let last = 0;
+  for (const match of text.matchAll(WORD)) {
+    const start = match.index ?? 0;
+    if (start > last) tokens.push({ text: text.slice(last, start), isWord: false, start: last });
+    tokens.push({ text: match[0], isWord: true, start });
+    last = start + match[0].length;
+  }
+  if (last < text.length) tokens.push({ text: text.slice(last), isWord: false, start: last });
+  return tokens;
+};
+
+/** The partial word that ends at the caret, or null when the caret is not after a letter. */
+export const getWordAtCursor = (text: string, cursor: number): { word: string; start: number } | null => {
+  const before = text.slice(0, cursor);
+  const match = before.match(/[\p{L}\p{M}'’-]+$/u);
+  if (!match) return null;
+  return { word: match[0], start: cursor - match[0].length };
+};
+
+/** Lexicon words starting with the prefix, shortest first. The exact word itself is not suggested. */
+export const suggestWords = (prefix: string, entries: LexiconEntry[]): LexiconEntry[] => {
+  const needle = prefix.toLowerCase();
+  if (!needle) return [];
+  const seen = new Set<string>();
+  return entries
+    .filter(e => {
+      const word = e.word.toLowerCase();
+      if (!word.startsWith(needle) || word === needle || seen.has(word)) return false;
+      seen.add(word);
+      return true;
+    })
+    .sort((a, b) => a.word.length - b.word.length || a.word.localeCompare(b.word))
+    .slice(0, MAX_SUGGESTIONS);
+};
+
+/**
+ * Every word form the lexicon can produce (bare entries, paradigm cells and single rules),
+ * mapped to the entries that produce it.
+ */
+export const buildFormIndex = (entries: LexiconEntry[], morphology: MorphologyState, context?: MorphophonologyContext): Map<string, LexiconEntry[]> => {
+  const index = new Map<string, LexiconEntry[]>();
+  const add = (form: string, entry: LexiconEntry) => {
+    const key = form.toLowerCase();
+    const list = index.get(key) || [];
+    if (!list.includes(entry)) list.push(entry);
+    index.set(key, list);
+  };
+  entries.forEach(entry => {
+    add(entry.word, entry);
+    getParadigmsForEntry(entry, morphology).forEach(paradigm => {
+      if (getParadigmDimensions(paradigm, morphology.dimensions).length > 0) {
+        buildParadigmTable(entry.word, entry.pos, paradigm, morphology.dimensions, context).pages
+          .forEach(page => page.rows.forEach(row => row.forEach(cell => add(cell.form, entry))));
+      }
+      paradigm.rules
+        .filter(rule => isRuleApplicable(rule, entry.word, entry.pos))
+        .forEach(rule => add(applyBoundaryRules(applyAffix(entry.word, rule, BOUNDARY), context), entry));
+    });
+  });
+  return index;
+};
+
+/** Built once per lexicon change so unknown-word marking stays cheap while typing. */
+export const collectKnownForms = (entries: LexiconEntry[], morphology: MorphologyState, context?: MorphophonologyContext): Set<string> =>
+  new Set(buildFormIndex(entries, morphology, context).keys());
+
+/** Words of the text missing from the known forms, lowercased and deduplicated in order of appearance. */
+export const findUnknownWords = (text: string, knownForms: Set<string>): string[] => {
+  const unknown = new Set<string>();
+  tokenizeText(text).forEach(token => {
+    const word = normalizeToken(token.text);
+    if (token.isWord && word && !knownForms.has(word)) unknown.add(word);
+  });
+  return Array.from(unknown);
+};
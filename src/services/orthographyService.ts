@@ -0,0 +1,93 @@
+import { LexiconEntry, OrthographyRule } from "../types";
+import { CompiledRule, compileSoundChanges, matchRuleAt, padWord, SoundChangeError } from "./soundChangeService";
+
+/**
+ * Grapheme-to-phoneme transcription from the project's orthography table.
+ * Each row compiles to a sound-change rule `grapheme > phoneme / environment`,
+ * so contexts use the same notation as GenEvolve (`_[ei]`, `#_`, `V_V`...).
+ */
+
+export interface CompiledOrthography {
+  rules: CompiledRule[];
+  order: Map<string, number>; // Rule id → row index, breaks ties between equal-length matches
+  errors: SoundChangeError[];
+}
+
+export interface Transcription {
+  ipa: string;
+  unmapped: string[]; // Letters no row covered, copied through as-is
+}
+
+export interface IpaMismatch {
+  entry: LexiconEntry;
+  derived: string;
+}
+
+const toSoundChange = (row: OrthographyRule) => ({
+  id: row.id,
+  rule: `${row.grapheme} > ${row.phoneme.trim() || 'Ø'}${row.environment?.trim() ? ` / ${row.environment.trim()}` : ''}`,
+  description: ''
+});
+
+export const compileOrthography = (rows: OrthographyRule[] = []): CompiledOrthography => {
+  const usable = rows.filter(r => r.grapheme.trim());
+  const { compiled, errors } = compileSoundChanges(usable.map(toSoundChange));
+  return { rules: compiled, order: new Map(usable.map((r, i) => [r.id, i])), errors };
+};
+
+/**
+ * Transcribes a spelling left to right. At each position the longest grapheme wins;
+ * between equal lengths a row with an environment beats a plain one, then row order.
+ */
+export const transcribe = (word: string, orthography: CompiledOrthography): Transcription => {
+  const text = padWord(word.trim().toLowerCase());
+  const end = text.length - 1;
+  const unmapped: string[] = [];
+  let ipa = '';
+  let i = 1;
+
+  while (i < end) {
+    let best: { end: number; output: string; specific: boolean; order: number } | null = null;
+    for (const rule of orthography.rules) {
+      const match = matchRuleAt(text, rule, i);
+      if (!match || match.end <= i) continue;
+      const candidate = {
+        ...match,
+        specific: rule.environment.before.length + rule.environment.after.length > 0,
+        order: orthography.order.get(rule.id) ?? 0
+      };
+      if (!best ||
+        candidate.end > best.end ||
+        (candidate.end === best.end && candidate.specific && !best.specific) ||
+        (candidate.end === best.end && candidate.specific === best.specific && candidate.order < best.order)) {
+        best = candidate;
+      }
+    }
+
+    if (best) {
+      ipa += best.output;
+      i = best.end;
+    } else {
+      if (!/\s/.test(text[i]) && !unmapped.includes(text[i])) unmapped.push(text[i]);
+      ipa += text[i];
+      i++;
+    }
+  }
+
+  return { ipa, unmapped };
+};
+
+// Stored IPA is often written between slashes or brackets and with syllable dots/stress marks
+const normalizeIpa = (ipa: string) => ipa.trim().replace(/^[/[]|[/\]]$/g, '').replace(/[.ˈˌ]/g, '');
+
+/** True when stored IPA agrees with the derived form, ignoring delimiters, syllable dots and stress. */
+export const isIpaConsistent = (stored: string, derived: string): boolean => normalizeIpa(stored) === normalizeIpa(derived);
+
+/**
+ * Re-derives IPA for every entry and returns those whose stored IPA disagrees.
+ * Entries without stored IPA are included so they can be filled in.
+ */
+export const findIpaMismatches = (entries: LexiconEntry[], orthography: CompiledOrthography): IpaMismatch[] =>
+  entries
+    .map(entry => ({ entry, derived: transcribe(entry.word, orthography).ipa }))
+    .filter(({ entry, derived }) => !isIpaConsistent(entry.ipa || '', derived));
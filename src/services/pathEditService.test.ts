@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { editablePathToData, parseEditablePath } from './pathEditService';
+
+describe('parseEditablePath', () => {
+  it('closes a circle drawn as two arcs without Z', () => {
+    const [circle] = parseEditablePath('M 150 200 a 50 50 0 1 0 100 0 a 50 50 0 1 0 -100 0');
+    expect(circle.closed).toBe(true);
+    expect(circle.nodes).toHaveLength(4);
+    expect(editablePathToData([circle]).endsWith('Z')).toBe(true);
+  });
+
+  it('closes on Z and leaves open strokes open', () => {
+    const [square, line] = parseEditablePath('M 0 0 L 10 0 L 10 10 L 0 10 Z M 20 0 L 30 10 L 20 20');
+    expect(square.closed).toBe(true);
+    expect(square.nodes).toHaveLength(4);
+    expect(line.closed).toBe(false);
+    expect(line.nodes).toHaveLength(3);
+  });
+});
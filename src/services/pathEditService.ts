@@ -0,0 +1,278 @@
+import { ScriptGuide } from "../types";
+import { parsePath, Point, simplify } from "./glyphOutlineService";
+
+/**
+ * Node-level editing of stroke paths. Path data is turned into nodes with optional
+ * cubic handles, edited, and written back as M/L/C commands; quadratic segments
+ * become cubics on the way. Every operation returns new subpaths for the undo stack.
+ */
+
+export interface PathNode extends Point {
+  in?: Point; // Handle of the segment arriving at this node
+  out?: Point; // Handle of the segment leaving this node
+}
+
+export interface EditableSubpath {
+  nodes: PathNode[];
+  closed: boolean;
+}
+
+export interface NodeRef {
+  subpath: number;
+  node: number;
+}
+
+export interface SnapOptions {
+  grid?: number; // Grid spacing, or undefined to skip the grid
+  guides: ScriptGuide[];
+  threshold: number;
+}
+
+const HIT_SAMPLES = 24;
+const RETURN_DISTANCE = 0.5; // As glyphOutlineService: a subpath ending this close to its start is closed
+
+const same = (a: Point, b: Point) => Math.abs(a.x - b.x) < 0.01 && Math.abs(a.y - b.y) < 0.01;
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const clone = (subpaths: EditableSubpath[]): EditableSubpath[] =>
+  subpaths.map(sp => ({ closed: sp.closed, nodes: sp.nodes.map(n => ({ ...n, in: n.in && { ...n.in }, out: n.out && { ...n.out } })) }));
+
+// The last node sits on the first: drop it, keeping the handle that arrives there
+const closeOnStart = (sp: EditableSubpath) => {
+  const nodes = sp.nodes;
+  nodes[0].in = nodes[nodes.length - 1].in;
+  nodes.pop();
+  sp.closed = true;
+};
+
+export const parseEditablePath = (d: string): EditableSubpath[] => {
+  const subpaths: EditableSubpath[] = [];
+  let current: EditableSubpath | null = null;
+  const last = () => current!.nodes[current!.nodes.length - 1];
+
+  parsePath(d).forEach(cmd => {
+    if (cmd.type === 'M') {
+      current = { nodes: [{ ...cmd.to }], closed: false };
+      subpaths.push(current);
+    } else if (cmd.type === 'Z') {
+      if (!current) return;
+      // A path drawn back onto its start closes on the first node
+      const nodes = current.nodes;
+      if (nodes.length > 1 && same(nodes[0], nodes[nodes.length - 1])) closeOnStart(current);
+      current.closed = true;
+      current = null;
+    } else {
+      if (!current) {
+        current = { nodes: [{ x: 0, y: 0 }], closed: false };
+        subpaths.push(current);
+      }
+      const from = last();
+      if (cmd.type === 'L') current.nodes.push({ ...cmd.to });
+      else if (cmd.type === 'C') {
+        from.out = { ...cmd.c1 };
+        current.nodes.push({ ...cmd.to, in: { ...cmd.c2 } });
+      } else {
+        from.out = lerp(from, cmd.c, 2 / 3);
+        current.nodes.push({ ...cmd.to, in: lerp(cmd.to, cmd.c, 2 / 3) });
+      }
+    }
+  });
+  // Subpaths that return to their start without Z (like the app's two-arc circles) are closed too
+  subpaths.forEach(sp => {
+    if (!sp.closed && sp.nodes.length > 2 && distance(sp.nodes[0], sp.nodes[sp.nodes.length - 1]) < RETURN_DISTANCE) closeOnStart(sp);
+  });
+  return subpaths;
+};
+
+const fmt = (p: Point) => `${+p.x.toFixed(1)} ${+p.y.toFixed(1)}`;
+
+const segmentData = (a: PathNode, b: PathNode) =>
+  a.out || b.in ? `C ${fmt(a.out || a)} ${fmt(b.in || b)} ${fmt(b)}` : `L ${fmt(b)}`;
+
+export const editablePathToData = (subpaths: EditableSubpath[]): string =>
+  subpaths.filter(sp => sp.nodes.length > 0).map(sp => {
+    const parts = [`M ${fmt(sp.nodes[0])}`];
+    for (let i = 1; i < sp.nodes.length; i++) parts.push(segmentData(sp.nodes[i - 1], sp.nodes[i]));
+    if (sp.closed && sp.nodes.length > 1) {
+      const lastNode = sp.nodes[sp.nodes.length - 1];
+      if (lastNode.out || sp.nodes[0].in) parts.push(segmentData(lastNode, sp.nodes[0]));
+      parts.push('Z');
+    }
+    return parts.join(' ');
+  }).join(' ');
+
+// --- Segments ---
+
+/** Index of the node a segment starting at `node` ends on, or -1 for the end of an open path. */
+const nextIndex = (sp: EditableSubpath, node: number) =>
+  node + 1 < sp.nodes.length ? node + 1 : sp.closed && sp.nodes.length > 1 ? 0 : -1;
+
+const cubicAt = (p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point => {
+  const mt = 1 - t;
+  return {
+    x: mt * mt * mt * p0.x + 3 * mt * mt * t * p1.x + 3 * mt * t * t * p2.x + t * t * t * p3.x,
+    y: mt * mt * mt * p0.y + 3 * mt * mt * t * p1.y + 3 * mt * t * t * p2.y + t * t * t * p3.y
+  };
+};
+
+const segmentPoints = (a: PathNode, b: PathNode): [Point, Point, Point, Point] => [a, a.out || a, b.in || b, b];
+
+/** The segment under a point and where on it (0..1), for inserting nodes. */
+export const hitSegment = (subpaths: EditableSubpath[], p: Point, threshold: number): { ref: NodeRef; t: number } | null => {
+  let best: { ref: NodeRef; t: number } | null = null;
+  let bestDist = threshold;
+  for (let s = 0; s < subpaths.length; s++) {
+    const sp = subpaths[s];
+    for (let n = 0; n < sp.nodes.length; n++) {
+      const next = nextIndex(sp, n);
+      if (next < 0) continue;
+      const [p0, p1, p2, p3] = segmentPoints(sp.nodes[n], sp.nodes[next]);
+      for (let k = 1; k < HIT_SAMPLES; k++) {
+        const t = k / HIT_SAMPLES;
+        const dist = distance(cubicAt(p0, p1, p2, p3, t), p);
+        if (dist <= bestDist) {
+          best = { ref: { subpath: s, node: n }, t };
+          bestDist = dist;
+        }
+      }
+    }
+  }
+  return best;
+};
+
+/** Splits the segment after `ref` at `t` (de Casteljau), keeping its shape. Returns the new node's ref. */
+export const insertNode = (subpaths: EditableSubpath[], ref: NodeRef, t: number): { subpaths: EditableSubpath[]; ref: NodeRef } => {
+  const next = clone(subpaths);
+  const sp = next[ref.subpath];
+  const a = sp.nodes[ref.node];
+  const b = sp.nodes[nextIndex(sp, ref.node)];
+  let node: PathNode;
+  if (a.out || b.in) {
+    const [p0, p1, p2, p3] = segmentPoints(a, b);
+    const q0 = lerp(p0, p1, t), q1 = lerp(p1, p2, t), q2 = lerp(p2, p3, t);
+    const r0 = lerp(q0, q1, t), r1 = lerp(q1, q2, t);
+    node = { ...lerp(r0, r1, t), in: r0, out: r1 };
+    a.out = q0;
+    b.in = q2;
+  } else {
+    node = lerp(a, b, t);
+  }
+  sp.nodes.splice(ref.node + 1, 0, node);
+  return { subpaths: next, ref: { subpath: ref.subpath, node: ref.node + 1 } };
+};
+
+/** Removes a node; its neighbours join directly. A subpath left with one node is dropped. */
+export const deleteNode = (subpaths: EditableSubpath[], ref: NodeRef): EditableSubpath[] => {
+  const next = clone(subpaths);
+  next[ref.subpath].nodes.splice(ref.node, 1);
+  return next.filter(sp => sp.nodes.length > 1);
+};
+
+/** Gives the segment after `ref` handles at a third of its length, making it a cubic curve. */
+export const segmentToCurve = (subpaths: EditableSubpath[], ref: NodeRef): EditableSubpath[] => {
+  const next = clone(subpaths);
+  const sp = next[ref.subpath];
+  const end = nextIndex(sp, ref.node);
+  if (end < 0) return subpaths;
+  const a = sp.nodes[ref.node], b = sp.nodes[end];
+  a.out = a.out || lerp(a, b, 1 / 3);
+  b.in = b.in || lerp(a, b, 2 / 3);
+  return next;
+};
+
+export const segmentToLine = (subpaths: EditableSubpath[], ref: NodeRef): EditableSubpath[] => {
+  const next = clone(subpaths);
+  const sp = next[ref.subpath];
+  const end = nextIndex(sp, ref.node);
+  if (end < 0) return subpaths;
+  delete sp.nodes[ref.node].out;
+  delete sp.nodes[end].in;
+  return next;
+};
+
+// --- Dragging ---
+
+/** Moves a node together with its handles. */
+export const moveNode = (subpaths: EditableSubpath[], ref: NodeRef, to: Point): EditableSubpath[] => {
+  const next = clone(subpaths);
+  const node = next[ref.subpath].nodes[ref.node];
+  const dx = to.x - node.x, dy = to.y - node.y;
+  node.x = to.x;
+  node.y = to.y;
+  if (node.in) node.in = { x: node.in.x + dx, y: node.in.y + dy };
+  if (node.out) node.out = { x: node.out.x + dx, y: node.out.y + dy };
+  return next;
+};
+
+/**
+ * Moves one handle. With `symmetric` the opposite handle turns to stay collinear,
+ * keeping its own length, so smooth nodes stay smooth.
+ */
+export const moveHandle = (subpaths: EditableSubpath[], ref: NodeRef, handle: 'in' | 'out', to: Point, symmetric: boolean): EditableSubpath[] => {
+  const next = clone(subpaths);
+  const node = next[ref.subpath].nodes[ref.node];
+  node[handle] = { ...to };
+  const other = handle === 'in' ? 'out' : 'in';
+  const opposite = node[other];
+  const length = distance(node, to);
+  if (symmetric && opposite && length > 0) {
+    const otherLength = distance(node, opposite);
+    node[other] = { x: node.x - ((to.x - node.x) / length) * otherLength, y: node.y - ((to.y - node.y) / length) * otherLength };
+  }
+  return next;
+};
+
+// --- Smoothing ---
+
+const sampleSubpath = (sp: EditableSubpath): Point[] => {
+  const points: Point[] = [sp.nodes[0]];
+  const count = sp.closed ? sp.nodes.length : sp.nodes.length - 1;
+  for (let n = 0; n < count; n++) {
+    const a = sp.nodes[n], b = sp.nodes[(n + 1) % sp.nodes.length];
+    if (a.out || b.in) {
+      const [p0, p1, p2, p3] = segmentPoints(a, b);
+      for (let k = 1; k <= 8; k++) points.push(cubicAt(p0, p1, p2, p3, k / 8));
+    } else {
+      points.push(b);
+    }
+  }
+  return points;
+};
+
+/**
+ * Refits a stroke as curves: the outline is simplified with the tolerance (canvas units)
+ * and the remaining points get Catmull-Rom handles, so wobbly freehand input becomes a few smooth nodes.
+ */
+export const smoothSubpaths = (subpaths: EditableSubpath[], tolerance: number): EditableSubpath[] =>
+  subpaths.map(sp => {
+    if (sp.nodes.length < 2) return sp;
+    let points = simplify(sampleSubpath(sp), tolerance);
+    if (sp.closed && points.length > 2 && same(points[0], points[points.length - 1])) points = points.slice(0, -1);
+    const at = (i: number) => sp.closed ? points[(i + points.length) % points.length] : points[Math.max(0, Math.min(points.length - 1, i))];
+    const nodes: PathNode[] = points.map((p, i) => {
+      const prev = at(i - 1), next = at(i + 1);
+      const tangent = { x: (next.x - prev.x) / 6, y: (next.y - prev.y) / 6 };
+      const node: PathNode = { x: p.x, y: p.y };
+      if (sp.closed || i > 0) node.in = { x: p.x - tangent.x, y: p.y - tangent.y };
+      if (sp.closed || i < points.length - 1) node.out = { x: p.x + tangent.x, y: p.y + tangent.y };
+      return node;
+    });
+    return { nodes, closed: sp.closed };
+  });
+
+// --- Snapping ---
+
+/** Snaps each axis to the nearest guide within the threshold, otherwise to the grid. */
+export const snapPoint = (p: Point, options: SnapOptions): Point => {
+  const snapAxis = (value: number, axis: 'horizontal' | 'vertical') => {
+    const guide = options.guides
+      .filter(g => g.axis === axis)
+      .map(g => g.position)
+      .sort((a, b) => Math.abs(a - value) - Math.abs(b - value))[0];
+    if (guide !== undefined && Math.abs(guide - value) <= options.threshold) return guide;
+    return options.grid ? Math.round(value / options.grid) * options.grid : value;
+  };
+  // Horizontal guides fix y, vertical guides fix x
+  return { x: snapAxis(p.x, 'vertical'), y: snapAxis(p.y, 'horizontal') };
+};
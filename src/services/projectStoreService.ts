@@ -0,0 +1,256 @@
+import { LanguageData, ProjectData } from "../types";
+import { prefixRange, STORES, withStore, withTransaction } from "./databaseService";
+import { createLanguage } from "./languageService";
+import { deleteRecording, listRecordingIds } from "./recordingService";
+import { formatSchemaErrors, migrateProject, parseProject } from "./schemaService";
+
+/**
+ * Projects in IndexedDB. Each project is a summary record plus one part per section
+ * (grammar, rules, notebook…) and per language. A save compares every part with what was
+ * last written and only rewrites the parts that changed, so editing one lexicon does not
+ * rewrite the whole family.
+ */
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  author: string;
+  description: string;
+  lastModified: number;
+  wordCount: number;
+  languageCount: number;
+}
+
+interface ProjectRecord extends ProjectSummary {
+  version: string;
+  activeLanguageId?: string;
+  languageIds: string[]; // Family order
+}
+
+interface PartRecord {
+  id: string; // `<projectId>:<part>`
+  projectId: string;
+  part: string;
+  data: unknown;
+}
+
+export const LEGACY_AUTOSAVE_KEY = 'conlang_studio_autosave';
+const ACTIVE_PROJECT_KEY = 'conlang_studio_active_project';
+const SHARED_PARTS = ['grammar', 'evolutionRules', 'constraints', 'glossedExamples', 'notebookDocuments'] as const;
+type SharedPart = typeof SHARED_PARTS[number];
+const META = '#meta';
+const LANGUAGE_PREFIX = 'language:';
+
+// JSON of each part as last written or read, per project
+const savedParts = new Map<string, Map<string, string>>();
+
+const newProjectId = () => Date.now().toString() + Math.random().toString(36).slice(2, 6);
+
+/** The project's languages; a file without a family becomes one root language. */
+const familyOf = (data: ProjectData): LanguageData[] =>
+  data.languages && data.languages.length > 0
+    ? data.languages
+    : [createLanguage(data.name, undefined, { lexicon: data.lexicon || [], phonology: data.phonology, morphology: data.morphology || { dimensions: [], paradigms: [] }, scriptConfig: data.scriptConfig })];
+
+const splitProject = (data: ProjectData, languages: LanguageData[]): Map<string, unknown> => {
+  const parts = new Map<string, unknown>();
+  SHARED_PARTS.forEach(key => parts.set(key, data[key] ?? null));
+  languages.forEach(l => parts.set(LANGUAGE_PREFIX + l.id, l));
+  return parts;
+};
+
+const recordOf = (id: string, data: ProjectData, languages: LanguageData[]): ProjectRecord => ({
+  id,
+  name: data.name,
+  author: data.author,
+  description: data.description,
+  lastModified: data.lastModified || Date.now(),
+  wordCount: languages.reduce((sum, l) => sum + l.lexicon.length, 0),
+  languageCount: languages.length,
+  version: data.version,
+  activeLanguageId: data.activeLanguageId,
+  languageIds: languages.map(l => l.id)
+});
+
+const summaryOf = ({ id, name, author, description, lastModified, wordCount, languageCount }: ProjectRecord): ProjectSummary =>
+  ({ id, name, author, description, lastModified, wordCount, languageCount });
+
+const metaJson = (record: ProjectRecord) => JSON.stringify({ ...record, lastModified: 0 });
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const records = await withStore<ProjectRecord[]>(STORES.projects, 'readonly', store => store.getAll());
+  return records.map(summaryOf).sort((a, b) => b.lastModified - a.lastModified);
+};
+
+/** Writes the parts of the project that changed since the last save or load. */
+export const saveProject = async (id: string, data: ProjectData): Promise<void> => {
+  const languages = familyOf(data);
+  const parts = splitProject(data, languages);
+  const record = recordOf(id, data, languages);
+  const cache = savedParts.get(id) || new Map<string, string>();
+
+  const changed: Array<[string, string, unknown]> = [];
+  parts.forEach((value, part) => {
+    const json = JSON.stringify(value);
+    if (cache.get(part) !== json) changed.push([part, json, value]);
+  });
+  const removed = Array.from(cache.keys()).filter(part => part !== META && !parts.has(part));
+  const meta = metaJson(record);
+  if (changed.length === 0 && removed.length === 0 && cache.get(META) === meta) return;
+
+  await withTransaction([STORES.projects, STORES.projectParts], 'readwrite', transaction => {
+    transaction.objectStore(STORES.projects).put(record);
+    const store = transaction.objectStore(STORES.projectParts);
+    changed.forEach(([part, , value]) => store.put({ id: `${id}:${part}`, projectId: id, part, data: value } as PartRecord));
+    removed.forEach(part => store.delete(`${id}:${part}`));
+  });
+
+  changed.forEach(([part, json]) => cache.set(part, json));
+  removed.forEach(part => cache.delete(part));
+  cache.set(META, meta);
+  savedParts.set(id, cache);
+};
+
+export const loadProject = async (id: string): Promise<ProjectData | null> => {
+  const { record, parts } = await withTransaction([STORES.projects, STORES.projectParts], 'readonly', transaction => ({
+    record: transaction.objectStore(STORES.projects).get(id) as IDBRequest<ProjectRecord | undefined>,
+    parts: transaction.objectStore(STORES.projectParts).getAll(prefixRange(`${id}:`)) as IDBRequest<PartRecord[]>
+  }));
+  if (!record.result) return null;
+  const project = record.result;
+
+  const cache = new Map<string, string>([[META, metaJson(project)]]);
+  const byName = new Map<string, unknown>();
+  parts.result.forEach(p => {
+    byName.set(p.part, p.data);
+    cache.set(p.part, JSON.stringify(p.data));
+  });
+  savedParts.set(id, cache);
+
+  const languages = project.languageIds
+    .map(languageId => byName.get(LANGUAGE_PREFIX + languageId) as LanguageData | undefined)
+    .filter((l): l is LanguageData => !!l);
+  const active = languages.find(l => l.id === project.activeLanguageId) || languages[0];
+  // Shared parts are stored under their `ProjectData` key
+  const shared = <K extends SharedPart>(key: K) => (byName.get(key) ?? undefined) as ProjectData[K];
+
+  // Projects stored by earlier versions are upgraded as they are read, and rewritten on the next save
+  return migrateProject({
+    version: project.version,
+    name: project.name,
+    author: project.author,
+    description: project.description,
+    lexicon: active?.lexicon || [],
+    phonology: active?.phonology,
+    morphology: active?.morphology || { dimensions: [], paradigms: [] },
+    scriptConfig: active?.scriptConfig,
+    grammar: shared('grammar') ?? '',
+    evolutionRules: shared('evolutionRules') || [],
+    constraints: shared('constraints'),
+    glossedExamples: shared('glossedExamples') || [],
+    notebookDocuments: shared('notebookDocuments') || [],
+    languages,
+    activeLanguageId: active?.id,
+    lastModified: project.lastModified
+  });
+};
+
+/** Stores a project (new, or read from a file) and returns its id. */
+export const createProject = async (data: ProjectData): Promise<string> => {
+  const id = newProjectId();
+  await saveProject(id, { ...data, languages: familyOf(data), lastModified: Date.now() });
+  return id;
+};
+
+export const duplicateProject = async (id: string, name: string): Promise<string | null> => {
+  const data = await loadProject(id);
+  return data ? createProject({ ...data, name }) : null;
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const record = await withStore<ProjectRecord | undefined>(STORES.projects, 'readonly', store => store.get(id));
+  if (!record) return;
+  await withStore(STORES.projects, 'readwrite', store => store.put({ ...record, name, lastModified: Date.now() }));
+  savedParts.get(id)?.set(META, metaJson({ ...record, name }));
+};
+
+const recordingIdsOf = (languages: LanguageData[]) =>
+  languages.flatMap(l => l.lexicon.map(e => e.recording?.id).filter((r): r is string => !!r));
+
+/** Recording ids a project's entries refer to. */
+export const projectRecordingIds = (data: ProjectData): string[] => recordingIdsOf(familyOf(data));
+
+/**
+ * Deletes the stored audio no project, snapshot or earlier autosave refers to. Entries drop their
+ * recordings without deleting the audio (undo, snapshots and copies of the project may still use
+ * it), so this runs on start, before any undo history exists.
+ */
+export const collectUnusedRecordings = async (): Promise<void> => {
+  const legacy = localStorage.getItem(LEGACY_AUTOSAVE_KEY);
+  const used = new Set<string>();
+  if (legacy) {
+    try {
+      recordingIdsOf(familyOf(JSON.parse(legacy))).forEach(r => used.add(r));
+    } catch {
+      return; // An autosave that cannot be read may still refer to recordings
+    }
+  }
+  const { parts, snapshots } = await withTransaction([STORES.projectParts, STORES.snapshots], 'readonly', transaction => ({
+    parts: transaction.objectStore(STORES.projectParts).getAll() as IDBRequest<PartRecord[]>,
+    snapshots: transaction.objectStore(STORES.snapshots).getAll() as IDBRequest<Array<{ data: ProjectData }>>
+  }));
+  recordingIdsOf([
+    ...parts.result.filter(p => p.part.startsWith(LANGUAGE_PREFIX)).map(p => p.data as LanguageData),
+    ...snapshots.result.flatMap(s => familyOf(s.data))
+  ]).forEach(r => used.add(r));
+  const stored = await listRecordingIds();
+  await Promise.all(stored.filter(r => !used.has(r)).map(r => deleteRecording(r).catch(() => undefined)));
+};
+
+/**
+ * Deletes a project with its parts and snapshots, and the recordings no other project or snapshot uses.
+ * `inUse` names recordings to keep anyway, such as those the open project's undo history refers to.
+ */
+export const deleteProject = async (id: string, inUse: string[] = []): Promise<void> => {
+  const { parts, snapshots } = await withTransaction([STORES.projectParts, STORES.snapshots], 'readonly', transaction => ({
+    parts: transaction.objectStore(STORES.projectParts).getAll() as IDBRequest<PartRecord[]>,
+    snapshots: transaction.objectStore(STORES.snapshots).getAll() as IDBRequest<Array<{ projectId: string; data: ProjectData }>>
+  }));
+  const languagesOf = (projectId: string, same: boolean) => [
+    ...parts.result.filter(p => (p.projectId === projectId) === same && p.part.startsWith(LANGUAGE_PREFIX)).map(p => p.data as LanguageData),
+    ...snapshots.result.filter(s => (s.projectId === projectId) === same).flatMap(s => familyOf(s.data))
+  ];
+  const ours = new Set(recordingIdsOf(languagesOf(id, true)));
+  const others = new Set([...recordingIdsOf(languagesOf(id, false)), ...inUse]);
+
+  await withTransaction([STORES.projects, STORES.projectParts, STORES.snapshots], 'readwrite', transaction => {
+    transaction.objectStore(STORES.projects).delete(id);
+    transaction.objectStore(STORES.projectParts).delete(prefixRange(`${id}:`));
+    transaction.objectStore(STORES.snapshots).delete(prefixRange(`${id}:`));
+  });
+  savedParts.delete(id);
+  await Promise.all(Array.from(ours).filter(r => !others.has(r)).map(r => deleteRecording(r).catch(() => undefined)));
+};
+
+export const getActiveProjectId = (): string | null => localStorage.getItem(ACTIVE_PROJECT_KEY);
+export const setActiveProjectId = (id: string) => localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+
+/**
+ * Moves the single autosave of earlier versions into the store. Returns its new id, or null when there was none.
+ * Throws when the autosave cannot be read; it then stays in place so nothing is lost.
+ */
+export const migrateLegacyAutosave = async (): Promise<string | null> => {
+  const saved = localStorage.getItem(LEGACY_AUTOSAVE_KEY);
+  if (!saved) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(saved);
+  } catch (e: any) {
+    throw new Error(`The earlier autosave is not valid JSON: ${e.message}`);
+  }
+  const { data, errors } = parseProject(raw);
+  if (!data) throw new Error(`The earlier autosave could not be read:\n${formatSchemaErrors(errors)}`);
+  const id = await createProject(data);
+  localStorage.removeItem(LEGACY_AUTOSAVE_KEY);
+  return id;
+};
@@ -0,0 +1,154 @@
+import { EntryRecording, LexiconEntry } from "../types";
+import { STORES, withStore } from "./databaseService";
+
+/**
+ * Pronunciation recordings for lexicon entries. The audio is kept in IndexedDB and the entry
+ * only holds an `EntryRecording` (id, duration and waveform peaks), so the project JSON stays small.
+ * Recordings travel between machines in a separate bundle file.
+ */
+
+interface StoredRecording {
+  id: string;
+  blob: Blob;
+  createdAt: number;
+}
+
+export interface RecordingBundle {
+  format: 'conlang-studio-recordings';
+  version: 1;
+  recordings: Array<EntryRecording & { word: string; data: string }>; // data: base64 data URL
+}
+
+const PEAK_COUNT = 64;
+
+export interface ActiveRecorder {
+  stop: () => Promise<Blob>;
+  cancel: () => void;
+}
+
+export const isRecordingSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+/** Starts recording from the microphone. Throws when permission is denied. */
+export const startRecording = async (): Promise<ActiveRecorder> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const release = () => stream.getTracks().forEach(track => track.stop());
+  recorder.start();
+
+  return {
+    stop: () => new Promise(resolve => {
+      recorder.onstop = () => {
+        release();
+        resolve(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+      };
+      recorder.stop();
+    }),
+    cancel: () => {
+      recorder.onstop = release;
+      if (recorder.state !== 'inactive') recorder.stop();
+      else release();
+    }
+  };
+};
+
+/** Duration and a peak envelope of an audio blob, for the waveform on the entry card. */
+export const analyzeAudio = async (blob: Blob): Promise<{ duration: number; peaks: number[] }> => {
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    const audio = await context.decodeAudioData(await blob.arrayBuffer());
+    const data = audio.getChannelData(0);
+    const size = Math.max(1, Math.floor(data.length / PEAK_COUNT));
+    const peaks: number[] = [];
+    for (let i = 0; i < data.length && peaks.length < PEAK_COUNT; i += size) {
+      let peak = 0;
+      for (let j = i; j < Math.min(data.length, i + size); j++) peak = Math.max(peak, Math.abs(data[j]));
+      peaks.push(peak);
+    }
+    const loudest = Math.max(...peaks, 0.001);
+    return { duration: audio.duration, peaks: peaks.map(p => +(p / loudest).toFixed(3)) };
+  } finally {
+    context.close();
+  }
+};
+
+/** Stores the audio and returns the reference an entry keeps. Throws on audio the browser cannot decode. */
+export const saveRecording = async (blob: Blob): Promise<EntryRecording> => {
+  const { duration, peaks } = await analyzeAudio(blob);
+  const id = Date.now().toString();
+  await withStore(STORES.recordings, 'readwrite', store => store.put({ id, blob, createdAt: Date.now() } as StoredRecording));
+  return { id, mimeType: blob.type || 'audio/webm', duration, peaks };
+};
+
+export const getRecording = async (id: string): Promise<Blob | null> => {
+  const stored = await withStore<StoredRecording | undefined>(STORES.recordings, 'readonly', store => store.get(id));
+  return stored?.blob || null;
+};
+
+export const listRecordingIds = async (): Promise<string[]> =>
+  (await withStore<IDBValidKey[]>(STORES.recordings, 'readonly', store => store.getAllKeys())).map(String);
+
+export const deleteRecording = (id: string): Promise<undefined> =>
+  withStore(STORES.recordings, 'readwrite', store => store.delete(id));
+
+let playing: HTMLAudioElement | null = null;
+
+/** Plays a stored recording; resolves false when its audio is missing from this browser. */
+export const playRecording = async (recording: EntryRecording): Promise<boolean> => {
+  const blob = await getRecording(recording.id);
+  if (!blob) return false;
+  playing?.pause();
+  const url = URL.createObjectURL(blob);
+  playing = new Audio(url);
+  playing.onended = () => URL.revokeObjectURL(url);
+  await playing.play();
+  return true;
+};
+
+// --- Bundles ---
+
+const toDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/** Collects the recordings of the entries into one file. Entries whose audio is missing are left out. */
+export const exportRecordingBundle = async (entries: LexiconEntry[]): Promise<RecordingBundle> => {
+  const recordings: RecordingBundle['recordings'] = [];
+  for (const entry of entries) {
+    if (!entry.recording) continue;
+    const blob = await getRecording(entry.recording.id);
+    if (blob) recordings.push({ ...entry.recording, word: entry.word, data: await toDataUrl(blob) });
+  }
+  return { format: 'conlang-studio-recordings', version: 1, recordings };
+};
+
+/**
+ * Restores the audio of a bundle into IndexedDB, and attaches each recording to the entry that
+ * already references it or, failing that, to an entry with its word. A bundle id that is taken
+ * here by different audio is stored under a new id, so local recordings are never overwritten.
+ */
+export const importRecordingBundle = async (bundle: RecordingBundle, entries: LexiconEntry[]): Promise<LexiconEntry[]> => {
+  if (bundle?.format !== 'conlang-studio-recordings' || !Array.isArray(bundle.recordings)) {
+    throw new Error('Not a recordings bundle');
+  }
+  let updated = entries;
+  for (const [index, { word, data, ...recording }] of bundle.recordings.entries()) {
+    const blob = await (await fetch(data)).blob();
+    const existing = await getRecording(recording.id);
+    const conflict = !!existing && await toDataUrl(existing) !== data;
+    const id = conflict ? `${Date.now()}-${index}` : recording.id;
+    if (!existing || conflict) {
+      await withStore(STORES.recordings, 'readwrite', store => store.put({ id, blob, createdAt: Date.now() } as StoredRecording));
+    }
+    // Entries referencing a conflicting id belong to the local recording, not this one
+    if (!conflict && updated.some(e => e.recording?.id === id)) continue;
+    const target = updated.find(e => !e.recording && e.word === word);
+    if (target) updated = updated.map(e => e === target ? { ...e, recording: { ...recording, id } } : e);
+  }
+  return updated;
+};
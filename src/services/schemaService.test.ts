@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_VERSION, parseProject } from './schemaService';
+
+const legacyFile = {
+  name: 'Old',
+  lexicon: [{ id: '1', word: 'ka' }],
+  grammar: 'S ::= NP VP',
+  scriptConfig: { direction: 'ltr', glyphs: [{ char: 'a', strokes: [], imageUrl: 'data:image/png;base64,AAAA' }] }
+};
+
+describe('parseProject', () => {
+  it('migrates a 1.0.0 single-language file into a family', () => {
+    const { data, errors, migratedFrom } = parseProject(legacyFile);
+    expect(errors).toEqual([]);
+    expect(migratedFrom).toBe('1.0.0');
+    expect(data?.version).toBe(CURRENT_VERSION);
+    expect(data?.languages).toHaveLength(1);
+    expect(data?.activeLanguageId).toBe(data?.languages?.[0].id);
+    expect(data?.lexicon[0]).toMatchObject({ word: 'ka', ipa: '', pos: '', definition: '' });
+    expect(data?.grammar).toBe('S ::= NP VP');
+    expect(data?.evolutionRules).toEqual([]);
+
+    const glyph = data?.scriptConfig?.glyphs[0];
+    expect(glyph).not.toHaveProperty('imageUrl');
+    expect(glyph?.strokes[0]).toMatchObject({ id: 'img-a', type: 'image', imageUrl: 'data:image/png;base64,AAAA' });
+  });
+
+  it('reads a saved current file back unchanged', () => {
+    const saved = JSON.parse(JSON.stringify(parseProject(legacyFile).data));
+    const { data, errors, migratedFrom } = parseProject(saved);
+    expect(errors).toEqual([]);
+    expect(migratedFrom).toBeUndefined();
+    expect(data).toEqual(saved);
+  });
+
+  it('reports errors by path', () => {
+    const { data, errors } = parseProject({ ...legacyFile, lexicon: [{ id: '1', word: 3 }] });
+    expect(data).toBeNull();
+    expect(errors).toEqual([{ path: 'lexicon[0].word', message: 'expected text, got number' }]);
+
+    const saved = parseProject(legacyFile).data!;
+    expect(parseProject({ ...saved, activeLanguageId: 'nope' }).errors).toEqual([{ path: 'activeLanguageId', message: 'no language has the id "nope"' }]);
+    expect(parseProject({ ...saved, scriptConfig: { ...saved.scriptConfig, glyphs: [{ char: 'a', strokes: [], imageUrl: 'x' }] } }).errors[0].path).toBe('scriptConfig.glyphs[0].imageUrl');
+  });
+
+  it('refuses files from a newer version and non-projects', () => {
+    expect(parseProject({ ...legacyFile, version: '9.0.0' }).errors[0].message).toContain('newer');
+    expect(parseProject([]).errors).toEqual([{ path: '(root)', message: 'expected a project object, got a list' }]);
+  });
+});
+
+describe('mirrored sections', () => {
+  it('refuses a top-level section that disagrees with the active language', () => {
+    const saved = parseProject(legacyFile).data!;
+    const edited = { ...saved, lexicon: [...saved.lexicon, { id: '2', word: 'ta', ipa: '', pos: '', definition: '' }] };
+    const { data, errors } = parseProject(JSON.parse(JSON.stringify(edited)));
+    expect(data).toBeNull();
+    expect(errors).toEqual([{ path: 'lexicon', message: 'differs from languages[0].lexicon, the active language it mirrors; make both the same' }]);
+  });
+});
@@ -0,0 +1,358 @@
+import { LanguageData, ProjectData, ScriptGlyph } from "../types";
+import { createLanguage } from "./languageService";
+
+/**
+ * The versions of the project file format. Each version has a schema, and each older version a
+ * migration to the next one. Files are validated against the schema of the version they declare,
+ * migrated step by step to `CURRENT_VERSION`, then validated again.
+ */
+
+export const CURRENT_VERSION = '2.0.0';
+const LEGACY_VERSION = '1.0.0'; // Files written before the field existed
+
+export interface SchemaError {
+  path: string; // e.g. `languages[0].lexicon[3].word`
+  message: string;
+}
+
+export interface ParsedProject {
+  data: ProjectData | null; // Null when the file has errors
+  errors: SchemaError[];
+  migratedFrom?: string; // Version the file was upgraded from
+}
+
+// --- Schema building blocks ---
+
+type Check = (value: unknown, path: string, errors: SchemaError[]) => void;
+
+const describe = (value: unknown) => value === null ? 'null' : Array.isArray(value) ? 'a list' : typeof value;
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const fail = (errors: SchemaError[], path: string, expected: string, value: unknown) =>
+  errors.push({ path: path || '(root)', message: value === undefined ? `missing; expected ${expected}` : `expected ${expected}, got ${describe(value)}` });
+
+const text: Check = (v, path, errors) => { if (typeof v !== 'string') fail(errors, path, 'text', v); };
+const number: Check = (v, path, errors) => { if (typeof v !== 'number' || isNaN(v)) fail(errors, path, 'a number', v); };
+const boolean: Check = (v, path, errors) => { if (typeof v !== 'boolean') fail(errors, path, 'true or false', v); };
+
+const oneOf = (...values: string[]): Check => (v, path, errors) => {
+  if (typeof v !== 'string' || !values.includes(v)) fail(errors, path, `one of ${values.join(', ')}`, v);
+};
+
+const optional = (check: Check): Check => (v, path, errors) => { if (v !== undefined && v !== null) check(v, path, errors); };
+
+const listOf = (item: Check): Check => (v, path, errors) => {
+  if (!Array.isArray(v)) return fail(errors, path, 'a list', v);
+  v.forEach((x, i) => item(x, `${path}[${i}]`, errors));
+};
+
+const record = (value: Check): Check => (v, path, errors) => {
+  if (!isObject(v)) return fail(errors, path, 'an object', v);
+  Object.entries(v).forEach(([key, x]) => value(x, `${path}.${key}`, errors));
+};
+
+/** An object with the given fields; fields not listed are allowed and left alone. */
+const object = (fields: Record<string, Check>, ...rules: Check[]): Check => (v, path, errors) => {
+  if (!isObject(v)) return fail(errors, path, 'an object', v);
+  Object.entries(fields).forEach(([key, check]) => check(v[key], path ? `${path}.${key}` : key, errors));
+  rules.forEach(rule => rule(v, path, errors));
+};
+
+// --- Sections ---
+
+const point = object({ x: number, y: number });
+
+const recording = object({ id: text, mimeType: text, duration: number, peaks: listOf(number) });
+
+const entry = (strict: boolean) => object({
+  id: text,
+  word: text,
+  ipa: strict ? text : optional(text),
+  pos: strict ? text : optional(text),
+  definition: strict ? text : optional(text),
+  etymology: optional(text),
+  derivedFrom: optional(text),
+  notes: optional(text),
+  recording: optional(recording)
+});
+
+const phoneme = object({ symbol: text, type: oneOf('consonant', 'vowel', 'tone'), voiced: optional(boolean), rounded: optional(boolean) });
+
+const phonology = object({
+  name: optional(text),
+  consonants: listOf(phoneme),
+  vowels: listOf(phoneme),
+  tones: optional(listOf(phoneme)),
+  syllableStructure: optional(text),
+  bannedCombinations: optional(listOf(text)),
+  orthography: optional(listOf(object({ id: text, grapheme: text, phoneme: text, environment: optional(text) }))),
+  stress: optional(object({ pattern: oneOf('initial', 'final', 'penultimate', 'antepenultimate', 'weight', 'lexical') }))
+});
+
+const morphology = object({
+  dimensions: listOf(object({ id: text, name: text, values: listOf(text) })),
+  paradigms: listOf(object({
+    id: text,
+    name: text,
+    pos: optional(text),
+    dimensions: listOf(text),
+    rules: listOf(object({ coordinates: record(text), affix: text, isPrefix: optional(boolean) }))
+  })),
+  boundaryRules: optional(listOf(object({ id: text, type: oneOf('sound-change', 'harmony', 'epenthesis'), enabled: boolean })))
+});
+
+const stroke = object({
+  id: text,
+  type: oneOf('path', 'rect', 'circle', 'line', 'image'),
+  d: optional(text),
+  width: optional(number),
+  imageUrl: optional(text)
+});
+
+const glyph = (strict: boolean) => object({
+  char: text,
+  pua: optional(text),
+  strokes: listOf(stroke),
+  imageUrl: strict ? (v, path, errors) => { if (v !== undefined) errors.push({ path, message: 'no longer supported; reference images are image layers' }); } : optional(text),
+  anchor: optional(point),
+  markAnchor: optional(point)
+});
+
+const script = (strict: boolean) => object({
+  name: optional(text),
+  direction: oneOf('ltr', 'rtl', 'ttb'),
+  glyphs: listOf(glyph(strict)),
+  substitutions: optional(listOf(object({ id: text, input: text, output: text }))),
+  kerning: optional(listOf(object({ id: text, left: text, right: text, value: number })))
+});
+
+const soundChange = object({ id: text, rule: text, description: optional(text) });
+
+const constraintRule = object({ target: text, conditionPos: optional(text) });
+
+const constraints = object({
+  allowDuplicates: optional(boolean),
+  caseSensitive: optional(boolean),
+  bannedSequences: optional(listOf(text)),
+  allowedGraphemes: optional(text),
+  phonotacticStructure: optional(text),
+  mustStartWith: optional(listOf(constraintRule)),
+  mustEndWith: optional(listOf(constraintRule)),
+  customSortingOrder: optional(text),
+  sortingLocale: optional(text)
+});
+
+const glossedExample = object({ id: text, text, segmentation: text, gloss: text, translation: text });
+
+const notebookDocument = object({ id: text, title: text, content: text, tags: listOf(text), created: number, modified: number });
+
+const language = (strict: boolean) => object({
+  id: text,
+  name: text,
+  parentId: optional(text),
+  lexicon: listOf(entry(strict)),
+  phonology: optional(phonology),
+  morphology: strict ? morphology : optional(morphology),
+  scriptConfig: optional(script(strict)),
+  evolutionRules: strict ? listOf(soundChange) : optional(listOf(soundChange))
+});
+
+// --- Whole-project rules ---
+
+const hasWords: Check = (v, _path, errors) => {
+  const project = v as Record<string, unknown>;
+  if (!Array.isArray(project.lexicon) && !Array.isArray(project.languages)) {
+    errors.push({ path: 'lexicon', message: 'a project needs a lexicon or a list of languages' });
+  }
+};
+
+const familyIsLinked: Check = (v, _path, errors) => {
+  const project = v as { languages?: Array<{ id?: unknown; parentId?: unknown }>; activeLanguageId?: unknown };
+  if (!Array.isArray(project.languages)) return;
+  if (project.languages.length === 0) errors.push({ path: 'languages', message: 'expected at least one language' });
+  const ids = new Set(project.languages.map(l => l?.id));
+  if (project.languages.length > 0 && !ids.has(project.activeLanguageId)) errors.push({ path: 'activeLanguageId', message: `no language has the id ${JSON.stringify(project.activeLanguageId)}` });
+  project.languages.forEach((l, i) => {
+    if (l?.parentId !== undefined && l?.parentId !== null && !ids.has(l.parentId)) errors.push({ path: `languages[${i}].parentId`, message: `no language has the id ${JSON.stringify(l.parentId)}` });
+  });
+};
+
+// Deep equality where a missing field, `undefined` and `null` are the same
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b || (a == null && b == null)) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((x, i) => sameValue(x, b[i]));
+  }
+  if (!isObject(a) || !isObject(b)) return false;
+  return Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).every(key => sameValue(a[key], b[key]));
+};
+
+const MIRRORED_SECTIONS = ['lexicon', 'phonology', 'morphology', 'scriptConfig'] as const;
+
+// Loading reads the active language, so a top-level copy that says otherwise would be dropped unseen
+const mirrorsActiveLanguage: Check = (v, _path, errors) => {
+  const project = v as Record<string, unknown>;
+  if (!Array.isArray(project.languages)) return;
+  const index = project.languages.findIndex(l => isObject(l) && l.id === project.activeLanguageId);
+  if (index === -1) return;
+  const active = project.languages[index] as Record<string, unknown>;
+  MIRRORED_SECTIONS.filter(key => !sameValue(project[key], active[key])).forEach(key => errors.push({
+    path: key,
+    message: `differs from languages[${index}].${key}, the active language it mirrors; make both the same`
+  }));
+};
+
+// --- Versions ---
+
+/** 1.0.0: every section optional; single-language files keep their data at the top level. */
+const projectV1 = object({
+  version: optional(text),
+  name: optional(text),
+  author: optional(text),
+  description: optional(text),
+  lexicon: optional(listOf(entry(false))),
+  grammar: optional(text),
+  phonology: optional(phonology),
+  morphology: optional(morphology),
+  evolutionRules: optional(listOf(soundChange)),
+  constraints: optional(constraints),
+  scriptConfig: optional(script(false)),
+  languages: optional(listOf(language(false))),
+  activeLanguageId: optional(text),
+  glossedExamples: optional(listOf(glossedExample)),
+  notebookDocuments: optional(listOf(notebookDocument)),
+  lastModified: optional(number)
+}, hasWords);
+
+/** 2.0.0: every project is a language family; the active language is mirrored at the top level. */
+const projectV2 = object({
+  version: text,
+  name: text,
+  author: text,
+  description: text,
+  lexicon: listOf(entry(true)),
+  grammar: text,
+  phonology: optional(phonology),
+  morphology,
+  evolutionRules: listOf(soundChange),
+  constraints,
+  scriptConfig: optional(script(true)),
+  languages: listOf(language(true)),
+  activeLanguageId: text,
+  glossedExamples: listOf(glossedExample),
+  notebookDocuments: listOf(notebookDocument),
+  lastModified: number
+}, familyIsLinked, mirrorsActiveLanguage);
+
+const SCHEMAS: Record<string, Check> = {
+  '1.0.0': projectV1,
+  '2.0.0': projectV2
+};
+
+// Glyph image references (`ScriptGlyph.imageUrl`) become a reference image layer, as the editor creates them
+const migrateGlyph = (glyph: ScriptGlyph & { imageUrl?: string }): ScriptGlyph => {
+  const { imageUrl, ...rest } = glyph;
+  if (!imageUrl || glyph.strokes?.some(s => s.type === 'image')) return rest;
+  return {
+    ...rest,
+    strokes: [{
+      id: `img-${glyph.char}`, type: 'image', d: '', width: 400, height: 400, x: 0, y: 0,
+      strokeWidth: 0, cap: 'round', color: '', visible: true, locked: false,
+      label: 'Reference Matrix', imageUrl, opacity: 0.8
+    }, ...(glyph.strokes || [])]
+  };
+};
+
+const migrateLanguageV1 = (l: LanguageData): LanguageData => ({
+  ...l,
+  lexicon: l.lexicon.map(e => ({ ...e, ipa: e.ipa ?? '', pos: e.pos ?? '', definition: e.definition ?? '' })),
+  morphology: l.morphology || { dimensions: [], paradigms: [] },
+  scriptConfig: l.scriptConfig && { ...l.scriptConfig, glyphs: l.scriptConfig.glyphs.map(migrateGlyph) },
+  evolutionRules: l.evolutionRules || []
+});
+
+/** 1.0.0 → 2.0.0: single-language files become a family, missing sections get their empty values. */
+const migrateV1 = (data: any): ProjectData => {
+  const name = data.name ?? '';
+  const family: LanguageData[] = Array.isArray(data.languages) && data.languages.length > 0
+    ? data.languages
+    : [createLanguage(name || 'New Project', undefined, { lexicon: data.lexicon || [], phonology: data.phonology, morphology: data.morphology, scriptConfig: data.scriptConfig })];
+  const languages = family.map(migrateLanguageV1);
+  const active = languages.find(l => l.id === data.activeLanguageId) || languages[0];
+  return {
+    ...data,
+    version: '2.0.0',
+    name,
+    author: data.author ?? '',
+    description: data.description ?? '',
+    grammar: data.grammar ?? '',
+    evolutionRules: data.evolutionRules || [],
+    constraints: data.constraints || {},
+    glossedExamples: data.glossedExamples || [],
+    notebookDocuments: data.notebookDocuments || [],
+    languages,
+    activeLanguageId: active.id,
+    lexicon: active.lexicon,
+    phonology: active.phonology,
+    morphology: active.morphology,
+    scriptConfig: active.scriptConfig,
+    lastModified: data.lastModified || Date.now()
+  };
+};
+
+const MIGRATIONS: Record<string, (data: any) => ProjectData> = {
+  '1.0.0': migrateV1
+};
+
+const compareVersions = (a: string, b: string) => {
+  const pa = a.split('.').map(Number), pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    if ((pa[i] || 0) !== (pb[i] || 0)) return (pa[i] || 0) - (pb[i] || 0);
+  }
+  return 0;
+};
+
+const validate = (check: Check, value: unknown): SchemaError[] => {
+  const errors: SchemaError[] = [];
+  check(value, '', errors);
+  return errors;
+};
+
+/** Upgrades a project to `CURRENT_VERSION` without validating it, for data this app wrote itself. */
+export const migrateProject = (data: ProjectData): ProjectData => {
+  let current: ProjectData = data;
+  let version = current.version || LEGACY_VERSION;
+  while (version !== CURRENT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from project version ${version}`);
+    current = migrate(current);
+    version = current.version;
+  }
+  return current;
+};
+
+/** Validates a project read from a file or edited by hand, and upgrades it to the current version. */
+export const parseProject = (raw: unknown): ParsedProject => {
+  if (!isObject(raw)) return { data: null, errors: [{ path: '(root)', message: `expected a project object, got ${describe(raw)}` }] };
+  const version = raw.version ?? LEGACY_VERSION;
+  if (typeof version !== 'string' || !SCHEMAS[version]) {
+    const newer = typeof version === 'string' && compareVersions(version, CURRENT_VERSION) > 0;
+    return {
+      data: null,
+      errors: [{ path: 'version', message: newer ? `written by a newer Conlang Studio (${version}); this one reads up to ${CURRENT_VERSION}` : `unknown project version ${JSON.stringify(version)}` }]
+    };
+  }
+
+  const errors = validate(SCHEMAS[version], raw);
+  if (errors.length > 0) return { data: null, errors };
+  const data = migrateProject(raw as unknown as ProjectData);
+  const remaining = validate(SCHEMAS[CURRENT_VERSION], data);
+  if (remaining.length > 0) return { data: null, errors: remaining };
+  return { data, errors: [], migratedFrom: version === CURRENT_VERSION ? undefined : version };
+};
+
+/** One line per error, at most `limit` of them. */
+export const formatSchemaErrors = (errors: SchemaError[], limit = 12): string => {
+  const lines = errors.slice(0, limit).map(e => `${e.path}: ${e.message}`);
+  if (errors.length > limit) lines.push(`… (+${errors.length - limit})`);
+  return lines.join('\n');
+};
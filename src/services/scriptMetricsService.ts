@@ -0,0 +1,86 @@
+import { GlyphStroke, KerningPair, ScriptConfig, ScriptGlyph, ScriptGuide, ScriptMetrics } from "../types";
+import { glyphToContours } from "./glyphOutlineService";
+
+/**
+ * Vertical metrics, side bearings and kerning for conscripts, in canvas units (y down).
+ * The renderer and the font export both lay glyphs out through `glyphLayout`, so a
+ * glyph sits the same on screen and in the exported font.
+ */
+
+export interface InkBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+export interface GlyphLayout {
+  advance: number; // Horizontal space the glyph takes, bearings included
+  offsetX: number; // Shift applied to the drawing so the left bearing is honoured
+}
+
+const CANVAS_SIZE = 400;
+export const MONO_ADVANCE = CANVAS_SIZE;
+export const DEFAULT_RIGHT_BEARING = 20;
+const MIN_ADVANCE = 50;
+
+// The renderer has always drawn the canvas at 0.75em with its bottom 0.12em below the baseline
+export const DEFAULT_METRICS: ScriptMetrics = { ascender: 0, xHeight: 176, baseline: 336, descender: CANVAS_SIZE };
+
+/** Em per canvas unit: the full canvas height is 0.75em. */
+export const CANVAS_TO_EM = 0.75 / CANVAS_SIZE;
+
+export const getScriptMetrics = (config?: ScriptConfig): ScriptMetrics => ({ ...DEFAULT_METRICS, ...config?.metrics });
+
+/** The metric lines as canvas guides, so nodes snap to them while editing. */
+export const metricGuides = (metrics: ScriptMetrics): ScriptGuide[] => [
+  { id: 'metric-ascender', axis: 'horizontal', position: metrics.ascender, label: 'Ascender' },
+  { id: 'metric-x-height', axis: 'horizontal', position: metrics.xHeight, label: 'x-height' },
+  { id: 'metric-baseline', axis: 'horizontal', position: metrics.baseline, label: 'Baseline' },
+  { id: 'metric-descender', axis: 'horizontal', position: metrics.descender, label: 'Descender' }
+];
+
+const boundsCache = new WeakMap<GlyphStroke[], InkBounds | null>();
+
+/** Extent of the visible ink, stroke width included. Null for an empty glyph. */
+export const inkBounds = (strokes: GlyphStroke[]): InkBounds | null => {
+  if (boundsCache.has(strokes)) return boundsCache.get(strokes)!;
+  let box: InkBounds | null = null;
+  glyphToContours({ char: '', pua: '', strokes }).forEach(contour => contour.forEach(p => {
+    if (!box) box = { minX: p.x, maxX: p.x, minY: p.y, maxY: p.y };
+    else {
+      box.minX = Math.min(box.minX, p.x); box.maxX = Math.max(box.maxX, p.x);
+      box.minY = Math.min(box.minY, p.y); box.maxY = Math.max(box.maxY, p.y);
+    }
+  }));
+  boundsCache.set(strokes, box);
+  return box;
+};
+
+/** Width stored with a glyph that has no explicit right bearing: the ink plus the default bearing. */
+export const measureViewWidth = (strokes: GlyphStroke[]): number => {
+  const box = inkBounds(strokes);
+  return Math.min(CANVAS_SIZE, Math.max(MIN_ADVANCE, (box?.maxX ?? 0) + DEFAULT_RIGHT_BEARING));
+};
+
+/**
+ * Where a glyph is drawn and how far the pen moves. Without bearings a glyph keeps the
+ * position it was drawn at and its stored `viewWidth`; a left bearing moves the ink to
+ * that distance from the origin and a right bearing sets the space after it.
+ */
+export const glyphLayout = (glyph: ScriptGlyph, config?: ScriptConfig): GlyphLayout => {
+  const box = glyph.leftBearing !== undefined || glyph.rightBearing !== undefined ? inkBounds(glyph.strokes || []) : null;
+  const offsetX = box && glyph.leftBearing !== undefined ? glyph.leftBearing - box.minX : 0;
+  if (config?.spacingMode !== 'proportional') return { advance: MONO_ADVANCE, offsetX };
+  const advance = box && glyph.rightBearing !== undefined
+    ? box.maxX + offsetX + glyph.rightBearing
+    : (glyph.viewWidth ?? measureViewWidth(glyph.strokes || [])) + offsetX;
+  return { advance: Math.max(0, advance), offsetX };
+};
+
+/** Kerning between two glyphs (by `char`), negative to tighten. */
+export const kerningValue = (config: ScriptConfig | undefined, left: string, right: string): number =>
+  config?.kerning?.find(k => k.left === left && k.right === right)?.value ?? 0;
+
+export const kerningPairsFor = (config: ScriptConfig): KerningPair[] =>
+  (config.kerning || []).filter(k => k.left && k.right && k.value);
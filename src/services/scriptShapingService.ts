@@ -0,0 +1,132 @@
+import { GlyphForm, GlyphSubstitution, ScriptConfig, ScriptGlyph } from "../types";
+
+/**
+ * Text shaping for conscripts: maps characters to glyphs through the substitution
+ * table (ligatures, digraphs, positional and contextual forms) and attaches
+ * combining marks to the preceding base glyph.
+ */
+
+export interface ShapedCluster {
+  text: string; // Source characters this cluster covers
+  glyph?: ScriptGlyph; // Undefined when the script has no glyph for the text
+  marks: ScriptGlyph[];
+  isSpace: boolean;
+}
+
+export const WORD_BOUNDARY = '#';
+
+/** `pua` is stored as an escape sequence (`\uE061`); returns its codepoint. */
+export const decodePua = (pua: string): number | null => {
+  try {
+    const text: string = pua.startsWith('\\') ? JSON.parse(`"${pua}"`) : pua;
+    return text ? text.codePointAt(0) ?? null : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const puaChar = (glyph: ScriptGlyph): string => {
+  const cp = decodePua(glyph.pua);
+  return cp !== null ? String.fromCodePoint(cp) : glyph.char;
+};
+
+/** Glyph by name, or by its PUA character so already-copied text renders too. */
+export const findGlyph = (config: ScriptConfig, key: string): ScriptGlyph | undefined =>
+  config.glyphs.find(g => g.char === key) || config.glyphs.find(g => g.pua && puaChar(g) === key);
+
+const formAt = (starts: boolean, ends: boolean): GlyphForm =>
+  starts && ends ? 'isolated' : starts ? 'initial' : ends ? 'final' : 'medial';
+
+// A context set lists characters; `#` stands for the word edge
+const contextMatches = (set: string | undefined, neighbour: string | undefined): boolean => {
+  if (!set) return true;
+  if (neighbour === undefined) return set.includes(WORD_BOUNDARY);
+  return Array.from(set).includes(neighbour);
+};
+
+const specificity = (rule: GlyphSubstitution) => (rule.form ? 1 : 0) + (rule.before ? 1 : 0) + (rule.after ? 1 : 0);
+
+/**
+ * Finds the rule to apply at `i` within the word `chars[start, end)`.
+ * The longest input wins; between equal lengths a rule with more conditions, then table order.
+ */
+const matchRule = (rules: GlyphSubstitution[], chars: string[], i: number, start: number, end: number): { rule: GlyphSubstitution; length: number } | null => {
+  let best: { rule: GlyphSubstitution; length: number } | null = null;
+  for (const rule of rules) {
+    const input = Array.from(rule.input);
+    if (input.length === 0 || i + input.length > end) continue;
+    if (!input.every((c, k) => chars[i + k] === c)) continue;
+    const j = i + input.length;
+    if (rule.form && rule.form !== formAt(i === start, j === end)) continue;
+    if (!contextMatches(rule.before, i > start ? chars[i - 1] : undefined)) continue;
+    if (!contextMatches(rule.after, j < end ? chars[j] : undefined)) continue;
+    if (!best || input.length > best.length || (input.length === best.length && specificity(rule) > specificity(best.rule))) {
+      best = { rule, length: input.length };
+    }
+  }
+  return best;
+};
+
+export const shapeText = (text: string, config: ScriptConfig): ShapedCluster[] => {
+  const chars = Array.from(text);
+  const rules = (config.substitutions || []).filter(r => r.input && r.output);
+  const clusters: ShapedCluster[] = [];
+  let i = 0;
+
+  while (i < chars.length) {
+    if (/\s/.test(chars[i])) {
+      clusters.push({ text: chars[i], marks: [], isSpace: true });
+      i++;
+      continue;
+    }
+    let start = i, end = i;
+    while (start > 0 && !/\s/.test(chars[start - 1])) start--;
+    while (end < chars.length && !/\s/.test(chars[end])) end++;
+
+    const match = matchRule(rules, chars, i, start, end);
+    const length = match ? match.length : 1;
+    const source = chars.slice(i, i + length).join('');
+    const glyph = findGlyph(config, match ? match.rule.output : source);
+    i += length;
+
+    const previous = clusters[clusters.length - 1];
+    if (glyph?.mark && previous && !previous.isSpace && previous.glyph) {
+      previous.marks.push(glyph);
+      previous.text += source;
+    } else {
+      clusters.push({ text: source, glyph, marks: [], isSpace: false });
+    }
+  }
+  return clusters;
+};
+
+/** Offset that puts a mark's anchor on its base's anchor; marks without anchors stay where drawn. */
+export const markOffset = (base: ScriptGlyph, mark: ScriptGlyph): { x: number; y: number } => {
+  if (!base.anchor || !mark.markAnchor) return { x: 0, y: 0 };
+  return { x: base.anchor.x - mark.markAnchor.x, y: base.anchor.y - mark.markAnchor.y };
+};
+
+/** Shaped text as PUA characters, for pasting into places that use the exported font. */
+export const toPuaText = (text: string, config: ScriptConfig): string =>
+  shapeText(text, config)
+    .map(c => c.glyph ? puaChar(c.glyph) + c.marks.map(puaChar).join('') : c.text)
+    .join('');
+
+/**
+ * Next free PUA codepoint for named glyphs (ligatures, alternates) that have no
+ * single character to derive one from. Starts above the range used for ASCII.
+ */
+export const allocatePua = (config: ScriptConfig): string => {
+  const used = new Set(config.glyphs.map(g => decodePua(g.pua)));
+  let cp = 0xf000;
+  while (used.has(cp) && cp < 0xf8ff) cp++;
+  return `\\u${cp.toString(16).toUpperCase()}`;
+};
+
+/** Characters below U+1000 map to U+E000 + their code, clear of the named-glyph range; others get a free slot. */
+export const defaultPua = (char: string, config: ScriptConfig): string => {
+  const chars = Array.from(char);
+  const code = chars.length === 1 ? chars[0].codePointAt(0)! : -1;
+  if (code >= 0 && code < 0x1000) return `\\u${(0xE000 + code).toString(16).toUpperCase()}`;
+  return allocatePua(config);
+};
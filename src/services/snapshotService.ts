@@ -0,0 +1,46 @@
+import { ProjectData } from "../types";
+import { prefixRange, STORES, withStore } from "./databaseService";
+import { migrateProject } from "./schemaService";
+
+/**
+ * Named snapshots of a project. A snapshot is a full copy of the project state at the moment it
+ * was taken; it can be compared with the working state, restored over it or checked out as a project.
+ */
+
+export interface SnapshotSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  wordCount: number;
+}
+
+interface SnapshotRecord {
+  id: string; // `<projectId>:<snapshotId>`
+  projectId: string;
+  snapshot: SnapshotSummary;
+  data: ProjectData;
+}
+
+const countWords = (data: ProjectData) => data.languages && data.languages.length > 0
+  ? data.languages.reduce((sum, l) => sum + l.lexicon.length, 0)
+  : data.lexicon.length;
+
+export const createSnapshot = async (projectId: string, name: string, data: ProjectData): Promise<SnapshotSummary> => {
+  const snapshot: SnapshotSummary = { id: Date.now().toString(), name, createdAt: Date.now(), wordCount: countWords(data) };
+  await withStore(STORES.snapshots, 'readwrite', store => store.put({ id: `${projectId}:${snapshot.id}`, projectId, snapshot, data } as SnapshotRecord));
+  return snapshot;
+};
+
+/** Snapshots of a project, newest first. */
+export const listSnapshots = async (projectId: string): Promise<SnapshotSummary[]> => {
+  const records = await withStore<SnapshotRecord[]>(STORES.snapshots, 'readonly', store => store.getAll(prefixRange(`${projectId}:`)));
+  return records.map(r => r.snapshot).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const loadSnapshot = async (projectId: string, id: string): Promise<ProjectData | null> => {
+  const record = await withStore<SnapshotRecord | undefined>(STORES.snapshots, 'readonly', store => store.get(`${projectId}:${id}`));
+  return record ? migrateProject(record.data) : null;
+};
+
+export const deleteSnapshot = (projectId: string, id: string): Promise<undefined> =>
+  withStore(STORES.snapshots, 'readwrite', store => store.delete(`${projectId}:${id}`));
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { applySoundChanges, commitEvolution, compileSoundChanges, evolveWords } from './soundChangeService';
+import { LexiconEntry, SoundChangeRule } from '../types';
+
+const run = (word: string, ...rules: string[]) => {
+  const list: SoundChangeRule[] = ['V=aeiou', 'C=ptkbdgmns', ...rules].map((rule, i) => ({ id: String(i), rule, description: '' }));
+  const { compiled, errors } = compileSoundChanges(list);
+  expect(errors).toEqual([]);
+  return applySoundChanges(word, compiled).result;
+};
+
+describe('applySoundChanges', () => {
+  it('applies plain and conditioned changes', () => {
+    expect(run('pata', 'p > f')).toBe('fata');
+    expect(run('pata', 'a > e / _#')).toBe('pate');
+    expect(run('kiki', 'k > ʃ / _i // #_')).toBe('kiʃi');
+  });
+
+  it('maps inline sets by index', () => {
+    expect(run('apa', '[ptk] > [bdg] / V_V')).toBe('aba');
+  });
+
+  it('matches replacement categories to target categories by name', () => {
+    expect(run('ak', 'VC > CV')).toBe('ka');
+    expect(run('mosa', 'CV > VC / #_')).toBe('omsa');
+  });
+
+  it('geminates and metathesises', () => {
+    expect(run('ata', 'C > C² / V_V')).toBe('atta');
+    expect(run('aska', 'sk > \\')).toBe('aksa');
+  });
+
+  it('deletes with optional context', () => {
+    expect(run('ah', 'h > Ø / _(C)#')).toBe('a');
+  });
+});
+
+describe('commitEvolution', () => {
+  const proto: LexiconEntry = { id: 'w1', word: 'pata', ipa: '', pos: 'Noun', definition: 'foot', recording: { id: 'r1', mimeType: 'audio/webm', duration: 1, peaks: [] } };
+  const { results } = evolveWords([proto], [{ id: '1', rule: 'p > f', description: '' }]);
+
+  it('leaves the proto recording off daughter entries', () => {
+    const [daughter] = commitEvolution(results, new Set(['w1']), 'daughter');
+    expect(daughter.word).toBe('fata');
+    expect(daughter.derivedFrom).toBe('w1');
+    expect(daughter.recording).toBeUndefined();
+  });
+
+  it('keeps the recording when replacing in place', () => {
+    expect(commitEvolution(results, new Set(['w1']), 'replace')[0].recording?.id).toBe('r1');
+  });
+});
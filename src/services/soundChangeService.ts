@@ -0,0 +1,421 @@
+import { LexiconEntry, PhonologyConfig, SoundChangeRule } from "../types";
+import { changeFeatures, inventory, isFeatureSpec, naturalClassMembers, parseFeatureSpec } from "./featureService";
+
+/**
+ * A local, deterministic sound-change applier for SCA-style notation.
+ *
+ * Supported syntax (one rule per SoundChangeRule.rule):
+ *   V=aeiou                 category definition (members may also be comma separated: V=a,e,i,aː)
+ *   a > e / C_#             target > replacement / environment
+ *   k > ʃ / _i // s_        `//` introduces an exception environment
+ *   [ptk] > [bdg] / V_V     inline sets, mapped to each other by index
+ *   h > Ø / _(C)#           `( )` optional elements, `#` word boundary, `Ø`/`∅` empty
+ *   C > C² / V_V            `²` gemination (repeats the previous segment)
+ *   sk > \ / V_#            `\` metathesis (reverses the matched target)
+ *   [-voice] > [+voice] / V_V   feature classes match inventory members; in the replacement
+ *                               they change the captured segment's features
+ */
+
+export interface SoundChangeStep {
+  ruleId: string;
+  rule: string;
+  before: string;
+  after: string;
+}
+
+export interface SoundChangeError {
+  ruleId: string;
+  rule: string;
+  message: string;
+}
+
+export interface EvolvedEntry {
+  source: LexiconEntry;
+  entry: LexiconEntry;
+  trace: SoundChangeStep[];
+}
+
+type Element =
+  | { kind: 'literal'; value: string }
+  | { kind: 'category'; name: string; members: string[]; shift?: Record<string, string> }
+  | { kind: 'optional'; elements: Element[] }
+  | { kind: 'repeat' };
+
+interface Environment {
+  before: Element[];
+  after: Element[];
+}
+
+export interface CompiledRule {
+  id: string;
+  source: string;
+  target: Element[];
+  replacement: Element[];
+  metathesis: boolean;
+  environment: Environment;
+  exception?: Environment;
+}
+
+interface MatchState {
+  pos: number;
+  captures: number[];
+  names: string[]; // Category of each capture, so replacements can find theirs by name
+  values: string[]; // The segment each category matched, for feature changes
+  segments: string[];
+}
+
+const BOUNDARY = '#';
+const EMPTY_MARKERS = ['Ø', '∅'];
+const CATEGORY_DEF = /^\s*([A-Z])\s*=\s*(.+?)\s*$/;
+
+class RuleSyntaxError extends Error {}
+
+// --- Parsing ---
+
+const parseMembers = (body: string): string[] => {
+  const members = /[,\s]/.test(body.trim())
+    ? body.split(/[,\s]+/).filter(Boolean)
+    : Array.from(body.trim());
+  return members.map(m => (EMPTY_MARKERS.includes(m) ? '' : m));
+};
+
+/**
+ * Collects `X=...` category definitions from the rule list.
+ */
+export const collectCategories = (rules: SoundChangeRule[]): Record<string, string[]> => {
+  const categories: Record<string, string[]> = {};
+  rules.forEach(r => {
+    const match = r.rule.match(CATEGORY_DEF);
+    if (match) categories[match[1]] = parseMembers(match[2]);
+  });
+  return categories;
+};
+
+/** A `[+feature -feature]` class: its inventory members, and each phoneme's counterpart with the values applied. */
+const featureClass = (body: string, phonology?: PhonologyConfig): Element => {
+  const spec = parseFeatureSpec(body, phonology);
+  const shift: Record<string, string> = {};
+  inventory(phonology).forEach(p => {
+    const target = changeFeatures(p, spec, phonology);
+    if (target) shift[p.symbol] = target.symbol;
+  });
+  return { kind: 'category', name: `[${body}]`, members: naturalClassMembers(spec, phonology).map(p => p.symbol), shift };
+};
+
+const parsePattern = (pattern: string, categories: Record<string, string[]>, phonology?: PhonologyConfig): Element[] => {
+  const stack: Element[][] = [[]];
+  const chars = Array.from(pattern.trim());
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const current = stack[stack.length - 1];
+
+    if (/\s/.test(char)) continue;
+    if (EMPTY_MARKERS.includes(char) && chars.length === 1) return [];
+
+    if (char === '(') {
+      stack.push([]);
+    } else if (char === ')') {
+      if (stack.length === 1) throw new RuleSyntaxError(`Unbalanced ")" in "${pattern}"`);
+      const inner = stack.pop()!;
+      stack[stack.length - 1].push({ kind: 'optional', elements: inner });
+    } else if (char === '[') {
+      const close = chars.indexOf(']', i);
+      if (close === -1) throw new RuleSyntaxError(`Unclosed "[" in "${pattern}"`);
+      const body = chars.slice(i + 1, close).join('');
+      current.push(isFeatureSpec(body) ? featureClass(body, phonology) : { kind: 'category', name: `[${body}]`, members: parseMembers(body) });
+      i = close;
+    } else if (char === ']') {
+      throw new RuleSyntaxError(`Unbalanced "]" in "${pattern}"`);
+    } else if (char === '²') {
+      current.push({ kind: 'repeat' });
+    } else if (categories[char]) {
+      current.push({ kind: 'category', name: char, members: categories[char] });
+    } else {
+      current.push({ kind: 'literal', value: char });
+    }
+  }
+
+  if (stack.length > 1) throw new RuleSyntaxError(`Unclosed "(" in "${pattern}"`);
+  return stack[0];
+};
+
+const parseEnvironment = (env: string, categories: Record<string, string[]>, phonology?: PhonologyConfig): Environment => {
+  const parts = env.split('_');
+  if (parts.length !== 2) throw new RuleSyntaxError(`Environment "${env.trim()}" must contain exactly one "_"`);
+  return {
+    before: parsePattern(parts[0], categories, phonology),
+    after: parsePattern(parts[1], categories, phonology)
+  };
+};
+
+const countCategories = (elements: Element[]): number =>
+  elements.reduce((acc, el) => acc + (el.kind === 'category' ? 1 : el.kind === 'optional' ? countCategories(el.elements) : 0), 0);
+
+const compileRule = (rule: SoundChangeRule, categories: Record<string, string[]>, phonology?: PhonologyConfig): CompiledRule => {
+  const [change, ...envParts] = rule.rule.split('/');
+  const arrow = change.includes('→') ? '→' : '>';
+  const sides = change.split(arrow);
+  if (sides.length !== 2) throw new RuleSyntaxError('Expected "target > replacement"');
+
+  const envText = envParts.join('/');
+  const [envMain, envException] = envText.includes('//') ? envText.split('//') : [envText, undefined];
+  const replacementText = sides[1].trim();
+  const metathesis = replacementText === '\\';
+
+  const compiled: CompiledRule = {
+    id: rule.id,
+    source: rule.rule,
+    target: parsePattern(sides[0], categories, phonology),
+    replacement: metathesis ? [] : parsePattern(replacementText, categories, phonology),
+    metathesis,
+    environment: envMain && envMain.trim() ? parseEnvironment(envMain, categories, phonology) : { before: [], after: [] },
+    exception: envException && envException.trim() ? parseEnvironment(envException, categories, phonology) : undefined
+  };
+
+  if (compiled.target.some(el => el.kind === 'literal' && el.value === BOUNDARY)) {
+    throw new RuleSyntaxError('Word boundaries belong in the environment, not the target');
+  }
+  if (countCategories(compiled.replacement) > countCategories(compiled.target)) {
+    throw new RuleSyntaxError('Replacement has more categories than the target');
+  }
+  if (metathesis && compiled.target.length < 2) {
+    throw new RuleSyntaxError('Metathesis needs at least two target segments');
+  }
+  return compiled;
+};
+
+/**
+ * Compiles a rule list, skipping category definitions and blank rules.
+ * Invalid rules are reported instead of thrown so the rest of the list still runs.
+ * Categories defined in the list override `baseCategories`; feature classes draw on `phonology`.
+ */
+export const compileSoundChanges = (
+  rules: SoundChangeRule[],
+  baseCategories: Record<string, string[]> = {},
+  phonology?: PhonologyConfig
+): { compiled: CompiledRule[]; errors: SoundChangeError[] } => {
+  const categories = { ...baseCategories, ...collectCategories(rules) };
+  const compiled: CompiledRule[] = [];
+  const errors: SoundChangeError[] = [];
+
+  rules.forEach(rule => {
+    if (!rule.rule.trim() || CATEGORY_DEF.test(rule.rule)) return;
+    try {
+      compiled.push(compileRule(rule, categories, phonology));
+    } catch (e: any) {
+      errors.push({ ruleId: rule.id, rule: rule.rule, message: e?.message || 'Invalid rule' });
+    }
+  });
+
+  return { compiled, errors };
+};
+
+// --- Matching ---
+
+const matchElement = (el: Element, text: string, state: MatchState): MatchState[] => {
+  switch (el.kind) {
+    case 'literal':
+      return text.startsWith(el.value, state.pos)
+        ? [{ ...state, pos: state.pos + el.value.length, segments: [...state.segments, el.value] }]
+        : [];
+    case 'category': {
+      const results: MatchState[] = [];
+      el.members.forEach((member, index) => {
+        if (member === '' || !text.startsWith(member, state.pos)) return;
+        results.push({
+          pos: state.pos + member.length,
+          captures: [...state.captures, index],
+          names: [...state.names, el.name],
+          values: [...state.values, member],
+          segments: [...state.segments, member]
+        });
+      });
+      // Longest member first so digraphs win over their first letter
+      return results.sort((a, b) => b.pos - a.pos);
+    }
+    case 'optional':
+      return [...matchSequence(el.elements, text, state), state];
+    case 'repeat': {
+      const last = state.segments[state.segments.length - 1];
+      return last && text.startsWith(last, state.pos)
+        ? [{ ...state, pos: state.pos + last.length, segments: [...state.segments, last] }]
+        : [];
+    }
+  }
+};
+
+const matchSequence = (elements: Element[], text: string, state: MatchState): MatchState[] =>
+  elements.reduce<MatchState[]>(
+    (states, el) => states.flatMap(s => matchElement(el, text, s)),
+    [state]
+  );
+
+const matchesBefore = (elements: Element[], text: string, end: number): boolean => {
+  if (elements.length === 0) return true;
+  for (let start = end; start >= 0; start--) {
+    const states = matchSequence(elements, text, { pos: start, captures: [], names: [], values: [], segments: [] });
+    if (states.some(s => s.pos === end)) return true;
+  }
+  return false;
+};
+
+const matchesEnvironment = (env: Environment, text: string, start: number, target: MatchState): boolean =>
+  matchesBefore(env.before, text, start) &&
+  matchSequence(env.after, text, { pos: target.pos, captures: [], names: [], values: [], segments: target.segments.slice(-1) }).length > 0;
+
+const isNamedCategory = (name: string) => !name.startsWith('[');
+
+/**
+ * Which capture of the target each replacement category takes: the next unused one of the
+ * same category (`VC > CV`), in order for inline `[...]` sets, else the next unused capture.
+ */
+const assignCaptures = (replacement: Element[], names: string[]): number[] => {
+  const used = new Set<number>();
+  const take = (accept: (name: string) => boolean) => {
+    const index = names.findIndex((name, i) => !used.has(i) && accept(name));
+    if (index !== -1) used.add(index);
+    return index;
+  };
+  return replacement.filter((el): el is Extract<Element, { kind: 'category' }> => el.kind === 'category').map(el => {
+    const index = isNamedCategory(el.name) ? take(name => name === el.name) : take(name => !isNamedCategory(name));
+    return index !== -1 ? index : take(() => true);
+  });
+};
+
+const buildReplacement = (rule: CompiledRule, match: MatchState): string => {
+  if (rule.metathesis) return [...match.segments].reverse().join('');
+
+  const output: string[] = [];
+  const assigned = assignCaptures(rule.replacement, match.names);
+  let categoryIndex = 0;
+  rule.replacement.forEach(el => {
+    if (el.kind === 'literal') {
+      output.push(el.value);
+    } else if (el.kind === 'category' && el.shift) {
+      const value = match.values[assigned[categoryIndex++]] ?? '';
+      output.push(el.shift[value] ?? value);
+    } else if (el.kind === 'category') {
+      const captured = match.captures[assigned[categoryIndex++]];
+      output.push(el.members[Math.min(captured ?? 0, el.members.length - 1)] ?? '');
+    } else if (el.kind === 'repeat') {
+      output.push(output[output.length - 1] || '');
+    } else {
+      // Optional elements are meaningless in an output; emit their content
+      output.push(el.elements.map(inner => (inner.kind === 'literal' ? inner.value : '')).join(''));
+    }
+  });
+  return output.join('');
+};
+
+/** Pads a word with boundary markers, the form `matchRuleAt` expects. */
+export const padWord = (word: string): string => `${BOUNDARY}${word}${BOUNDARY}`;
+
+/**
+ * Tries a rule at one position of a padded word. Returns where the longest
+ * match in a valid environment ends and what it is replaced with.
+ */
+export const matchRuleAt = (text: string, rule: CompiledRule, start: number): { end: number; output: string } | null => {
+  const candidates = matchSequence(rule.target, text, { pos: start, captures: [], names: [], values: [], segments: [] })
+    .filter(s => s.pos <= text.length - 1)
+    .sort((a, b) => b.pos - a.pos);
+
+  const match = candidates.find(s =>
+    matchesEnvironment(rule.environment, text, start, s) &&
+    !(rule.exception && matchesEnvironment(rule.exception, text, start, s))
+  );
+  return match ? { end: match.pos, output: buildReplacement(rule, match) } : null;
+};
+
+/**
+ * Applies one rule simultaneously across the word, scanning left to right.
+ */
+export const applyRule = (word: string, rule: CompiledRule): string => {
+  const text = padWord(word);
+  const end = text.length - 1;
+  let output = '';
+  let i = 1;
+
+  while (i <= end) {
+    const match = matchRuleAt(text, rule, i);
+    if (match) {
+      output += match.output;
+      if (match.end > i) {
+        i = match.end;
+        continue;
+      }
+    }
+    if (i < end) output += text[i];
+    i++;
+  }
+  return output;
+};
+
+/**
+ * Runs every compiled rule in order, recording each rule that changed the form.
+ */
+export const applySoundChanges = (word: string, rules: CompiledRule[]): { result: string; trace: SoundChangeStep[] } => {
+  const trace: SoundChangeStep[] = [];
+  const result = rules.reduce((current, rule) => {
+    const next = applyRule(current, rule);
+    if (next !== current) trace.push({ ruleId: rule.id, rule: rule.source, before: current, after: next });
+    return next;
+  }, word);
+  return { result, trace };
+};
+
+const stripSlashes = (ipa: string) => ipa.trim().replace(/^[/[]|[/\]]$/g, '');
+
+/**
+ * Evolves a whole lexicon. Both the written form and the IPA go through the same rules;
+ * the trace follows the written form.
+ */
+export const evolveWords = (
+  words: LexiconEntry[],
+  rules: SoundChangeRule[],
+  phonology?: PhonologyConfig
+): { results: EvolvedEntry[]; errors: SoundChangeError[] } => {
+  const { compiled, errors } = compileSoundChanges(rules, {}, phonology);
+
+  const results = words.map(source => {
+    const { result, trace } = applySoundChanges(source.word, compiled);
+    const ipa = source.ipa ? applySoundChanges(stripSlashes(source.ipa), compiled).result : source.ipa;
+    return { source, entry: { ...source, word: result, ipa }, trace };
+  });
+
+  return { results, errors };
+};
+
+// --- Committing ---
+
+export type EvolutionCommitMode = 'replace' | 'daughter';
+
+/**
+ * Extends an entry's etymology into a "*proto > … > current" chain.
+ * An existing chain (starting with `*`) is continued rather than restarted.
+ */
+export const buildEtymologyChain = (source: LexiconEntry, trace: SoundChangeStep[]): string => {
+  const base = source.etymology?.trim().startsWith('*') ? source.etymology.trim() : `*${source.word}`;
+  return [base, ...trace.map(step => step.after)].join(' > ');
+};
+
+/**
+ * Turns accepted evolution results into lexicon entries.
+ * 'replace' keeps ids so they can be merged back in place; 'daughter' mints new
+ * entries whose `derivedFrom` points at the proto entry.
+ */
+export const commitEvolution = (
+  results: EvolvedEntry[],
+  acceptedIds: Set<string>,
+  mode: EvolutionCommitMode
+): LexiconEntry[] =>
+  results
+    .filter(r => acceptedIds.has(r.source.id))
+    .map(({ source, entry: { recording, ...entry }, trace }) => ({
+      ...entry,
+      // The proto's audio no longer matches an evolved word; a replaced word keeps its own
+      recording: mode === 'daughter' ? undefined : recording,
+      id: mode === 'daughter' ? Date.now().toString() + Math.random() : source.id,
+      derivedFrom: mode === 'daughter' ? source.id : source.derivedFrom,
+      etymology: buildEtymologyChain(source, trace)
+    }));
@@ -0,0 +1,301 @@
+import { Phoneme, PhonologyConfig, SpeechSettings } from "../types";
+import { inventory, ipaDescriptor, ipaLetters, isIpaVowel } from "./featureService";
+import { splitTone, toneLevels } from "./ipaService";
+import { segmentIPA, SECONDARY_STRESS_MARK, STRESS_MARK } from "./syllableService";
+
+/**
+ * Offline IPA playback with a formant synthesizer on the Web Audio API.
+ * An utterance is planned as frames (voicing, frication, three formants and pitch), read off
+ * each segment's manner/place or height/backness; the player then glides the nodes from frame
+ * to frame. Segments the synthesizer cannot place are returned so callers can report them.
+ */
+
+export interface SpeechFrame {
+  symbol: string;
+  duration: number; // Seconds at rate 1
+  voice: number; // Amplitude of the glottal source, 0..1
+  noise: number; // Amplitude of frication, 0..1
+  noiseFrequency: number; // Centre of the frication band in Hz
+  formants: [number, number, number];
+  pitch: [number, number]; // Start and end pitch, relative to the base pitch
+}
+
+export interface SpeechPlan {
+  frames: SpeechFrame[];
+  unknown: string[];
+}
+
+export const DEFAULT_SPEECH: SpeechSettings = { rate: 1, pitch: 120 };
+
+const NEUTRAL: [number, number, number] = [500, 1500, 2500];
+const WORD_PAUSE = 0.12;
+const VOWEL_DURATION = 0.14;
+const STRESS_PITCH = 1.12;
+const STRESS_LENGTH = 1.3;
+// One tone level is three semitones; level 3 is the base pitch
+const toneRatio = (level: number) => Math.pow(2, ((level - 3) * 3) / 12);
+
+const F1_BY_HEIGHT: Record<string, number> = {
+  'close': 280, 'near-close': 360, 'close-mid': 400, 'mid': 500, 'open-mid': 580, 'near-open': 700, 'open': 800
+};
+const NOISE_BY_PLACE: Record<string, number> = {
+  'bilabial': 1000, 'labiodental': 5500, 'dental': 6500, 'alveolar': 6000, 'postalveolar': 3200, 'retroflex': 2800,
+  'palatal': 3800, 'velar': 1800, 'uvular': 1200, 'pharyngeal': 1000, 'glottal': 1500
+};
+// Formant loci of sonorant consonants; F2 carries most of the place
+const F2_BY_PLACE: Record<string, number> = {
+  'bilabial': 900, 'labiodental': 1100, 'dental': 1500, 'alveolar': 1600, 'postalveolar': 1900, 'retroflex': 1400,
+  'palatal': 2200, 'velar': 1300, 'uvular': 1100, 'pharyngeal': 1000, 'glottal': 1500
+};
+
+const frame = (symbol: string, duration: number, values: Partial<SpeechFrame>): SpeechFrame => ({
+  symbol, duration, voice: 0, noise: 0, noiseFrequency: 3000, formants: NEUTRAL, pitch: [1, 1], ...values
+});
+
+const vowelFormants = (vowel: Partial<Phoneme>): [number, number, number] => {
+  const f1 = F1_BY_HEIGHT[vowel.height || 'mid'] ?? 500;
+  const openness = (f1 - 280) / 520;
+  let f2 = vowel.backness === 'front' ? 2300 - openness * 650 : vowel.backness === 'back' ? 800 + openness * 350 : 1500 - openness * 150;
+  let f3 = vowel.backness === 'front' ? 3000 - openness * 400 : 2500;
+  if (vowel.rounded) {
+    f2 *= vowel.backness === 'back' ? 0.9 : 0.8;
+    f3 -= 250;
+  }
+  return [f1, Math.round(f2), f3];
+};
+
+/** Chart fields of a segment: the inventory's own entry when it has them, otherwise the IPA table. */
+const describe = (base: string, phonology?: PhonologyConfig): Partial<Phoneme> => {
+  const own = inventory(phonology).find(p => p.symbol.normalize('NFC') === base);
+  if (own && (own.manner || own.height)) return own;
+  return ipaDescriptor(base);
+};
+
+const consonantFrames = (symbol: string, c: Partial<Phoneme>, decomposed: string): SpeechFrame[] => {
+  const place = c.place || 'alveolar';
+  const voiced = !!c.voiced || decomposed.includes('̬');
+  const hiss = NOISE_BY_PLACE[place] ?? 3000;
+  const locus: [number, number, number] = [300, F2_BY_PLACE[place] ?? 1500, 2500];
+  const sibilant = place === 'alveolar' || place === 'postalveolar' || place === 'retroflex';
+  const frication = frame(symbol, 0.11, { noise: sibilant ? 0.7 : 0.45, noiseFrequency: hiss, voice: voiced ? 0.35 : 0, formants: locus });
+  const closure = (duration: number) => frame(symbol, duration, { voice: voiced ? 0.12 : 0, formants: locus });
+  const burst = (strength: number) => frame(symbol, 0.025, { noise: strength, noiseFrequency: hiss, voice: voiced ? 0.3 : 0, formants: locus });
+
+  let frames: SpeechFrame[];
+  switch (c.manner) {
+    case 'plosive':
+    case 'implosive':
+      frames = place === 'glottal' ? [closure(0.07)] : [closure(0.07), burst(0.6)];
+      break;
+    case 'click':
+    case 'lateral-click':
+      frames = [closure(0.04), frame(symbol, 0.015, { noise: 1, noiseFrequency: 2500 })];
+      break;
+    case 'affricate':
+      frames = [closure(0.05), { ...frication, duration: 0.08 }];
+      break;
+    case 'fricative':
+    case 'lateral-fricative':
+      frames = place === 'glottal' ? [{ ...frication, noise: 0.25, noiseFrequency: 1500 }] : [frication];
+      break;
+    case 'nasal':
+      frames = [frame(symbol, 0.08, { voice: 0.55, formants: [250, F2_BY_PLACE[place] ?? 1500, 2500] })];
+      break;
+    case 'trill':
+      // Three quick closures
+      frames = [0, 1, 2].flatMap(() => [
+        frame(symbol, 0.025, { voice: 0.25, formants: locus }),
+        frame(symbol, 0.02, { voice: 0.6, formants: [450, 1400, 1800] })
+      ]);
+      break;
+    case 'tap':
+      frames = [frame(symbol, 0.03, { voice: 0.3, formants: locus })];
+      break;
+    case 'lateral-approximant':
+      frames = [frame(symbol, 0.07, { voice: 0.7, formants: [350, 1100, 2700] })];
+      break;
+    default: // Approximants
+      frames = [frame(symbol, 0.07, { voice: 0.7, formants: place === 'alveolar' || place === 'retroflex' ? [350, 1300, 1700] : [300, F2_BY_PLACE[place] ?? 1500, 2600] })];
+  }
+
+  if (decomposed.includes('ʰ')) frames.push(frame(symbol, 0.05, { noise: 0.3, noiseFrequency: 1500, formants: locus }));
+  if (decomposed.includes('ʼ')) frames.push(frame(symbol, 0.04, {}));
+  if (decomposed.includes('ː')) frames.forEach(f => { f.duration *= 1.8; });
+  return frames;
+};
+
+const vowelFrames = (symbol: string, base: string, decomposed: string, levels: number[], stressed: boolean, phonology?: PhonologyConfig): SpeechFrame[] => {
+  const targets = ipaLetters(base).filter(isIpaVowel).map(letter => describe(letter, phonology));
+  const own = describe(base, phonology);
+  if (targets.length === 0) targets.push(own);
+  else if (own.height && targets.length === 1) targets[0] = own;
+
+  let duration = VOWEL_DURATION * (stressed ? STRESS_LENGTH : 1);
+  if (decomposed.includes('ː')) duration *= 1.8;
+  if (decomposed.includes('ˑ')) duration *= 1.4;
+  if (targets.length > 1) duration *= 1.5;
+  const nasal = decomposed.includes('̃');
+
+  // A contour tone runs over the whole nucleus; a diphthong glides between its vowels
+  const steps = Math.max(targets.length, levels.length - 1, 1);
+  const pitchAt = (i: number) => {
+    const stress = stressed ? STRESS_PITCH : 1;
+    if (levels.length === 0) return stress;
+    const position = (i / steps) * (levels.length - 1);
+    const low = Math.floor(position), high = Math.min(levels.length - 1, low + 1);
+    return stress * toneRatio(levels[low] + (levels[high] - levels[low]) * (position - low));
+  };
+
+  return Array.from({ length: steps }, (_, i) => {
+    const target = targets[Math.min(targets.length - 1, i)];
+    const [f1, f2, f3] = vowelFormants(target);
+    return frame(symbol, duration / steps, {
+      voice: nasal ? 0.75 : 1,
+      formants: nasal ? [f1 + 60, f2, f3 - 200] : [f1, f2, f3],
+      pitch: [pitchAt(i), pitchAt(i + 1)]
+    });
+  });
+};
+
+/** Plans an IPA transcription (slashes or brackets optional) as synthesizer frames. */
+export const planSpeech = (ipa: string, phonology?: PhonologyConfig): SpeechPlan => {
+  const frames: SpeechFrame[] = [];
+  const unknown: string[] = [];
+  const words = ipa.trim().replace(/^[/[]|[/\]]$/g, '').split(/[\s/]+/).filter(Boolean);
+
+  words.forEach((word, w) => {
+    if (w > 0) frames.push(frame(' ', WORD_PAUSE, {}));
+    // Stress marks stay with the syllable they precede
+    word.split(new RegExp(`(?=[${STRESS_MARK}${SECONDARY_STRESS_MARK}])`)).forEach(part => {
+      const stressed = part.startsWith(STRESS_MARK);
+      segmentIPA(part, phonology).forEach(segment => {
+        const { base, tone } = splitTone(segment.symbol);
+        const decomposed = base.normalize('NFD');
+        const c = describe(base, phonology);
+        if (c.type === 'vowel' || (!c.type && segment.isVowel && ipaLetters(base).length > 0)) {
+          frames.push(...vowelFrames(segment.symbol, base, decomposed, toneLevels(tone), stressed, phonology));
+        } else if (c.type === 'consonant') {
+          frames.push(...consonantFrames(segment.symbol, c, decomposed));
+        } else if (!unknown.includes(segment.symbol)) {
+          unknown.push(segment.symbol);
+        }
+      });
+    });
+  });
+  return { frames, unknown };
+};
+
+/** What to play for a chart phoneme: vowels alone, consonants between [a]s, tones on [a]. */
+export const phonemeSample = (phoneme: Phoneme): string =>
+  phoneme.type === 'consonant' ? `a${phoneme.symbol}a` : phoneme.type === 'tone' ? `a${phoneme.symbol}` : phoneme.symbol;
+
+// --- Playback ---
+
+let context: AudioContext | null = null;
+let stopCurrent: (() => void) | null = null;
+
+const getContext = (): AudioContext => {
+  if (!context) context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  return context;
+};
+
+const noiseBuffer = (ctx: AudioContext): AudioBuffer => {
+  const buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  return buffer;
+};
+
+export const stopSpeech = () => {
+  stopCurrent?.();
+  stopCurrent = null;
+};
+
+/**
+ * Speaks an IPA transcription and resolves when playback ends. Returns the segments that
+ * could not be synthesized (they are left out of the sound).
+ */
+export const speakIPA = async (ipa: string, phonology?: PhonologyConfig, settings: SpeechSettings = DEFAULT_SPEECH): Promise<string[]> => {
+  const { frames, unknown } = planSpeech(ipa, phonology);
+  stopSpeech();
+  if (frames.length === 0) return unknown;
+
+  const ctx = getContext();
+  if (ctx.state === 'suspended') await ctx.resume();
+  const rate = Math.max(0.25, settings.rate || 1);
+  const basePitch = Math.max(40, settings.pitch || DEFAULT_SPEECH.pitch);
+
+  const master = ctx.createGain();
+  master.connect(ctx.destination);
+
+  // Glottal source through three parallel formant resonators
+  const glottis = ctx.createOscillator();
+  glottis.type = 'sawtooth';
+  const voice = ctx.createGain();
+  voice.gain.value = 0;
+  glottis.connect(voice);
+  const resonators = [1, 0.5, 0.25].map(level => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'bandpass';
+    const gain = ctx.createGain();
+    gain.gain.value = level;
+    voice.connect(filter).connect(gain).connect(master);
+    return filter;
+  });
+
+  const noise = ctx.createBufferSource();
+  noise.buffer = noiseBuffer(ctx);
+  noise.loop = true;
+  const hiss = ctx.createBiquadFilter();
+  hiss.type = 'bandpass';
+  hiss.Q.value = 1.5;
+  const frication = ctx.createGain();
+  frication.gain.value = 0;
+  noise.connect(hiss).connect(frication).connect(master);
+
+  const start = ctx.currentTime + 0.03;
+  const total = frames.reduce((sum, f) => sum + f.duration / rate, 0);
+  let time = start;
+  frames.forEach(f => {
+    const duration = f.duration / rate;
+    // Declination: the voice drifts down over the utterance
+    const drift = 1 - 0.08 * ((time - start) / total);
+    glottis.frequency.setValueAtTime(basePitch * f.pitch[0] * drift, time);
+    glottis.frequency.linearRampToValueAtTime(basePitch * f.pitch[1] * drift, time + duration);
+    voice.gain.setTargetAtTime(f.voice, time, 0.008);
+    frication.gain.setTargetAtTime(f.noise, time, 0.005);
+    hiss.frequency.setTargetAtTime(f.noiseFrequency, time, 0.005);
+    resonators.forEach((filter, i) => {
+      filter.frequency.setTargetAtTime(f.formants[i], time, 0.015);
+      filter.Q.setTargetAtTime(f.formants[i] / (60 + 40 * i), time, 0.015);
+    });
+    time += duration;
+  });
+
+  master.gain.setValueAtTime(0, start);
+  master.gain.linearRampToValueAtTime(0.6, start + 0.01);
+  master.gain.setValueAtTime(0.6, time);
+  master.gain.linearRampToValueAtTime(0, time + 0.03);
+  glottis.start(start);
+  noise.start(start);
+  glottis.stop(time + 0.04);
+  noise.stop(time + 0.04);
+
+  let stop: () => void = () => {};
+  await new Promise<void>(resolve => {
+    const finish = () => {
+      master.disconnect();
+      resolve();
+    };
+    glottis.onended = finish;
+    stop = () => {
+      glottis.onended = null;
+      glottis.stop();
+      noise.stop();
+      finish();
+    };
+    stopCurrent = stop;
+  });
+  if (stopCurrent === stop) stopCurrent = null;
+  return unknown;
+};
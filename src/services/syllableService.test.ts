@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { formatSyllabifiedIPA, syllabify } from './syllableService';
+import { Phoneme, PhonologyConfig, StressConfig } from '../types';
+
+const consonant = (symbol: string): Phoneme => ({ symbol, type: 'consonant' });
+const vowel = (symbol: string): Phoneme => ({ symbol, type: 'vowel' });
+
+const phonology = (stress?: StressConfig): PhonologyConfig => ({
+  name: 'Test',
+  description: '',
+  consonants: ['k', 'm', 'r', 't', 'n'].map(consonant),
+  vowels: ['a', 'i', 'u'].map(vowel),
+  syllableStructure: '(C)V(C)',
+  bannedCombinations: [],
+  stress
+});
+
+describe('syllabify', () => {
+  it('splits medial clusters between coda and onset', () => {
+    expect(syllabify('kamra', phonology()).length).toBe(2);
+    expect(formatSyllabifiedIPA('kamra', phonology())).toBe('kam.ra');
+  });
+});
+
+describe('stress', () => {
+  it('adds no stress mark without a stress pattern', () => {
+    expect(formatSyllabifiedIPA('kamatira', phonology())).toBe('ka.ma.ti.ra');
+  });
+
+  it('keeps a stress mark written in the IPA without a pattern', () => {
+    expect(formatSyllabifiedIPA('kaˈmatira', phonology())).toBe('kaˈma.ti.ra');
+  });
+
+  it('places stress by pattern', () => {
+    expect(formatSyllabifiedIPA('kamatira', phonology({ pattern: 'initial' }))).toBe('ˈka.ma.ti.ra');
+    expect(formatSyllabifiedIPA('kamatira', phonology({ pattern: 'penultimate' }))).toBe('ka.maˈti.ra');
+    expect(formatSyllabifiedIPA('kamatira', phonology({ pattern: 'final' }))).toBe('ka.ma.tiˈra');
+  });
+
+  it('stresses a heavy penult under the weight rule, else the antepenult', () => {
+    expect(formatSyllabifiedIPA('kamanta', phonology({ pattern: 'weight' }))).toBe('kaˈman.ta');
+    expect(formatSyllabifiedIPA('kamatira', phonology({ pattern: 'weight' }))).toBe('kaˈma.ti.ra');
+  });
+});
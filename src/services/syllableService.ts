@@ -0,0 +1,238 @@
+import { PhonologyConfig, StressConfig } from "../types";
+import { parseSyllableStructure } from "./wordGeneratorService";
+import { isDiphthong, isToneMark, splitTone, toneLevels } from "./ipaService";
+
+/**
+ * Syllabification and stress placement over IPA strings.
+ * Segments come from the phoneme inventory (longest symbol first, so `tʃ` stays one segment),
+ * consonant clusters are split by maximal onset limited by the syllable structure and sonority.
+ */
+
+export interface Segment {
+  symbol: string;
+  isVowel: boolean;
+  sonority: number;
+}
+
+export interface Syllable {
+  onset: Segment[];
+  nucleus: Segment[];
+  coda: Segment[];
+}
+
+export interface SyllabifiedWord {
+  syllables: Syllable[];
+  stress: number; // Index of the stressed syllable, -1 when there is none
+}
+
+export const STRESS_MARK = 'ˈ';
+export const SECONDARY_STRESS_MARK = 'ˌ';
+export const SYLLABLE_BREAK = '.';
+
+const FALLBACK_VOWELS = 'aeiouyɑɐɒæɛɜɞəɘɵɤɔœøɪʏʊʉɨɯʌɶ';
+// Length, aspiration, ejection, secondary articulation, tone and combining diacritics attach to the previous segment
+const MODIFIERS = 'ːˑʰʲʷˤ˞ⁿˡʼ';
+const SONORITY_BY_MANNER: Record<string, number> = {
+  'plosive': 1,
+  'affricate': 2,
+  'fricative': 2,
+  'lateral-fricative': 2,
+  'nasal': 3,
+  'trill': 4,
+  'tap': 4,
+  'lateral-approximant': 4,
+  'approximant': 5
+};
+const VOWEL_SONORITY = 6;
+// Sonority by symbol when the inventory has no manner for it
+const SONORITY_BY_SYMBOL: Array<[string, number]> = [
+  ['ptkbdgqɢʔcɟʈɖ', 1],
+  ['fvszʃʒθðxɣχʁhɦçʝħʕɸβʂʐɬɮ', 2],
+  ['mnŋɲɳɴɱ', 3],
+  ['lrɾɹɽʀʎɭʟʙ', 4],
+  ['jwʋɰɥ', 5]
+];
+
+const isModifier = (char: string) => MODIFIERS.includes(char) || isToneMark(char) || /[\u0300-\u036f]/.test(char);
+
+const symbolSonority = (symbol: string): number => {
+  const base = symbol.charAt(0);
+  const entry = SONORITY_BY_SYMBOL.find(([chars]) => chars.includes(base));
+  return entry ? entry[1] : 1;
+};
+
+/**
+ * Splits an IPA string into segments. Stress marks and syllable breaks are dropped.
+ * Text is decomposed (NFD) so precomposed letters like `é` split into a vowel and its tone.
+ */
+export const segmentIPA = (ipa: string, phonology?: PhonologyConfig): Segment[] => {
+  const inventory = [...(phonology?.consonants || []), ...(phonology?.vowels || [])]
+    .filter(p => p.symbol)
+    .map(p => ({ ...p, symbol: p.symbol.normalize('NFD') }))
+    .sort((a, b) => b.symbol.length - a.symbol.length);
+  const vowels = new Set((phonology?.vowels || []).map(v => v.symbol.normalize('NFD')));
+  const text = ipa.normalize('NFD').trim().replace(/^[/[]|[/\]]$/g, '').replace(/[ˈˌ.\s]/g, '');
+  const segments: Segment[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const known = inventory.find(p => text.startsWith(p.symbol, i));
+    const symbol = known ? known.symbol : Array.from(text.slice(i))[0];
+    i += symbol.length;
+
+    if (!known && isModifier(symbol) && segments.length > 0) {
+      segments[segments.length - 1].symbol += symbol;
+      continue;
+    }
+
+    const isVowel = known ? known.type === 'vowel' || vowels.has(known.symbol) : FALLBACK_VOWELS.includes(symbol);
+    const sonority = isVowel
+      ? VOWEL_SONORITY
+      : (known?.manner && SONORITY_BY_MANNER[known.manner]) || symbolSonority(symbol);
+    segments.push({ symbol, isVowel, sonority });
+  }
+  return segments;
+};
+
+/** Longest onset and coda the syllable structure allows, e.g. `(C)(C)V(C)` → 2 and 1. */
+export const getSyllableLimits = (structure: string): { maxOnset: number; maxCoda: number } => {
+  const templates = parseSyllableStructure(structure);
+  const limits = templates.map(slots => {
+    const firstV = slots.findIndex(s => s.kind === 'V');
+    const lastV = slots.length - 1 - [...slots].reverse().findIndex(s => s.kind === 'V');
+    if (firstV === -1) return { maxOnset: 0, maxCoda: 0 };
+    return {
+      maxOnset: slots.slice(0, firstV).filter(s => s.kind === 'C' || s.kind === 'class').length,
+      maxCoda: slots.slice(lastV + 1).filter(s => s.kind === 'C' || s.kind === 'class').length
+    };
+  });
+  return {
+    maxOnset: Math.max(0, ...limits.map(l => l.maxOnset)),
+    maxCoda: Math.max(0, ...limits.map(l => l.maxCoda))
+  };
+};
+
+// Onsets must rise in sonority toward the nucleus by at least MIN_SONORITY_RISE
+// (so "pr", "kl" but not "mr"); a leading s is exempt, as in "str"
+const MIN_SONORITY_RISE = 2;
+const isValidOnset = (cluster: Segment[]): boolean =>
+  cluster.every((seg, i) => i === 0 || seg.sonority - cluster[i - 1].sonority >= MIN_SONORITY_RISE || (i === 1 && cluster[0].symbol === 's'));
+
+/**
+ * Splits a word into syllables. Every vowel is a nucleus; consonants between two
+ * nuclei go to the following onset as far as the structure and sonority allow.
+ */
+export const syllabify = (ipa: string, phonology?: PhonologyConfig): Syllable[] => {
+  const segments = segmentIPA(ipa, phonology);
+  const { maxOnset } = getSyllableLimits(phonology?.syllableStructure || '');
+  const nuclei = segments.map((s, i) => (s.isVowel ? i : -1)).filter(i => i !== -1);
+  if (nuclei.length === 0) return segments.length > 0 ? [{ onset: segments, nucleus: [], coda: [] }] : [];
+
+  const syllables: Syllable[] = nuclei.map(i => ({ onset: [], nucleus: [segments[i]], coda: [] }));
+  syllables[0].onset = segments.slice(0, nuclei[0]);
+  syllables[syllables.length - 1].coda = segments.slice(nuclei[nuclei.length - 1] + 1);
+
+  for (let n = 0; n < nuclei.length - 1; n++) {
+    const cluster = segments.slice(nuclei[n] + 1, nuclei[n + 1]);
+    let onsetSize = Math.min(cluster.length, maxOnset);
+    while (onsetSize > 1 && !isValidOnset(cluster.slice(cluster.length - onsetSize))) onsetSize--;
+    syllables[n].coda = cluster.slice(0, cluster.length - onsetSize);
+    syllables[n + 1].onset = cluster.slice(cluster.length - onsetSize);
+  }
+  return syllables;
+};
+
+/** Heavy = closed syllable, long vowel or diphthong (per the weight settings). */
+export const isHeavy = (syllable: Syllable, config?: StressConfig): boolean => {
+  const longVowel = syllable.nucleus.some(s => s.symbol.includes('ː') || isDiphthong(s.symbol)) || syllable.nucleus.length > 1;
+  const closed = syllable.coda.length > 0;
+  return longVowel || (closed && config?.heavyCoda !== false);
+};
+
+/** Index of the syllable stressed in an already-marked IPA string, or -1. */
+const markedStress = (ipa: string, phonology?: PhonologyConfig): number => {
+  const mark = ipa.indexOf(STRESS_MARK);
+  if (mark === -1) return -1;
+  return syllabify(ipa.slice(0, mark), phonology).length;
+};
+
+/**
+ * Chooses the stressed syllable, or -1 for none.
+ * `weight` follows the Latin rule: a heavy penult takes stress, otherwise the antepenult.
+ * `lexical` keeps a `ˈ` already written in the IPA and falls back to the penult.
+ * Without a pattern only a `ˈ` written in the IPA places stress.
+ */
+export const placeStress = (syllables: Syllable[], config?: StressConfig, lexicalIndex = -1): number => {
+  const count = syllables.length;
+  if (count === 0) return -1;
+  const fromEnd = (n: number) => Math.max(0, count - n);
+  if (!config?.pattern) return lexicalIndex < count ? lexicalIndex : -1;
+
+  switch (config.pattern) {
+    case 'initial':
+      return 0;
+    case 'final':
+      return count - 1;
+    case 'antepenultimate':
+      return fromEnd(3);
+    case 'weight':
+      if (count < 3) return 0;
+      return isHeavy(syllables[count - 2], config) ? count - 2 : count - 3;
+    case 'lexical':
+      return lexicalIndex >= 0 && lexicalIndex < count ? lexicalIndex : fromEnd(2);
+    case 'penultimate':
+    default:
+      return fromEnd(2);
+  }
+};
+
+export const analyzeWord = (ipa: string, phonology?: PhonologyConfig): SyllabifiedWord => {
+  const syllables = syllabify(ipa, phonology);
+  return { syllables, stress: placeStress(syllables, phonology?.stress, markedStress(ipa, phonology)) };
+};
+
+const syllableText = (syllable: Syllable) => [...syllable.onset, ...syllable.nucleus, ...syllable.coda].map(s => s.symbol).join('');
+
+/**
+ * Renders IPA with syllable breaks and a primary stress mark, e.g. `kamra` → `ˈkam.ra`.
+ * Monosyllables are left unmarked.
+ */
+export const formatSyllabifiedIPA = (ipa: string, phonology?: PhonologyConfig): string => {
+  const { syllables, stress } = analyzeWord(ipa, phonology);
+  if (syllables.length < 2) return syllables.map(syllableText).join('');
+  return syllables.map((syl, i) => (i === stress ? STRESS_MARK : '') + syllableText(syl)).join(SYLLABLE_BREAK).replace(`${SYLLABLE_BREAK}${STRESS_MARK}`, STRESS_MARK);
+};
+
+/**
+ * Phonotactic check per syllable: onsets and codas longer than the structure allows
+ * (clusters no split could legalise) and words without a nucleus.
+ */
+export const checkSyllables = (ipa: string, phonology?: PhonologyConfig): string[] => {
+  if (!phonology?.syllableStructure?.trim()) return [];
+  const { maxOnset, maxCoda } = getSyllableLimits(phonology.syllableStructure);
+  const issues: string[] = [];
+  syllabify(ipa, phonology).forEach(syl => {
+    const text = syllableText(syl);
+    if (syl.nucleus.length === 0) issues.push(`${text}: no nucleus`);
+    else if (syl.onset.length > maxOnset) issues.push(`${text}: onset ${syl.onset.map(s => s.symbol).join('')} exceeds ${phonology.syllableStructure}`);
+    else if (syl.coda.length > maxCoda) issues.push(`${text}: coda ${syl.coda.map(s => s.symbol).join('')} exceeds ${phonology.syllableStructure}`);
+  });
+  return issues;
+};
+
+/**
+ * Segments and tones the inventory does not list, e.g. `ʔ` in a language without a glottal stop
+ * or a rising tone where only level tones exist. Silent while the inventory (or the tone list) is empty.
+ */
+export const checkInventory = (ipa: string, phonology?: PhonologyConfig): string[] => {
+  const symbols = new Set([...(phonology?.consonants || []), ...(phonology?.vowels || [])].map(p => p.symbol.normalize('NFC')));
+  const tones = new Set((phonology?.tones || []).map(p => toneLevels(p.symbol).join('')));
+  if (symbols.size === 0) return [];
+  const issues = new Set<string>();
+  segmentIPA(ipa, phonology).forEach(seg => {
+    const { base, tone } = splitTone(seg.symbol);
+    if (base && !symbols.has(base)) issues.add(`/${base}/`);
+    if (tone && tones.size > 0 && !tones.has(toneLevels(tone).join(''))) issues.add(`tone ${tone.normalize('NFC')}`);
+  });
+  return Array.from(issues);
+};
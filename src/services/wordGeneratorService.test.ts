@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { containsBannedSequence, isWordAllowed } from './wordGeneratorService';
+import { Phoneme, PhonologyConfig, ProjectConstraints } from '../types';
+
+const consonant = (symbol: string): Phoneme => ({ symbol, type: 'consonant' });
+const vowel = (symbol: string): Phoneme => ({ symbol, type: 'vowel' });
+
+const phonology: PhonologyConfig = {
+  name: 'Test',
+  description: '',
+  consonants: ['p', 't', 'k', 'b', 'd', 'm', 'n', 's'].map(consonant),
+  vowels: ['a', 'i', 'u'].map(vowel),
+  syllableStructure: '(C)V(C)',
+  bannedCombinations: []
+};
+
+const constraints = (overrides: Partial<ProjectConstraints>): ProjectConstraints => ({
+  allowDuplicates: false,
+  caseSensitive: false,
+  bannedSequences: [],
+  allowedGraphemes: '',
+  phonotacticStructure: '',
+  mustStartWith: [],
+  mustEndWith: [],
+  ...overrides
+});
+
+describe('banned sequences', () => {
+  it('matches plain sequences as text', () => {
+    expect(containsBannedSequence('mt', ['a', 'm', 't', 'a'], 'amta', phonology)).toBe(true);
+    expect(containsBannedSequence('MT', ['a', 'm', 't', 'a'], 'amta', phonology, true)).toBe(false);
+  });
+
+  it('matches natural classes segment by segment', () => {
+    expect(containsBannedSequence('[+nasal][-voice]', ['a', 'm', 'p', 'a'], 'ampa', phonology)).toBe(true);
+    expect(containsBannedSequence('[+nasal][-voice]', ['a', 'm', 'b', 'a'], 'amba', phonology)).toBe(false);
+    expect(containsBannedSequence('s[+nasal]', ['a', 's', 'n', 'a'], 'asna', phonology)).toBe(true);
+  });
+
+  it('rejects generated words with a banned class sequence', () => {
+    const bans = constraints({ bannedSequences: ['[+nasal][-voice]'] });
+    expect(isWordAllowed(['a', 'n', 't', 'a'], phonology, bans)).toBe(false);
+    expect(isWordAllowed(['a', 'n', 'd', 'a'], phonology, bans)).toBe(true);
+  });
+});
+
+describe('start and end rules', () => {
+  it('accepts natural classes, C/V and literals', () => {
+    const rules = constraints({ mustStartWith: [{ target: '[+nasal]' }], mustEndWith: [{ target: 'V' }] });
+    expect(isWordAllowed(['m', 'a', 't', 'a'], phonology, rules)).toBe(true);
+    expect(isWordAllowed(['t', 'a', 'm', 'a'], phonology, rules)).toBe(false);
+    expect(isWordAllowed(['m', 'a', 't'], phonology, rules)).toBe(false);
+    const literal = constraints({ mustStartWith: [{ target: 'ta' }] });
+    expect(isWordAllowed(['t', 'a', 'm', 'a'], phonology, literal)).toBe(true);
+  });
+});
@@ -0,0 +1,236 @@
+import { ConstraintRule, Phoneme, PhonologyConfig, ProjectConstraints } from "../types";
+import { matchesFeatures, naturalClassMembers, parseNaturalClass } from "./featureService";
+
+/**
+ * Offline word generator: builds syllables from `PhonologyConfig.syllableStructure`
+ * out of the inventory and filters them through the project constraints.
+ */
+
+export interface GeneratorOptions {
+  count: number;
+  seed?: string; // Same seed + settings = same words
+  weights?: Record<string, number>; // Per-phoneme frequency, default 1
+  minSyllables?: number;
+  maxSyllables?: number;
+  pos?: string; // Selects POS-conditioned start/end rules
+  exclude?: string[]; // Words that already exist
+}
+
+export interface GeneratedWord {
+  word: string;
+  ipa: string;
+}
+
+export interface GeneratorResult {
+  words: GeneratedWord[];
+  attempts: number;
+  error?: string;
+}
+
+type Slot = { kind: 'C' | 'V' | 'class' | 'literal'; value: string; optional: boolean };
+
+const DEFAULT_STRUCTURE = '(C)V(C)';
+const ATTEMPTS_PER_WORD = 200;
+
+/** Deterministic PRNG (mulberry32) seeded from a string hash. */
+export const createRng = (seed: string): (() => number) => {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  let state = h >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** "a=3, t=0.5" → { a: 3, t: 0.5 } */
+export const parseWeights = (text: string): Record<string, number> => {
+  const weights: Record<string, number> = {};
+  text.split(',').forEach(pair => {
+    const [symbol, value] = pair.split('=').map(x => x.trim());
+    const n = Number(value);
+    if (symbol && value !== undefined && !isNaN(n) && n >= 0) weights[symbol] = n;
+  });
+  return weights;
+};
+
+/**
+ * Parses a syllable template. `C`/`V` and natural classes like `[+nasal]` are slots,
+ * parentheses mark optional slots, anything else is copied literally.
+ * Several templates can be given with `,` or `|` (outside brackets).
+ */
+export const parseSyllableStructure = (structure: string): Slot[][] => {
+  const templates = (structure.trim() || DEFAULT_STRUCTURE).split(/[,|](?![^[]*\])/).map(s => s.replace(/\s+/g, '')).filter(Boolean);
+  return templates.map(template => {
+    const slots: Slot[] = [];
+    const chars = Array.from(template);
+    let depth = 0;
+    for (let i = 0; i < chars.length; i++) {
+      const char = chars[i];
+      if (char === '(') { depth++; continue; }
+      if (char === ')') { depth = Math.max(0, depth - 1); continue; }
+      const close = char === '[' ? chars.indexOf(']', i) : -1;
+      if (close > i) {
+        slots.push({ kind: 'class', value: chars.slice(i, close + 1).join(''), optional: depth > 0 });
+        i = close;
+        continue;
+      }
+      const kind = char === 'C' || char === 'V' ? char : 'literal';
+      slots.push({ kind, value: char, optional: depth > 0 });
+    }
+    return slots;
+  });
+};
+
+const pickWeighted = (phonemes: Phoneme[], weights: Record<string, number>, rng: () => number): string => {
+  const scored = phonemes.map(p => ({ symbol: p.symbol, weight: weights[p.symbol] ?? 1 }));
+  const total = scored.reduce((acc, p) => acc + p.weight, 0);
+  if (total <= 0) return '';
+  let roll = rng() * total;
+  for (const p of scored) {
+    roll -= p.weight;
+    if (roll < 0) return p.symbol;
+  }
+  return scored[scored.length - 1].symbol;
+};
+
+const sameSymbol = (a: string, b: string) => a.normalize('NFD') === b.normalize('NFD');
+
+/**
+ * Whether a word's first or last segment satisfies a start/end rule. `C`/`V` and `[+feature]`
+ * targets test the segment against the inventory (or `isVowel`, when the caller already knows),
+ * anything else falls back to `literalMatch`.
+ */
+export const matchesEdge = (rule: ConstraintRule, segment: string, literalMatch: boolean, phonology: PhonologyConfig, isVowel?: boolean): boolean => {
+  if (rule.target === 'C') return isVowel !== undefined ? !isVowel : phonology.consonants.some(p => sameSymbol(p.symbol, segment));
+  if (rule.target === 'V') return isVowel !== undefined ? isVowel : phonology.vowels.some(p => sameSymbol(p.symbol, segment));
+  const spec = parseNaturalClass(rule.target, phonology);
+  if (spec) return [...phonology.consonants, ...phonology.vowels].some(p => sameSymbol(p.symbol, segment) && matchesFeatures(p, spec));
+  return literalMatch;
+};
+
+type BanElement = { kind: 'text'; value: string } | { kind: 'class'; members: string[] };
+
+// Null when the sequence has no `[+feature]` class, i.e. it is plain text
+const parseBannedSequence = (seq: string, phonology: PhonologyConfig): BanElement[] | null => {
+  let hasClass = false;
+  const elements = seq.split(/(\[[^\]]*\])/).filter(Boolean).map((part): BanElement => {
+    const spec = parseNaturalClass(part, phonology);
+    if (!spec) return { kind: 'text', value: part };
+    hasClass = true;
+    return { kind: 'class', members: naturalClassMembers(spec, phonology).map(p => p.symbol) };
+  });
+  return hasClass ? elements : null;
+};
+
+/**
+ * Whether a banned sequence occurs in a word. Plain sequences are searched in `text`; sequences
+ * with natural classes (`[+nasal][+stop]`, `n[-voice]`) are matched segment by segment.
+ */
+export const containsBannedSequence = (seq: string, segments: string[], text: string, phonology: PhonologyConfig, caseSensitive?: boolean): boolean => {
+  const compare = (s: string) => (caseSensitive ? s : s.toLowerCase()).normalize('NFD');
+  const elements = parseBannedSequence(seq, phonology);
+  if (!elements) return compare(text).includes(compare(seq));
+
+  const matchFrom = (start: number, index: number): boolean => {
+    if (index === elements.length) return true;
+    const el = elements[index];
+    if (el.kind === 'class') {
+      return start < segments.length && el.members.some(m => sameSymbol(m, segments[start])) && matchFrom(start + 1, index + 1);
+    }
+    // A literal may span several segments (`ts` against `t` + `s`) but must end on a segment boundary
+    const target = compare(el.value);
+    let joined = '';
+    for (let i = start; i < segments.length; i++) {
+      joined += compare(segments[i]);
+      if (joined === target) return matchFrom(i + 1, index + 1);
+      if (!target.startsWith(joined)) return false;
+    }
+    return false;
+  };
+  return segments.some((_, i) => matchFrom(i, 0));
+};
+
+/** Phonemes a template slot draws from. An unparsable class draws nothing. */
+const slotPhonemes = (slot: Slot, phonology: PhonologyConfig): Phoneme[] => {
+  if (slot.kind === 'C') return phonology.consonants;
+  if (slot.kind === 'V') return phonology.vowels;
+  const spec = parseNaturalClass(slot.value, phonology);
+  return spec ? naturalClassMembers(spec, phonology) : [];
+};
+
+/** Checks a generated word (as a list of segments) against bans and start/end rules. */
+export const isWordAllowed = (segments: string[], phonology: PhonologyConfig, constraints?: ProjectConstraints, pos?: string): boolean => {
+  const word = segments.join('');
+  const banned = [...(phonology.bannedCombinations || []), ...(constraints?.bannedSequences || [])].filter(Boolean);
+  if (banned.some(seq => containsBannedSequence(seq, segments, word, phonology, constraints?.caseSensitive))) return false;
+
+  const applies = (r: ConstraintRule) => !r.conditionPos || r.conditionPos === pos;
+  const starts = (constraints?.mustStartWith || []).filter(applies);
+  if (starts.length > 0 && !starts.some(r => matchesEdge(r, segments[0], word.startsWith(r.target), phonology))) return false;
+  const ends = (constraints?.mustEndWith || []).filter(applies);
+  if (ends.length > 0 && !ends.some(r => matchesEdge(r, segments[segments.length - 1], word.endsWith(r.target), phonology))) return false;
+
+  return true;
+};
+
+/**
+ * Generates up to `options.count` distinct words. Returns fewer (with `error`)
+ * when the inventory or constraints leave too little room.
+ */
+export const generateWordsLocally = (phonology: PhonologyConfig, constraints: ProjectConstraints | undefined, options: GeneratorOptions): GeneratorResult => {
+  if (phonology.vowels.length === 0) {
+    return { words: [], attempts: 0, error: 'The phoneme inventory has no vowels.' };
+  }
+
+  const rng = options.seed ? createRng(options.seed) : Math.random;
+  const weights = options.weights || {};
+  const templates = parseSyllableStructure(phonology.syllableStructure);
+  const minSyllables = Math.max(1, options.minSyllables || 1);
+  const maxSyllables = Math.max(minSyllables, options.maxSyllables || 3);
+  const seen = new Set((options.exclude || []).map(w => w.toLowerCase()));
+  const words: GeneratedWord[] = [];
+  const maxAttempts = options.count * ATTEMPTS_PER_WORD;
+  let attempts = 0;
+
+  const buildSyllable = (): string[] => {
+    const template = templates[Math.floor(rng() * templates.length)];
+    const segments: string[] = [];
+    template.forEach(slot => {
+      if (slot.optional && rng() < 0.5) return;
+      if (slot.kind === 'literal') segments.push(slot.value);
+      else {
+        const symbol = pickWeighted(slotPhonemes(slot, phonology), weights, rng);
+        if (symbol) segments.push(symbol);
+      }
+    });
+    return segments;
+  };
+
+  while (words.length < options.count && attempts < maxAttempts) {
+    attempts++;
+    const syllableCount = minSyllables + Math.floor(rng() * (maxSyllables - minSyllables + 1));
+    const segments: string[] = [];
+    for (let i = 0; i < syllableCount; i++) segments.push(...buildSyllable());
+    if (segments.length === 0) continue;
+
+    const word = segments.join('');
+    if (seen.has(word.toLowerCase())) continue;
+    if (!isWordAllowed(segments, phonology, constraints, options.pos)) continue;
+
+    seen.add(word.toLowerCase());
+    words.push({ word, ipa: word });
+  }
+
+  return {
+    words,
+    attempts,
+    error: words.length < options.count ? `Only ${words.length} of ${options.count} words satisfy the constraints.` : undefined
+  };
+};
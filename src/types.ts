@@ -22,6 +22,14 @@ export enum PartOfSpeech {
   OTHER = 'Other'
 }
 
+/** A pronunciation recording; the audio itself lives in IndexedDB under `id`. */
+export interface EntryRecording {
+  id: string;
+  mimeType: string;
+  duration: number; // Seconds
+  peaks: number[]; // Waveform overview, 0..1
+}
+
 export interface LexiconEntry {
   id: string;
   word: string;
@@ -31,6 +39,7 @@ export interface LexiconEntry {
   etymology?: string; 
   derivedFrom?: string; 
   notes?: string;
+  recording?: EntryRecording;
 }
 
 export interface LogEntry {
@@ -57,16 +66,56 @@ export interface GlyphStroke {
     label?: string; // For layer identification
     imageUrl?: string; // For image layers
     opacity?: number; // For image layers
+    fill?: 'nonzero' | 'evenodd'; // Filled outline instead of a stroked line (imported fonts and SVGs)
 }
 
 export interface ScriptGlyph {
-    char: string; 
+    char: string; // A single character, or a name such as "th" or "a.init" for ligatures and alternates
     pua: string; 
     strokes: GlyphStroke[]; 
     width?: number; 
     viewWidth?: number; 
-    imageUrl?: string; // Deprecated but kept for migration compatibility
     fontOverride?: boolean; 
+    mark?: boolean; // Combining mark: no advance, drawn over the preceding base glyph
+    anchor?: { x: number; y: number }; // Where marks attach on this base glyph (canvas units)
+    markAnchor?: { x: number; y: number }; // Point of this mark placed on the base anchor
+    leftBearing?: number; // Space before the ink (canvas units); unset keeps the glyph where it was drawn
+    rightBearing?: number; // Space after the ink; unset uses viewWidth
+}
+
+export type GlyphForm = 'isolated' | 'initial' | 'medial' | 'final';
+
+/** Replaces a character sequence with a named glyph, optionally only in a word position or context. */
+export interface GlyphSubstitution {
+    id: string;
+    input: string; // Characters to match, e.g. "th"
+    output: string; // ScriptGlyph.char to draw
+    form?: GlyphForm;
+    before?: string; // Any of these characters must precede
+    after?: string; // Any of these characters must follow
+}
+
+/** Guide line across the glyph canvas; nodes snap to it while paths are edited. */
+export interface ScriptGuide {
+    id: string;
+    axis: 'horizontal' | 'vertical';
+    position: number; // Canvas units
+    label?: string;
+}
+
+/** Vertical metric lines of the script, as canvas y positions (y grows downward). */
+export interface ScriptMetrics {
+    ascender: number;
+    xHeight: number;
+    baseline: number;
+    descender: number;
+}
+
+export interface KerningPair {
+    id: string;
+    left: string; // ScriptGlyph.char
+    right: string;
+    value: number; // Canvas units added between the two glyphs; negative tightens
 }
 
 export interface ScriptConfig {
@@ -76,11 +125,21 @@ export interface ScriptConfig {
     fontFamily?: string; 
     fontData?: string; 
     spacingMode?: 'mono' | 'proportional'; 
+    substitutions?: GlyphSubstitution[]; // Ligatures, digraphs and contextual forms, longest match first
+    guides?: ScriptGuide[];
+    metrics?: ScriptMetrics;
+    kerning?: KerningPair[];
 }
 
+export type PhonemeCategory =
+  | 'pulmonic' | 'affricate' | 'coarticulated' | 'click' | 'implosive' | 'ejective'
+  | 'monophthong' | 'long' | 'nasal' | 'diphthong'
+  | 'level' | 'contour';
+
 export interface Phoneme {
   symbol: string;
-  type: 'consonant' | 'vowel';
+  type: 'consonant' | 'vowel' | 'tone';
+  category?: PhonemeCategory; // Chart section; derived from the symbol when unset
   manner?: string; 
   place?: string;  
   voiced?: boolean;
@@ -88,15 +147,35 @@ export interface Phoneme {
   backness?: string; 
   rounded?: boolean;
   description?: string; 
+  features?: Record<string, FeatureValue>; // Overrides of the IPA feature table (see featureService)
 }
 
+export type FeatureValue = '+' | '-' | '0'; // '0' = unspecified
+
 export interface PhonologyConfig {
   name: string;
   description: string;
   consonants: Phoneme[];
   vowels: Phoneme[];
+  tones?: Phoneme[]; // Suprasegmental: tone letters (˥˩) or tone diacritics on a vowel
   syllableStructure: string; 
   bannedCombinations: string[];
+  orthography?: OrthographyRule[]; // Spelling → IPA table
+  stress?: StressConfig;
+}
+
+export type StressPattern = 'initial' | 'final' | 'penultimate' | 'antepenultimate' | 'weight' | 'lexical';
+
+export interface StressConfig {
+  pattern: StressPattern;
+  heavyCoda?: boolean; // Closed syllables count as heavy for `weight` (default true)
+}
+
+export interface OrthographyRule {
+  id: string;
+  grapheme: string; // Letter or digraph as written
+  phoneme: string; // IPA; empty for silent letters
+  environment?: string; // Optional context over the spelling, e.g. `_[ei]` or `#_`
 }
 
 export interface SoundChangeRule {
@@ -108,6 +187,17 @@ export interface SoundChangeRule {
 export interface MorphologyState {
   dimensions: MorphDimension[];
   paradigms: MorphParadigm[];
+  boundaryRules?: BoundaryRule[]; // Morphophonemic rules run after affixation
+}
+
+export interface BoundaryRule {
+  id: string;
+  type: 'sound-change' | 'harmony' | 'epenthesis';
+  enabled: boolean;
+  rule?: string; // Sound-change notation, `+` marks the morpheme boundary
+  feature?: 'backness' | 'rounded' | 'both'; // Harmony
+  epenthetic?: string; // Segment inserted to break banned sequences
+  description?: string;
 }
 
 export interface MorphDimension {
@@ -116,10 +206,19 @@ export interface MorphDimension {
   values: string[]; 
 }
 
+export type AffixOperation = 'prefix' | 'suffix' | 'infix' | 'circumfix' | 'reduplication' | 'replacement';
+
 export interface InflectionRule {
   coordinates: Record<string, string>; 
   affix: string; 
   isPrefix: boolean;
+  operation?: AffixOperation; // Older rules fall back to isPrefix
+  affixEnd?: string; // Closing half of a circumfix
+  infixAt?: { unit: 'position' | 'vowel' | 'syllable'; index: number }; // 1-based, negative counts from the end
+  reduplication?: 'full' | 'cv' | 'syllable'; // Placed before or after the root by isPrefix
+  replacements?: Array<{ from: string; to: string }>; // Ablaut / umlaut
+  replaceScope?: 'first' | 'last' | 'all';
+  suppletive?: Record<string, string>; // Root -> irregular form, overrides the operation
   logic?: {
       pos?: string; 
       regex?: string; 
@@ -161,25 +260,66 @@ export interface CustomTheme {
     accent: string;
 }
 
+/** Playback of IPA through the built-in synthesizer. */
+export interface SpeechSettings {
+  rate: number; // 1 is the normal speed
+  pitch: number; // Base pitch of the voice in Hz
+}
+
 export interface AppSettings {
   theme: 'dark' | 'light' | 'tokyo-night' | 'tokyo-light' | 'custom';
   customTheme?: CustomTheme;
   autoSave: boolean;
   showLineNumbers: boolean;
   enableAI: boolean; 
+  speech?: SpeechSettings;
+}
+
+export interface LanguageData {
+  id: string;
+  name: string;
+  parentId?: string; // Undefined for proto/root languages
+  lexicon: LexiconEntry[];
+  phonology?: PhonologyConfig;
+  morphology: MorphologyState;
+  scriptConfig?: ScriptConfig;
+  evolutionRules: SoundChangeRule[]; // Sound changes on the branch from the parent to this language
+}
+
+/** An interlinear example: text, morpheme segmentation, Leipzig gloss and free translation. */
+export interface GlossedExample {
+  id: string;
+  text: string;
+  segmentation: string; // Morphemes split with - = ~ <> as in Leipzig, words by spaces
+  gloss: string; // One gloss word per segmented word
+  translation: string;
+}
+
+/** A named Notebook manuscript. */
+export interface NotebookDocument {
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  created: number;
+  modified: number;
 }
 
 export interface ProjectData {
-  version: string;
+  version: string; // File format version, upgraded on load by schemaService
   name: string;
   author: string;
   description: string;
-  lexicon: LexiconEntry[];
+  lexicon: LexiconEntry[]; // Active language, mirrored for single-language readers
   grammar: string;
   phonology?: PhonologyConfig; 
   morphology: MorphologyState; 
-  evolutionRules: SoundChangeRule[];
+  evolutionRules: SoundChangeRule[]; // Working set edited in GenEvolve
   constraints: ProjectConstraints; 
   scriptConfig?: ScriptConfig; 
+  languages?: LanguageData[];
+  activeLanguageId?: string;
+  glossedExamples?: GlossedExample[]; // Interlinear examples from the Notebook
+  notebookDocuments?: NotebookDocument[];
   lastModified: number;
 }